@@ -1,25 +1,112 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import "./App.css";
 import { GroupingScreen } from "./components/grouping/GroupingScreen";
+import { BatchSourcesPanel } from "./components/import/BatchSourcesPanel";
+import { MappingTemplatesBar } from "./components/import/MappingTemplatesBar";
 import { MappingPanel } from "./components/import/MappingPanel";
+import { ModelingScreen } from "./components/modeling/ModelingScreen";
+import {
+  ReportScreen,
+  type GeneratedReportSummary
+} from "./components/report/ReportScreen";
 import { ValidationScreen } from "./components/validation/ValidationScreen";
+import {
+  createAuditEntry,
+  fromChronological,
+  mergeAuditEntries
+} from "./lib/audit/auditLog";
+import {
+  getActiveTrailId,
+  loadAuditTrail,
+  saveAuditTrail,
+  startNewTrail
+} from "./lib/audit/auditStore";
+import { describeFitsForAudit } from "./lib/audit/replay";
+import { AuditPanel, type AuditReplaySession } from "./components/audit/AuditPanel";
 import { buildColumnSummaries } from "./lib/columnScan/buildColumnSummaries";
+import {
+  attachUncertainty,
+  haveSameParameters,
+  mergeFitRecords,
+  upsertFitRecord
+} from "./lib/fitting/fitRecords";
 import {
   applyMappingToDataset,
+  getTimeColumnIndexFor,
   normalizeMappingTable,
   type MappingError,
   type MappingSelection,
   type MappingStats
 } from "./lib/import/mapping";
-import { parseFile } from "./lib/import/parseFile";
-import type { AuditEntry, Dataset, RawTable } from "./lib/import/types";
+import { formatCsvDialect, type CsvDialect } from "./lib/import/csvDialect";
+import { formatTableLayout } from "./lib/import/tableLayout";
+import { parseFile, type ParseFileResult } from "./lib/import/parseFile";
+import {
+  applyBatchMapping,
+  createBatchSources,
+  getBatchSourceLabel,
+  labelBatchSources,
+  type BatchSource,
+  type BatchSourceResult
+} from "./lib/import/batch";
+import {
+  createMappingTemplate,
+  loadMappingTemplates,
+  resolveMappingTemplate,
+  saveMappingTemplates,
+  suggestMappingTemplate,
+  type MappingTemplate
+} from "./lib/import/mappingTemplates";
+import {
+  PROJECT_FILE_EXTENSION,
+  fromProjectBatchSources,
+  getProjectFileName,
+  parseProject,
+  serializeProject,
+  toProjectBatchSources,
+  type ProjectMapping,
+  type ProjectStep
+} from "./lib/project/projectFile";
+import {
+  applyFix,
+  getAppliedFixes,
+  revertFixes,
+  type FixActionId
+} from "./lib/import/fixes";
+import { getSeriesRole, setSeriesRole, type SeriesRole } from "./lib/import/seriesRole";
+import {
+  getPreprocessingSteps,
+  preprocessExperiments,
+  setPreprocessingSteps,
+  type PreprocessingStep
+} from "./lib/preprocessing/pipeline";
+import type { AuditEntry, Dataset, Experiment, RawTable, Series } from "./lib/import/types";
+import {
+  applyPointChange,
+  getPointRefs,
+  type ExclusionReason,
+  type PointChange,
+  type PointRef
+} from "./lib/import/provenance";
 import type { ValidationReport } from "./lib/import/validation";
+import {
+  DEFAULT_VALIDATION_PROFILE_ID,
+  getValidationProfile,
+  isValidationProfileId,
+  type ValidationProfileId
+} from "./lib/import/validationProfiles";
 import { generateImportValidationReport } from "./lib/import/validation";
 import type { ColumnScanPayload } from "./types/columnScan";
+import type {
+  DatasetArrheniusRecord,
+  DatasetFitRecord,
+  FitUncertainty
+} from "./types/fitting";
+import type { ExperimentGroup } from "./types/grouping";
 
 // UI reference draft: design/kinetik-researcher.design-draft.html
 
-type StepKey = "import" | "validation" | "grouping" | "modeling" | "report";
+type StepKey = ProjectStep;
 
 const steps: { key: StepKey; label: string; description: string }[] = [
   { key: "import", label: "Import", description: "Rohdaten laden & zuweisen" },
@@ -29,13 +116,6 @@ const steps: { key: StepKey; label: string; description: string }[] = [
   { key: "report", label: "Report", description: "Zusammenfassung" }
 ];
 
-const createAuditEntry = (type: string, payload: Record<string, unknown>): AuditEntry => ({
-  id: `audit-${Math.random().toString(36).slice(2, 10)}`,
-  ts: new Date().toISOString(),
-  type,
-  payload
-});
-
 const createDatasetShell = (
   fileName: string,
   createdAt = new Date()
@@ -47,6 +127,9 @@ const createDatasetShell = (
   audit: []
 });
 
+const getFitSignature = (records: DatasetFitRecord[]): string =>
+  records.map((record) => `${record.id}=${Object.values(record.parameters).join(",")}`).join("|");
+
 const findDefaultTimeColumn = (headers: string[]): number | null => {
   const index = headers.findIndex((header) => /\b(time|t)\b/i.test(header.trim()));
   return index >= 0 ? index : null;
@@ -55,13 +138,23 @@ const findDefaultTimeColumn = (headers: string[]): number | null => {
 function App() {
   const [activeStep, setActiveStep] = useState<StepKey>("import");
   const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditTrailId, setAuditTrailId] = useState(getActiveTrailId);
+  const [auditRestored, setAuditRestored] = useState(false);
   const [dataset, setDataset] = useState<Dataset | null>(null);
   const [rawTables, setRawTables] = useState<RawTable[]>([]);
   const [activeRawTable, setActiveRawTable] = useState<RawTable | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
+  const [projectError, setProjectError] = useState<string | null>(null);
   const [importFileName, setImportFileName] = useState<string | null>(null);
   const [importFileType, setImportFileType] = useState<string | null>(null);
+  const [csvDialect, setCsvDialect] = useState<CsvDialect | null>(null);
+  const [importerLabel, setImporterLabel] = useState<string | null>(null);
+  const [importProgress, setImportProgress] = useState<number | null>(null);
   const [availableSheets, setAvailableSheets] = useState<string[]>([]);
+  const [batchSources, setBatchSources] = useState<BatchSource[]>([]);
+  const [batchResults, setBatchResults] = useState<BatchSourceResult[] | null>(null);
+  const [mappingTemplates, setMappingTemplates] = useState<MappingTemplate[]>(loadMappingTemplates);
+  const [appliedTemplate, setAppliedTemplate] = useState<MappingTemplate | null>(null);
   const [selectedSheet, setSelectedSheet] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [mappingSelection, setMappingSelection] = useState<MappingSelection>({
@@ -77,7 +170,15 @@ function App() {
   const [lastAppliedSelection, setLastAppliedSelection] =
     useState<MappingSelection | null>(null);
   const [importReport, setImportReport] = useState<ValidationReport | null>(null);
+  const [validationProfileId, setValidationProfileId] = useState<ValidationProfileId>(
+    DEFAULT_VALIDATION_PROFILE_ID
+  );
+  const [groups, setGroups] = useState<ExperimentGroup[]>([]);
+  const [conditionColumns, setConditionColumns] = useState<string[]>([]);
   const mappingPanelRef = useRef<HTMLDivElement | null>(null);
+  // Set before swapping the raw table so the reset effect restores this mapping instead.
+  const pendingMappingRef = useRef<ProjectMapping | null>(null);
+  const lastFitSignatureRef = useRef("");
 
   const normalizedActiveTable = useMemo(
     () =>
@@ -86,8 +187,17 @@ function App() {
         : null,
     [activeRawTable, mappingSelection.firstRowIsHeader]
   );
+  const includedBatchSources = batchSources.filter((source) => source.included);
+  const suggestedTemplate = useMemo(
+    () =>
+      activeRawTable
+        ? suggestMappingTemplate(mappingTemplates, activeRawTable, importFileType)
+        : null,
+    [activeRawTable, importFileType, mappingTemplates]
+  );
+  // Grouping and modeling work on the preprocessed series; the dataset keeps the raw values.
   const importedExperiments = useMemo(
-    () => dataset?.experiments ?? [],
+    () => preprocessExperiments(dataset?.experiments ?? []),
     [dataset?.experiments]
   );
 
@@ -95,6 +205,33 @@ function App() {
     setDataset((prev) => (prev ? { ...prev, audit: auditEntries } : prev));
   }, [auditEntries]);
 
+  useEffect(() => {
+    let cancelled = false;
+    loadAuditTrail(getActiveTrailId())
+      .then((stored) => {
+        if (!cancelled && stored.length > 0) {
+          setAuditEntries((prev) => mergeAuditEntries(prev, stored));
+        }
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        if (!cancelled) {
+          setAuditRestored(true);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    // Saving before the restore finished would only write a partial trail.
+    if (!auditRestored) {
+      return;
+    }
+    saveAuditTrail(auditTrailId, auditEntries).catch(() => undefined);
+  }, [auditEntries, auditRestored, auditTrailId]);
+
   const columnScanPayload = useMemo<ColumnScanPayload | null>(() => {
     if (!normalizedActiveTable) {
       return null;
@@ -114,12 +251,16 @@ function App() {
       values: valueHeaders,
       experiment: getHeader(mappingSelection.experimentColumnIndex)
     };
+    const pairedTimeHeaders = mappingSelection.valueColumnIndices.map((index) =>
+      getHeader(getTimeColumnIndexFor(mappingSelection, index))
+    );
     const knownStructuralColumns = Array.from(
       new Set(
         [
           structuralSummary.time,
           structuralSummary.experiment,
-          ...structuralSummary.values
+          ...structuralSummary.values,
+          ...pairedTimeHeaders
         ].filter(
           (value): value is string => typeof value === "string" && value.trim().length > 0
         )
@@ -138,6 +279,17 @@ function App() {
     if (!activeRawTable) {
       return;
     }
+    const pendingMapping = pendingMappingRef.current;
+    if (pendingMapping) {
+      pendingMappingRef.current = null;
+      setMappingSelection(pendingMapping.selection);
+      setMappingErrors([]);
+      setMappingStats(pendingMapping.stats);
+      setMappingSuccess(pendingMapping.lastAppliedSelection ? pendingMapping.stats : null);
+      setMappingSuccessShown(true);
+      setLastAppliedSelection(pendingMapping.lastAppliedSelection);
+      return;
+    }
     setMappingSelection({
       firstRowIsHeader: true,
       timeColumnIndex: findDefaultTimeColumn(activeRawTable.headers),
@@ -150,6 +302,7 @@ function App() {
     setMappingSuccessShown(false);
     setLastAppliedSelection(null);
     setImportReport(null);
+    setAppliedTemplate(null);
   }, [activeRawTable]);
 
   useEffect(() => {
@@ -179,7 +332,14 @@ function App() {
       current.timeColumnIndex === last.timeColumnIndex &&
       current.experimentColumnIndex === last.experimentColumnIndex &&
       current.valueColumnIndices.length === last.valueColumnIndices.length &&
-      current.valueColumnIndices.every((value, index) => value === last.valueColumnIndices[index])
+      current.valueColumnIndices.every(
+        (value, index) => value === last.valueColumnIndices[index]
+      ) &&
+      (current.layout ?? "long") === (last.layout ?? "long") &&
+      JSON.stringify(current.pairedTimeColumns ?? {}) ===
+        JSON.stringify(last.pairedTimeColumns ?? {}) &&
+      JSON.stringify(current.columnExperiments ?? {}) ===
+        JSON.stringify(last.columnExperiments ?? {})
     );
   };
 
@@ -187,6 +347,7 @@ function App() {
     setMappingSelection(next);
     setMappingErrors([]);
     setMappingStats(null);
+    setBatchResults(null);
     if (mappingSuccess && !isSameSelection(next, lastAppliedSelection)) {
       setMappingSuccess(null);
       setMappingSuccessShown(false);
@@ -194,69 +355,191 @@ function App() {
     }
   };
 
-  const handleFileUpload = async (file: File) => {
+  const handleApplyTemplate = (template: MappingTemplate): boolean => {
+    const selection = activeRawTable ? resolveMappingTemplate(template, activeRawTable) : null;
+    if (!selection) {
+      return false;
+    }
+    handleMappingSelectionChange(selection);
+    setAppliedTemplate(template);
+    setAuditEntries((prev) => [
+      createAuditEntry("MAPPING_TEMPLATE_APPLIED", {
+        templateId: template.id,
+        name: template.name,
+        suggested: template.id === suggestedTemplate?.id
+      }),
+      ...prev
+    ]);
+    return true;
+  };
+
+  const handleSaveTemplate = (name: string, generalizeNumbers: boolean) => {
+    if (!normalizedActiveTable) {
+      return;
+    }
+    const template = createMappingTemplate({
+      name,
+      headers: normalizedActiveTable.headers,
+      selection: mappingSelection,
+      fileType: importFileType,
+      generalizeNumbers
+    });
+    // Saving under an existing name replaces that template.
+    const nextTemplates = [
+      ...mappingTemplates.filter((item) => item.name !== template.name),
+      template
+    ];
+    saveMappingTemplates(nextTemplates);
+    setMappingTemplates(nextTemplates);
+    setAppliedTemplate(template);
+    setAuditEntries((prev) => [
+      createAuditEntry("MAPPING_TEMPLATE_SAVED", {
+        templateId: template.id,
+        name: template.name,
+        fileType: template.fileType
+      }),
+      ...prev
+    ]);
+  };
+
+  const handleDeleteTemplate = (templateId: string) => {
+    const nextTemplates = mappingTemplates.filter((template) => template.id !== templateId);
+    saveMappingTemplates(nextTemplates);
+    setMappingTemplates(nextTemplates);
+    if (appliedTemplate?.id === templateId) {
+      setAppliedTemplate(null);
+    }
+  };
+
+  const handleFilesUpload = async (files: File[]) => {
+    const [firstFile] = files;
+    if (!firstFile) {
+      return;
+    }
+    const isBatch = files.length > 1;
+    const importName = isBatch ? `${files.length} Dateien` : firstFile.name;
     setImportError(null);
-    setImportFileName(file.name);
+    setImportFileName(importName);
     setImportFileType(null);
+    setCsvDialect(null);
+    setImporterLabel(null);
+    setImportProgress(0);
     setRawTables([]);
     setActiveRawTable(null);
     setAvailableSheets([]);
     setSelectedSheet(null);
+    setBatchSources([]);
+    setBatchResults(null);
+    setConditionColumns([]);
     setMappingSuccess(null);
     setMappingSuccessShown(false);
     setLastAppliedSelection(null);
-    const uploadEntry = createAuditEntry("FILE_UPLOADED", {
-      fileName: file.name,
-      fileType: file.name.split(".").pop()?.toLowerCase()
-    });
 
-    try {
-      const result = await parseFile(file);
+    // Newest first, like the audit trail itself.
+    const newEntries: AuditEntry[] = [];
+    const parsedFiles: { file: File; result: ParseFileResult }[] = [];
+    const failures: string[] = [];
+    for (const [index, file] of files.entries()) {
+      newEntries.unshift(
+        createAuditEntry("FILE_UPLOADED", {
+          fileName: file.name,
+          fileType: file.name.split(".").pop()?.toLowerCase()
+        })
+      );
+      try {
+        const result = await parseFile(file, {
+          onProgress: ({ loadedBytes, totalBytes }) =>
+            setImportProgress(
+              totalBytes > 0 ? (index + loadedBytes / totalBytes) / files.length : null
+            )
+        });
+        parsedFiles.push({ file, result });
+        newEntries.unshift(
+          createAuditEntry("FILE_PARSED", {
+            fileName: file.name,
+            fileType: result.fileType,
+            sheet: result.activeTable.sheetName ?? "Sheet1",
+            ...(result.activeTable.layout ? { range: result.activeTable.layout.range } : {}),
+            ...(result.csvDialect ? { csvDialect: result.csvDialect } : {})
+          })
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown parse error.";
+        failures.push(isBatch ? `${file.name}: ${message}` : message);
+        newEntries.unshift(createAuditEntry("FILE_PARSE_FAILED", { fileName: file.name, message }));
+      }
+    }
+    setImportProgress(null);
+    if (failures.length > 0) {
+      setImportError(failures.join(" "));
+    }
+    if (parsedFiles.length === 0) {
+      setAuditEntries((prev) => [...newEntries, ...prev]);
+      return;
+    }
+
+    const sources = createBatchSources(
+      parsedFiles.map(({ file, result }) => ({
+        fileName: file.name,
+        tables: result.rawTables,
+        activeTable: result.activeTable
+      }))
+    );
+    if (isBatch) {
+      const labelledSources = labelBatchSources(sources);
+      const fileTypes = Array.from(new Set(parsedFiles.map(({ result }) => result.fileType)));
+      setImportFileType(fileTypes.length === 1 ? fileTypes[0] : "gemischt");
+      setBatchSources(labelledSources);
+      setRawTables(labelledSources.map((source) => source.table));
+      setActiveRawTable(labelledSources[0].table);
+      setAvailableSheets(labelledSources.map(getBatchSourceLabel));
+      setSelectedSheet(getBatchSourceLabel(labelledSources[0]));
+    } else {
+      const { result } = parsedFiles[0];
       setImportFileType(result.fileType);
+      setCsvDialect(result.csvDialect);
+      setImporterLabel(result.importerLabel);
+      setBatchSources(sources);
       setRawTables(result.rawTables);
       setActiveRawTable(result.activeTable);
       setAvailableSheets(result.sheetNames);
       setSelectedSheet(result.activeTable.sheetName ?? result.sheetNames[0] ?? null);
+    }
 
-      const parsedEntry = createAuditEntry("FILE_PARSED", {
-        fileName: file.name,
-        fileType: result.fileType,
-        sheet: result.activeTable.sheetName ?? "Sheet1"
-      });
-
-      setAuditEntries((prev) => {
-        const nextAuditEntries = [parsedEntry, uploadEntry, ...prev];
-        setDataset((current) => {
-          if (current) {
-            return { ...current, experiments: [], name: file.name, audit: nextAuditEntries };
-          }
-          const shell = createDatasetShell(file.name);
-          return { ...shell, audit: nextAuditEntries };
-        });
-        return nextAuditEntries;
-      });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown parse error.";
-      setImportError(message);
-      const failedEntry = createAuditEntry("FILE_PARSE_FAILED", {
-        fileName: file.name,
-        message
+    setAuditEntries((prev) => {
+      const nextAuditEntries = [...newEntries, ...prev];
+      setDataset((current) => {
+        if (current) {
+          return { ...current, experiments: [], name: importName, audit: nextAuditEntries };
+        }
+        const shell = createDatasetShell(importName);
+        return { ...shell, audit: nextAuditEntries };
       });
-      setAuditEntries((prev) => [failedEntry, uploadEntry, ...prev]);
-    }
+      return nextAuditEntries;
+    });
   };
 
   const handleResetImport = () => {
+    // The next import is logged in a trail of its own; the old one stays in IndexedDB.
+    setAuditTrailId(startNewTrail());
+    setAuditEntries([]);
+    lastFitSignatureRef.current = "";
     setActiveStep("import");
     setImportError(null);
     setImportReport(null);
+    setGroups([]);
     setDataset(null);
     setRawTables([]);
     setActiveRawTable(null);
     setImportFileName(null);
     setImportFileType(null);
+    setCsvDialect(null);
+    setImporterLabel(null);
     setAvailableSheets([]);
     setSelectedSheet(null);
+    setBatchSources([]);
+    setBatchResults(null);
+    setConditionColumns([]);
     setMappingSelection({
       firstRowIsHeader: true,
       timeColumnIndex: null,
@@ -276,6 +559,19 @@ function App() {
     if (!table || !importFileName) {
       return;
     }
+    if (includedBatchSources.length > 1) {
+      // The shared mapping stays while browsing the tables of a batch.
+      pendingMappingRef.current = {
+        selection: mappingSelection,
+        lastAppliedSelection,
+        stats: mappingStats
+      };
+      setActiveRawTable(table);
+      return;
+    }
+    setBatchSources((current) =>
+      current.map((source) => ({ ...source, included: source.table === table }))
+    );
     setActiveRawTable(table);
     setDataset((current) => {
       if (!current) {
@@ -285,7 +581,78 @@ function App() {
     });
   };
 
+  const updateBatchSource = (sourceId: string, update: Partial<BatchSource>) => {
+    setBatchSources((current) =>
+      current.map((source) => (source.id === sourceId ? { ...source, ...update } : source))
+    );
+    setBatchResults(null);
+  };
+
+  const handleShowBatchSource = (sourceId: string) => {
+    const source = batchSources.find((item) => item.id === sourceId);
+    if (source?.table.sheetName) {
+      handleSheetChange(source.table.sheetName);
+    }
+  };
+
+  const handleApplyBatchMapping = () => {
+    if (!importFileName) {
+      return;
+    }
+    const result = applyBatchMapping({
+      sources: includedBatchSources,
+      selection: mappingSelection,
+      datasetName: importFileName,
+      datasetId: dataset?.id,
+      createdAt: dataset?.createdAt
+    });
+
+    setMappingErrors(result.errors);
+    setMappingStats(result.dataset ? result.stats : null);
+    setMappingSuccess(null);
+    setMappingSuccessShown(false);
+    setBatchResults(result.sources);
+
+    if (!result.dataset) {
+      return;
+    }
+
+    const report = generateImportValidationReport(result.dataset, validationProfileId);
+    const mappingEntry = createAuditEntry("BATCH_MAPPING_APPLIED", {
+      name: importFileName,
+      selection: mappingSelection,
+      template: appliedTemplate?.name ?? null,
+      sources: includedBatchSources.map((source) => ({
+        fileName: source.fileName,
+        sheet: source.sheetName,
+        selection: source.selection,
+        experimentCount:
+          result.sources.find((item) => item.sourceId === source.id)?.stats.experimentCount ?? 0
+      })),
+      experimentCount: result.stats.experimentCount,
+      seriesCount: result.stats.seriesCount,
+      pointCount: result.stats.pointCount
+    });
+    const reportEntry = createAuditEntry("IMPORT_REPORT_GENERATED", {
+      status: report.status,
+      profile: validationProfileId,
+      summary: `${report.status} · ${report.counts.experiments} experiments, ${report.counts.series} series, ${report.counts.points} points, ${report.counts.droppedPoints} dropped.`
+    });
+
+    const nextAuditEntries = [reportEntry, mappingEntry, ...auditEntries];
+    setImportReport(report);
+    setGroups([]);
+    setAuditEntries(nextAuditEntries);
+    setDataset({ ...result.dataset, audit: nextAuditEntries });
+    setMappingSuccess(result.stats);
+    setLastAppliedSelection(mappingSelection);
+  };
+
   const handleApplyMapping = () => {
+    if (includedBatchSources.length > 1) {
+      handleApplyBatchMapping();
+      return;
+    }
     if (!activeRawTable || !importFileName) {
       return;
     }
@@ -306,8 +673,12 @@ function App() {
       return;
     }
 
-    const report = generateImportValidationReport(result.dataset);
+    const report = generateImportValidationReport(result.dataset, validationProfileId);
     const mappingEntry = createAuditEntry("MAPPING_APPLIED", {
+      fileName: importFileName,
+      sheet: activeRawTable.sheetName ?? null,
+      selection: mappingSelection,
+      template: appliedTemplate?.name ?? null,
       timeColumn: result.resolvedColumns.time,
       valueColumns: result.resolvedColumns.values,
       experimentColumn: result.resolvedColumns.experiment,
@@ -317,11 +688,13 @@ function App() {
     });
     const reportEntry = createAuditEntry("IMPORT_REPORT_GENERATED", {
       status: report.status,
+      profile: validationProfileId,
       summary: `${report.status} · ${report.counts.experiments} experiments, ${report.counts.series} series, ${report.counts.points} points, ${report.counts.droppedPoints} dropped.`
     });
 
     const nextAuditEntries = [reportEntry, mappingEntry, ...auditEntries];
     setImportReport(report);
+    setGroups([]);
     setAuditEntries(nextAuditEntries);
     setDataset({ ...result.dataset, audit: nextAuditEntries });
     setMappingSuccess(result.stats);
@@ -343,6 +716,416 @@ function App() {
     setActiveStep("grouping");
   };
 
+  // Exclusions and fixes change the dataset itself, so grouping, fits and the report only
+  // see the corrected points.
+  const updateSeries = (
+    experimentId: string,
+    seriesId: string,
+    update: (series: Series) => Series,
+    describe: (experiment: Experiment, series: Series, updated: Series) => AuditEntry
+  ) => {
+    const experiment = dataset?.experiments.find((item) => item.experimentId === experimentId);
+    const series = experiment?.series.find((item) => item.id === seriesId);
+    if (!dataset || !experiment || !series) {
+      return;
+    }
+    const updated = update(series);
+    const nextDataset: Dataset = {
+      ...dataset,
+      experiments: dataset.experiments.map((item) =>
+        item === experiment
+          ? {
+              ...item,
+              series: item.series.map((entry) => (entry === series ? updated : entry))
+            }
+          : item
+      ),
+      // Fits stay valid as long as the points and their preprocessing are the same.
+      fits:
+        updated.time === series.time &&
+        updated.y === series.y &&
+        updated.meta?.preprocessing === series.meta?.preprocessing
+          ? dataset.fits
+          : dataset.fits?.filter(
+              (fit) => fit.experimentId !== experimentId || fit.seriesId !== seriesId
+            )
+    };
+    const nextAuditEntries = [describe(experiment, series, updated), ...auditEntries];
+    setAuditEntries(nextAuditEntries);
+    setDataset({ ...nextDataset, audit: nextAuditEntries });
+    setImportReport(generateImportValidationReport(nextDataset, validationProfileId));
+  };
+
+  const handlePointChange = (experimentId: string, seriesId: string, change: PointChange) => {
+    if (change.points.length === 0) {
+      return;
+    }
+    updateSeries(
+      experimentId,
+      seriesId,
+      (series) => applyPointChange(series, change),
+      (experiment, series) =>
+        createAuditEntry(change.action === "exclude" ? "POINTS_EXCLUDED" : "POINTS_INCLUDED", {
+          experiment: experiment.name ?? experiment.experimentId,
+          series: series.name,
+          experimentId,
+          seriesId,
+          ...(change.action === "exclude" ? { reason: change.reason } : {}),
+          points: change.points
+        })
+    );
+  };
+
+  const handleApplyFix = (experimentId: string, seriesId: string, fixId: FixActionId) =>
+    updateSeries(
+      experimentId,
+      seriesId,
+      (series) => applyFix(series, fixId),
+      (experiment, series, updated) =>
+        createAuditEntry("VALIDATION_FIX_APPLIED", {
+          experiment: experiment.name ?? experiment.experimentId,
+          series: series.name,
+          experimentId,
+          seriesId,
+          fix: fixId,
+          pointCountBefore: series.time.length,
+          pointCountAfter: updated.time.length
+        })
+    );
+
+  const handleRevertFixes = (experimentId: string, seriesId: string) =>
+    updateSeries(
+      experimentId,
+      seriesId,
+      revertFixes,
+      (experiment, series) =>
+        createAuditEntry("VALIDATION_FIXES_REVERTED", {
+          experiment: experiment.name ?? experiment.experimentId,
+          series: series.name,
+          experimentId,
+          seriesId,
+          fixes: getAppliedFixes(series).map((fix) => fix.id)
+        })
+    );
+
+  const handleSetSeriesRole = (experimentId: string, seriesId: string, role: SeriesRole | null) =>
+    updateSeries(
+      experimentId,
+      seriesId,
+      (series) => setSeriesRole(series, role),
+      (experiment, series) =>
+        createAuditEntry("SERIES_ROLE_SET", {
+          experiment: experiment.name ?? experiment.experimentId,
+          series: series.name,
+          experimentId,
+          seriesId,
+          previousRole: getSeriesRole(series),
+          role
+        })
+    );
+
+  const handleChangePreprocessing = (
+    experimentId: string,
+    seriesId: string,
+    change: { action: "add"; step: PreprocessingStep } | { action: "remove"; index: number }
+  ) =>
+    updateSeries(
+      experimentId,
+      seriesId,
+      (series) => {
+        const steps = getPreprocessingSteps(series);
+        return setPreprocessingSteps(
+          series,
+          change.action === "add"
+            ? [...steps, change.step]
+            : steps.filter((_, index) => index !== change.index)
+        );
+      },
+      (experiment, series, updated) =>
+        createAuditEntry(
+          change.action === "add" ? "PREPROCESSING_STEP_ADDED" : "PREPROCESSING_STEP_REMOVED",
+          {
+            experiment: experiment.name ?? experiment.experimentId,
+            series: series.name,
+            experimentId,
+            seriesId,
+            ...(change.action === "add"
+              ? { step: change.step }
+              : { index: change.index, step: getPreprocessingSteps(series)[change.index] }),
+            steps: getPreprocessingSteps(updated)
+          }
+        )
+    );
+
+  const handleSelectValidationProfile = (profileId: ValidationProfileId) => {
+    if (profileId === validationProfileId) {
+      return;
+    }
+    const report = dataset ? generateImportValidationReport(dataset, profileId) : null;
+    setValidationProfileId(profileId);
+    setImportReport(report);
+    setAuditEntries((prev) => [
+      createAuditEntry("VALIDATION_PROFILE_SELECTED", {
+        profile: profileId,
+        label: getValidationProfile(profileId).label,
+        previousProfile: validationProfileId,
+        status: report?.status ?? null
+      }),
+      ...prev
+    ]);
+  };
+
+  const handleExcludePoints = (
+    experimentId: string,
+    seriesId: string,
+    pointIndices: number[],
+    reason: ExclusionReason
+  ) => {
+    const series = dataset?.experiments
+      .find((item) => item.experimentId === experimentId)
+      ?.series.find((item) => item.id === seriesId);
+    if (series) {
+      handlePointChange(experimentId, seriesId, {
+        action: "exclude",
+        reason,
+        points: getPointRefs(series, pointIndices)
+      });
+    }
+  };
+
+  const handleIncludePoints = (experimentId: string, seriesId: string, points: PointRef[]) =>
+    handlePointChange(experimentId, seriesId, { action: "include", points });
+
+  const handleConfirmGroups = () => {
+    const confirmedGroups = groups.filter((group) => group.experimentIds.length > 0);
+    const experimentNames = new Map(
+      importedExperiments.map((experiment) => [
+        experiment.experimentId,
+        experiment.name ?? experiment.experimentId
+      ])
+    );
+    setAuditEntries((prev) => [
+      createAuditEntry("GROUPS_CONFIRMED", {
+        groups: confirmedGroups.map((group) => ({
+          name: group.name,
+          experiments: group.experimentIds.map((id) => experimentNames.get(id) ?? id)
+        }))
+      }),
+      ...prev
+    ]);
+    setGroups(confirmedGroups);
+    setActiveStep("modeling");
+  };
+
+  const handleFitsComputed = useCallback(
+    (records: DatasetFitRecord[]) => {
+      // Only single-series fits are audited and replayed; global fits follow from them.
+      const rateLawRecords = records.filter((record) => !record.kind);
+      const signature = getFitSignature(rateLawRecords);
+      if (rateLawRecords.length > 0 && signature !== lastFitSignatureRef.current) {
+        lastFitSignatureRef.current = signature;
+        setAuditEntries((prev) => [
+          createAuditEntry("FITS_COMPUTED", {
+            fits: describeFitsForAudit(importedExperiments, rateLawRecords)
+          }),
+          ...prev
+        ]);
+      }
+      setDataset((current) =>
+        current ? { ...current, fits: mergeFitRecords(current.fits ?? [], records) } : current
+      );
+    },
+    [importedExperiments]
+  );
+
+  const handleFitRecordComputed = useCallback((record: DatasetFitRecord) => {
+    setDataset((current) =>
+      current ? { ...current, fits: upsertFitRecord(current.fits ?? [], record) } : current
+    );
+  }, []);
+
+  const handleArrheniusComputed = useCallback((record: DatasetArrheniusRecord | null) => {
+    setDataset((current) => (current ? { ...current, arrhenius: record ?? undefined } : current));
+  }, []);
+
+  const handleUncertaintyComputed = (
+    recordId: string,
+    uncertainty: FitUncertainty,
+    parameters: Record<string, number>
+  ) => {
+    const record = dataset?.fits?.find((item) => item.id === recordId);
+    if (!record || !haveSameParameters(record.parameters, parameters)) {
+      return;
+    }
+    setDataset((current) =>
+      current
+        ? {
+            ...current,
+            fits: attachUncertainty(current.fits ?? [], recordId, uncertainty, parameters)
+          }
+        : current
+    );
+    setAuditEntries((prev) => [
+      createAuditEntry("FIT_UNCERTAINTY_COMPUTED", {
+        kind: record.kind ?? "rate-law",
+        experimentId: record?.experimentId ?? null,
+        seriesId: record?.seriesId ?? null,
+        modelId: record?.modelId ?? null,
+        confidence: uncertainty.confidence,
+        bootstrapIterations: uncertainty.bootstrap.iterations,
+        bootstrapSeed: uncertainty.bootstrap.seed,
+        bootstrapIntervals: uncertainty.bootstrap.intervals,
+        profileIntervals: uncertainty.profile.intervals
+      }),
+      ...prev
+    ]);
+  };
+
+  const handleAuditExported = (entryCount: number) => {
+    setAuditEntries((prev) => [createAuditEntry("AUDIT_EXPORTED", { entryCount }), ...prev]);
+  };
+
+  const handleAuditReplay = (session: AuditReplaySession) => {
+    const { result } = session;
+    const replayEntry = createAuditEntry("AUDIT_REPLAYED", {
+      fileName: session.fileName,
+      replayedEntries: session.entries.length,
+      fitChecks: result.fitChecks.length,
+      reproducedFits: result.fitChecks.filter((check) => check.matches).length,
+      issues: result.issues
+    });
+    const nextAuditEntries = [replayEntry, ...fromChronological(session.entries)];
+    // The replayed log continues as its own trail instead of mixing into the current one.
+    setAuditTrailId(startNewTrail());
+    setAuditEntries(nextAuditEntries);
+    lastFitSignatureRef.current = getFitSignature(result.dataset.fits ?? []);
+    pendingMappingRef.current = {
+      selection: result.selection,
+      lastAppliedSelection: result.selection,
+      stats: result.stats
+    };
+    setImportError(null);
+    setImportFileName(session.fileName);
+    setImportFileType(session.fileType);
+    setCsvDialect(null);
+    setImporterLabel(null);
+    setBatchResults(null);
+    if (result.sources.length > 0) {
+      const labelledSources = labelBatchSources(result.sources);
+      setBatchSources(labelledSources);
+      setRawTables(labelledSources.map((source) => source.table));
+      setAvailableSheets(labelledSources.map(getBatchSourceLabel));
+      setSelectedSheet(getBatchSourceLabel(labelledSources[0]));
+      setActiveRawTable(labelledSources[0].table);
+    } else {
+      setBatchSources([]);
+      setRawTables(session.rawTables);
+      setAvailableSheets(session.sheetNames);
+      setSelectedSheet(result.table.sheetName ?? session.sheetNames[0] ?? null);
+      setActiveRawTable(result.table);
+    }
+    setDataset({ ...result.dataset, audit: nextAuditEntries });
+    setValidationProfileId(result.validationProfileId);
+    setImportReport(generateImportValidationReport(result.dataset, result.validationProfileId));
+    setGroups(result.groups);
+    setActiveStep(result.fitChecks.length > 0 ? "modeling" : "validation");
+  };
+
+  const handleSaveProject = () => {
+    if (!importFileName || rawTables.length === 0) {
+      return;
+    }
+    const savedAt = new Date();
+    const fileName = getProjectFileName(importFileName, savedAt);
+    const savedEntry = createAuditEntry("PROJECT_SAVED", { fileName, step: activeStep });
+    const nextAuditEntries = [savedEntry, ...auditEntries];
+    const text = serializeProject(
+      {
+        step: activeStep,
+        source: {
+          fileName: importFileName,
+          fileType: importFileType,
+          sheetNames: availableSheets,
+          selectedSheet
+        },
+        rawTables,
+        mapping: {
+          selection: mappingSelection,
+          lastAppliedSelection,
+          stats: mappingStats
+        },
+        batchSources: toProjectBatchSources(batchSources, rawTables),
+        dataset: { ...(dataset ?? createDatasetShell(importFileName)), audit: nextAuditEntries },
+        validationReport: importReport,
+        groups,
+        conditionColumns
+      },
+      savedAt
+    );
+    setAuditEntries(nextAuditEntries);
+    const url = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = fileName;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleOpenProject = async (file: File) => {
+    try {
+      const project = parseProject(await file.text());
+      setProjectError(null);
+      const activeTable =
+        project.rawTables.find((table) => table.sheetName === project.source.selectedSheet) ??
+        project.rawTables[0] ??
+        null;
+      const loadedEntry = createAuditEntry("PROJECT_LOADED", {
+        fileName: file.name,
+        savedAt: project.savedAt,
+        step: project.step
+      });
+      const nextAuditEntries = [loadedEntry, ...project.dataset.audit];
+      const experiments = project.dataset.experiments;
+      setAuditTrailId(startNewTrail());
+      setAuditEntries(nextAuditEntries);
+      lastFitSignatureRef.current = getFitSignature(project.dataset.fits ?? []);
+      pendingMappingRef.current = activeTable ? project.mapping : null;
+      setImportError(null);
+      setImportFileName(project.source.fileName);
+      setImportFileType(project.source.fileType);
+      setCsvDialect(null);
+      setImporterLabel(null);
+      setRawTables(project.rawTables);
+      setBatchSources(fromProjectBatchSources(project));
+      setBatchResults(null);
+      setAvailableSheets(project.source.sheetNames);
+      setSelectedSheet(project.source.selectedSheet);
+      setActiveRawTable(activeTable);
+      const profileId = project.validationReport?.profile?.id;
+      const nextProfileId = isValidationProfileId(profileId)
+        ? profileId
+        : DEFAULT_VALIDATION_PROFILE_ID;
+      setDataset({ ...project.dataset, audit: nextAuditEntries });
+      setValidationProfileId(nextProfileId);
+      setImportReport(
+        project.validationReport ??
+          (experiments.length > 0
+            ? generateImportValidationReport(project.dataset, nextProfileId)
+            : null)
+      );
+      setGroups(project.groups);
+      setConditionColumns(project.conditionColumns);
+      // Later steps need experiments; fall back to import if the project has none.
+      setActiveStep(experiments.length > 0 || project.step === "import" ? project.step : "import");
+    } catch (error) {
+      setProjectError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleReportGenerated = (summary: GeneratedReportSummary) => {
+    setAuditEntries((prev) => [createAuditEntry("REPORT_GENERATED", summary), ...prev]);
+  };
+
   const handleContinueToValidation = () => {
     setActiveStep("validation");
   };
@@ -376,10 +1159,7 @@ function App() {
           onDrop={(event) => {
             event.preventDefault();
             setIsDragging(false);
-            const file = event.dataTransfer.files[0];
-            if (file) {
-              void handleFileUpload(file);
-            }
+            void handleFilesUpload(Array.from(event.dataTransfer.files));
           }}
         >
           <div className="upload-icon" aria-hidden>
@@ -389,21 +1169,26 @@ function App() {
               <line x1="12" y1="3" x2="12" y2="15" />
             </svg>
           </div>
-          <h3>Datei ablegen oder auswählen</h3>
+          <h3>Dateien ablegen oder auswählen</h3>
           <p className="muted">
-            CSV oder Excel (.xlsx), max. 50MB. Verarbeitung erfolgt lokal auf deinem Gerät.
+            CSV, Excel (.xlsx) oder Geräte-Export (HPLC, UV-Vis, ReactIR, JCAMP-DX), max. 50MB je
+            Datei. Mehrere Dateien werden gemeinsam in einen Datensatz importiert. Verarbeitung
+            erfolgt lokal auf deinem Gerät.
           </p>
+          {importProgress !== null && (
+            <p className="meta" role="status">
+              Datei wird gelesen… {Math.round(importProgress * 100)} %
+            </p>
+          )}
           <div className="upload-actions">
             <label className="btn btn-primary file-picker">
-              Datei wählen
+              Dateien wählen
               <input
                 type="file"
-                accept=".csv,.xlsx"
+                accept=".csv,.tsv,.txt,.xlsx,.jdx,.dx,.jcamp,.asc"
+                multiple
                 onChange={(event) => {
-                  const file = event.target.files?.[0];
-                  if (file) {
-                    void handleFileUpload(file);
-                  }
+                  void handleFilesUpload(Array.from(event.target.files ?? []));
                   event.target.value = "";
                 }}
               />
@@ -425,14 +1210,18 @@ function App() {
             <div>
               <p className="eyebrow">Datei geladen</p>
               <h3>{importFileName}</h3>
-              <p className="muted">Schnellcheck: Typ {importFileType ?? "unbekannt"}</p>
+              <p className="muted">
+                Schnellcheck: Typ {importerLabel ?? importFileType ?? "unbekannt"}
+                {csvDialect && ` · ${formatCsvDialect(csvDialect)}`}
+                {activeRawTable.layout && ` · ${formatTableLayout(activeRawTable.layout)}`}
+              </p>
             </div>
             <div className="file-meta">
               <div className="pill">{activeRawTable.rows.length} Zeilen</div>
               <div className="pill">{activeRawTable.headers.length} Spalten</div>
               {availableSheets.length > 1 && (
                 <label className="sheet-select">
-                  Blatt wählen
+                  Blatt / Block wählen
                   <select
                     value={selectedSheet ?? ""}
                     onChange={(event) => handleSheetChange(event.target.value)}
@@ -452,6 +1241,23 @@ function App() {
           </div>
 
           <div className="card-body">
+            {batchSources.length > 1 && (
+              <BatchSourcesPanel
+                sources={batchSources}
+                results={batchResults}
+                activeTable={activeRawTable}
+                onToggle={(sourceId) =>
+                  updateBatchSource(sourceId, {
+                    included: !batchSources.find((source) => source.id === sourceId)?.included
+                  })
+                }
+                onShow={handleShowBatchSource}
+                onPinSelection={(sourceId) =>
+                  updateBatchSource(sourceId, { selection: mappingSelection })
+                }
+                onResetSelection={(sourceId) => updateBatchSource(sourceId, { selection: null })}
+              />
+            )}
             <div className="headers-preview">
               <p className="muted">Gefundene Spalten</p>
               <div className="chip-row">
@@ -466,6 +1272,16 @@ function App() {
               </div>
             </div>
 
+            <MappingTemplatesBar
+              templates={mappingTemplates}
+              suggestedTemplate={suggestedTemplate}
+              appliedTemplate={appliedTemplate}
+              canSave={mappingSelection.valueColumnIndices.length > 0}
+              onApply={handleApplyTemplate}
+              onSave={handleSaveTemplate}
+              onDelete={handleDeleteTemplate}
+            />
+
             <div ref={mappingPanelRef} tabIndex={-1} className="mapping-anchor">
               <MappingPanel
                 table={activeRawTable}
@@ -498,6 +1314,19 @@ function App() {
           onBackToMapping={handleBackToMapping}
           onContinue={handleContinueFromValidation}
           disableContinue={Boolean(importReport?.status === "broken")}
+          onExcludePoints={handleExcludePoints}
+          onIncludePoints={handleIncludePoints}
+          onApplyFix={handleApplyFix}
+          onRevertFixes={handleRevertFixes}
+          onSetSeriesRole={handleSetSeriesRole}
+          validationProfileId={validationProfileId}
+          onSelectValidationProfile={handleSelectValidationProfile}
+          onAddPreprocessingStep={(experimentId, seriesId, step) =>
+            handleChangePreprocessing(experimentId, seriesId, { action: "add", step })
+          }
+          onRemovePreprocessingStep={(experimentId, seriesId, index) =>
+            handleChangePreprocessing(experimentId, seriesId, { action: "remove", index })
+          }
         />
       );
     }
@@ -507,18 +1336,37 @@ function App() {
         <GroupingScreen
           experiments={importedExperiments}
           columnScanPayload={columnScanPayload}
+          groups={groups}
+          onGroupsChange={setGroups}
+          onConfirmGroups={handleConfirmGroups}
+          onConditionColumnsChange={setConditionColumns}
+        />
+      );
+    }
+
+    if (activeStep === "modeling") {
+      return (
+        <ModelingScreen
+          experiments={importedExperiments}
+          groups={groups}
+          conditionColumns={conditionColumns}
+          fitRecords={dataset?.fits}
+          arrheniusRecord={dataset?.arrhenius}
+          onFitsComputed={handleFitsComputed}
+          onFitRecordComputed={handleFitRecordComputed}
+          onArrheniusComputed={handleArrheniusComputed}
+          onUncertaintyComputed={handleUncertaintyComputed}
         />
       );
     }
 
     return (
-      <div className="placeholder-card">
-        <h3>Schritt in Arbeit</h3>
-        <p className="muted">
-          Dieser Schritt wird im nächsten Iterationspaket auf das neue Design gebracht. Nutze
-          vorerst die validierten Daten als Basis.
-        </p>
-      </div>
+      <ReportScreen
+        dataset={dataset}
+        groups={groups}
+        validationProfileId={validationProfileId}
+        onReportGenerated={handleReportGenerated}
+      />
     );
   };
 
@@ -542,8 +1390,32 @@ function App() {
               <h1>Projekt „Researcher Draft“</h1>
             </div>
           </div>
-          <div className="user-pill" aria-label="Nutzer:in">
-            JD
+          <div className="header-actions">
+            <label className="btn btn-ghost file-picker">
+              Projekt öffnen
+              <input
+                type="file"
+                accept={`${PROJECT_FILE_EXTENSION},.json`}
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) {
+                    void handleOpenProject(file);
+                  }
+                  event.target.value = "";
+                }}
+              />
+            </label>
+            <button
+              type="button"
+              className="btn btn-ghost"
+              onClick={handleSaveProject}
+              disabled={!importFileName || rawTables.length === 0}
+            >
+              Projekt speichern
+            </button>
+            <div className="user-pill" aria-label="Nutzer:in">
+              JD
+            </div>
           </div>
         </div>
       </header>
@@ -578,7 +1450,18 @@ function App() {
       </div>
 
       <main className="main-container">
+        {projectError && (
+          <div className="inline-error project-error" role="alert">
+            <p className="error-title">Projekt konnte nicht geladen werden.</p>
+            <p className="muted">{projectError}</p>
+          </div>
+        )}
         <section className="workspace-panel">{renderStepContent()}</section>
+        <AuditPanel
+          entries={auditEntries}
+          onExported={handleAuditExported}
+          onReplay={handleAuditReplay}
+        />
       </main>
     </div>
   );
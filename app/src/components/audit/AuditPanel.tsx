@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { parseAuditLog, serializeAuditLog } from "../../lib/audit/auditLog";
+import { replayAuditLog, type AuditReplayResult } from "../../lib/audit/replay";
+import { parseFile, type ParseFileResult } from "../../lib/import/parseFile";
+import type { AuditEntry, RawTable } from "../../lib/import/types";
+
+export type AuditReplaySession = {
+  result: AuditReplayResult;
+  /** Replayed log in file (chronological) order. */
+  entries: AuditEntry[];
+  /** Tables and sheets of the first raw file; batch replays use result.sources. */
+  rawTables: RawTable[];
+  sheetNames: string[];
+  fileName: string;
+  fileType: string;
+};
+
+type AuditPanelProps = {
+  entries: AuditEntry[];
+  onExported?: (entryCount: number) => void;
+  onReplay: (session: AuditReplaySession) => void;
+};
+
+const downloadText = (text: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+export const AuditPanel = ({ entries, onExported, onReplay }: AuditPanelProps) => {
+  const [auditFile, setAuditFile] = useState<File | null>(null);
+  const [rawFiles, setRawFiles] = useState<File[]>([]);
+  const [replaying, setReplaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastReplay, setLastReplay] = useState<AuditReplayResult | null>(null);
+
+  const handleExport = () => {
+    downloadText(
+      serializeAuditLog(entries),
+      `audit-trail-${new Date().toISOString().slice(0, 10)}.jsonl`,
+      "application/x-ndjson"
+    );
+    onExported?.(entries.length);
+  };
+
+  const handleReplay = async () => {
+    const [firstFile] = rawFiles;
+    if (!auditFile || !firstFile) {
+      return;
+    }
+    setReplaying(true);
+    setError(null);
+    try {
+      const replayEntries = parseAuditLog(await auditFile.text());
+      const parsedFiles: ParseFileResult[] = [];
+      for (const file of rawFiles) {
+        parsedFiles.push(await parseFile(file));
+      }
+      const result = replayAuditLog({
+        entries: replayEntries,
+        files: parsedFiles.map((parsed, index) => ({
+          fileName: rawFiles[index].name,
+          rawTables: parsed.rawTables
+        }))
+      });
+      const fileTypes = Array.from(new Set(parsedFiles.map((parsed) => parsed.fileType)));
+      setLastReplay(result);
+      onReplay({
+        result,
+        entries: replayEntries,
+        rawTables: parsedFiles[0].rawTables,
+        sheetNames: parsedFiles[0].sheetNames,
+        fileName: rawFiles.length > 1 ? `${rawFiles.length} Dateien` : firstFile.name,
+        fileType: fileTypes.length === 1 ? fileTypes[0] : "gemischt"
+      });
+    } catch (replayError) {
+      setLastReplay(null);
+      setError(replayError instanceof Error ? replayError.message : "Replay fehlgeschlagen.");
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  const reproducedFits = lastReplay?.fitChecks.filter((check) => check.matches).length ?? 0;
+
+  return (
+    <section className="card audit-panel" aria-labelledby="audit-heading">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">Audit-Trail</p>
+          <h3 id="audit-heading">{entries.length} Einträge</h3>
+          <p className="muted">
+            Wird lokal im Browser gespeichert und übersteht ein Neuladen der Seite.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="btn btn-ghost"
+          onClick={handleExport}
+          disabled={entries.length === 0}
+        >
+          Als JSONL exportieren
+        </button>
+      </div>
+      <div className="card-body audit-replay">
+        <p className="meta">
+          Replay: Audit-Datei und Original-Rohdatei(en) laden, um Mapping, Gruppierung und Fits
+          nachzurechnen. Für einen Stapel-Import alle Dateien des Stapels wählen.
+        </p>
+        <div className="audit-replay-inputs">
+          <label className="field">
+            Audit-Datei (.jsonl)
+            <input
+              type="file"
+              accept=".jsonl,.ndjson,.txt"
+              onChange={(event) => setAuditFile(event.target.files?.[0] ?? null)}
+            />
+          </label>
+          <label className="field">
+            Rohdatei(en) (.csv, .tsv, .xlsx)
+            <input
+              type="file"
+              multiple
+              accept=".csv,.tsv,.txt,.xlsx,.jdx,.dx,.jcamp,.asc"
+              onChange={(event) => setRawFiles(Array.from(event.target.files ?? []))}
+            />
+          </label>
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={() => void handleReplay()}
+            disabled={!auditFile || rawFiles.length === 0 || replaying}
+          >
+            {replaying ? "Rechne nach…" : "Replay starten"}
+          </button>
+        </div>
+        {error && (
+          <div className="inline-error" role="alert">
+            <p className="error-title">Replay nicht möglich.</p>
+            <p>{error}</p>
+          </div>
+        )}
+        {lastReplay && (
+          <div className="audit-replay-result">
+            <p className="meta">
+              Replay abgeschlossen: {lastReplay.stats.experimentCount} Experimente,{" "}
+              {lastReplay.groups.length} Gruppen, {reproducedFits}/{lastReplay.fitChecks.length}{" "}
+              Fits identisch reproduziert.
+            </p>
+            {lastReplay.issues.length > 0 && (
+              <ul className="audit-issues">
+                {lastReplay.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
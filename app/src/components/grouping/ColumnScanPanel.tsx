@@ -3,6 +3,7 @@ import type { ColumnScanPayload, ColumnScanResult } from "../../types/columnScan
 
 type ColumnScanPanelProps = {
   payload: ColumnScanPayload | null;
+  onConditionColumnsChange?: (columns: string[]) => void;
 };
 
 const roleLabels: Record<ColumnScanResult["columnRoles"][string], string> = {
@@ -14,7 +15,7 @@ const roleLabels: Record<ColumnScanResult["columnRoles"][string], string> = {
 const formatRatio = (ratio: number): string =>
   Number.isFinite(ratio) ? `${(ratio * 100).toFixed(1)}% non-null` : "n/a";
 
-export const ColumnScanPanel = ({ payload }: ColumnScanPanelProps) => {
+export const ColumnScanPanel = ({ payload, onConditionColumnsChange }: ColumnScanPanelProps) => {
   const [includeComments, setIncludeComments] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -43,6 +44,15 @@ export const ColumnScanPanel = ({ payload }: ColumnScanPanelProps) => {
     }
   }, [result]);
 
+  // Without a scan result the caller keeps its columns, e.g. those restored from a project.
+  useEffect(() => {
+    if (result) {
+      onConditionColumnsChange?.(
+        selectedColumnsFinal.filter((name) => result.columnRoles[name] === "condition")
+      );
+    }
+  }, [onConditionColumnsChange, result, selectedColumnsFinal]);
+
   const knownStructuralSummary = useMemo(() => {
     if (!payload) {
       return [];
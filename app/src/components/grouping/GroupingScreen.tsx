@@ -1,17 +1,47 @@
+import { useMemo } from "react";
 import type { Experiment } from "../../types/experiment";
 import type { ColumnScanPayload } from "../../types/columnScan";
+import type { ExperimentGroup } from "../../types/grouping";
+import { createGroup, groupExperimentsByMeta } from "../../lib/grouping/groups";
 import { ColumnScanPanel } from "./ColumnScanPanel";
 
 type GroupingScreenProps = {
   experiments: Experiment[];
   columnScanPayload: ColumnScanPayload | null;
+  groups: ExperimentGroup[];
+  onGroupsChange: (groups: ExperimentGroup[]) => void;
+  onConfirmGroups: () => void;
+  onConditionColumnsChange?: (columns: string[]) => void;
 };
 
-export const GroupingScreen = ({ experiments, columnScanPayload }: GroupingScreenProps) => {
+export const GroupingScreen = ({
+  experiments,
+  columnScanPayload,
+  groups,
+  onGroupsChange,
+  onConfirmGroups,
+  onConditionColumnsChange
+}: GroupingScreenProps) => {
   if (import.meta.env.DEV) {
     console.info("[grouping] first experiment shape", experiments?.[0]);
   }
 
+  const availableMetaKeys = useMemo(
+    () => Array.from(new Set(experiments.flatMap((experiment) => Object.keys(experiment.metaRaw)))),
+    [experiments]
+  );
+
+  const updateGroup = (groupId: string, update: Partial<ExperimentGroup>) => {
+    onGroupsChange(groups.map((group) => (group.id === groupId ? { ...group, ...update } : group)));
+  };
+
+  const toggleMembership = (group: ExperimentGroup, experimentId: string) => {
+    const experimentIds = group.experimentIds.includes(experimentId)
+      ? group.experimentIds.filter((id) => id !== experimentId)
+      : [...group.experimentIds, experimentId];
+    updateGroup(group.id, { experimentIds });
+  };
+
   return (
     <section className="grouping-screen">
       <header>
@@ -21,7 +51,10 @@ export const GroupingScreen = ({ experiments, columnScanPayload }: GroupingScree
 
       <div className="grouping-actions">
         <div className="experiment-card">
-          <ColumnScanPanel payload={columnScanPayload} />
+          <ColumnScanPanel
+            payload={columnScanPayload}
+            onConditionColumnsChange={onConditionColumnsChange}
+          />
         </div>
       </div>
 
@@ -31,30 +64,127 @@ export const GroupingScreen = ({ experiments, columnScanPayload }: GroupingScree
           <p>Import data and complete mapping to review grouping suggestions.</p>
         </div>
       ) : (
-        <ul className="experiment-list">
-          {experiments.map((experiment) => {
-            const metadataKeys = Object.keys(experiment.metaRaw);
-            return (
-              <li key={experiment.experimentId} className="experiment-card">
-                <div>
-                  <h4>{experiment.name ?? "Untitled experiment"}</h4>
-                  <p className="meta">
-                    Series: {experiment.series.length} · Metadata keys: {metadataKeys.length}
-                  </p>
-                </div>
-                {metadataKeys.length > 0 && (
-                  <div className="meta">
-                    {metadataKeys.slice(0, 3).map((key) => (
-                      <span key={key} className="chip">
-                        {key}: {String(experiment.metaRaw[key])}
-                      </span>
-                    ))}
+        <>
+          <ul className="experiment-list">
+            {experiments.map((experiment) => {
+              const metadataKeys = Object.keys(experiment.metaRaw);
+              return (
+                <li key={experiment.experimentId} className="experiment-card">
+                  <div>
+                    <h4>{experiment.name ?? "Untitled experiment"}</h4>
+                    <p className="meta">
+                      Series: {experiment.series.length} · Metadata keys: {metadataKeys.length}
+                    </p>
                   </div>
-                )}
-              </li>
-            );
-          })}
-        </ul>
+                  {metadataKeys.length > 0 && (
+                    <div className="meta">
+                      {metadataKeys.slice(0, 3).map((key) => (
+                        <span key={key} className="chip">
+                          {key}: {String(experiment.metaRaw[key])}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="group-toolbar">
+            <h4>Gruppen</h4>
+            <div className="group-toolbar-actions">
+              {availableMetaKeys.length > 0 && (
+                <label className="sheet-select">
+                  Nach Metadaten gruppieren
+                  <select
+                    value=""
+                    onChange={(event) => {
+                      if (event.target.value) {
+                        onGroupsChange(groupExperimentsByMeta(experiments, event.target.value));
+                      }
+                    }}
+                  >
+                    <option value="">Schlüssel wählen</option>
+                    {availableMetaKeys.map((key) => (
+                      <option key={key} value={key}>
+                        {key}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <button
+                type="button"
+                className="btn btn-ghost"
+                onClick={() =>
+                  onGroupsChange([
+                    ...groups,
+                    createGroup(`Gruppe ${groups.length + 1}`, [], groups.length)
+                  ])
+                }
+              >
+                Neue Gruppe +
+              </button>
+            </div>
+          </div>
+
+          {groups.length === 0 ? (
+            <p className="meta">
+              Noch keine Gruppen. Lege eine an oder gruppiere nach einem Metadaten-Schlüssel.
+            </p>
+          ) : (
+            <div className="group-grid">
+              {groups.map((group) => (
+                <article
+                  key={group.id}
+                  className="experiment-card group-card"
+                  style={{ borderTopColor: group.color }}
+                >
+                  <header className="group-card-header">
+                    <input
+                      className="group-name"
+                      value={group.name}
+                      aria-label="Gruppenname"
+                      onChange={(event) => updateGroup(group.id, { name: event.target.value })}
+                    />
+                    <button
+                      type="button"
+                      className="btn btn-ghost danger"
+                      onClick={() => onGroupsChange(groups.filter((item) => item.id !== group.id))}
+                    >
+                      Entfernen
+                    </button>
+                  </header>
+                  <ul className="group-members">
+                    {experiments.map((experiment) => (
+                      <li key={experiment.experimentId}>
+                        <label className="checkbox">
+                          <input
+                            type="checkbox"
+                            checked={group.experimentIds.includes(experiment.experimentId)}
+                            onChange={() => toggleMembership(group, experiment.experimentId)}
+                          />
+                          {experiment.name ?? "Untitled experiment"}
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </article>
+              ))}
+            </div>
+          )}
+
+          <div className="validation-actions">
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={onConfirmGroups}
+              disabled={groups.every((group) => group.experimentIds.length === 0)}
+            >
+              Gruppen bestätigen
+            </button>
+          </div>
+        </>
       )}
     </section>
   );
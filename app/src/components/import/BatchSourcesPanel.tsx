@@ -0,0 +1,96 @@
+import {
+  getBatchSourceLabel,
+  type BatchSource,
+  type BatchSourceResult
+} from "../../lib/import/batch";
+
+type BatchSourcesPanelProps = {
+  sources: BatchSource[];
+  results: BatchSourceResult[] | null;
+  activeTable: BatchSource["table"] | null;
+  onToggle: (sourceId: string) => void;
+  onShow: (sourceId: string) => void;
+  onPinSelection: (sourceId: string) => void;
+  onResetSelection: (sourceId: string) => void;
+};
+
+export const BatchSourcesPanel = ({
+  sources,
+  results,
+  activeTable,
+  onToggle,
+  onShow,
+  onPinSelection,
+  onResetSelection
+}: BatchSourcesPanelProps) => {
+  const includedCount = sources.filter((source) => source.included).length;
+
+  return (
+    <div className="batch-sources">
+      <div className="mapping-preview-header">
+        <div>
+          <p className="eyebrow">Stapel-Import</p>
+          <p className="meta">
+            {includedCount} von {sources.length} Tabellen werden mit dem gemeinsamen Mapping in
+            einen Datensatz übernommen. Abweichende Dateien zeigen, Mapping anpassen und für diese
+            Quelle fixieren.
+          </p>
+        </div>
+      </div>
+      <ul className="batch-source-list">
+        {sources.map((source) => {
+          const label = getBatchSourceLabel(source);
+          const result = results?.find((item) => item.sourceId === source.id);
+          const isActive = source.table === activeTable;
+          return (
+            <li key={source.id} className={isActive ? "active" : ""}>
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={source.included}
+                  onChange={() => onToggle(source.id)}
+                />
+                {label}
+              </label>
+              <span className="meta">
+                {source.table.rows.length} Zeilen
+                {source.selection && " · eigenes Mapping"}
+                {result &&
+                  (result.errors.length > 0
+                    ? ` · ${result.errors.length} Fehler`
+                    : ` · ${result.stats.experimentCount} Experimente`)}
+              </span>
+              <div className="batch-source-actions">
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  onClick={() => onShow(source.id)}
+                  disabled={isActive}
+                >
+                  Anzeigen
+                </button>
+                {source.selection ? (
+                  <button
+                    type="button"
+                    className="btn btn-ghost"
+                    onClick={() => onResetSelection(source.id)}
+                  >
+                    Gemeinsames Mapping
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className="btn btn-ghost"
+                    onClick={() => onPinSelection(source.id)}
+                  >
+                    Aktuelles Mapping fixieren
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
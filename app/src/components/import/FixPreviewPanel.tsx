@@ -0,0 +1,71 @@
+import { FIX_ACTION_LABELS, type FixPreview } from "../../lib/import/fixes";
+
+/** Unchanged points are summarised, so long series still fit into the finding. */
+const MAX_PREVIEW_ROWS = 20;
+
+const formatValue = (value: number): string =>
+  Number.isFinite(value) ? String(Number(value.toPrecision(6))) : "n/a";
+
+const formatPoint = (point: [number, number] | null): string =>
+  point ? `${formatValue(point[0])} · ${formatValue(point[1])}` : "—";
+
+type FixPreviewPanelProps = {
+  preview: FixPreview;
+  onApply: () => void;
+  onCancel: () => void;
+};
+
+export const FixPreviewPanel = ({ preview, onApply, onCancel }: FixPreviewPanelProps) => {
+  const changedRows = preview.rows.filter((row) => row.changed);
+  const visibleRows = changedRows.slice(0, MAX_PREVIEW_ROWS);
+
+  return (
+    <div className="fix-preview">
+      <p className="finding-title">Vorschau: {FIX_ACTION_LABELS[preview.fixId]}</p>
+      {changedRows.length === 0 ? (
+        <p className="meta">Diese Korrektur ändert keine Punkte.</p>
+      ) : (
+        <>
+          <p className="meta">
+            {changedRows.length} von {preview.rows.length} Punkten ändern sich. Die Originaldaten
+            bleiben gespeichert und lassen sich im Serien-Check wiederherstellen.
+          </p>
+          <table className="fix-preview-table">
+            <thead>
+              <tr>
+                <th>Vorher (t · y)</th>
+                <th>Nachher (t · y)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((row, index) => (
+                <tr key={index} className={row.after ? undefined : "removed"}>
+                  <td>{formatPoint(row.before)}</td>
+                  <td>{row.after ? formatPoint(row.after) : "entfällt"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {changedRows.length > visibleRows.length && (
+            <p className="meta">
+              … und {changedRows.length - visibleRows.length} weitere geänderte Punkte.
+            </p>
+          )}
+        </>
+      )}
+      <div className="fix-preview-actions">
+        <button type="button" className="btn btn-ghost" onClick={onCancel}>
+          Verwerfen
+        </button>
+        <button
+          type="button"
+          className="btn btn-primary"
+          onClick={onApply}
+          disabled={changedRows.length === 0}
+        >
+          Anwenden
+        </button>
+      </div>
+    </div>
+  );
+};
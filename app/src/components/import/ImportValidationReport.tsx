@@ -1,4 +1,8 @@
+import { useState } from "react";
+import { FIX_ACTION_LABELS, type FixActionId, type FixPreview } from "../../lib/import/fixes";
+import { DROP_REASONS, DROP_REASON_LABELS } from "../../lib/import/provenance";
 import type { ValidationReport } from "../../lib/import/validation";
+import { FixPreviewPanel } from "./FixPreviewPanel";
 
 const statusLabel: Record<ValidationReport["status"], string> = {
   clean: "Bereit",
@@ -30,19 +34,33 @@ const severityIcon: Record<string, string> = {
   error: "⛔"
 };
 
+const formatDetail = (value: number): string => String(Number(value.toPrecision(3)));
+
 type ImportValidationReportProps = {
   report: ValidationReport | null;
   onBackToMapping: () => void;
   onContinue: () => void;
   disableContinue?: boolean;
+  /** Fix buttons are only offered when both the preview and the apply callback are given. */
+  onPreviewFix?: (experimentId: string, seriesId: string, fixId: FixActionId) => FixPreview | null;
+  onApplyFix?: (experimentId: string, seriesId: string, fixId: FixActionId) => void;
 };
 
 export const ImportValidationReport = ({
   report,
   onBackToMapping,
   onContinue,
-  disableContinue = false
+  disableContinue = false,
+  onPreviewFix,
+  onApplyFix
 }: ImportValidationReportProps) => {
+  const [openPreview, setOpenPreview] = useState<{
+    findingKey: string;
+    experimentId: string;
+    seriesId: string;
+    preview: FixPreview;
+  } | null>(null);
+
   if (!report) {
     return (
       <div className="empty-state">
@@ -61,6 +79,7 @@ export const ImportValidationReport = ({
             Ergebnisse des Import-Checks nach dem Mapping. Lies die Hinweise und triff dann deine
             Entscheidung.
           </p>
+          {report.profile && <p className="meta">Prüfprofil: {report.profile.label}</p>}
         </div>
         <span className={`status-pill ${statusTone[report.status]}`}>
           {statusLabel[report.status]}
@@ -82,6 +101,15 @@ export const ImportValidationReport = ({
         <div>
           <p className="meta">Verworfene Punkte</p>
           <strong>{report.counts.droppedPoints}</strong>
+          {report.counts.droppedPoints > 0 && (
+            <p className="meta">
+              {DROP_REASONS.filter((reason) => report.counts.dropReasons[reason] > 0)
+                .map(
+                  (reason) => `${report.counts.dropReasons[reason]} ${DROP_REASON_LABELS[reason]}`
+                )
+                .join(" · ")}
+            </p>
+          )}
         </div>
       </div>
       <div className="inline-success">
@@ -178,6 +206,50 @@ export const ImportValidationReport = ({
                             {severityLabel[finding.severity] ?? finding.severity}
                           </span>
                         </div>
+                        {finding.fixes && finding.seriesId && onPreviewFix && onApplyFix && (
+                          <div className="finding-fixes">
+                            {finding.fixes.map((fixId) => (
+                              <button
+                                key={fixId}
+                                type="button"
+                                className="btn btn-ghost"
+                                onClick={() => {
+                                  const seriesId = finding.seriesId!;
+                                  const preview = onPreviewFix(
+                                    summary.experimentId,
+                                    seriesId,
+                                    fixId
+                                  );
+                                  setOpenPreview(
+                                    preview && {
+                                      findingKey: `${summary.experimentId}-${index}`,
+                                      experimentId: summary.experimentId,
+                                      seriesId,
+                                      preview
+                                    }
+                                  );
+                                }}
+                              >
+                                {FIX_ACTION_LABELS[fixId]} …
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                        {openPreview?.findingKey === `${summary.experimentId}-${index}` &&
+                          onApplyFix && (
+                            <FixPreviewPanel
+                              preview={openPreview.preview}
+                              onApply={() => {
+                                onApplyFix(
+                                  openPreview.experimentId,
+                                  openPreview.seriesId,
+                                  openPreview.preview.fixId
+                                );
+                                setOpenPreview(null);
+                              }}
+                              onCancel={() => setOpenPreview(null)}
+                            />
+                          )}
                         <details className="technical-details">
                           <summary>Technische Details anzeigen</summary>
                           <div className="meta">
@@ -185,6 +257,12 @@ export const ImportValidationReport = ({
                             {finding.details?.droppedPoints !== undefined && (
                               <p>Verworfene Punkte: {finding.details.droppedPoints}</p>
                             )}
+                            {finding.details?.droppedRows !== undefined && (
+                              <p>
+                                Zeilen in der Quelle:{" "}
+                                {finding.details.droppedRows.map((row) => row + 1).join(", ")}
+                              </p>
+                            )}
                             {finding.details?.duplicateCount !== undefined && (
                               <p>Duplikate: {finding.details.duplicateCount}</p>
                             )}
@@ -194,9 +272,33 @@ export const ImportValidationReport = ({
                             {finding.details?.pointCount !== undefined && (
                               <p>Gesamtpunkte: {finding.details.pointCount}</p>
                             )}
+                            {finding.details?.outlierIndices !== undefined && (
+                              <p>Auffällige Punkte: {finding.details.outlierIndices.length}</p>
+                            )}
                             {finding.details?.timeIssueCount !== undefined && (
                               <p>Nicht-monotone Zeitpunkte: {finding.details.timeIssueCount}</p>
                             )}
+                            {finding.details?.halfLife !== undefined && (
+                              <p>
+                                Halbwertszeit (geschätzt):{" "}
+                                {formatDetail(finding.details.halfLife)}
+                              </p>
+                            )}
+                            {finding.details?.maxGap !== undefined && (
+                              <p>Größter Messabstand: {formatDetail(finding.details.maxGap)}</p>
+                            )}
+                            {finding.details?.plateauCount !== undefined && (
+                              <p>Punkte am Höchstwert: {finding.details.plateauCount}</p>
+                            )}
+                            {finding.details?.balanceDeviation !== undefined && (
+                              <p>
+                                Abweichung der Summe:{" "}
+                                {Math.round(finding.details.balanceDeviation * 100)} %
+                              </p>
+                            )}
+                            {finding.details?.driftChange !== undefined && (
+                              <p>Drift am Ende: {formatDetail(finding.details.driftChange)}</p>
+                            )}
                           </div>
                         </details>
                       </li>
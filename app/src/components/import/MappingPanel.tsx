@@ -1,12 +1,23 @@
 import type { RawTable } from "../../lib/import/types";
 import {
+  getTimeColumnIndexFor,
   normalizeMappingTable,
+  suggestPairedLayout,
   type MappingError,
   type MappingSelection,
   type MappingStats
 } from "../../lib/import/mapping";
+import {
+  TIMESTAMP_FORMATS,
+  TIMESTAMP_FORMAT_LABELS,
+  detectTimestampFormat
+} from "../../lib/import/timestamp";
+import { detectHeaderUnit, getUnitsByDimension } from "../../lib/units/units";
 import { MappingPreviewTable } from "./MappingPreviewTable";
 
+const TIME_UNITS = getUnitsByDimension("time");
+const CONCENTRATION_UNITS = getUnitsByDimension("concentration");
+
 type MappingPanelProps = {
   table: RawTable;
   fileName: string | null;
@@ -33,9 +44,35 @@ export const MappingPanel = ({
   const normalizedTable = normalizeMappingTable(table, selection.firstRowIsHeader);
   const headers = normalizedTable.headers;
 
+  const isPaired = selection.layout === "paired";
+  const pairedSuggestion = suggestPairedLayout(headers);
+  const pairedTimeColumns = isPaired
+    ? selection.valueColumnIndices.map((index) => getTimeColumnIndexFor(selection, index) ?? -1)
+    : [];
+
   const highlightedColumns = Array.from(
-    new Set([selection.timeColumnIndex ?? -1, selection.experimentColumnIndex ?? -1, ...selection.valueColumnIndices])
+    new Set([
+      selection.timeColumnIndex ?? -1,
+      selection.experimentColumnIndex ?? -1,
+      ...selection.valueColumnIndices,
+      ...pairedTimeColumns
+    ])
   ).filter((index) => index >= 0);
+  const metadataHeaders = headers.filter((_, index) => !highlightedColumns.includes(index));
+
+  const updateColumnRecord = (
+    key: "pairedTimeColumns" | "columnExperiments",
+    valueIndex: number,
+    entry: number | string | null
+  ) => {
+    const record: Record<number, number | string> = { ...selection[key] };
+    if (entry === null || entry === "") {
+      delete record[valueIndex];
+    } else {
+      record[valueIndex] = entry;
+    }
+    onSelectionChange({ ...selection, [key]: record });
+  };
 
   const normalizeLabel = (value: string | number | null): string => {
     if (value === null) return "";
@@ -65,8 +102,27 @@ export const MappingPanel = ({
       ? "Vorschau der ersten 20 Zeilen"
       : "Vorschau der ersten 20 Experimente (erste Zeile)";
 
+  const timeColumnIndex = selection.timeColumnIndex;
+  const detectedTimeFormat =
+    timeColumnIndex === null
+      ? null
+      : detectTimestampFormat(normalizedTable.rows.map((row) => row[timeColumnIndex] ?? null));
+  const effectiveTimeFormat = selection.timeFormat ?? detectedTimeFormat ?? "numeric";
+  const detectedTimeUnit =
+    selection.timeColumnIndex === null
+      ? null
+      : detectHeaderUnit(headers[selection.timeColumnIndex] ?? "", "time");
+  const detectedValueUnits = Array.from(
+    new Set(
+      selection.valueColumnIndices.map(
+        (index) => detectHeaderUnit(headers[index] ?? "", "concentration")?.symbol ?? "–"
+      )
+    )
+  );
+
   const isApplyDisabled =
-    selection.timeColumnIndex === null || selection.valueColumnIndices.length === 0;
+    (isPaired ? pairedTimeColumns.includes(-1) : selection.timeColumnIndex === null) ||
+    selection.valueColumnIndices.length === 0;
 
   return (
     <div className="mapping-panel">
@@ -96,7 +152,32 @@ export const MappingPanel = ({
 
       <div className="mapping-grid">
         <label className="field">
-          Zeit-Spalte (Pflicht)
+          Tabellenformat
+          <select
+            value={selection.layout ?? "long"}
+            onChange={(event) =>
+              onSelectionChange({
+                ...selection,
+                layout: event.target.value === "paired" ? "paired" : "long"
+              })
+            }
+          >
+            <option value="long">Eine Zeit-Spalte für alle Werte</option>
+            <option value="paired">Zeit/Wert-Paare (t1, c1, t2, c2 …)</option>
+          </select>
+          {pairedSuggestion && (
+            <button
+              type="button"
+              className="btn btn-ghost"
+              onClick={() => onSelectionChange({ ...selection, ...pairedSuggestion })}
+            >
+              Paare automatisch zuordnen
+            </button>
+          )}
+        </label>
+
+        <label className="field">
+          {isPaired ? "Zeit-Spalte (Standard für Paare)" : "Zeit-Spalte (Pflicht)"}
           <select
             value={selection.timeColumnIndex ?? ""}
             onChange={(event) => {
@@ -143,6 +224,52 @@ export const MappingPanel = ({
             <p className="meta">Tipp: Du kannst mehrere Werte-Spalten auswählen, die Reihenfolge bleibt erhalten.</p>
         </div>
 
+        {selection.valueColumnIndices.length > 0 && (
+          <div className="field column-assignments">
+            <span>
+              {isPaired ? "Zeit-Spalte und Experiment je Wert" : "Experiment je Wert (optional)"}
+            </span>
+            {selection.valueColumnIndices.map((valueIndex, position) => (
+              <div key={valueIndex} className="column-assignment">
+                <span className="column-assignment-name">{headers[valueIndex]}</span>
+                {isPaired && (
+                  <select
+                    aria-label={`Zeit-Spalte für ${headers[valueIndex]}`}
+                    value={pairedTimeColumns[position] === -1 ? "" : pairedTimeColumns[position]}
+                    onChange={(event) =>
+                      updateColumnRecord(
+                        "pairedTimeColumns",
+                        valueIndex,
+                        event.target.value === "" ? null : Number(event.target.value)
+                      )
+                    }
+                  >
+                    <option value="">Zeit-Spalte wählen</option>
+                    {headers.map((header, index) => (
+                      <option
+                        key={`${header}-${index}`}
+                        value={index}
+                        disabled={index === valueIndex}
+                      >
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <input
+                  type="text"
+                  aria-label={`Experiment für ${headers[valueIndex]}`}
+                  placeholder="Experiment"
+                  value={selection.columnExperiments?.[valueIndex] ?? ""}
+                  onChange={(event) =>
+                    updateColumnRecord("columnExperiments", valueIndex, event.target.value)
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
         <label className="field">
           Experiment-Spalte (optional)
           <select
@@ -162,6 +289,78 @@ export const MappingPanel = ({
               </option>
             ))}
           </select>
+          {metadataHeaders.length > 0 && (
+            <span className="meta">
+              Weitere Spalten werden pro Experiment als Metadaten übernommen:{" "}
+              {metadataHeaders.join(", ")}
+            </span>
+          )}
+        </label>
+
+        <label className="field">
+          Zeitformat
+          <select
+            value={selection.timeFormat ?? ""}
+            onChange={(event) =>
+              onSelectionChange({
+                ...selection,
+                timeFormat:
+                  TIMESTAMP_FORMATS.find((format) => format === event.target.value) ?? null
+              })
+            }
+          >
+            <option value="">
+              Automatisch
+              {detectedTimeFormat
+                ? ` (erkannt: ${TIMESTAMP_FORMAT_LABELS[detectedTimeFormat]})`
+                : ""}
+            </option>
+            {TIMESTAMP_FORMATS.map((format) => (
+              <option key={format} value={format}>
+                {TIMESTAMP_FORMAT_LABELS[format]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="field">
+          Zeiteinheit
+          <select
+            value={selection.timeUnit ?? ""}
+            disabled={effectiveTimeFormat !== "numeric"}
+            onChange={(event) =>
+              onSelectionChange({ ...selection, timeUnit: event.target.value || null })
+            }
+          >
+            <option value="">
+              Automatisch ({detectedTimeUnit ? `erkannt: ${detectedTimeUnit.symbol}` : "Sekunden"})
+            </option>
+            {TIME_UNITS.map((unit) => (
+              <option key={unit.id} value={unit.id}>
+                {unit.symbol}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="field">
+          Konzentrationseinheit
+          <select
+            value={selection.valueUnit ?? ""}
+            onChange={(event) =>
+              onSelectionChange({ ...selection, valueUnit: event.target.value || null })
+            }
+          >
+            <option value="">
+              Automatisch
+              {detectedValueUnits.length > 0 ? ` (erkannt: ${detectedValueUnits.join(", ")})` : ""}
+            </option>
+            {CONCENTRATION_UNITS.map((unit) => (
+              <option key={unit.id} value={unit.id}>
+                {unit.symbol}
+              </option>
+            ))}
+          </select>
         </label>
       </div>
 
@@ -206,8 +405,9 @@ export const MappingPanel = ({
           </p>
           <ul>
             {errors.slice(0, 3).map((error) => (
-              <li key={`${error.column}-${error.rowIndex}`}>
-                Row {error.rowIndex}: {error.column} — {error.message}
+              <li key={`${error.source ?? ""}-${error.column}-${error.rowIndex}`}>
+                {error.source && `${error.source} · `}Row {error.rowIndex}: {error.column} —{" "}
+                {error.message}
               </li>
             ))}
             {errors.length > 3 && (
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import type { MappingTemplate } from "../../lib/import/mappingTemplates";
+
+type MappingTemplatesBarProps = {
+  templates: MappingTemplate[];
+  suggestedTemplate: MappingTemplate | null;
+  appliedTemplate: MappingTemplate | null;
+  canSave: boolean;
+  /** Returns false when the template does not fit the current table. */
+  onApply: (template: MappingTemplate) => boolean;
+  onSave: (name: string, generalizeNumbers: boolean) => void;
+  onDelete: (templateId: string) => void;
+};
+
+export const MappingTemplatesBar = ({
+  templates,
+  suggestedTemplate,
+  appliedTemplate,
+  canSave,
+  onApply,
+  onSave,
+  onDelete
+}: MappingTemplatesBarProps) => {
+  const [selectedId, setSelectedId] = useState("");
+  const [name, setName] = useState("");
+  const [generalizeNumbers, setGeneralizeNumbers] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selectedTemplate = templates.find((template) => template.id === selectedId) ?? null;
+
+  const apply = (template: MappingTemplate) => {
+    setMessage(
+      onApply(template)
+        ? null
+        : `Vorlage „${template.name}“ passt nicht zu den Spalten dieser Tabelle.`
+    );
+  };
+
+  return (
+    <div className="mapping-templates">
+      {suggestedTemplate && suggestedTemplate.id !== appliedTemplate?.id && (
+        <div className="template-suggestion">
+          <p className="meta">
+            Vorlage „{suggestedTemplate.name}“ passt zu den Spalten dieser Tabelle.
+          </p>
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={() => apply(suggestedTemplate)}
+          >
+            Vorlage anwenden
+          </button>
+        </div>
+      )}
+      <div className="mapping-grid">
+        <div className="field">
+          <span>Gespeicherte Vorlagen</span>
+          <select
+            aria-label="Gespeicherte Vorlagen"
+            value={selectedId}
+            onChange={(event) => setSelectedId(event.target.value)}
+          >
+            <option value="">{templates.length > 0 ? "Vorlage wählen" : "Keine Vorlagen"}</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+                {template.fileType ? ` (${template.fileType})` : ""}
+              </option>
+            ))}
+          </select>
+          <div className="template-actions">
+            <button
+              type="button"
+              className="btn btn-ghost"
+              disabled={!selectedTemplate}
+              onClick={() => selectedTemplate && apply(selectedTemplate)}
+            >
+              Anwenden
+            </button>
+            <button
+              type="button"
+              className="btn btn-ghost danger"
+              disabled={!selectedTemplate}
+              onClick={() => {
+                onDelete(selectedId);
+                setSelectedId("");
+              }}
+            >
+              Löschen
+            </button>
+          </div>
+        </div>
+        <div className="field">
+          <span>Aktuelles Mapping als Vorlage</span>
+          <input
+            type="text"
+            aria-label="Name der Vorlage"
+            placeholder="z. B. HPLC Labor 2"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+          />
+          <label className="toggle">
+            <input
+              type="checkbox"
+              checked={generalizeNumbers}
+              onChange={(event) => setGeneralizeNumbers(event.target.checked)}
+            />
+            Nummern in Spaltennamen als Platzhalter (Peak 1, Peak 2 …)
+          </label>
+          <button
+            type="button"
+            className="btn btn-ghost"
+            disabled={!canSave || !name.trim()}
+            onClick={() => {
+              onSave(name, generalizeNumbers);
+              setName("");
+            }}
+          >
+            Vorlage speichern
+          </button>
+        </div>
+      </div>
+      {appliedTemplate && <p className="meta">Vorlage angewendet: {appliedTemplate.name}</p>}
+      {message && (
+        <div className="inline-error" role="alert">
+          <p className="muted">{message}</p>
+        </div>
+      )}
+    </div>
+  );
+};
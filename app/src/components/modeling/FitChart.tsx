@@ -0,0 +1,43 @@
+import type { FitResult } from "../../lib/fitting/types";
+
+export const FitChart = ({ fit }: { fit: Pick<FitResult, "time" | "observed" | "fitted"> }) => {
+  const viewWidth = 320;
+  const viewHeight = 140;
+  const padding = 12;
+  if (fit.time.length === 0) {
+    return <p className="meta">Keine Daten für den Plot.</p>;
+  }
+  const values = [...fit.observed, ...fit.fitted];
+  const xMin = Math.min(...fit.time);
+  const xMax = Math.max(...fit.time);
+  const yMin = Math.min(...values);
+  const yMax = Math.max(...values);
+  const xRange = xMax - xMin || 1;
+  const yRange = yMax - yMin || 1;
+  const toSvgX = (x: number) => padding + ((x - xMin) / xRange) * (viewWidth - padding * 2);
+  const toSvgY = (y: number) =>
+    viewHeight - padding - ((y - yMin) / yRange) * (viewHeight - padding * 2);
+  const fittedPath = fit.time
+    .map((t, index) => `${index === 0 ? "M" : "L"} ${toSvgX(t)} ${toSvgY(fit.fitted[index])}`)
+    .join(" ");
+
+  return (
+    <svg
+      className="series-chart fit-chart"
+      viewBox={`0 0 ${viewWidth} ${viewHeight}`}
+      role="img"
+      aria-label="Messwerte und Fit-Kurve"
+    >
+      <path d={fittedPath} fill="none" stroke="#1d4ed8" strokeWidth="1.5" />
+      {fit.time.map((t, index) => (
+        <circle
+          key={`${t}-${index}`}
+          cx={toSvgX(t)}
+          cy={toSvgY(fit.observed[index])}
+          r={2.5}
+          fill="#0f172a"
+        />
+      ))}
+    </svg>
+  );
+};
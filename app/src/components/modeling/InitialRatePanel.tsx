@@ -0,0 +1,211 @@
+import { useMemo, useState } from "react";
+import type { Experiment } from "../../types/experiment";
+import type { ExperimentGroup } from "../../types/grouping";
+import { getGroupExperiments } from "../../lib/grouping/groups";
+import {
+  SERIES_INITIAL_VALUE,
+  buildReactionOrderInputs,
+  estimateInitialRate,
+  estimateReactionOrders,
+  type InitialRateResult,
+  type ReactionOrderResult
+} from "../../lib/fitting/initialRates";
+import { formatNumber } from "../../lib/units/format";
+
+type InitialRatePanelProps = {
+  experiments: Experiment[];
+  groups: ExperimentGroup[];
+  seriesName: string | null;
+  conditionColumns: string[];
+};
+
+const conversionOptions = [0.1, 0.2, 0.3];
+
+const sourceLabel = (source: string): string =>
+  source === SERIES_INITIAL_VALUE ? "Startwert der Datenreihe" : source;
+
+export const InitialRatePanel = ({
+  experiments,
+  groups,
+  seriesName,
+  conditionColumns
+}: InitialRatePanelProps) => {
+  const [groupId, setGroupId] = useState("all");
+  const [maxConversion, setMaxConversion] = useState(0.2);
+  const [sources, setSources] = useState<string[]>([SERIES_INITIAL_VALUE]);
+
+  const group = groups.find((item) => item.id === groupId) ?? null;
+  const scopedExperiments = useMemo(
+    () => (group ? getGroupExperiments(group, experiments) : experiments),
+    [experiments, group]
+  );
+
+  const sourceOptions = useMemo(() => {
+    const metaKeys = Array.from(
+      new Set(scopedExperiments.flatMap((experiment) => Object.keys(experiment.metaRaw)))
+    );
+    const conditions = conditionColumns.filter((column) => metaKeys.includes(column));
+    return [
+      SERIES_INITIAL_VALUE,
+      ...conditions,
+      ...metaKeys.filter((key) => !conditions.includes(key))
+    ];
+  }, [conditionColumns, scopedExperiments]);
+
+  const rows = useMemo(
+    () =>
+      scopedExperiments.map((experiment) => {
+        const series =
+          experiment.series.find((item) => item.name === seriesName) ?? experiment.series[0];
+        if (!series) {
+          return { experiment, result: null, error: "Keine Datenreihe." };
+        }
+        try {
+          return {
+            experiment,
+            result: estimateInitialRate(series, { maxConversion }),
+            error: null
+          };
+        } catch (error) {
+          return {
+            experiment,
+            result: null,
+            error: error instanceof Error ? error.message : "Keine Anfangsrate bestimmbar."
+          };
+        }
+      }),
+    [maxConversion, scopedExperiments, seriesName]
+  );
+
+  const orders = useMemo<{ result: ReactionOrderResult | null; error: string | null }>(() => {
+    const rates: Record<string, InitialRateResult | undefined> = Object.fromEntries(
+      rows.map((row) => [row.experiment.experimentId, row.result ?? undefined])
+    );
+    try {
+      const inputs = buildReactionOrderInputs({ experiments: scopedExperiments, rates, sources });
+      return { result: estimateReactionOrders(inputs, sources), error: null };
+    } catch (error) {
+      return {
+        result: null,
+        error: error instanceof Error ? error.message : "Ordnung nicht bestimmbar."
+      };
+    }
+  }, [rows, scopedExperiments, sources]);
+
+  const orderResult = orders.result;
+
+  const toggleSource = (source: string) => {
+    setSources((prev) =>
+      prev.includes(source) ? prev.filter((item) => item !== source) : [...prev, source]
+    );
+  };
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">Anfangsraten</p>
+          <h4>Methode der Anfangsgeschwindigkeiten</h4>
+          <p className="meta">
+            Wir fitten das frühe, noch lineare Fenster jeder Reihe (automatisch bis zur gewählten
+            Umsatzgrenze) und regressieren ln(r₀) gegen ln(c₀), um die Reaktionsordnung zu schätzen.
+          </p>
+        </div>
+      </div>
+      <div className="card-body modeling-results">
+        <div className="group-toolbar-actions">
+          <label className="sheet-select">
+            Experimente
+            <select value={groupId} onChange={(event) => setGroupId(event.target.value)}>
+              <option value="all">Alle</option>
+              {groups.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="sheet-select">
+            Max. Umsatz
+            <select
+              value={maxConversion}
+              onChange={(event) => setMaxConversion(Number(event.target.value))}
+            >
+              {conversionOptions.map((option) => (
+                <option key={option} value={option}>
+                  {Math.round(option * 100)} %
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="mapping-preview">
+          <table className="model-table">
+            <thead>
+              <tr>
+                <th>Experiment</th>
+                <th>r₀</th>
+                <th>Startwert</th>
+                <th>Fenster</th>
+                <th>Methode</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ experiment, result, error }) => (
+                <tr key={experiment.experimentId}>
+                  <td>{experiment.name ?? experiment.experimentId}</td>
+                  {result ? (
+                    <>
+                      <td>
+                        {formatNumber(result.rate)} ± {formatNumber(result.rateStandardError)}
+                      </td>
+                      <td>{formatNumber(result.initialValue)}</td>
+                      <td>
+                        {result.windowPointCount} Punkte · {Math.round(result.conversion * 100)} %
+                      </td>
+                      <td>{result.method === "linear" ? "linear" : "quadratisch"}</td>
+                    </>
+                  ) : (
+                    <td colSpan={4}>{error}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <p className="meta">Konzentrationsquellen für die Ordnung</p>
+          <div className="chip-row">
+            {sourceOptions.map((source) => (
+              <label key={source} className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={sources.includes(source)}
+                  onChange={() => toggleSource(source)}
+                />
+                {sourceLabel(source)}
+                {conditionColumns.includes(source) && <span className="chip">Condition</span>}
+              </label>
+            ))}
+          </div>
+        </div>
+        {orders.error && <p className="meta">{orders.error}</p>}
+        {orderResult && (
+          <div className="chip-row">
+            {orderResult.orders.map((order) => (
+              <span key={order.source} className="chip">
+                n({sourceLabel(order.source)}) = {formatNumber(order.order)} (
+                {Math.round(orderResult.confidence * 100)} %-KI {formatNumber(order.lower)} –{" "}
+                {formatNumber(order.upper)})
+              </span>
+            ))}
+            <span className="chip">R² = {orderResult.rSquared.toFixed(4)}</span>
+            <span className="chip">{orderResult.experimentCount} Experimente</span>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,243 @@
+import { useMemo, useState } from "react";
+import type { Experiment } from "../../types/experiment";
+import type { DatasetFitRecord, FitUncertainty } from "../../types/fitting";
+import { getMechanismFitRecordId, toMechanismFitRecord } from "../../lib/fitting/fitRecords";
+import {
+  fitMechanism,
+  parseMechanism,
+  type Mechanism,
+  type MechanismFitResult,
+  type MechanismModelInput
+} from "../../lib/fitting/mechanism";
+import { FitChart } from "./FitChart";
+import { formatNumber } from "../../lib/units/format";
+import { UncertaintyPanel } from "./UncertaintyPanel";
+
+// Every bootstrap sample integrates the ODEs again, so fewer samples than for rate laws.
+const MECHANISM_BOOTSTRAP_ITERATIONS = 50;
+
+type MechanismPanelProps = {
+  experiments: Experiment[];
+  fitRecords?: DatasetFitRecord[];
+  onFitComputed?: (record: DatasetFitRecord) => void;
+  onUncertaintyComputed?: (
+    recordId: string,
+    uncertainty: FitUncertainty,
+    parameters: Record<string, number>
+  ) => void;
+};
+
+const guessSeriesForSpecies = (species: string, experiment: Experiment): string => {
+  const exact = experiment.series.find(
+    (series) => series.name.trim().toLowerCase() === species.toLowerCase()
+  );
+  const prefixed = experiment.series.find((series) =>
+    new RegExp(`^(c|conc)?\\s*[_(\\[]?${species}\\b`, "i").test(series.name.trim())
+  );
+  return (exact ?? prefixed)?.id ?? "";
+};
+
+export const MechanismPanel = ({
+  experiments,
+  fitRecords = [],
+  onFitComputed,
+  onUncertaintyComputed
+}: MechanismPanelProps) => {
+  const [experimentId, setExperimentId] = useState<string>(experiments[0]?.experimentId ?? "");
+  const [mechanismText, setMechanismText] = useState("A -> B -> C");
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<{
+    input: MechanismModelInput;
+    fit: MechanismFitResult;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const experiment =
+    experiments.find((item) => item.experimentId === experimentId) ?? experiments[0] ?? null;
+
+  const parsed = useMemo<{ mechanism: Mechanism | null; error: string | null }>(() => {
+    try {
+      return { mechanism: parseMechanism(mechanismText), error: null };
+    } catch (parseError) {
+      return {
+        mechanism: null,
+        error: parseError instanceof Error ? parseError.message : "Ungültiger Mechanismus."
+      };
+    }
+  }, [mechanismText]);
+
+  const speciesSeries = useMemo(() => {
+    const mapping: Record<string, string> = {};
+    parsed.mechanism?.species.forEach((species) => {
+      mapping[species] =
+        assignments[species] ?? (experiment ? guessSeriesForSpecies(species, experiment) : "");
+    });
+    return mapping;
+  }, [assignments, experiment, parsed.mechanism]);
+
+  const handleFit = () => {
+    if (!parsed.mechanism || !experiment) {
+      return;
+    }
+    const mechanism = parsed.mechanism;
+    setRunning(true);
+    setError(null);
+    setResult(null);
+    // Let the "running" state paint before the synchronous integration starts.
+    window.setTimeout(() => {
+      try {
+        const input = { mechanism, experiment, speciesSeries };
+        const fit = fitMechanism(input);
+        setResult({ input, fit });
+        onFitComputed?.(
+          toMechanismFitRecord(
+            experiment.experimentId,
+            experiment.name ?? experiment.experimentId,
+            fit
+          )
+        );
+      } catch (fitError) {
+        setError(fitError instanceof Error ? fitError.message : "Mechanismus-Fit fehlgeschlagen.");
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  if (!experiment) {
+    return null;
+  }
+  const record = result
+    ? fitRecords.find(
+        (item) =>
+          item.id ===
+          getMechanismFitRecordId(result.input.experiment.experimentId, result.fit.mechanism)
+      )
+    : undefined;
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">Mechanismus-Fit</p>
+          <h4>Mehrere Spezies gleichzeitig fitten</h4>
+          <p className="meta">
+            Mechanismus eingeben (z.B. „A -&gt; B -&gt; C“, „A &lt;=&gt; B“, „A + B -&gt; C“),
+            Spezies den Datenreihen zuordnen und alle Reihen eines Experiments gemeinsam über die
+            numerisch integrierten Geschwindigkeitsgleichungen fitten.
+          </p>
+        </div>
+      </div>
+      <div className="card-body modeling-results">
+        <div className="mapping-grid">
+          <label className="field">
+            Experiment
+            <select
+              value={experiment.experimentId}
+              onChange={(event) => {
+                setExperimentId(event.target.value);
+                setAssignments({});
+                setResult(null);
+              }}
+            >
+              {experiments.map((item) => (
+                <option key={item.experimentId} value={item.experimentId}>
+                  {item.name ?? item.experimentId}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            Mechanismus
+            <input
+              className="group-name"
+              value={mechanismText}
+              onChange={(event) => {
+                setMechanismText(event.target.value);
+                setResult(null);
+              }}
+            />
+          </label>
+          {parsed.mechanism?.species.map((species) => (
+            <label key={species} className="field">
+              Spezies {species}
+              <select
+                value={speciesSeries[species] ?? ""}
+                onChange={(event) =>
+                  setAssignments((prev) => ({ ...prev, [species]: event.target.value }))
+                }
+              >
+                <option value="">nicht gemessen (Start = 0)</option>
+                {experiment.series.map((series) => (
+                  <option key={series.id} value={series.id}>
+                    {series.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        {parsed.error && <p className="meta">{parsed.error}</p>}
+        <div className="validation-actions">
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={handleFit}
+            disabled={!parsed.mechanism || running}
+          >
+            {running ? "Berechne…" : "Mechanismus fitten"}
+          </button>
+        </div>
+        {error && (
+          <div className="inline-error">
+            <p className="error-title">Mechanismus-Fit fehlgeschlagen.</p>
+            <p className="meta">{error}</p>
+          </div>
+        )}
+        {result && (
+          <>
+            <p className="meta">
+              {result.fit.mechanism} · Solver:{" "}
+              {result.fit.solverMethod === "stiff" ? "steif (ROS2)" : "RK45"} · SSE{" "}
+              {formatNumber(result.fit.sse)}
+              {!result.fit.converged && " · nicht konvergiert"}
+            </p>
+            <div className="chip-row">
+              {Object.entries(result.fit.parameters).map(([name, value]) => (
+                <span key={name} className="chip">
+                  {name} = {formatNumber(value)} ± {formatNumber(result.fit.standardErrors[name])}
+                </span>
+              ))}
+            </div>
+            <div className="validation-stats">
+              {result.fit.species.map((species) => (
+                <div key={species.species}>
+                  <p className="meta">
+                    {species.species} · R² {species.rSquared.toFixed(4)}
+                  </p>
+                  <FitChart fit={species} />
+                </div>
+              ))}
+            </div>
+            <UncertaintyPanel
+              request={{
+                kind: "mechanism",
+                ...result.input,
+                fit: result.fit,
+                bootstrapIterations: MECHANISM_BOOTSTRAP_ITERATIONS
+              }}
+              uncertainty={record?.uncertainty}
+              disabled={!record}
+              onComputed={(uncertainty, parameters) => {
+                if (record) {
+                  onUncertaintyComputed?.(record.id, uncertainty, parameters);
+                }
+              }}
+            />
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,714 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Experiment } from "../../types/experiment";
+import type {
+  DatasetArrheniusRecord,
+  DatasetFitRecord,
+  EstimatedQuantity,
+  FitUncertainty
+} from "../../types/fitting";
+import type { ExperimentGroup } from "../../types/grouping";
+import { getGroupExperiments } from "../../lib/grouping/groups";
+import {
+  collectRateConstants,
+  findTemperatureKey,
+  fitArrhenius,
+  fitEyring
+} from "../../lib/fitting/arrhenius";
+import {
+  getFitRecordId,
+  getGlobalFitRecordId,
+  toFitRecord,
+  toGlobalFitRecord
+} from "../../lib/fitting/fitRecords";
+import { getFitPoints } from "../../lib/fitting/fitSeries";
+import {
+  fitGlobal,
+  type GlobalFitResult,
+  type ParameterSharing
+} from "../../lib/fitting/globalFit";
+import {
+  compareRateLaws,
+  type FitDiagnosticFlag,
+  type ModelComparison
+} from "../../lib/fitting/modelComparison";
+import { RATE_LAWS, RATE_LAW_IDS, getRateLawParameterUnits } from "../../lib/fitting/rateLaws";
+import type { FitResult, RateLawId, Series } from "../../lib/fitting/types";
+import { getFitConcentrationLabel } from "../../lib/units/seriesUnits";
+import { FitChart } from "./FitChart";
+import { formatNumber } from "../../lib/units/format";
+import { InitialRatePanel } from "./InitialRatePanel";
+import { MechanismPanel } from "./MechanismPanel";
+import { UncertaintyPanel } from "./UncertaintyPanel";
+
+type ModelingScreenProps = {
+  experiments: Experiment[];
+  groups?: ExperimentGroup[];
+  conditionColumns?: string[];
+  fitRecords?: DatasetFitRecord[];
+  arrheniusRecord?: DatasetArrheniusRecord;
+  onFitsComputed?: (records: DatasetFitRecord[]) => void;
+  /** Fits computed on request, i.e. mechanism fits. */
+  onFitRecordComputed?: (record: DatasetFitRecord) => void;
+  onArrheniusComputed?: (record: DatasetArrheniusRecord | null) => void;
+  onUncertaintyComputed?: (
+    recordId: string,
+    uncertainty: FitUncertainty,
+    parameters: Record<string, number>
+  ) => void;
+};
+
+type GroupFitEntry = {
+  group: ExperimentGroup;
+  result: GlobalFitResult | null;
+  error: string | null;
+  /** Distinct concentration labels of the member series; more than one means mixed units. */
+  concentrationLabels: string[];
+};
+
+const flagLabels: Record<FitDiagnosticFlag["code"], string> = {
+  NOT_CONVERGED: "Nicht konvergiert",
+  FEW_POINTS_PER_PARAMETER: "Wenige Punkte pro Parameter",
+  HIGH_PARAMETER_UNCERTAINTY: "Parameter unsicher",
+  PARAMETER_CORRELATION: "Parameter stark korreliert",
+  RESIDUAL_RUNS: "Systematische Residuen",
+  RESIDUAL_AUTOCORRELATION: "Autokorrelierte Residuen"
+};
+
+const getModelLabel = (modelId: string): string =>
+  RATE_LAWS[modelId as RateLawId]?.label ?? modelId;
+
+const describeFlag = (flag: FitDiagnosticFlag): string =>
+  flag.parameter ? `${flagLabels[flag.code]} (${flag.parameter})` : flagLabels[flag.code];
+
+const formatEstimate = (
+  value: number | undefined,
+  standardError: number | null | undefined,
+  unit: string
+): string => `${formatNumber(value)} ± ${formatNumber(standardError)} ${unit}`.trim();
+
+const formatQuantity = (
+  quantity: EstimatedQuantity,
+  confidence: number,
+  unit: string,
+  scale = 1
+): string =>
+  `${formatNumber(quantity.value / scale)} ${unit} (${Math.round(confidence * 100)} %-KI ${formatNumber(
+    quantity.lower === null ? null : quantity.lower / scale
+  )} – ${formatNumber(quantity.upper === null ? null : quantity.upper / scale)})`;
+
+const ComparisonTable = ({
+  comparison,
+  concentrationLabel
+}: {
+  comparison: ModelComparison;
+  concentrationLabel: string;
+}) => (
+  <div className="mapping-preview">
+    <table className="model-table">
+      <thead>
+        <tr>
+          <th>Rang</th>
+          <th>Modell</th>
+          <th>k</th>
+          <th>c0</th>
+          <th>R²</th>
+          <th>AICc</th>
+          <th>ΔAICc</th>
+          <th>Gewicht</th>
+          <th>BIC</th>
+          <th>Diagnose</th>
+        </tr>
+      </thead>
+      <tbody>
+        {comparison.ranking.map((entry) => {
+          const isRecommended = entry.fit.modelId === comparison.recommendedModelId;
+          const units = getRateLawParameterUnits(
+            entry.fit.modelId as RateLawId,
+            concentrationLabel
+          );
+          return (
+            <tr key={entry.fit.modelId} className={isRecommended ? "highlight" : ""}>
+              <td>{entry.rank}</td>
+              <td>
+                {getModelLabel(entry.fit.modelId)}
+                {isRecommended && <span className="chip">Empfohlen</span>}
+              </td>
+              <td>{formatEstimate(entry.fit.parameters.k, entry.fit.standardErrors.k, units.k)}</td>
+              <td>
+                {formatEstimate(entry.fit.parameters.c0, entry.fit.standardErrors.c0, units.c0)}
+              </td>
+              <td>{entry.fit.rSquared.toFixed(4)}</td>
+              <td>{Number.isFinite(entry.aicc) ? formatNumber(entry.aicc) : "–"}</td>
+              <td>{entry.deltaAicc === null ? "–" : entry.deltaAicc.toFixed(2)}</td>
+              <td>
+                {entry.akaikeWeight === null ? "–" : `${(entry.akaikeWeight * 100).toFixed(1)} %`}
+              </td>
+              <td>{formatNumber(entry.bic)}</td>
+              <td>
+                {entry.flags.length === 0
+                  ? "Unauffällig"
+                  : entry.flags.map((flag) => describeFlag(flag)).join(", ")}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
+
+/** Uncertainty of a single-series fit; the result is stored with its fit record. */
+const RecordUncertaintyPanel = ({
+  experimentId,
+  series,
+  fit,
+  fitRecords,
+  onComputed
+}: {
+  experimentId: string;
+  series: Series;
+  fit: FitResult;
+  fitRecords: DatasetFitRecord[];
+  onComputed: NonNullable<ModelingScreenProps["onUncertaintyComputed"]>;
+}) => {
+  const record = fitRecords.find(
+    (item) => item.id === getFitRecordId(experimentId, fit.seriesId, fit.modelId)
+  );
+  return (
+    <UncertaintyPanel
+      request={{
+        kind: "rate-law",
+        modelId: fit.modelId as RateLawId,
+        points: getFitPoints(series),
+        fit
+      }}
+      uncertainty={record?.uncertainty}
+      disabled={!record}
+      onComputed={(uncertainty, parameters) => {
+        if (record) {
+          onComputed(record.id, uncertainty, parameters);
+        }
+      }}
+    />
+  );
+};
+
+const GlobalFitCard = ({
+  entry,
+  experiments,
+  fitRecords,
+  onUncertaintyComputed
+}: {
+  entry: GroupFitEntry;
+  experiments: Experiment[];
+  fitRecords: DatasetFitRecord[];
+  onUncertaintyComputed?: ModelingScreenProps["onUncertaintyComputed"];
+}) => {
+  const names = new Map(
+    experiments.map((experiment) => [experiment.experimentId, experiment.name ?? "Experiment"])
+  );
+  const record = entry.result
+    ? fitRecords.find(
+        (item) => item.id === getGlobalFitRecordId(entry.group.id, entry.result?.modelId ?? "")
+      )
+    : undefined;
+  const mixedUnits = entry.concentrationLabels.length > 1;
+  const units: Record<string, string> = mixedUnits
+    ? {}
+    : getRateLawParameterUnits(
+        entry.result?.modelId as RateLawId,
+        entry.concentrationLabels[0] ?? ""
+      );
+  return (
+    <article className="experiment-card" style={{ borderTop: `4px solid ${entry.group.color}` }}>
+      <header>
+        <h5>{entry.group.name}</h5>
+        {entry.result && (
+          <p className="meta">
+            Gemeinsam:{" "}
+            {Object.keys(entry.result.sharedParameters).length === 0
+              ? "keine Parameter"
+              : Object.entries(entry.result.sharedParameters)
+                  .map(
+                    ([name, value]) =>
+                      `${name} = ${formatEstimate(
+                        value,
+                        entry.result?.sharedStandardErrors[name],
+                        units[name] ?? ""
+                      )}`
+                  )
+                  .join(" · ")}{" "}
+            · SSE {formatNumber(entry.result.sse)} · {entry.result.pointCount} Punkte
+          </p>
+        )}
+      </header>
+      {entry.error && <p className="meta">{entry.error}</p>}
+      {mixedUnits && (
+        <p className="meta">
+          Achtung: Die Reihen dieser Gruppe haben unterschiedliche Konzentrationseinheiten (
+          {entry.concentrationLabels.join(", ")}). Gemeinsame Parameter sind nicht vergleichbar.
+        </p>
+      )}
+      {entry.result && (
+        <div className="mapping-preview">
+          <table className="model-table">
+            <thead>
+              <tr>
+                <th>Experiment</th>
+                <th>k</th>
+                <th>c0</th>
+                <th>R²</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entry.result.members.map((member) => (
+                <tr key={member.experimentId}>
+                  <td>{names.get(member.experimentId) ?? member.experimentId}</td>
+                  <td>
+                    {formatEstimate(member.parameters.k, member.standardErrors.k, units.k ?? "")}
+                  </td>
+                  <td>
+                    {formatEstimate(member.parameters.c0, member.standardErrors.c0, units.c0 ?? "")}
+                  </td>
+                  <td>{member.rSquared.toFixed(4)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {entry.result && (
+        <UncertaintyPanel
+          request={{
+            kind: "global",
+            modelId: entry.result.modelId,
+            sharing: entry.result.sharing,
+            members: entry.result.members.map((member) => ({
+              label: member.label,
+              points: { time: member.time, y: member.observed }
+            })),
+            fit: { parameters: entry.result.parameters, covariance: entry.result.covariance }
+          }}
+          uncertainty={record?.uncertainty}
+          disabled={!record}
+          onComputed={(uncertainty, parameters) => {
+            if (record) {
+              onUncertaintyComputed?.(record.id, uncertainty, parameters);
+            }
+          }}
+        />
+      )}
+    </article>
+  );
+};
+
+const ArrheniusSummary = ({
+  record,
+  concentrationLabel
+}: {
+  record: DatasetArrheniusRecord;
+  concentrationLabel: string;
+}) => {
+  const { arrhenius, eyring } = record;
+  const kUnit = getRateLawParameterUnits(record.modelId as RateLawId, concentrationLabel).k;
+  return (
+    <>
+      <p className="meta">Temperatur-Spalte: {record.temperatureKey}</p>
+      <p className="meta">
+        Ea = {formatQuantity(arrhenius.activationEnergy, arrhenius.confidence, "kJ/mol", 1000)}
+      </p>
+      <p className="meta">
+        A = {formatQuantity(arrhenius.preExponentialFactor, arrhenius.confidence, kUnit)}
+      </p>
+      <p className="meta">R² = {arrhenius.rSquared.toFixed(4)}</p>
+      {eyring ? (
+        <>
+          <p className="meta">
+            ΔH‡ = {formatQuantity(eyring.enthalpyOfActivation, eyring.confidence, "kJ/mol", 1000)}
+          </p>
+          <p className="meta">
+            ΔS‡ = {formatQuantity(eyring.entropyOfActivation, eyring.confidence, "J/(mol·K)")}
+          </p>
+        </>
+      ) : (
+        <p className="meta">Eyring-Auswertung nur für 1. Ordnung (k in s⁻¹).</p>
+      )}
+    </>
+  );
+};
+
+export const ModelingScreen = ({
+  experiments,
+  groups = [],
+  conditionColumns = [],
+  fitRecords = [],
+  arrheniusRecord,
+  onFitsComputed,
+  onFitRecordComputed,
+  onArrheniusComputed,
+  onUncertaintyComputed
+}: ModelingScreenProps) => {
+  const seriesNames = useMemo(
+    () =>
+      Array.from(
+        new Set(experiments.flatMap((experiment) => experiment.series.map((series) => series.name)))
+      ),
+    [experiments]
+  );
+  const [selectedSeriesName, setSelectedSeriesName] = useState<string | null>(null);
+  const [arrheniusEnabled, setArrheniusEnabled] = useState(Boolean(arrheniusRecord));
+  const [selectedArrheniusModelId, setSelectedArrheniusModelId] = useState<RateLawId | null>(
+    (arrheniusRecord?.modelId as RateLawId | undefined) ?? null
+  );
+  const [globalModelId, setGlobalModelId] = useState<RateLawId>("first-order");
+  const [sharing, setSharing] = useState<ParameterSharing>({ k: "shared", c0: "local" });
+  const activeSeriesName = selectedSeriesName ?? seriesNames[0] ?? null;
+
+  const comparisons = useMemo(
+    () =>
+      experiments.flatMap((experiment) => {
+        const series =
+          experiment.series.find((item) => item.name === activeSeriesName) ?? experiment.series[0];
+        if (!series) {
+          return [];
+        }
+        const comparison = compareRateLaws(series);
+        const recommended = comparison.ranking.find(
+          (entry) => entry.fit.modelId === comparison.recommendedModelId
+        );
+        return [{ experiment, series, comparison, recommendedFit: recommended?.fit ?? null }];
+      }),
+    [experiments, activeSeriesName]
+  );
+
+  const groupFits = useMemo<GroupFitEntry[]>(
+    () =>
+      groups
+        .filter((group) => group.experimentIds.length > 0)
+        .map((group) => {
+          const members = getGroupExperiments(group, experiments).flatMap((experiment) => {
+            const series =
+              experiment.series.find((item) => item.name === activeSeriesName) ??
+              experiment.series[0];
+            return series
+              ? [
+                  {
+                    experimentId: experiment.experimentId,
+                    series,
+                    label: experiment.name ?? experiment.experimentId
+                  }
+                ]
+              : [];
+          });
+          const concentrationLabels = Array.from(
+            new Set(members.map((member) => getFitConcentrationLabel(member.series)))
+          );
+          try {
+            return {
+              group,
+              result: fitGlobal({ modelId: globalModelId, members, sharing }),
+              error: null,
+              concentrationLabels
+            };
+          } catch (error) {
+            return {
+              group,
+              result: null,
+              error: error instanceof Error ? error.message : "Globaler Fit fehlgeschlagen.",
+              concentrationLabels
+            };
+          }
+        }),
+    [groups, experiments, activeSeriesName, globalModelId, sharing]
+  );
+
+  useEffect(() => {
+    onFitsComputed?.([
+      ...comparisons.flatMap((entry) =>
+        entry.recommendedFit
+          ? [toFitRecord(entry.experiment.experimentId, entry.recommendedFit)]
+          : []
+      ),
+      ...groupFits.flatMap((entry) =>
+        entry.result ? [toGlobalFitRecord(entry.group, entry.result)] : []
+      )
+    ]);
+  }, [comparisons, groupFits, onFitsComputed]);
+
+  const temperatureKey = useMemo(
+    () => findTemperatureKey(experiments, conditionColumns),
+    [experiments, conditionColumns]
+  );
+
+  // k of different rate laws has different units, so Arrhenius uses one rate law for all
+  // experiments; by default the one recommended most often.
+  const arrheniusModelId = useMemo<RateLawId>(() => {
+    if (selectedArrheniusModelId) {
+      return selectedArrheniusModelId;
+    }
+    const counts = RATE_LAW_IDS.map(
+      (modelId) =>
+        comparisons.filter((entry) => entry.comparison.recommendedModelId === modelId).length
+    );
+    return RATE_LAW_IDS[counts.indexOf(Math.max(...counts))];
+  }, [selectedArrheniusModelId, comparisons]);
+
+  const arrhenius = useMemo<{
+    record: DatasetArrheniusRecord | null;
+    error: string | null;
+    /** Experiments without a usable fit of the chosen rate law or without a temperature. */
+    leftOut: string[];
+  }>(() => {
+    if (!arrheniusEnabled) {
+      return { record: null, error: null, leftOut: [] };
+    }
+    if (!temperatureKey) {
+      return {
+        record: null,
+        error: "Keine Temperatur-Spalte in den Experiment-Metadaten gefunden.",
+        leftOut: []
+      };
+    }
+    const fits = Object.fromEntries(
+      comparisons.map((entry) => [
+        entry.experiment.experimentId,
+        entry.comparison.ranking.find((item) => item.fit.modelId === arrheniusModelId)?.fit
+      ])
+    );
+    const points = collectRateConstants({
+      experiments,
+      fits,
+      temperatureKey,
+      modelId: arrheniusModelId
+    });
+    const leftOut = experiments
+      .filter((experiment) =>
+        points.every((point) => point.experimentId !== experiment.experimentId)
+      )
+      .map((experiment) => experiment.name ?? experiment.experimentId);
+    try {
+      const record: DatasetArrheniusRecord = {
+        modelId: arrheniusModelId,
+        temperatureKey,
+        arrhenius: fitArrhenius(points),
+        eyring: arrheniusModelId === "first-order" ? fitEyring(points) : null,
+        leftOut,
+        computedAt: new Date().toISOString()
+      };
+      return { record, error: null, leftOut };
+    } catch (error) {
+      return {
+        record: null,
+        error: error instanceof Error ? error.message : "Arrhenius-Fit fehlgeschlagen.",
+        leftOut
+      };
+    }
+  }, [arrheniusEnabled, arrheniusModelId, comparisons, experiments, temperatureKey]);
+
+  useEffect(() => {
+    onArrheniusComputed?.(arrhenius.record);
+  }, [arrhenius.record, onArrheniusComputed]);
+
+  const recommendedRSquared = comparisons
+    .map((entry) => entry.recommendedFit?.rSquared)
+    .filter((value): value is number => typeof value === "number");
+  const meanRSquared =
+    recommendedRSquared.length > 0
+      ? recommendedRSquared.reduce((sum, value) => sum + value, 0) / recommendedRSquared.length
+      : null;
+
+  if (experiments.length === 0) {
+    return (
+      <div className="empty-state">
+        <h3>Keine Experimente zum Modellieren</h3>
+        <p>Importiere Daten und schließe Mapping und Validierung ab.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="modeling-screen">
+      <section className="validation-guidance">
+        <h2>Modeling</h2>
+        <p className="meta">
+          Für jede Reihe fitten wir Geschwindigkeitsgesetze 0., 1. und 2. Ordnung und ranken sie
+          nach AICc. Die Empfehlung ist das bestplatzierte Modell ohne kritische Diagnose – nicht
+          einfach das höchste R².
+        </p>
+      </section>
+
+      <div className="modeling-layout">
+        <aside className="card modeling-sidebar">
+          <div className="card-body">
+            <p className="eyebrow">Fit-Parameter</p>
+            <label className="field">
+              Datenreihe
+              <select
+                value={activeSeriesName ?? ""}
+                onChange={(event) => setSelectedSeriesName(event.target.value)}
+              >
+                {seriesNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="toggle">
+              <input
+                type="checkbox"
+                checked={arrheniusEnabled}
+                onChange={(event) => setArrheniusEnabled(event.target.checked)}
+              />
+              Arrhenius-Auswertung
+            </label>
+            <div className="modeling-summary">
+              <p className="meta">Mittleres R² (empfohlene Modelle)</p>
+              <strong>{meanRSquared === null ? "n/a" : meanRSquared.toFixed(4)}</strong>
+            </div>
+            {arrheniusEnabled && (
+              <div className="modeling-summary">
+                <label className="field">
+                  Geschwindigkeitsgesetz für k
+                  <select
+                    value={arrheniusModelId}
+                    onChange={(event) =>
+                      setSelectedArrheniusModelId(event.target.value as RateLawId)
+                    }
+                  >
+                    {RATE_LAW_IDS.map((modelId) => (
+                      <option key={modelId} value={modelId}>
+                        {getModelLabel(modelId)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {arrhenius.error && <p className="meta">{arrhenius.error}</p>}
+                {arrhenius.record && (
+                  <ArrheniusSummary
+                    record={arrhenius.record}
+                    concentrationLabel={
+                      comparisons[0] ? getFitConcentrationLabel(comparisons[0].series) : "M"
+                    }
+                  />
+                )}
+                {arrhenius.leftOut.length > 0 && (
+                  <p className="meta">
+                    Nicht berücksichtigt (kein Fit mit diesem Gesetz oder keine Temperatur):{" "}
+                    {arrhenius.leftOut.join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </aside>
+
+        <section className="modeling-results">
+          {comparisons.map(({ experiment, series, comparison, recommendedFit }) => (
+            <article key={experiment.experimentId} className="experiment-card">
+              <header>
+                <h5>{experiment.name ?? "Unbenanntes Experiment"}</h5>
+                <p className="meta">
+                  Datenreihe: {series.name} ·{" "}
+                  {comparison.recommendedModelId
+                    ? `Empfehlung: ${getModelLabel(comparison.recommendedModelId)}`
+                    : "Kein Modell ohne kritische Diagnose"}
+                </p>
+              </header>
+              {comparison.ranking.length === 0 ? (
+                <p className="meta">Zu wenige Punkte für einen Fit.</p>
+              ) : (
+                <>
+                  {recommendedFit && <FitChart fit={recommendedFit} />}
+                  <ComparisonTable
+                    comparison={comparison}
+                    concentrationLabel={getFitConcentrationLabel(series)}
+                  />
+                  {recommendedFit && onUncertaintyComputed && (
+                    <RecordUncertaintyPanel
+                      experimentId={experiment.experimentId}
+                      series={series}
+                      fit={recommendedFit}
+                      fitRecords={fitRecords}
+                      onComputed={onUncertaintyComputed}
+                    />
+                  )}
+                </>
+              )}
+            </article>
+          ))}
+
+          <InitialRatePanel
+            experiments={experiments}
+            groups={groups}
+            seriesName={activeSeriesName}
+            conditionColumns={conditionColumns}
+          />
+
+          <MechanismPanel
+            experiments={experiments}
+            fitRecords={fitRecords}
+            onFitComputed={onFitRecordComputed}
+            onUncertaintyComputed={onUncertaintyComputed}
+          />
+
+          {groupFits.length > 0 && (
+            <section className="card">
+              <div className="card-header">
+                <div>
+                  <p className="eyebrow">Globaler Fit</p>
+                  <h4>Gemeinsame Parameter je Gruppe</h4>
+                  <p className="meta">
+                    Alle Experimente einer Gruppe werden zusammen gefittet. Gemeinsame Parameter
+                    gelten für die ganze Gruppe, lokale pro Experiment.
+                  </p>
+                </div>
+              </div>
+              <div className="card-body modeling-results">
+                <div className="group-toolbar-actions">
+                  <label className="sheet-select">
+                    Modell
+                    <select
+                      value={globalModelId}
+                      onChange={(event) => setGlobalModelId(event.target.value as RateLawId)}
+                    >
+                      {RATE_LAW_IDS.map((modelId) => (
+                        <option key={modelId} value={modelId}>
+                          {getModelLabel(modelId)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {RATE_LAWS[globalModelId].parameterNames.map((name) => (
+                    <label key={name} className="toggle">
+                      <input
+                        type="checkbox"
+                        checked={sharing[name] === "shared"}
+                        onChange={(event) =>
+                          setSharing((prev) => ({
+                            ...prev,
+                            [name]: event.target.checked ? "shared" : "local"
+                          }))
+                        }
+                      />
+                      {name} gemeinsam
+                    </label>
+                  ))}
+                </div>
+                {groupFits.map((entry) => (
+                  <GlobalFitCard
+                    key={entry.group.id}
+                    entry={entry}
+                    experiments={experiments}
+                    fitRecords={fitRecords}
+                    onUncertaintyComputed={onUncertaintyComputed}
+                  />
+                ))}
+              </div>
+            </section>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState } from "react";
+import type { FitUncertainty } from "../../types/fitting";
+import { haveSameParameters } from "../../lib/fitting/fitRecords";
+import type { UncertaintyRequest } from "../../lib/fitting/uncertainty";
+import { startUncertaintyAnalysis, type UncertaintyJob } from "../../lib/fitting/uncertaintyClient";
+import { formatNumber } from "../../lib/units/format";
+
+type UncertaintyPanelProps = {
+  /** Analysis input for the fit on screen; `request.fit.parameters` identify the fit. */
+  request: UncertaintyRequest;
+  /** Stored result; without one the panel shows its last result for the current fit. */
+  uncertainty?: FitUncertainty;
+  disabled?: boolean;
+  onComputed?: (uncertainty: FitUncertainty, parameters: Record<string, number>) => void;
+};
+
+const formatInterval = (interval: { lower: number | null; upper: number | null }): string =>
+  `${interval.lower === null ? "offen" : formatNumber(interval.lower)} – ${
+    interval.upper === null ? "offen" : formatNumber(interval.upper)
+  }`;
+
+export const UncertaintyPanel = ({
+  request,
+  uncertainty: storedUncertainty,
+  disabled = false,
+  onComputed
+}: UncertaintyPanelProps) => {
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<{
+    parameters: Record<string, number>;
+    uncertainty: FitUncertainty;
+  } | null>(null);
+  // The fit can change while the worker runs; its result then belongs to the old fit.
+  const currentParameters = useRef(request.fit.parameters);
+  currentParameters.current = request.fit.parameters;
+  const job = useRef<UncertaintyJob | null>(null);
+  // ODE profiles can run for a long time; stop them when the panel goes away.
+  useEffect(
+    () => () => {
+      job.current?.terminate();
+      job.current = null;
+    },
+    []
+  );
+  const { fit } = request;
+  const uncertainty =
+    storedUncertainty ??
+    (lastResult && haveSameParameters(lastResult.parameters, fit.parameters)
+      ? lastResult.uncertainty
+      : undefined);
+
+  const handleRun = async () => {
+    const parameters = fit.parameters;
+    setRunning(true);
+    setError(null);
+    const started = startUncertaintyAnalysis(request);
+    job.current = started;
+    try {
+      const result = await started.result;
+      if (job.current !== started) {
+        return;
+      }
+      if (!haveSameParameters(currentParameters.current, parameters)) {
+        setError("Der Fit hat sich während der Berechnung geändert; Ergebnis verworfen.");
+        return;
+      }
+      setLastResult({ parameters, uncertainty: result });
+      onComputed?.(result, parameters);
+    } catch (analysisError) {
+      if (job.current !== started) {
+        return;
+      }
+      setError(
+        analysisError instanceof Error
+          ? analysisError.message
+          : "Unsicherheitsanalyse fehlgeschlagen."
+      );
+    } finally {
+      if (job.current === started) {
+        job.current = null;
+        setRunning(false);
+      }
+    }
+  };
+
+  return (
+    <div className="uncertainty-panel">
+      <div className="mapping-actions">
+        <p className="meta">
+          Konfidenzintervalle per Residuen-Bootstrap und Profil-Likelihood (läuft im Hintergrund).
+        </p>
+        <button
+          type="button"
+          className="btn btn-ghost"
+          onClick={() => void handleRun()}
+          disabled={running || disabled}
+        >
+          {running ? "Berechne…" : uncertainty ? "Neu berechnen" : "Unsicherheit berechnen"}
+        </button>
+      </div>
+      {error && <p className="meta">{error}</p>}
+      {uncertainty && (
+        <>
+          <div className="mapping-preview">
+            <table className="model-table">
+              <thead>
+                <tr>
+                  <th>Parameter</th>
+                  <th>Schätzwert ± SE</th>
+                  <th>Bootstrap {Math.round(uncertainty.confidence * 100)} %-KI</th>
+                  <th>Profil {Math.round(uncertainty.confidence * 100)} %-KI</th>
+                </tr>
+              </thead>
+              <tbody>
+                {uncertainty.parameterNames.map((name, index) => (
+                  <tr key={name}>
+                    <td>{name}</td>
+                    <td>
+                      {formatNumber(fit.parameters[name])} ±{" "}
+                      {formatNumber(Math.sqrt(fit.covariance?.[index]?.[index] ?? Number.NaN))}
+                    </td>
+                    <td>{formatInterval(uncertainty.bootstrap.intervals[name])}</td>
+                    <td>{formatInterval(uncertainty.profile.intervals[name])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {uncertainty.correlation && (
+            <div className="mapping-preview">
+              <table className="model-table">
+                <thead>
+                  <tr>
+                    <th>Korrelation</th>
+                    {uncertainty.parameterNames.map((name) => (
+                      <th key={name}>{name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {uncertainty.correlation.map((row, rowIndex) => (
+                    <tr key={uncertainty.parameterNames[rowIndex]}>
+                      <td>{uncertainty.parameterNames[rowIndex]}</td>
+                      {row.map((value, columnIndex) => (
+                        <td key={uncertainty.parameterNames[columnIndex]}>{value.toFixed(3)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="meta">
+            Bootstrap: {uncertainty.bootstrap.successful}/{uncertainty.bootstrap.iterations}{" "}
+            erfolgreiche Refits · Seed {uncertainty.bootstrap.seed}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import type { Dataset } from "../../lib/import/types";
+import type { ValidationProfileId } from "../../lib/import/validationProfiles";
+import { renderReportPdf } from "../../lib/report/pdf";
+import {
+  buildKineticsReport,
+  getReportFileName,
+  type KineticsReport
+} from "../../lib/report/reportModel";
+import type { ExperimentGroup } from "../../types/grouping";
+
+export type GeneratedReportSummary = {
+  fileName: string;
+  pageCount: number;
+  sections: string[];
+  fitCount: number;
+  includeAudit: boolean;
+  includeCharts: boolean;
+};
+
+type ReportScreenProps = {
+  dataset: Dataset | null;
+  groups: ExperimentGroup[];
+  validationProfileId?: ValidationProfileId;
+  onReportGenerated?: (summary: GeneratedReportSummary) => void;
+};
+
+type GeneratedReport = {
+  report: KineticsReport;
+  fileName: string;
+  url: string;
+  pageCount: number;
+};
+
+const NOTE_SUGGESTIONS = [
+  "Daten wurden ohne manuelle Korrekturen ausgewertet.",
+  "Modellwahl nach AICc, Residuen visuell geprüft.",
+  "Freigabe durch QA ausstehend."
+];
+
+export const ReportScreen = ({
+  dataset,
+  groups,
+  validationProfileId,
+  onReportGenerated
+}: ReportScreenProps) => {
+  const [title, setTitle] = useState("");
+  const [author, setAuthor] = useState("");
+  const [notes, setNotes] = useState("");
+  const [includeCharts, setIncludeCharts] = useState(true);
+  const [includeAudit, setIncludeAudit] = useState(true);
+  const [generated, setGenerated] = useState<GeneratedReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!generated) {
+      return undefined;
+    }
+    return () => URL.revokeObjectURL(generated.url);
+  }, [generated]);
+
+  if (!dataset || dataset.experiments.length === 0) {
+    return (
+      <div className="empty-state">
+        <h3>Noch nichts zu berichten</h3>
+        <p>Importiere Daten und führe die Modellierung durch, bevor du einen Report erstellst.</p>
+      </div>
+    );
+  }
+
+  const fitCount = dataset.fits?.length ?? 0;
+
+  const appendNote = (note: string) => {
+    setNotes((current) => (current.trim() ? `${current.trim()}\n\n${note}` : note));
+  };
+
+  const handleGenerate = () => {
+    setError(null);
+    try {
+      const report = buildKineticsReport({
+        dataset,
+        groups,
+        validationProfileId,
+        options: { title, author, notes, includeCharts, includeAudit }
+      });
+      const { bytes, pageCount } = renderReportPdf(report);
+      const fileName = getReportFileName(report);
+      const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: "application/pdf" }));
+      setGenerated({ report, fileName, url, pageCount });
+      onReportGenerated?.({
+        fileName,
+        pageCount,
+        sections: report.sections.map((section) => section.title),
+        fitCount,
+        includeAudit,
+        includeCharts
+      });
+    } catch (generateError) {
+      setError(
+        generateError instanceof Error
+          ? generateError.message
+          : "Report konnte nicht erstellt werden."
+      );
+    }
+  };
+
+  return (
+    <div className="report-screen">
+      <section className="validation-guidance">
+        <h2>Report</h2>
+        <p className="meta">
+          Der Report bündelt Datensatz, Validierung, Gruppierung, Fits und den Audit-Trail in einem
+          PDF. Er wird vollständig lokal im Browser erzeugt – es verlassen keine Daten das Gerät.
+        </p>
+      </section>
+
+      <div className="report-layout">
+        <aside className="card report-assistant">
+          <div className="card-body">
+            <p className="eyebrow">Report-Assistent</p>
+            <div className="report-bubble">
+              {fitCount > 0
+                ? `${fitCount} Fit-Ergebnis${fitCount === 1 ? "" : "se"} liegen vor. Was soll in den Report?`
+                : "Es liegen noch keine Fits vor – der Report enthält dann nur Import und Validierung."}
+            </div>
+            <div className="chip-row">
+              <button
+                type="button"
+                className={`chip chip-toggle ${includeCharts ? "active" : ""}`}
+                aria-pressed={includeCharts}
+                onClick={() => setIncludeCharts((current) => !current)}
+              >
+                Fit-Plots
+              </button>
+              <button
+                type="button"
+                className={`chip chip-toggle ${includeAudit ? "active" : ""}`}
+                aria-pressed={includeAudit}
+                onClick={() => setIncludeAudit((current) => !current)}
+              >
+                Audit-Trail
+              </button>
+            </div>
+            <label className="field">
+              Titel
+              <input
+                type="text"
+                value={title}
+                placeholder={`Kinetik-Report · ${dataset.name}`}
+                onChange={(event) => setTitle(event.target.value)}
+              />
+            </label>
+            <label className="field">
+              Bearbeiter:in
+              <input
+                type="text"
+                value={author}
+                onChange={(event) => setAuthor(event.target.value)}
+              />
+            </label>
+            <label className="field">
+              Anmerkungen
+              <textarea rows={4} value={notes} onChange={(event) => setNotes(event.target.value)} />
+            </label>
+            <div className="chip-row">
+              {NOTE_SUGGESTIONS.map((note) => (
+                <button
+                  key={note}
+                  type="button"
+                  className="chip chip-toggle"
+                  onClick={() => appendNote(note)}
+                >
+                  {note}
+                </button>
+              ))}
+            </div>
+            <button type="button" className="btn btn-primary" onClick={handleGenerate}>
+              Report generieren
+            </button>
+            {error && <p className="meta">{error}</p>}
+          </div>
+        </aside>
+
+        <section className="card report-preview">
+          <div className="report-titlebar">
+            <div>
+              <p className="eyebrow">PDF-Vorschau</p>
+              <h4>{generated ? generated.fileName : "Noch kein Report erstellt"}</h4>
+              {generated && (
+                <p className="meta">
+                  {generated.pageCount} Seite{generated.pageCount === 1 ? "" : "n"} ·{" "}
+                  {generated.report.sections.map((section) => section.title).join(" · ")}
+                </p>
+              )}
+            </div>
+            {generated && (
+              <a className="btn btn-primary" href={generated.url} download={generated.fileName}>
+                Download
+              </a>
+            )}
+          </div>
+          {generated ? (
+            <iframe className="report-frame" title="PDF-Vorschau" src={generated.url} />
+          ) : (
+            <div className="report-placeholder">
+              <p className="meta">
+                Wähle links die Inhalte und klicke auf „Report generieren“. Die Vorschau erscheint
+                hier.
+              </p>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import {
+  DEFAULT_PREPROCESSING_STEPS,
+  PREPROCESSING_STEP_LABELS,
+  describePreprocessingStep,
+  readPreprocessingStep,
+  type PreprocessingStep,
+  type PreprocessingStepKind
+} from "../../lib/preprocessing/pipeline";
+
+const STEP_KINDS = Object.keys(PREPROCESSING_STEP_LABELS) as PreprocessingStepKind[];
+
+type PreprocessingEditorProps = {
+  steps: PreprocessingStep[];
+  onAddStep: (step: PreprocessingStep) => void;
+  onRemoveStep: (index: number) => void;
+};
+
+const NumberField = ({
+  label,
+  value,
+  step,
+  onChange
+}: {
+  label: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) => (
+  <label className="field">
+    {label}
+    <input
+      type="number"
+      value={Number.isFinite(value) ? value : ""}
+      step={step}
+      onChange={(event) => onChange(Number(event.target.value))}
+    />
+  </label>
+);
+
+/** Parameter inputs of the step that is about to be added. */
+const StepParameters = ({
+  draft,
+  onChange
+}: {
+  draft: PreprocessingStep;
+  onChange: (step: PreprocessingStep) => void;
+}) => {
+  switch (draft.kind) {
+    case "baseline":
+      return (
+        <>
+          <label className="field">
+            Bezug
+            <select
+              value={draft.reference}
+              onChange={(event) =>
+                onChange({ ...draft, reference: event.target.value === "start" ? "start" : "end" })
+              }
+            >
+              <option value="end">Ende der Messung</option>
+              <option value="start">Beginn der Messung</option>
+            </select>
+          </label>
+          <NumberField
+            label="Punkte"
+            value={draft.points}
+            onChange={(points) => onChange({ ...draft, points })}
+          />
+        </>
+      );
+    case "savitzky-golay":
+      return (
+        <>
+          <NumberField
+            label="Fenster (ungerade)"
+            value={draft.window}
+            step={2}
+            onChange={(window) => onChange({ ...draft, window })}
+          />
+          <NumberField
+            label="Polynomgrad"
+            value={draft.order}
+            onChange={(order) => onChange({ ...draft, order })}
+          />
+        </>
+      );
+    case "normalize":
+      return (
+        <label className="field">
+          Bezug
+          <select
+            value={draft.mode}
+            onChange={(event) =>
+              onChange({
+                ...draft,
+                mode: event.target.value === "conversion" ? "conversion" : "initial"
+              })
+            }
+          >
+            <option value="initial">Startwert = 1</option>
+            <option value="conversion">Umsatz 0–1</option>
+          </select>
+        </label>
+      );
+    case "beer-lambert":
+      return (
+        <>
+          <NumberField
+            label="ε (L·mol⁻¹·cm⁻¹)"
+            value={draft.epsilon}
+            onChange={(epsilon) => onChange({ ...draft, epsilon })}
+          />
+          <NumberField
+            label="Schichtdicke (cm)"
+            value={draft.pathLength}
+            step={0.1}
+            onChange={(pathLength) => onChange({ ...draft, pathLength })}
+          />
+        </>
+      );
+  }
+};
+
+export const PreprocessingEditor = ({
+  steps,
+  onAddStep,
+  onRemoveStep
+}: PreprocessingEditorProps) => {
+  const [draft, setDraft] = useState<PreprocessingStep>(DEFAULT_PREPROCESSING_STEPS.baseline);
+  // Invalid parameters (even window, ε ≤ 0 …) keep the button disabled.
+  const validDraft = readPreprocessingStep(draft);
+
+  return (
+    <details className="technical-details preprocessing-editor">
+      <summary>
+        Vorverarbeitung
+        {steps.length > 0 ? `: ${steps.length} Schritt${steps.length === 1 ? "" : "e"}` : ""}
+      </summary>
+      {steps.length > 0 ? (
+        <ol className="preprocessing-steps">
+          {steps.map((step, index) => (
+            <li key={`${step.kind}-${index}`}>
+              <span className="meta">{describePreprocessingStep(step)}</span>
+              <button type="button" className="btn btn-ghost" onClick={() => onRemoveStep(index)}>
+                Entfernen
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="meta">
+          Keine Schritte. Die Rohdaten bleiben immer erhalten; Fits verwenden das Ergebnis der
+          Schritte in dieser Reihenfolge.
+        </p>
+      )}
+      <div className="preprocessing-form">
+        <label className="field">
+          Schritt
+          <select
+            value={draft.kind}
+            onChange={(event) =>
+              setDraft(DEFAULT_PREPROCESSING_STEPS[event.target.value as PreprocessingStepKind])
+            }
+          >
+            {STEP_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {PREPROCESSING_STEP_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <StepParameters draft={draft} onChange={setDraft} />
+        <button
+          type="button"
+          className="btn btn-ghost"
+          disabled={!validDraft}
+          onClick={() => validDraft && onAddStep(validDraft)}
+        >
+          Hinzufügen
+        </button>
+      </div>
+    </details>
+  );
+};
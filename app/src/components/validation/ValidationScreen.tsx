@@ -1,7 +1,42 @@
+import type { KeyboardEvent } from "react";
 import type { Dataset, Series } from "../../lib/import/types";
 import type { ValidationReport } from "../../lib/import/validation";
 import { normalizeTimeToSeconds, type TimeColumnType } from "../../lib/import/time";
+import { TIMESTAMP_FORMATS, TIMESTAMP_FORMAT_LABELS } from "../../lib/import/timestamp";
+import {
+  formatDroppedRow,
+  getDroppedRows,
+  getSeriesSource,
+  type ExclusionReason,
+  type PointRef
+} from "../../lib/import/provenance";
+import {
+  FIX_ACTION_LABELS,
+  getAppliedFixes,
+  previewFix,
+  type FixActionId
+} from "../../lib/import/fixes";
+import {
+  SERIES_ROLES,
+  SERIES_ROLE_LABELS,
+  getSeriesRole,
+  isSeriesRole,
+  type SeriesRole
+} from "../../lib/import/seriesRole";
+import {
+  VALIDATION_PROFILES,
+  getValidationProfile,
+  isValidationProfileId,
+  type ValidationProfileId
+} from "../../lib/import/validationProfiles";
+import {
+  getPreprocessingSteps,
+  preprocessSeries,
+  type PreprocessingStep
+} from "../../lib/preprocessing/pipeline";
+import { getSeriesTimeUnit, getSeriesValueUnit } from "../../lib/units/seriesUnits";
 import { ImportValidationReport } from "../import/ImportValidationReport";
+import { PreprocessingEditor } from "./PreprocessingEditor";
 
 type ValidationScreenProps = {
   dataset: Dataset | null;
@@ -9,6 +44,24 @@ type ValidationScreenProps = {
   onBackToMapping: () => void;
   onContinue: () => void;
   disableContinue?: boolean;
+  onExcludePoints?: (
+    experimentId: string,
+    seriesId: string,
+    pointIndices: number[],
+    reason: ExclusionReason
+  ) => void;
+  onIncludePoints?: (experimentId: string, seriesId: string, points: PointRef[]) => void;
+  onApplyFix?: (experimentId: string, seriesId: string, fixId: FixActionId) => void;
+  onRevertFixes?: (experimentId: string, seriesId: string) => void;
+  onSetSeriesRole?: (experimentId: string, seriesId: string, role: SeriesRole | null) => void;
+  validationProfileId?: ValidationProfileId;
+  onSelectValidationProfile?: (profileId: ValidationProfileId) => void;
+  onAddPreprocessingStep?: (
+    experimentId: string,
+    seriesId: string,
+    step: PreprocessingStep
+  ) => void;
+  onRemovePreprocessingStep?: (experimentId: string, seriesId: string, index: number) => void;
 };
 
 const getTimeType = (series: Series): TimeColumnType => {
@@ -16,6 +69,11 @@ const getTimeType = (series: Series): TimeColumnType => {
   return metaValue === "datetime" ? "datetime" : "numeric";
 };
 
+const getTimeFormatLabel = (series: Series): string | null => {
+  const format = TIMESTAMP_FORMATS.find((item) => item === series.meta?.timeFormat);
+  return format && format !== "numeric" ? TIMESTAMP_FORMAT_LABELS[format] : null;
+};
+
 const formatSeconds = (value: number): string => {
   if (!Number.isFinite(value)) {
     return "n/a";
@@ -24,28 +82,36 @@ const formatSeconds = (value: number): string => {
   return fixed.endsWith(".00") ? fixed.replace(".00", "") : fixed;
 };
 
+type ChartPoint = { x: number; y: number; index: number };
+
 const SeriesPreviewChart = ({
-  time,
-  values
+  points,
+  excludedPoints = [],
+  outlierIndices = [],
+  onTogglePoint
 }: {
-  time: number[];
-  values: number[];
+  points: ChartPoint[];
+  /** Excluded points stay visible (hollow) so they can be taken back in. */
+  excludedPoints?: ChartPoint[];
+  outlierIndices?: number[];
+  onTogglePoint?: (point: ChartPoint, excluded: boolean) => void;
 }) => {
   const viewWidth = 240;
   const viewHeight = 96;
   const padding = 10;
-  const pairs = time
-    .map((t, index) => ({ x: t, y: values[index] }))
-    .filter((point) => Number.isFinite(point.x) && Number.isFinite(point.y));
+  const isFinitePoint = (point: ChartPoint) => Number.isFinite(point.x) && Number.isFinite(point.y);
+  const pairs = points.filter(isFinitePoint);
+  const excluded = excludedPoints.filter(isFinitePoint);
+  const all = [...pairs, ...excluded];
 
-  if (pairs.length === 0) {
+  if (all.length === 0) {
     return <p className="meta">Keine numerischen Daten verfügbar.</p>;
   }
 
-  const xMin = Math.min(...pairs.map((p) => p.x));
-  const xMax = Math.max(...pairs.map((p) => p.x));
-  const yMin = Math.min(...pairs.map((p) => p.y));
-  const yMax = Math.max(...pairs.map((p) => p.y));
+  const xMin = Math.min(...all.map((p) => p.x));
+  const xMax = Math.max(...all.map((p) => p.x));
+  const yMin = Math.min(...all.map((p) => p.y));
+  const yMax = Math.max(...all.map((p) => p.y));
   const xRange = xMax - xMin || 1;
   const yRange = yMax - yMin || 1;
 
@@ -58,23 +124,49 @@ const SeriesPreviewChart = ({
     .map((point, index) => `${index === 0 ? "M" : "L"} ${toSvgX(point.x)} ${toSvgY(point.y)}`)
     .join(" ");
 
+  const renderPoint = (point: ChartPoint, isExcluded: boolean) => {
+    const isOutlier = !isExcluded && outlierIndices.includes(point.index);
+    const label = `t = ${formatSeconds(point.x)} s, y = ${point.y}: ${
+      isExcluded ? "wieder aufnehmen" : "ausschließen"
+    }`;
+    return (
+      <circle
+        key={`${isExcluded ? "excluded" : "point"}-${point.index}`}
+        className={isExcluded ? "excluded" : isOutlier ? "outlier" : undefined}
+        cx={toSvgX(point.x)}
+        cy={toSvgY(point.y)}
+        r={isOutlier ? 4 : 3}
+        fill={isExcluded ? "#ffffff" : isOutlier ? "#dc2626" : "#0f172a"}
+        stroke={isExcluded ? "#94a3b8" : "none"}
+        role={onTogglePoint ? "button" : undefined}
+        tabIndex={onTogglePoint ? 0 : undefined}
+        aria-label={onTogglePoint ? label : undefined}
+        onClick={onTogglePoint && (() => onTogglePoint(point, isExcluded))}
+        onKeyDown={
+          onTogglePoint &&
+          ((event: KeyboardEvent) => {
+            if (event.key === "Enter" || event.key === " ") {
+              event.preventDefault();
+              onTogglePoint(point, isExcluded);
+            }
+          })
+        }
+      >
+        <title>{label}</title>
+      </circle>
+    );
+  };
+
   return (
     <svg
-      className="series-chart"
+      className={`series-chart${onTogglePoint ? " interactive" : ""}`}
       viewBox={`0 0 ${viewWidth} ${viewHeight}`}
       role="img"
       aria-label="Miniatur-Diagramm der Messwerte"
     >
       <path d={pathData} fill="none" stroke="#0f172a" strokeWidth="1.25" />
-      {pairs.map((point, index) => (
-        <circle
-          key={`${point.x}-${point.y}-${index}`}
-          cx={toSvgX(point.x)}
-          cy={toSvgY(point.y)}
-          r={3}
-          fill="#0f172a"
-        />
-      ))}
+      {excluded.map((point) => renderPoint(point, true))}
+      {pairs.map((point) => renderPoint(point, false))}
     </svg>
   );
 };
@@ -84,17 +176,45 @@ export const ValidationScreen = ({
   report,
   onBackToMapping,
   onContinue,
-  disableContinue = false
+  disableContinue = false,
+  onExcludePoints,
+  onIncludePoints,
+  onApplyFix,
+  onRevertFixes,
+  onSetSeriesRole,
+  validationProfileId,
+  onSelectValidationProfile,
+  onAddPreprocessingStep,
+  onRemovePreprocessingStep
 }: ValidationScreenProps) => {
+  const profile = getValidationProfile(validationProfileId);
+  const findSeries = (experimentId: string, seriesId: string) =>
+    dataset?.experiments
+      .find((experiment) => experiment.experimentId === experimentId)
+      ?.series.find((series) => series.id === seriesId) ?? null;
+
   const seriesSummaries =
     dataset?.experiments.flatMap((experiment) =>
       experiment.series.map((series) => {
         const timeType = getTimeType(series);
-        const normalizedTime = normalizeTimeToSeconds({
-          time: series.time,
-          timeType
+        const timeUnit = getSeriesTimeUnit(series);
+        const droppedRows = getDroppedRows(series);
+        // Excluded points keep their parsed time and value and are drawn with the series.
+        const excludedRows = droppedRows.flatMap((row, index) =>
+          row.time !== undefined && row.y !== undefined
+            ? [{ index, time: row.time, y: row.y, rowIndex: row.rowIndex }]
+            : []
+        );
+        const allTime = normalizeTimeToSeconds({
+          time: [...series.time, ...excludedRows.map((row) => row.time)],
+          timeType,
+          timeUnit: timeUnit?.id
         });
+        const normalizedTime = allTime.slice(0, series.time.length);
         const experimentName = experiment.name ?? "Unbenanntes Experiment";
+        const source = getSeriesSource(series);
+        const preprocessing = getPreprocessingSteps(series);
+        const processedY = preprocessing.length > 0 ? preprocessSeries(series).y : null;
         const spanSeconds =
           normalizedTime.length > 1
             ? Math.max(...normalizedTime) - Math.min(...normalizedTime)
@@ -106,10 +226,32 @@ export const ValidationScreen = ({
           seriesId: series.id,
           seriesName: series.name,
           timeType,
+          timeFormatLabel: getTimeFormatLabel(series),
+          timeUnit: timeUnit?.symbol ?? null,
+          valueUnit: getSeriesValueUnit(series)?.symbol ?? null,
           spanSeconds,
           pointCount: series.time.length,
-          normalizedTime,
-          values: series.y
+          source: [source.file, source.sheet].filter(Boolean).join(" · ") || null,
+          droppedRows,
+          appliedFixes: getAppliedFixes(series),
+          role: getSeriesRole(series),
+          preprocessing,
+          processedPoints: processedY
+            ? normalizedTime.map((x, index) => ({ x, y: processedY[index], index }))
+            : null,
+          points: normalizedTime.map((x, index) => ({ x, y: series.y[index], index })),
+          excludedPoints: excludedRows.map((row, position) => ({
+            x: allTime[series.time.length + position],
+            y: row.y,
+            index: position
+          })),
+          excludedRefs: excludedRows.map(({ rowIndex, time, y }) => ({ rowIndex, time, y })),
+          outlierIndices:
+            report?.experimentSummaries
+              .find((item) => item.experimentId === experiment.experimentId)
+              ?.findings.find(
+                (finding) => finding.code === "OUTLIER_POINTS" && finding.seriesId === series.id
+              )?.details?.outlierIndices ?? []
         };
       })
     ) ?? [];
@@ -137,6 +279,28 @@ export const ValidationScreen = ({
             sonst geh mit „Zurück“ noch einmal ins Mapping.
           </li>
         </ul>
+        {onSelectValidationProfile && (
+          <div className="validation-profile">
+            <label className="field">
+              Prüfprofil
+              <select
+                value={profile.id}
+                onChange={(event) => {
+                  if (isValidationProfileId(event.target.value)) {
+                    onSelectValidationProfile(event.target.value);
+                  }
+                }}
+              >
+                {VALIDATION_PROFILES.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <p className="meta">{profile.description}</p>
+          </div>
+        )}
       </section>
       {seriesSummaries.length > 0 && (
         <section className="series-metrics">
@@ -145,7 +309,9 @@ export const ValidationScreen = ({
               <h3>Serien-Check</h3>
               <p className="meta">
                 Jede Kachel zeigt Dauer, Messpunkte und einen Mini-Plot (Punkte + Linie) für einen
-                schnellen Plausibilitäts-Check.
+                schnellen Plausibilitäts-Check. Rot markierte Punkte sind mögliche Ausreißer; ein
+                Klick auf einen Punkt schließt ihn aus oder nimmt ihn wieder auf. Markiere Edukte
+                und Produkte, damit Verlauf und Massenbilanz geprüft werden.
               </p>
             </div>
           </header>
@@ -157,15 +323,126 @@ export const ValidationScreen = ({
                     <h5>{summary.seriesName}</h5>
                     <p className="meta">Experiment: {summary.experimentName}</p>
                   </div>
+                  {onSetSeriesRole && (
+                    <label className="field">
+                      Rolle
+                      <select
+                        value={summary.role ?? ""}
+                        onChange={(event) =>
+                          onSetSeriesRole(
+                            summary.experimentId,
+                            summary.seriesId,
+                            isSeriesRole(event.target.value) ? event.target.value : null
+                          )
+                        }
+                      >
+                        <option value="">keine Angabe</option>
+                        {SERIES_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {SERIES_ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
                 </header>
-                <SeriesPreviewChart time={summary.normalizedTime} values={summary.values} />
+                <SeriesPreviewChart
+                  points={summary.points}
+                  excludedPoints={summary.excludedPoints}
+                  outlierIndices={summary.outlierIndices}
+                  onTogglePoint={
+                    onExcludePoints && onIncludePoints
+                      ? (point, excluded) =>
+                          excluded
+                            ? onIncludePoints(summary.experimentId, summary.seriesId, [
+                                summary.excludedRefs[point.index]
+                              ])
+                            : onExcludePoints(
+                                summary.experimentId,
+                                summary.seriesId,
+                                [point.index],
+                                "user-excluded"
+                              )
+                      : undefined
+                  }
+                />
+                {summary.processedPoints && (
+                  <div className="processed-preview">
+                    <p className="meta">Nach Vorverarbeitung (Grundlage der Fits):</p>
+                    <SeriesPreviewChart points={summary.processedPoints} />
+                  </div>
+                )}
+                {summary.outlierIndices.length > 0 && onExcludePoints && (
+                  <button
+                    type="button"
+                    className="btn btn-ghost"
+                    onClick={() =>
+                      onExcludePoints(
+                        summary.experimentId,
+                        summary.seriesId,
+                        summary.outlierIndices,
+                        "outlier-excluded"
+                      )
+                    }
+                  >
+                    {summary.outlierIndices.length === 1
+                      ? "Ausreißer ausschließen"
+                      : `${summary.outlierIndices.length} Ausreißer ausschließen`}
+                  </button>
+                )}
                 <div className="chart-meta">
                   <p className="meta">
-                    Zeitachse: {summary.timeType === "datetime" ? "Zeitstempel (relativ)" : "Zahlen"}
+                    Zeitachse:{" "}
+                    {summary.timeType === "datetime" ? "Zeitstempel (relativ)" : "Zahlen"}
+                    {summary.timeFormatLabel && ` · ${summary.timeFormatLabel}`}
+                    {summary.timeType === "numeric" &&
+                      ` · ${summary.timeUnit ?? "keine Einheit erkannt, als s gewertet"}`}
                   </p>
+                  <p className="meta">Werte: {summary.valueUnit ?? "keine Einheit erkannt"}</p>
                   <p className="meta">Messpunkte: {summary.pointCount}</p>
                   <p className="meta">Dauer: {formatSeconds(summary.spanSeconds)} s</p>
+                  {summary.source && <p className="meta">Quelle: {summary.source}</p>}
                 </div>
+                {summary.appliedFixes.length > 0 && (
+                  <div className="applied-fixes">
+                    <p className="meta">
+                      Korrekturen:{" "}
+                      {summary.appliedFixes.map((fix) => FIX_ACTION_LABELS[fix.id]).join(" → ")}
+                    </p>
+                    {onRevertFixes && (
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        onClick={() => onRevertFixes(summary.experimentId, summary.seriesId)}
+                      >
+                        Korrekturen zurücksetzen
+                      </button>
+                    )}
+                  </div>
+                )}
+                {onAddPreprocessingStep && onRemovePreprocessingStep && (
+                  <PreprocessingEditor
+                    steps={summary.preprocessing}
+                    onAddStep={(step) =>
+                      onAddPreprocessingStep(summary.experimentId, summary.seriesId, step)
+                    }
+                    onRemoveStep={(index) =>
+                      onRemovePreprocessingStep(summary.experimentId, summary.seriesId, index)
+                    }
+                  />
+                )}
+                {summary.droppedRows.length > 0 && (
+                  <details className="technical-details">
+                    <summary>Verworfene Zeilen: {summary.droppedRows.length}</summary>
+                    <ul className="dropped-rows">
+                      {summary.droppedRows.map((row, index) => (
+                        <li key={`${row.rowIndex}-${index}`} className="meta">
+                          {formatDroppedRow(row)}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
               </div>
             ))}
           </div>
@@ -176,6 +453,11 @@ export const ValidationScreen = ({
         onBackToMapping={onBackToMapping}
         onContinue={onContinue}
         disableContinue={disableContinue}
+        onPreviewFix={(experimentId, seriesId, fixId) => {
+          const series = findSeries(experimentId, seriesId);
+          return series ? previewFix(series, fixId) : null;
+        }}
+        onApplyFix={onApplyFix}
       />
     </div>
   );
@@ -0,0 +1,70 @@
+import type { AuditEntry } from "../import/types";
+
+export const createAuditEntry = (type: string, payload: Record<string, unknown>): AuditEntry => ({
+  id: `audit-${Math.random().toString(36).slice(2, 10)}`,
+  ts: new Date().toISOString(),
+  type,
+  payload
+});
+
+/**
+ * The app keeps its log newest first (entries are prepended). Files and replay
+ * work chronologically, so conversions happen at these boundaries only.
+ */
+export const toChronological = (entries: AuditEntry[]): AuditEntry[] => [...entries].reverse();
+
+export const fromChronological = (entries: AuditEntry[]): AuditEntry[] => [...entries].reverse();
+
+/**
+ * Puts entries created in this session in front of a restored trail, skipping
+ * ids that are already present.
+ */
+export const mergeAuditEntries = (current: AuditEntry[], stored: AuditEntry[]): AuditEntry[] => {
+  const known = new Set(current.map((entry) => entry.id));
+  return [...current, ...stored.filter((entry) => !known.has(entry.id))];
+};
+
+/** One JSON object per line, oldest entry first. */
+export const serializeAuditLog = (entries: AuditEntry[]): string =>
+  toChronological(entries)
+    .map((entry) =>
+      JSON.stringify({ id: entry.id, ts: entry.ts, type: entry.type, payload: entry.payload })
+    )
+    .join("\n")
+    .concat(entries.length > 0 ? "\n" : "");
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Parses a JSON Lines audit export. Returns entries in file (chronological)
+ * order and throws on the first malformed line.
+ */
+export const parseAuditLog = (text: string): AuditEntry[] => {
+  const entries: AuditEntry[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Audit log line ${index + 1} is not valid JSON.`);
+    }
+    if (
+      !isRecord(parsed) ||
+      typeof parsed.id !== "string" ||
+      typeof parsed.ts !== "string" ||
+      typeof parsed.type !== "string" ||
+      !isRecord(parsed.payload)
+    ) {
+      throw new Error(`Audit log line ${index + 1} is not an audit entry.`);
+    }
+    entries.push({ id: parsed.id, ts: parsed.ts, type: parsed.type, payload: parsed.payload });
+  });
+  if (entries.length === 0) {
+    throw new Error("The audit log is empty.");
+  }
+  return entries;
+};
@@ -0,0 +1,97 @@
+import type { AuditEntry } from "../import/types";
+
+const DB_NAME = "kinetik-researcher";
+const DB_VERSION = 1;
+const STORE_NAME = "auditEntries";
+const TRAIL_INDEX = "trailId";
+const TRAIL_STORAGE_KEY = "kinetik.auditTrailId";
+
+/** `sequence` is the chronological position; timestamps alone tie within a millisecond. */
+type StoredAuditEntry = AuditEntry & { trailId: string; sequence: number };
+
+const createId = (prefix: string): string => `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed."));
+  });
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.resolve(null);
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    store.createIndex(TRAIL_INDEX, TRAIL_INDEX, { unique: false });
+  };
+  return requestToPromise(request);
+};
+
+/**
+ * The trail id groups the entries of one audit trail. It survives reloads so
+ * the app can restore the trail it was working on.
+ */
+export const getActiveTrailId = (): string => {
+  const stored =
+    typeof localStorage === "undefined" ? null : localStorage.getItem(TRAIL_STORAGE_KEY);
+  return stored ?? startNewTrail();
+};
+
+export const startNewTrail = (): string => {
+  const trailId = createId("trail");
+  if (typeof localStorage !== "undefined") {
+    localStorage.setItem(TRAIL_STORAGE_KEY, trailId);
+  }
+  return trailId;
+};
+
+/** Loads a trail newest first; resolves to [] where IndexedDB is unavailable. */
+export const loadAuditTrail = async (trailId: string): Promise<AuditEntry[]> => {
+  const db = await openDatabase();
+  if (!db) {
+    return [];
+  }
+  try {
+    const index = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).index(TRAIL_INDEX);
+    const stored = (await requestToPromise(index.getAll(trailId))) as StoredAuditEntry[];
+    return stored
+      .sort((a, b) => b.sequence - a.sequence)
+      .map(({ id, ts, type, payload }) => ({ id, ts, type, payload }));
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Writes the full newest-first trail. Entries are keyed by id, so saving the
+ * same log twice is a no-op and existing records are never removed.
+ */
+export const saveAuditTrail = async (trailId: string, entries: AuditEntry[]): Promise<void> => {
+  if (entries.length === 0) {
+    return;
+  }
+  const db = await openDatabase();
+  if (!db) {
+    return;
+  }
+  try {
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    entries.forEach((entry, index) =>
+      store.put({
+        ...entry,
+        trailId,
+        sequence: entries.length - 1 - index
+      } satisfies StoredAuditEntry)
+    );
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error ?? new Error("Audit trail not saved."));
+      transaction.onabort = () => reject(transaction.error ?? new Error("Audit trail not saved."));
+    });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,539 @@
+import type { DatasetFitRecord } from "../../types/fitting";
+import type { ExperimentGroup } from "../../types/grouping";
+import { toFitRecord } from "../fitting/fitRecords";
+import { fitRateLaw } from "../fitting/fitSeries";
+import { RATE_LAW_IDS } from "../fitting/rateLaws";
+import type { RateLawId } from "../fitting/types";
+import { createGroup } from "../grouping/groups";
+import { applyBatchMapping, type BatchSource } from "../import/batch";
+import {
+  applyMappingToDataset,
+  type MappingError,
+  type MappingSelection,
+  type MappingStats
+} from "../import/mapping";
+import {
+  FIX_ACTION_LABELS,
+  applyFix,
+  getAppliedFixes,
+  revertFixes,
+  type FixActionId
+} from "../import/fixes";
+import { applyPointChange, type PointRef } from "../import/provenance";
+import { isSeriesRole, setSeriesRole } from "../import/seriesRole";
+import {
+  preprocessSeries,
+  readPreprocessingSteps,
+  setPreprocessingSteps
+} from "../preprocessing/pipeline";
+import {
+  DEFAULT_VALIDATION_PROFILE_ID,
+  isValidationProfileId,
+  type ValidationProfileId
+} from "../import/validationProfiles";
+import type { AuditEntry, Dataset, Experiment, RawTable, Series } from "../import/types";
+import { TIMESTAMP_FORMATS } from "../import/timestamp";
+
+export type ReplayFitCheck = {
+  experimentName: string;
+  seriesName: string;
+  modelId: string;
+  recorded: Record<string, number>;
+  replayed: Record<string, number> | null;
+  matches: boolean;
+};
+
+/** One raw file handed to the replay, parsed into its tables. */
+export type ReplayRawFile = {
+  fileName: string;
+  rawTables: RawTable[];
+};
+
+export type AuditReplayResult = {
+  table: RawTable;
+  selection: MappingSelection;
+  /** Sources of a batch mapping; empty when a single table was mapped. */
+  sources: BatchSource[];
+  stats: MappingStats;
+  dataset: Dataset;
+  groups: ExperimentGroup[];
+  fitChecks: ReplayFitCheck[];
+  /** Last rule profile selected in the session. */
+  validationProfileId: ValidationProfileId;
+  /** Differences between the recorded and the reconstructed state. */
+  issues: string[];
+};
+
+type RecordedFit = {
+  experiment: string;
+  series: string;
+  modelId: string;
+  parameters: Record<string, number>;
+};
+
+type RecordedGroup = { name: string; experiments: string[] };
+
+const PARAMETER_TOLERANCE = 1e-6;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isIndex = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+/** Reads a record keyed by column index, e.g. MappingSelection.pairedTimeColumns. */
+const readIndexRecord = <T>(
+  value: Record<string, unknown>,
+  isEntry: (entry: unknown) => entry is T
+): Record<number, T> =>
+  Object.fromEntries(
+    Object.entries(value).filter(
+      (entry): entry is [string, T] => isIndex(Number(entry[0])) && isEntry(entry[1])
+    )
+  );
+
+const readSelection = (value: unknown): MappingSelection | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.firstRowIsHeader !== "boolean" ||
+    !(value.timeColumnIndex === null || isIndex(value.timeColumnIndex)) ||
+    !(value.experimentColumnIndex === null || isIndex(value.experimentColumnIndex)) ||
+    !Array.isArray(value.valueColumnIndices) ||
+    !value.valueColumnIndices.every(isIndex)
+  ) {
+    return null;
+  }
+  return {
+    firstRowIsHeader: value.firstRowIsHeader,
+    timeColumnIndex: value.timeColumnIndex,
+    valueColumnIndices: [...value.valueColumnIndices],
+    experimentColumnIndex: value.experimentColumnIndex,
+    ...(typeof value.timeUnit === "string" ? { timeUnit: value.timeUnit } : {}),
+    ...(typeof value.valueUnit === "string" ? { valueUnit: value.valueUnit } : {}),
+    ...(typeof value.timeFormat === "string"
+      ? { timeFormat: TIMESTAMP_FORMATS.find((format) => format === value.timeFormat) ?? null }
+      : {}),
+    ...(value.layout === "paired" || value.layout === "long" ? { layout: value.layout } : {}),
+    ...(isRecord(value.pairedTimeColumns)
+      ? { pairedTimeColumns: readIndexRecord(value.pairedTimeColumns, isIndex) }
+      : {}),
+    ...(isRecord(value.columnExperiments)
+      ? {
+          columnExperiments: readIndexRecord(
+            value.columnExperiments,
+            (entry): entry is string => typeof entry === "string"
+          )
+        }
+      : {})
+  };
+};
+
+const readGroups = (value: unknown): RecordedGroup[] =>
+  Array.isArray(value)
+    ? value.flatMap((group) =>
+        isRecord(group) && typeof group.name === "string" && Array.isArray(group.experiments)
+          ? [
+              {
+                name: group.name,
+                experiments: group.experiments.filter(
+                  (name): name is string => typeof name === "string"
+                )
+              }
+            ]
+          : []
+      )
+    : [];
+
+const readFits = (value: unknown): RecordedFit[] =>
+  Array.isArray(value)
+    ? value.flatMap((fit) =>
+        isRecord(fit) &&
+        typeof fit.experiment === "string" &&
+        typeof fit.series === "string" &&
+        typeof fit.modelId === "string" &&
+        isRecord(fit.parameters)
+          ? [
+              {
+                experiment: fit.experiment,
+                series: fit.series,
+                modelId: fit.modelId,
+                parameters: Object.fromEntries(
+                  Object.entries(fit.parameters).filter(
+                    (entry): entry is [string, number] => typeof entry[1] === "number"
+                  )
+                )
+              }
+            ]
+          : []
+      )
+    : [];
+
+const readPoints = (value: unknown): PointRef[] =>
+  Array.isArray(value)
+    ? value.flatMap((point) =>
+        isRecord(point) &&
+        (point.rowIndex === null || typeof point.rowIndex === "number") &&
+        typeof point.time === "number" &&
+        typeof point.y === "number"
+          ? [{ rowIndex: point.rowIndex, time: point.time, y: point.y }]
+          : []
+      )
+    : [];
+
+/** A recorded edit of one series, replayed on the re-imported dataset. */
+type RecordedSeriesChange = {
+  experiment: string;
+  series: string;
+  /** Names the change in replay issues. */
+  label: string;
+  apply: (series: Series) => Series;
+  /** Whether the replayed edit did what the audit entry recorded. */
+  matches: (before: Series, after: Series) => boolean;
+};
+
+const isFixActionId = (value: unknown): value is FixActionId =>
+  typeof value === "string" && value in FIX_ACTION_LABELS;
+
+/** Point exclusions and validation fixes; null for other entries. */
+const readSeriesChange = (entry: AuditEntry): RecordedSeriesChange | null => {
+  const { experiment, series, reason, fix, pointCountAfter, role } = entry.payload;
+  if (typeof experiment !== "string" || typeof series !== "string") {
+    return null;
+  }
+  const points = readPoints(entry.payload.points);
+  const countsMatch = (before: Series, after: Series) =>
+    Math.abs(after.time.length - before.time.length) === points.length;
+  if (entry.type === "POINTS_INCLUDED") {
+    return {
+      experiment,
+      series,
+      label: "Point inclusion",
+      apply: (target) => applyPointChange(target, { action: "include", points }),
+      matches: countsMatch
+    };
+  }
+  if (
+    entry.type === "POINTS_EXCLUDED" &&
+    (reason === "outlier-excluded" || reason === "user-excluded")
+  ) {
+    return {
+      experiment,
+      series,
+      label: "Point exclusion",
+      apply: (target) => applyPointChange(target, { action: "exclude", reason, points }),
+      matches: countsMatch
+    };
+  }
+  if (entry.type === "VALIDATION_FIX_APPLIED" && isFixActionId(fix)) {
+    return {
+      experiment,
+      series,
+      label: `Fix "${fix}"`,
+      apply: (target) => applyFix(target, fix, entry.ts),
+      matches: (_, after) =>
+        typeof pointCountAfter !== "number" || after.time.length === pointCountAfter
+    };
+  }
+  if (entry.type === "SERIES_ROLE_SET" && (entry.payload.role === null || isSeriesRole(role))) {
+    return {
+      experiment,
+      series,
+      label: "Role",
+      apply: (target) => setSeriesRole(target, isSeriesRole(role) ? role : null),
+      matches: () => true
+    };
+  }
+  if (entry.type === "PREPROCESSING_STEP_ADDED" || entry.type === "PREPROCESSING_STEP_REMOVED") {
+    const steps = readPreprocessingSteps(entry.payload.steps);
+    return {
+      experiment,
+      series,
+      label: "Preprocessing",
+      apply: (target) => setPreprocessingSteps(target, steps),
+      matches: () =>
+        Array.isArray(entry.payload.steps) && entry.payload.steps.length === steps.length
+    };
+  }
+  if (entry.type === "VALIDATION_FIXES_REVERTED") {
+    return {
+      experiment,
+      series,
+      label: "Fix revert",
+      apply: revertFixes,
+      matches: (before) => getAppliedFixes(before).length > 0
+    };
+  }
+  return null;
+};
+
+const findLast = (entries: AuditEntry[], type: string | string[], from = 0): AuditEntry | null => {
+  const types = Array.isArray(type) ? type : [type];
+  for (let index = entries.length - 1; index >= from; index -= 1) {
+    if (types.includes(entries[index].type)) {
+      return entries[index];
+    }
+  }
+  return null;
+};
+
+const getExperimentName = (experiment: Experiment): string =>
+  experiment.name ?? experiment.experimentId;
+
+const parametersMatch = (
+  recorded: Record<string, number>,
+  replayed: Record<string, number>
+): boolean =>
+  Object.keys(recorded).length === Object.keys(replayed).length &&
+  Object.entries(recorded).every(([name, value]) => {
+    const other = replayed[name];
+    if (other === undefined) {
+      return false;
+    }
+    const scale = Math.max(Math.abs(value), Math.abs(other), Number.MIN_VALUE);
+    return Math.abs(value - other) / scale <= PARAMETER_TOLERANCE;
+  });
+
+/**
+ * Payload for FITS_COMPUTED entries: fits are keyed by experiment and series
+ * names because ids are regenerated on every mapping.
+ */
+export const describeFitsForAudit = (
+  experiments: Experiment[],
+  fits: DatasetFitRecord[]
+): RecordedFit[] =>
+  fits.flatMap((fit) => {
+    const experiment = experiments.find((item) => item.experimentId === fit.experimentId);
+    const series = experiment?.series.find((item) => item.id === fit.seriesId);
+    return experiment && series
+      ? [
+          {
+            experiment: getExperimentName(experiment),
+            series: series.name,
+            modelId: fit.modelId,
+            parameters: fit.parameters
+          }
+        ]
+      : [];
+  });
+
+type ReplayedMapping = {
+  table: RawTable;
+  sources: BatchSource[];
+  dataset: Dataset | null;
+  errors: MappingError[];
+  stats: MappingStats;
+};
+
+/** Maps the table a MAPPING_APPLIED entry names, with the file as fallback when names differ. */
+const replaySingleMapping = (
+  mappingEntry: AuditEntry,
+  selection: MappingSelection,
+  files: ReplayRawFile[],
+  issues: string[]
+): ReplayedMapping => {
+  const recordedFile = mappingEntry.payload.fileName;
+  const file = files.find((item) => item.fileName === recordedFile) ?? files[0];
+  if (!file) {
+    throw new Error("No raw file was provided for the replay.");
+  }
+  if (typeof recordedFile === "string" && recordedFile !== file.fileName) {
+    issues.push(`Audit log refers to "${recordedFile}", replayed with "${file.fileName}".`);
+  }
+  const sheet = mappingEntry.payload.sheet;
+  const table =
+    (typeof sheet === "string" && file.rawTables.find((item) => item.sheetName === sheet)) ||
+    file.rawTables[0];
+  if (!table) {
+    throw new Error("The raw file contains no tables.");
+  }
+  if (typeof sheet === "string" && table.sheetName !== undefined && table.sheetName !== sheet) {
+    issues.push(`Sheet "${sheet}" not found, used "${table.sheetName}".`);
+  }
+  const mapping = applyMappingToDataset({ table, selection, fileName: file.fileName });
+  return { table, sources: [], ...mapping };
+};
+
+/**
+ * Rebuilds the sources of a BATCH_MAPPING_APPLIED entry from its per-source payload.
+ * Every source needs its raw file, matched by name, since experiments are named after it.
+ */
+const replayBatchMapping = (
+  mappingEntry: AuditEntry,
+  selection: MappingSelection,
+  files: ReplayRawFile[]
+): ReplayedMapping => {
+  const recordedSources = Array.isArray(mappingEntry.payload.sources)
+    ? mappingEntry.payload.sources.filter(isRecord)
+    : [];
+  const sources = recordedSources.map((source, index): BatchSource => {
+    const { fileName, sheet } = source;
+    const file = files.find((item) => item.fileName === fileName);
+    if (typeof fileName !== "string" || !file) {
+      throw new Error(`The batch mapping needs the raw file "${String(fileName)}".`);
+    }
+    const table =
+      typeof sheet === "string"
+        ? file.rawTables.find((item) => item.sheetName === sheet)
+        : file.rawTables[0];
+    if (!table) {
+      throw new Error(`Sheet "${String(sheet)}" not found in "${fileName}".`);
+    }
+    return {
+      id: `source-${index + 1}`,
+      fileName,
+      sheetName: typeof sheet === "string" ? sheet : null,
+      table,
+      included: true,
+      selection: readSelection(source.selection)
+    };
+  });
+  if (sources.length === 0) {
+    throw new Error("The audit log contains no replayable mapping.");
+  }
+  const { name } = mappingEntry.payload;
+  const { dataset, errors, stats } = applyBatchMapping({
+    sources,
+    selection,
+    datasetName: typeof name === "string" ? name : sources[0].fileName
+  });
+  return { table: sources[0].table, sources, dataset, errors, stats };
+};
+
+/**
+ * Rebuilds mapping, grouping and fits from a chronological audit log and the
+ * original raw files. Every step is recomputed; the log only supplies the
+ * decisions, and recorded results are compared against the recomputation.
+ */
+export const replayAuditLog = ({
+  entries,
+  files
+}: {
+  entries: AuditEntry[];
+  files: ReplayRawFile[];
+}): AuditReplayResult => {
+  const mappingEntry = findLast(entries, ["MAPPING_APPLIED", "BATCH_MAPPING_APPLIED"]);
+  const selection = mappingEntry ? readSelection(mappingEntry.payload.selection) : null;
+  if (!mappingEntry || !selection) {
+    throw new Error("The audit log contains no replayable mapping.");
+  }
+  const mappingIndex = entries.indexOf(mappingEntry);
+  const issues: string[] = [];
+
+  const mapping =
+    mappingEntry.type === "BATCH_MAPPING_APPLIED"
+      ? replayBatchMapping(mappingEntry, selection, files)
+      : replaySingleMapping(mappingEntry, selection, files, issues);
+  if (!mapping.dataset) {
+    throw new Error(
+      `The recorded mapping does not apply to this file: ${mapping.errors
+        .map((error) => error.message)
+        .join(" ")}`
+    );
+  }
+  (["experimentCount", "seriesCount", "pointCount"] as const).forEach((key) => {
+    const recorded = mappingEntry.payload[key];
+    if (typeof recorded === "number" && recorded !== mapping.stats[key]) {
+      issues.push(`${key}: recorded ${recorded}, replayed ${mapping.stats[key]}.`);
+    }
+  });
+
+  // Series edits (exclusions, fixes, roles, preprocessing) are replayed in order, so later
+  // entries undo earlier ones.
+  let experiments = mapping.dataset.experiments;
+  entries.slice(mappingIndex + 1).forEach((entry) => {
+    const recorded = readSeriesChange(entry);
+    if (!recorded) {
+      return;
+    }
+    const { experiment: experimentName, series: seriesName } = recorded;
+    const experiment = experiments.find((item) => getExperimentName(item) === experimentName);
+    const series = experiment?.series.find((item) => item.name === seriesName);
+    const changed = series ? recorded.apply(series) : null;
+    if (!experiment || !series || !changed || !recorded.matches(series, changed)) {
+      issues.push(
+        `${recorded.label} for ${experimentName} / ${seriesName} could not be replayed completely.`
+      );
+    }
+    if (experiment && series && changed) {
+      experiments = experiments.map((item) =>
+        item === experiment
+          ? {
+              ...item,
+              series: item.series.map((candidate) => (candidate === series ? changed : candidate))
+            }
+          : item
+      );
+    }
+  });
+
+  const experimentIdsByName = new Map(
+    experiments.map((experiment) => [getExperimentName(experiment), experiment.experimentId])
+  );
+
+  const groupsEntry = findLast(entries, "GROUPS_CONFIRMED", mappingIndex);
+  const groups = readGroups(groupsEntry?.payload.groups).map((group, index) => {
+    const experimentIds = group.experiments.flatMap((name) => {
+      const id = experimentIdsByName.get(name);
+      if (!id) {
+        issues.push(`Group "${group.name}": experiment "${name}" not found.`);
+      }
+      return id ? [id] : [];
+    });
+    return createGroup(group.name, experimentIds, index);
+  });
+
+  const profileId = findLast(entries, "VALIDATION_PROFILE_SELECTED")?.payload.profile;
+
+  const fitsEntry = findLast(entries, "FITS_COMPUTED", mappingIndex);
+  const fitRecords: DatasetFitRecord[] = [];
+  const fitChecks = readFits(fitsEntry?.payload.fits).map((recordedFit): ReplayFitCheck => {
+    const experiment = experiments.find(
+      (item) => getExperimentName(item) === recordedFit.experiment
+    );
+    const series = experiment?.series.find((item) => item.name === recordedFit.series);
+    const check = {
+      experimentName: recordedFit.experiment,
+      seriesName: recordedFit.series,
+      modelId: recordedFit.modelId,
+      recorded: recordedFit.parameters
+    };
+    if (!experiment || !series || !RATE_LAW_IDS.includes(recordedFit.modelId as RateLawId)) {
+      issues.push(
+        `Fit ${recordedFit.experiment} / ${recordedFit.series} (${recordedFit.modelId}) could not be replayed.`
+      );
+      return { ...check, replayed: null, matches: false };
+    }
+    try {
+      const fit = fitRateLaw(preprocessSeries(series), recordedFit.modelId as RateLawId);
+      fitRecords.push(toFitRecord(experiment.experimentId, fit));
+      const matches = parametersMatch(recordedFit.parameters, fit.parameters);
+      if (!matches) {
+        issues.push(
+          `Fit ${recordedFit.experiment} / ${recordedFit.series} (${recordedFit.modelId}) differs from the recorded parameters.`
+        );
+      }
+      return { ...check, replayed: fit.parameters, matches };
+    } catch (error) {
+      issues.push(
+        `Fit ${recordedFit.experiment} / ${recordedFit.series} (${recordedFit.modelId}) failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return { ...check, replayed: null, matches: false };
+    }
+  });
+
+  return {
+    table: mapping.table,
+    selection,
+    sources: mapping.sources,
+    stats: mapping.stats,
+    dataset: { ...mapping.dataset, experiments, fits: fitRecords },
+    groups,
+    fitChecks,
+    validationProfileId: isValidationProfileId(profileId)
+      ? profileId
+      : DEFAULT_VALIDATION_PROFILE_ID,
+    issues
+  };
+};
@@ -0,0 +1,198 @@
+import { parseNumericCell } from "../import/mapping";
+import type { Experiment } from "../import/types";
+import { linearRegressionWithStats, studentTCritical } from "./statistics";
+import type {
+  ArrheniusResult,
+  DatasetArrheniusRecord,
+  EstimatedQuantity,
+  EyringResult,
+  RateConstantPoint
+} from "../../types/fitting";
+import type { FitResult } from "./types";
+
+export type { ArrheniusResult, DatasetArrheniusRecord, EyringResult, RateConstantPoint };
+
+export const GAS_CONSTANT = 8.314462618;
+export const BOLTZMANN_CONSTANT = 1.380649e-23;
+export const PLANCK_CONSTANT = 6.62607015e-34;
+
+export type TemperatureUnit = "K" | "C";
+
+// A bare "T" only counts with a temperature unit, so time headers like "t [min]" stay out.
+const temperatureKeyPattern = /(temp|°c|\[k\]|^t\s*[[(/]\s*(°|k\b|kelvin|celsius))/i;
+
+/**
+ * Picks the metaRaw key that carries the reaction temperature. Column-scan
+ * condition columns are preferred; otherwise the first temperature-like key wins.
+ */
+export const findTemperatureKey = (
+  experiments: Experiment[],
+  preferredKeys: string[] = []
+): string | null => {
+  const keys = Array.from(
+    new Set(experiments.flatMap((experiment) => Object.keys(experiment.metaRaw)))
+  );
+  const preferred = preferredKeys.find(
+    (key) => keys.includes(key) && temperatureKeyPattern.test(key)
+  );
+  return preferred ?? keys.find((key) => temperatureKeyPattern.test(key)) ?? null;
+};
+
+/**
+ * Uses the unit from the header (e.g. "T [K]", "Temp (°C)") and falls back to
+ * treating values above 200 as Kelvin.
+ */
+export const detectTemperatureUnit = (key: string, values: number[]): TemperatureUnit => {
+  if (/°\s*c|\[\s*c\s*]|\(\s*c\s*\)|celsius/i.test(key)) {
+    return "C";
+  }
+  if (/\[\s*k\s*]|\(\s*k\s*\)|kelvin/i.test(key)) {
+    return "K";
+  }
+  return values.length > 0 && values.every((value) => value > 200) ? "K" : "C";
+};
+
+export const readTemperature = (experiment: Experiment, key: string): number | null => {
+  const raw = experiment.metaRaw[key] ?? null;
+  return typeof raw === "number" ? raw : parseNumericCell(raw);
+};
+
+/**
+ * Rate constants per experiment with their temperature in Kelvin. With `modelId`
+ * only fits of that rate law are used, since k of different orders has different units.
+ */
+export const collectRateConstants = ({
+  experiments,
+  fits,
+  temperatureKey,
+  temperatureUnit,
+  modelId
+}: {
+  experiments: Experiment[];
+  fits: Record<string, FitResult | undefined>;
+  temperatureKey: string;
+  temperatureUnit?: TemperatureUnit;
+  modelId?: string;
+}): RateConstantPoint[] => {
+  const candidates = experiments.flatMap((experiment) => {
+    const fit = fits[experiment.experimentId];
+    const temperature = readTemperature(experiment, temperatureKey);
+    const k = fit?.parameters.k;
+    if (
+      !fit ||
+      (modelId !== undefined && fit.modelId !== modelId) ||
+      temperature === null ||
+      k === undefined ||
+      !(k > 0)
+    ) {
+      return [];
+    }
+    return [{ experiment, temperature, k }];
+  });
+  const unit =
+    temperatureUnit ??
+    detectTemperatureUnit(
+      temperatureKey,
+      candidates.map((candidate) => candidate.temperature)
+    );
+
+  return candidates
+    .map(({ experiment, temperature, k }) => ({
+      experimentId: experiment.experimentId,
+      experimentName: experiment.name ?? experiment.experimentId,
+      temperatureK: unit === "C" ? temperature + 273.15 : temperature,
+      k
+    }))
+    .filter((point) => point.temperatureK > 0);
+};
+
+const estimate = (
+  value: number,
+  standardError: number | null,
+  critical: number,
+  transform: (x: number) => number = (x) => x
+): EstimatedQuantity => {
+  if (standardError === null || !Number.isFinite(critical)) {
+    return { value: transform(value), standardError: null, lower: null, upper: null };
+  }
+  const bounds = [
+    transform(value - critical * standardError),
+    transform(value + critical * standardError)
+  ];
+  return {
+    value: transform(value),
+    standardError,
+    lower: Math.min(...bounds),
+    upper: Math.max(...bounds)
+  };
+};
+
+const assertTemperatureSpread = (points: RateConstantPoint[]) => {
+  const temperatures = new Set(points.map((point) => point.temperatureK));
+  if (temperatures.size < 2) {
+    throw new Error("At least two different temperatures are required.");
+  }
+};
+
+/** Fits ln k = ln A − Ea/(R·T). */
+export const fitArrhenius = (points: RateConstantPoint[], confidence = 0.95): ArrheniusResult => {
+  assertTemperatureSpread(points);
+  const regression = linearRegressionWithStats(
+    points.map((point) => 1 / point.temperatureK),
+    points.map((point) => Math.log(point.k))
+  );
+  const critical = studentTCritical(confidence, regression.degreesOfFreedom);
+  const slope = estimate(regression.slope, regression.slopeStandardError, critical);
+
+  return {
+    points,
+    confidence,
+    activationEnergy: {
+      value: -regression.slope * GAS_CONSTANT,
+      standardError: slope.standardError === null ? null : slope.standardError * GAS_CONSTANT,
+      lower: slope.upper === null ? null : -slope.upper * GAS_CONSTANT,
+      upper: slope.lower === null ? null : -slope.lower * GAS_CONSTANT
+    },
+    preExponentialFactor: estimate(
+      regression.intercept,
+      regression.interceptStandardError,
+      critical,
+      Math.exp
+    ),
+    rSquared: regression.rSquared,
+    degreesOfFreedom: regression.degreesOfFreedom
+  };
+};
+
+/** Fits ln(k/T) = ln(kB/h) + ΔS‡/R − ΔH‡/(R·T); k must be in s⁻¹. */
+export const fitEyring = (points: RateConstantPoint[], confidence = 0.95): EyringResult => {
+  assertTemperatureSpread(points);
+  const regression = linearRegressionWithStats(
+    points.map((point) => 1 / point.temperatureK),
+    points.map((point) => Math.log(point.k / point.temperatureK))
+  );
+  const critical = studentTCritical(confidence, regression.degreesOfFreedom);
+  const lnFrequency = Math.log(BOLTZMANN_CONSTANT / PLANCK_CONSTANT);
+  const slope = estimate(regression.slope, regression.slopeStandardError, critical);
+  const intercept = estimate(regression.intercept, regression.interceptStandardError, critical);
+
+  return {
+    points,
+    confidence,
+    enthalpyOfActivation: {
+      value: -regression.slope * GAS_CONSTANT,
+      standardError: slope.standardError === null ? null : slope.standardError * GAS_CONSTANT,
+      lower: slope.upper === null ? null : -slope.upper * GAS_CONSTANT,
+      upper: slope.lower === null ? null : -slope.lower * GAS_CONSTANT
+    },
+    entropyOfActivation: {
+      value: (regression.intercept - lnFrequency) * GAS_CONSTANT,
+      standardError:
+        intercept.standardError === null ? null : intercept.standardError * GAS_CONSTANT,
+      lower: intercept.lower === null ? null : (intercept.lower - lnFrequency) * GAS_CONSTANT,
+      upper: intercept.upper === null ? null : (intercept.upper - lnFrequency) * GAS_CONSTANT
+    },
+    rSquared: regression.rSquared,
+    degreesOfFreedom: regression.degreesOfFreedom
+  };
+};
@@ -0,0 +1,141 @@
+import type { DatasetFitRecord, FitUncertainty } from "../../types/fitting";
+import type { ExperimentGroup } from "../../types/grouping";
+import { computeRSquared } from "./fitSeries";
+import type { GlobalFitResult } from "./globalFit";
+import type { Matrix } from "./linearAlgebra";
+import type { MechanismFitResult } from "./mechanism";
+import type { FitResult } from "./types";
+
+export const getFitRecordId = (experimentId: string, seriesId: string, modelId: string): string =>
+  `${experimentId}:${seriesId}:${modelId}`;
+
+export const getGlobalFitRecordId = (groupId: string, modelId: string): string =>
+  `group:${groupId}:${modelId}`;
+
+export const getMechanismFitRecordId = (experimentId: string, mechanism: string): string =>
+  `mechanism:${experimentId}:${mechanism}`;
+
+export const toFitRecord = (
+  experimentId: string,
+  fit: FitResult,
+  computedAt = new Date()
+): DatasetFitRecord => ({
+  id: getFitRecordId(experimentId, fit.seriesId, fit.modelId),
+  experimentId,
+  seriesId: fit.seriesId,
+  modelId: fit.modelId,
+  parameters: fit.parameters,
+  standardErrors: fit.standardErrors,
+  rSquared: fit.rSquared,
+  sse: fit.sse,
+  pointCount: fit.pointCount,
+  computedAt: computedAt.toISOString()
+});
+
+const standardErrorsOf = (
+  parameters: Record<string, number>,
+  covariance: Matrix | null
+): Record<string, number | null> =>
+  Object.fromEntries(
+    Object.keys(parameters).map((name, index) => {
+      const variance = covariance?.[index]?.[index];
+      return [name, variance !== undefined && variance >= 0 ? Math.sqrt(variance) : null];
+    })
+  );
+
+export const toGlobalFitRecord = (
+  group: ExperimentGroup,
+  fit: GlobalFitResult,
+  computedAt = new Date()
+): DatasetFitRecord => ({
+  id: getGlobalFitRecordId(group.id, fit.modelId),
+  kind: "global",
+  experimentId: group.id,
+  seriesId: "",
+  modelId: fit.modelId,
+  label: group.name,
+  parameters: fit.parameters,
+  standardErrors: standardErrorsOf(fit.parameters, fit.covariance),
+  rSquared: computeRSquared(
+    fit.members.flatMap((member) => member.observed),
+    fit.sse
+  ),
+  sse: fit.sse,
+  pointCount: fit.pointCount,
+  computedAt: computedAt.toISOString()
+});
+
+export const toMechanismFitRecord = (
+  experimentId: string,
+  experimentName: string,
+  fit: MechanismFitResult,
+  computedAt = new Date()
+): DatasetFitRecord => ({
+  id: getMechanismFitRecordId(experimentId, fit.mechanism),
+  kind: "mechanism",
+  experimentId,
+  seriesId: "",
+  modelId: fit.mechanism,
+  label: experimentName,
+  parameters: fit.parameters,
+  standardErrors: fit.standardErrors,
+  rSquared: computeRSquared(
+    fit.species.flatMap((species) => species.observed),
+    fit.sse
+  ),
+  sse: fit.sse,
+  pointCount: fit.pointCount,
+  computedAt: computedAt.toISOString()
+});
+
+export const haveSameParameters = (
+  left: Record<string, number>,
+  right: Record<string, number>
+): boolean =>
+  Object.keys(left).length === Object.keys(right).length &&
+  Object.entries(left).every(([name, value]) => right[name] === value);
+
+const keepUnchanged = (current: DatasetFitRecord[], record: DatasetFitRecord): DatasetFitRecord => {
+  const existing = current.find((item) => item.id === record.id);
+  return existing && haveSameParameters(existing.parameters, record.parameters) ? existing : record;
+};
+
+/**
+ * Replaces the stored fits with the freshly computed ones; mechanism fits are only
+ * computed on request and stay. Uncertainty results survive as long as the
+ * underlying fit is unchanged.
+ */
+export const mergeFitRecords = (
+  current: DatasetFitRecord[],
+  next: DatasetFitRecord[]
+): DatasetFitRecord[] => [
+  ...next.map((record) => keepUnchanged(current, record)),
+  ...current.filter(
+    (record) => record.kind === "mechanism" && next.every((item) => item.id !== record.id)
+  )
+];
+
+/** Adds or replaces one fit, e.g. a mechanism fit computed on request. */
+export const upsertFitRecord = (
+  records: DatasetFitRecord[],
+  record: DatasetFitRecord
+): DatasetFitRecord[] =>
+  records.some((item) => item.id === record.id)
+    ? records.map((item) => (item.id === record.id ? keepUnchanged(records, record) : item))
+    : [...records, record];
+
+/**
+ * Stores an analysis with its fit. `parameters` are those the analysis started from; a
+ * record that was refitted in the meantime keeps no uncertainty from the old fit.
+ */
+export const attachUncertainty = (
+  records: DatasetFitRecord[],
+  recordId: string,
+  uncertainty: FitUncertainty,
+  parameters: Record<string, number>
+): DatasetFitRecord[] =>
+  records.map((record) =>
+    record.id === recordId && haveSameParameters(record.parameters, parameters)
+      ? { ...record, uncertainty }
+      : record
+  );
@@ -0,0 +1,136 @@
+import { normalizeTimeToSeconds } from "../import/time";
+import { getSeriesTimeUnit, getSeriesValueUnit } from "../units/seriesUnits";
+import { convertToBase } from "../units/units";
+import { levenbergMarquardt, type LeastSquaresSolution } from "./levenbergMarquardt";
+import { RATE_LAWS, RATE_LAW_IDS } from "./rateLaws";
+import type { FitResult, RateLawId, Series } from "./types";
+
+export type FitPoints = {
+  time: number[];
+  y: number[];
+};
+
+/**
+ * Returns the finite (time, y) pairs of a series in base units: time in seconds
+ * (relative for datetime columns), values in mol/L when their unit is known.
+ */
+export const getFitPoints = (series: Series): FitPoints => {
+  const timeType = series.meta?.timeType === "datetime" ? "datetime" : "numeric";
+  const normalizedTime = normalizeTimeToSeconds({
+    time: series.time,
+    timeType,
+    timeUnit: getSeriesTimeUnit(series)?.id
+  });
+  const values = convertToBase(series.y, getSeriesValueUnit(series));
+  const time: number[] = [];
+  const y: number[] = [];
+  normalizedTime.forEach((value, index) => {
+    const observed = values[index];
+    if (Number.isFinite(value) && Number.isFinite(observed)) {
+      time.push(value);
+      y.push(observed);
+    }
+  });
+  return { time, y };
+};
+
+export const computeRSquared = (observed: number[], sse: number): number => {
+  if (observed.length === 0) {
+    return 0;
+  }
+  const mean = observed.reduce((sum, value) => sum + value, 0) / observed.length;
+  const sst = observed.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+  return sst === 0 ? 0 : 1 - sse / sst;
+};
+
+/**
+ * Packs a least-squares solution into the FitResult shape shared by all models.
+ */
+export const buildFitResult = ({
+  modelId,
+  seriesId,
+  parameterNames,
+  solution,
+  points,
+  fitted
+}: {
+  modelId: string;
+  seriesId: string;
+  parameterNames: string[];
+  solution: LeastSquaresSolution;
+  points: FitPoints;
+  fitted: number[];
+}): FitResult => {
+  const parameters: Record<string, number> = {};
+  const standardErrors: Record<string, number | null> = {};
+  parameterNames.forEach((name, index) => {
+    parameters[name] = solution.params[index];
+    const variance = solution.covariance?.[index]?.[index];
+    standardErrors[name] =
+      variance !== undefined && Number.isFinite(variance) && variance >= 0
+        ? Math.sqrt(variance)
+        : null;
+  });
+
+  return {
+    modelId,
+    seriesId,
+    parameters,
+    standardErrors,
+    covariance: solution.covariance,
+    time: points.time,
+    observed: points.y,
+    fitted,
+    residuals: points.y.map((value, index) => value - fitted[index]),
+    sse: solution.sse,
+    rSquared: computeRSquared(points.y, solution.sse),
+    pointCount: points.y.length,
+    parameterCount: parameterNames.length,
+    iterations: solution.iterations,
+    converged: solution.converged
+  };
+};
+
+export const fitRateLawToPoints = (
+  points: FitPoints,
+  modelId: RateLawId,
+  seriesId = "series"
+): FitResult => {
+  const law = RATE_LAWS[modelId];
+  if (points.time.length <= law.parameterNames.length) {
+    throw new Error(
+      `At least ${law.parameterNames.length + 1} points are required to fit ${law.label}.`
+    );
+  }
+
+  const solution = levenbergMarquardt({
+    initial: law.initialGuess(points.time, points.y),
+    residuals: (params) => points.time.map((t, index) => points.y[index] - law.evaluate(t, params)),
+    jacobian: (params) => points.time.map((t) => law.gradient(t, params).map((value) => -value))
+  });
+
+  return buildFitResult({
+    modelId,
+    seriesId,
+    parameterNames: law.parameterNames,
+    solution,
+    points,
+    fitted: points.time.map((t) => law.evaluate(t, solution.params))
+  });
+};
+
+export const fitRateLaw = (series: Series, modelId: RateLawId): FitResult =>
+  fitRateLawToPoints(getFitPoints(series), modelId, series.id);
+
+/**
+ * Fits every built-in rate law to the series. Models that cannot be fitted
+ * (too few points, diverging start values) are left out of the result.
+ */
+export const fitAllRateLaws = (series: Series): FitResult[] =>
+  RATE_LAW_IDS.flatMap((modelId) => {
+    try {
+      return [fitRateLaw(series, modelId)];
+    } catch {
+      return [];
+    }
+  });
@@ -0,0 +1,241 @@
+import { levenbergMarquardt } from "./levenbergMarquardt";
+import { computeRSquared, getFitPoints, type FitPoints } from "./fitSeries";
+import { RATE_LAWS } from "./rateLaws";
+import type { Matrix } from "./linearAlgebra";
+import type { RateLawId, Series } from "./types";
+
+export type ParameterSharing = Record<string, "shared" | "local">;
+
+export type GlobalFitMember = {
+  experimentId: string;
+  series: Series;
+  /** Names the member's local parameters; defaults to the experiment id. */
+  label?: string;
+};
+
+export type GlobalModelMember = {
+  label: string;
+  points: FitPoints;
+};
+
+export type GlobalFitMemberResult = {
+  experimentId: string;
+  seriesId: string;
+  label: string;
+  parameters: Record<string, number>;
+  standardErrors: Record<string, number | null>;
+  time: number[];
+  observed: number[];
+  fitted: number[];
+  residuals: number[];
+  sse: number;
+  rSquared: number;
+};
+
+export type GlobalFitResult = {
+  modelId: RateLawId;
+  sharing: ParameterSharing;
+  sharedParameters: Record<string, number>;
+  sharedStandardErrors: Record<string, number | null>;
+  /** Every fitted parameter by its name in the global vector, see createGlobalModel. */
+  parameters: Record<string, number>;
+  covariance: Matrix | null;
+  members: GlobalFitMemberResult[];
+  sse: number;
+  pointCount: number;
+  parameterCount: number;
+  iterations: number;
+  converged: boolean;
+};
+
+type ParameterSlot = { name: string; shared: boolean; member: number | null };
+
+/**
+ * Lays out the global parameter vector: shared parameters first, then the local
+ * parameters of each member in order. Returns, per member, the vector index of
+ * each rate-law parameter.
+ */
+const buildLayout = (
+  parameterNames: string[],
+  sharing: ParameterSharing,
+  memberCount: number
+): { slots: ParameterSlot[]; indices: number[][] } => {
+  const slots: ParameterSlot[] = [];
+  const sharedIndex = new Map<string, number>();
+  parameterNames.forEach((name) => {
+    if (sharing[name] === "shared") {
+      sharedIndex.set(name, slots.length);
+      slots.push({ name, shared: true, member: null });
+    }
+  });
+  const indices = Array.from({ length: memberCount }, (_, member) =>
+    parameterNames.map((name) => {
+      const shared = sharedIndex.get(name);
+      if (shared !== undefined) {
+        return shared;
+      }
+      slots.push({ name, shared: false, member });
+      return slots.length - 1;
+    })
+  );
+  return { slots, indices };
+};
+
+/**
+ * Predictions of all members for a global parameter vector, concatenated in member
+ * order. Shared parameters are named as in the rate law, local ones "name · label".
+ */
+export const createGlobalModel = ({
+  modelId,
+  members,
+  sharing
+}: {
+  modelId: RateLawId;
+  members: GlobalModelMember[];
+  sharing: ParameterSharing;
+}) => {
+  const law = RATE_LAWS[modelId];
+  const { slots, indices } = buildLayout(law.parameterNames, sharing, members.length);
+  const memberParams = (vector: number[], member: number) =>
+    indices[member].map((index) => vector[index]);
+  return {
+    law,
+    slots,
+    indices,
+    memberParams,
+    parameterNames: slots.map((slot) =>
+      slot.member === null ? slot.name : `${slot.name} · ${members[slot.member].label}`
+    ),
+    predict: (vector: number[]) =>
+      members.flatMap((member, index) => {
+        const params = memberParams(vector, index);
+        return member.points.time.map((t) => law.evaluate(t, params));
+      })
+  };
+};
+
+/**
+ * Fits one rate law to several experiments at once. Parameters marked "shared"
+ * take one value for the whole group (e.g. k for replicates at the same
+ * temperature), "local" parameters are estimated per experiment (e.g. c0).
+ */
+export const fitGlobal = ({
+  modelId,
+  members,
+  sharing
+}: {
+  modelId: RateLawId;
+  members: GlobalFitMember[];
+  sharing: ParameterSharing;
+}): GlobalFitResult => {
+  if (members.length === 0) {
+    throw new Error("A global fit needs at least one experiment.");
+  }
+  const points: FitPoints[] = members.map((member) => getFitPoints(member.series));
+  const model = createGlobalModel({
+    modelId,
+    members: members.map((member, index) => ({
+      label: member.label ?? member.experimentId,
+      points: points[index]
+    })),
+    sharing
+  });
+  const { law, slots, indices, memberParams } = model;
+  const pointCount = points.reduce((sum, item) => sum + item.time.length, 0);
+  if (pointCount <= slots.length) {
+    throw new Error(`At least ${slots.length + 1} points are required for this global fit.`);
+  }
+
+  const guesses = points.map((item) =>
+    item.time.length > 0 ? law.initialGuess(item.time, item.y) : law.parameterNames.map(() => 1)
+  );
+  const initial = slots.map((slot) => {
+    const parameterIndex = law.parameterNames.indexOf(slot.name);
+    if (slot.member !== null) {
+      return guesses[slot.member][parameterIndex];
+    }
+    return guesses.reduce((sum, guess) => sum + guess[parameterIndex], 0) / guesses.length;
+  });
+  const solution = levenbergMarquardt({
+    initial,
+    residuals: (vector) =>
+      points.flatMap((item, member) => {
+        const params = memberParams(vector, member);
+        return item.time.map((t, index) => item.y[index] - law.evaluate(t, params));
+      }),
+    jacobian: (vector) =>
+      points.flatMap((item, member) => {
+        const params = memberParams(vector, member);
+        return item.time.map((t) => {
+          const row = new Array<number>(slots.length).fill(0);
+          law.gradient(t, params).forEach((value, parameterIndex) => {
+            row[indices[member][parameterIndex]] -= value;
+          });
+          return row;
+        });
+      })
+  });
+
+  const standardError = (index: number): number | null => {
+    const variance = solution.covariance?.[index]?.[index];
+    return variance !== undefined && Number.isFinite(variance) && variance >= 0
+      ? Math.sqrt(variance)
+      : null;
+  };
+
+  const sharedParameters: Record<string, number> = {};
+  const sharedStandardErrors: Record<string, number | null> = {};
+  slots.forEach((slot, index) => {
+    if (slot.shared) {
+      sharedParameters[slot.name] = solution.params[index];
+      sharedStandardErrors[slot.name] = standardError(index);
+    }
+  });
+
+  const globalParameters: Record<string, number> = {};
+  model.parameterNames.forEach((name, index) => {
+    globalParameters[name] = solution.params[index];
+  });
+
+  const memberResults = members.map((member, memberIndex) => {
+    const item = points[memberIndex];
+    const params = memberParams(solution.params, memberIndex);
+    const fitted = item.time.map((t) => law.evaluate(t, params));
+    const residuals = item.y.map((value, index) => value - fitted[index]);
+    const sse = residuals.reduce((sum, value) => sum + value * value, 0);
+    const parameters: Record<string, number> = {};
+    const standardErrors: Record<string, number | null> = {};
+    law.parameterNames.forEach((name, parameterIndex) => {
+      parameters[name] = params[parameterIndex];
+      standardErrors[name] = standardError(indices[memberIndex][parameterIndex]);
+    });
+    return {
+      experimentId: member.experimentId,
+      seriesId: member.series.id,
+      label: member.label ?? member.experimentId,
+      parameters,
+      standardErrors,
+      time: item.time,
+      observed: item.y,
+      fitted,
+      residuals,
+      sse,
+      rSquared: computeRSquared(item.y, sse)
+    };
+  });
+
+  return {
+    modelId,
+    sharing,
+    sharedParameters,
+    sharedStandardErrors,
+    parameters: globalParameters,
+    covariance: solution.covariance,
+    members: memberResults,
+    sse: solution.sse,
+    pointCount,
+    parameterCount: slots.length,
+    iterations: solution.iterations,
+    converged: solution.converged
+  };
+};
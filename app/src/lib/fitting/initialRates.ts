@@ -0,0 +1,238 @@
+import { parseNumericCell } from "../import/mapping";
+import type { Experiment } from "../import/types";
+import { getFitPoints } from "./fitSeries";
+import {
+  linearRegressionWithStats,
+  multipleLinearRegression,
+  studentTCritical
+} from "./statistics";
+import type { Series } from "./types";
+
+export type InitialRateMethod = "linear" | "quadratic";
+
+export type InitialRateResult = {
+  seriesId: string;
+  /** dy/dt at the first time point, in signal units per second. */
+  rate: number;
+  rateStandardError: number | null;
+  /** Signal extrapolated to the first time point. */
+  initialValue: number;
+  method: InitialRateMethod;
+  windowPointCount: number;
+  windowEndTime: number;
+  /** Fraction of conversion (or of the total signal change) covered by the window. */
+  conversion: number;
+};
+
+export type InitialRateOptions = {
+  maxConversion?: number;
+  minPoints?: number;
+  /** Maximum relative difference between linear and quadratic slope for "linear". */
+  curvatureTolerance?: number;
+};
+
+export type ReactionOrderInput = {
+  experimentId: string;
+  rate: number;
+  concentrations: Record<string, number>;
+};
+
+export type ReactionOrderEstimate = {
+  source: string;
+  order: number;
+  standardError: number | null;
+  lower: number | null;
+  upper: number | null;
+};
+
+export type ReactionOrderResult = {
+  orders: ReactionOrderEstimate[];
+  /** ln of the rate constant in the rate law r = k·Π cᵢ^nᵢ. */
+  logRateConstant: number;
+  rSquared: number;
+  degreesOfFreedom: number;
+  confidence: number;
+  experimentCount: number;
+};
+
+/** Uses the series' own extrapolated initial value instead of a metadata column. */
+export const SERIES_INITIAL_VALUE = "__series_initial_value__";
+
+const windowSlope = (
+  time: number[],
+  y: number[],
+  method: InitialRateMethod
+): { rate: number; standardError: number | null; intercept: number } => {
+  const t0 = time[0];
+  const relative = time.map((t) => t - t0);
+  if (method === "linear") {
+    const regression = linearRegressionWithStats(relative, y);
+    return {
+      rate: regression.slope,
+      standardError: regression.slopeStandardError,
+      intercept: regression.intercept
+    };
+  }
+  const regression = multipleLinearRegression(
+    relative.map((t) => [t, t * t]),
+    y
+  );
+  return {
+    rate: regression.coefficients[1],
+    standardError: regression.standardErrors[1],
+    intercept: regression.coefficients[0]
+  };
+};
+
+/**
+ * Estimates the initial rate from the early part of a series. The window grows
+ * from `minPoints` until `maxConversion` is reached; the largest window in which
+ * a straight line is still adequate wins, otherwise a quadratic is used and its
+ * slope at t₀ is reported.
+ */
+export const estimateInitialRate = (
+  series: Series,
+  { maxConversion = 0.2, minPoints = 3, curvatureTolerance = 0.1 }: InitialRateOptions = {}
+): InitialRateResult => {
+  const points = getFitPoints(series);
+  const order = points.time
+    .map((_, index) => index)
+    .sort((left, right) => points.time[left] - points.time[right]);
+  const time = order.map((index) => points.time[index]);
+  const y = order.map((index) => points.y[index]);
+  if (time.length < minPoints) {
+    throw new Error(`At least ${minPoints} points are required for an initial rate.`);
+  }
+
+  const y0 = y[0];
+  const totalChange = Math.max(...y.map((value) => Math.abs(value - y0)));
+  const scale = Math.abs(y0) > 1e-12 * Math.max(totalChange, 1) ? Math.abs(y0) : totalChange;
+  const conversionAt = (index: number) => (scale > 0 ? Math.abs(y[index] - y0) / scale : 0);
+
+  let maxWindow = minPoints;
+  while (maxWindow < time.length && conversionAt(maxWindow) <= maxConversion) {
+    maxWindow += 1;
+  }
+
+  let best: InitialRateResult | null = null;
+  for (let size = minPoints; size <= maxWindow; size += 1) {
+    const windowTime = time.slice(0, size);
+    const windowY = y.slice(0, size);
+    const linear = windowSlope(windowTime, windowY, "linear");
+    let adequate = true;
+    if (size >= 4) {
+      const quadratic = windowSlope(windowTime, windowY, "quadratic");
+      const reference = Math.max(Math.abs(quadratic.rate), Math.abs(linear.rate), 1e-300);
+      adequate = Math.abs(linear.rate - quadratic.rate) / reference <= curvatureTolerance;
+    }
+    if (adequate) {
+      best = {
+        seriesId: series.id,
+        rate: linear.rate,
+        rateStandardError: linear.standardError,
+        initialValue: linear.intercept,
+        method: "linear",
+        windowPointCount: size,
+        windowEndTime: windowTime[size - 1],
+        conversion: conversionAt(size - 1)
+      };
+    }
+  }
+
+  if (best && best.windowPointCount === maxWindow) {
+    return best;
+  }
+  if (maxWindow >= 4) {
+    const quadratic = windowSlope(time.slice(0, maxWindow), y.slice(0, maxWindow), "quadratic");
+    return {
+      seriesId: series.id,
+      rate: quadratic.rate,
+      rateStandardError: quadratic.standardError,
+      initialValue: quadratic.intercept,
+      method: "quadratic",
+      windowPointCount: maxWindow,
+      windowEndTime: time[maxWindow - 1],
+      conversion: conversionAt(maxWindow - 1)
+    };
+  }
+  if (!best) {
+    throw new Error("No initial-rate window could be determined.");
+  }
+  return best;
+};
+
+/**
+ * Reads the initial concentration of each source for every experiment. Sources
+ * are metaRaw keys (e.g. column-scan condition columns) or SERIES_INITIAL_VALUE.
+ */
+export const buildReactionOrderInputs = ({
+  experiments,
+  rates,
+  sources
+}: {
+  experiments: Experiment[];
+  rates: Record<string, InitialRateResult | undefined>;
+  sources: string[];
+}): ReactionOrderInput[] =>
+  experiments.flatMap((experiment) => {
+    const rate = rates[experiment.experimentId];
+    if (!rate) {
+      return [];
+    }
+    const concentrations: Record<string, number> = {};
+    for (const source of sources) {
+      const raw = source === SERIES_INITIAL_VALUE ? rate.initialValue : experiment.metaRaw[source];
+      const value = typeof raw === "number" ? raw : parseNumericCell(raw ?? null);
+      if (value === null || !(value > 0)) {
+        return [];
+      }
+      concentrations[source] = value;
+    }
+    return [{ experimentId: experiment.experimentId, rate: rate.rate, concentrations }];
+  });
+
+/**
+ * Method of initial rates: regresses ln|r₀| on ln c for every source, giving the
+ * reaction order with respect to each varied concentration.
+ */
+export const estimateReactionOrders = (
+  inputs: ReactionOrderInput[],
+  sources: string[],
+  confidence = 0.95
+): ReactionOrderResult => {
+  const usable = inputs.filter((input) => input.rate !== 0 && Number.isFinite(input.rate));
+  if (sources.length === 0) {
+    throw new Error("Select at least one concentration source.");
+  }
+  if (usable.length < sources.length + 1) {
+    throw new Error(
+      `At least ${sources.length + 1} experiments with a non-zero rate are required.`
+    );
+  }
+  const regression = multipleLinearRegression(
+    usable.map((input) => sources.map((source) => Math.log(input.concentrations[source]))),
+    usable.map((input) => Math.log(Math.abs(input.rate)))
+  );
+  const critical = studentTCritical(confidence, regression.degreesOfFreedom);
+
+  return {
+    orders: sources.map((source, index) => {
+      const order = regression.coefficients[index + 1];
+      const standardError = regression.standardErrors[index + 1];
+      const halfWidth =
+        standardError === null || !Number.isFinite(critical) ? null : critical * standardError;
+      return {
+        source,
+        order,
+        standardError,
+        lower: halfWidth === null ? null : order - halfWidth,
+        upper: halfWidth === null ? null : order + halfWidth
+      };
+    }),
+    logRateConstant: regression.coefficients[0],
+    rSquared: regression.rSquared,
+    degreesOfFreedom: regression.degreesOfFreedom,
+    confidence,
+    experimentCount: usable.length
+  };
+};
@@ -0,0 +1,160 @@
+import { invertMatrix, multiply, solveLinearSystem, transpose, type Matrix } from "./linearAlgebra";
+
+export type LeastSquaresProblem = {
+  initial: number[];
+  residuals: (params: number[]) => number[];
+  jacobian?: (params: number[]) => Matrix;
+  maxIterations?: number;
+  tolerance?: number;
+};
+
+export type LeastSquaresSolution = {
+  params: number[];
+  residuals: number[];
+  sse: number;
+  iterations: number;
+  converged: boolean;
+  covariance: Matrix | null;
+};
+
+const DEFAULT_MAX_ITERATIONS = 200;
+const DEFAULT_TOLERANCE = 1e-10;
+
+const sumOfSquares = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value * value, 0);
+
+const isFiniteVector = (values: number[]): boolean => values.every(Number.isFinite);
+
+/**
+ * Forward-difference Jacobian of the residual vector, used when a model does not
+ * provide analytic derivatives. The step is relative to the parameter but at least
+ * √ε, so parameters at or near zero still get a usable difference.
+ */
+export const numericJacobian = (
+  residuals: (params: number[]) => number[],
+  params: number[],
+  base = residuals(params)
+): Matrix => {
+  const jacobian: Matrix = base.map(() => new Array<number>(params.length).fill(0));
+  params.forEach((value, column) => {
+    const step = Math.sqrt(Number.EPSILON) * Math.max(Math.abs(value), 1);
+    const shifted = [...params];
+    shifted[column] = value + step;
+    const next = residuals(shifted);
+    next.forEach((residual, row) => {
+      jacobian[row][column] = (residual - base[row]) / step;
+    });
+  });
+  return jacobian;
+};
+
+/**
+ * Estimates the parameter covariance s²·(JᵀJ)⁻¹ at the solution. Returns null for
+ * rank-deficient problems or when there are no residual degrees of freedom.
+ */
+export const estimateCovariance = (jacobian: Matrix, sse: number): Matrix | null => {
+  const observations = jacobian.length;
+  const parameterCount = jacobian[0]?.length ?? 0;
+  const degreesOfFreedom = observations - parameterCount;
+  if (degreesOfFreedom <= 0) {
+    return null;
+  }
+  const jt = transpose(jacobian);
+  const inverse = invertMatrix(multiply(jt, jacobian));
+  if (!inverse) {
+    return null;
+  }
+  const variance = sse / degreesOfFreedom;
+  return inverse.map((row) => row.map((value) => value * variance));
+};
+
+/**
+ * Levenberg–Marquardt with Marquardt's diagonal scaling. Steps that produce
+ * non-finite residuals are rejected like any other uphill step.
+ */
+export const levenbergMarquardt = ({
+  initial,
+  residuals,
+  jacobian,
+  maxIterations = DEFAULT_MAX_ITERATIONS,
+  tolerance = DEFAULT_TOLERANCE
+}: LeastSquaresProblem): LeastSquaresSolution => {
+  let params = [...initial];
+  let current = residuals(params);
+  if (!isFiniteVector(current)) {
+    throw new Error("Initial parameters produce non-finite residuals.");
+  }
+  let sse = sumOfSquares(current);
+  let lambda = 1e-3;
+  let iterations = 0;
+  let converged = false;
+  const computeJacobian = (values: number[], base: number[]) =>
+    jacobian ? jacobian(values) : numericJacobian(residuals, values, base);
+
+  while (iterations < maxIterations) {
+    iterations += 1;
+    const j = computeJacobian(params, current);
+    const jt = transpose(j);
+    const jtj = multiply(jt, j);
+    const gradient = jt.map((row) =>
+      row.reduce((sum, value, index) => sum + value * current[index], 0)
+    );
+
+    let improved = false;
+    while (lambda < 1e12) {
+      const damped = jtj.map((row, rowIndex) =>
+        row.map((value, columnIndex) =>
+          rowIndex === columnIndex ? value + lambda * Math.max(value, 1e-12) : value
+        )
+      );
+      const step = solveLinearSystem(
+        damped,
+        gradient.map((value) => -value)
+      );
+      if (!step) {
+        lambda *= 10;
+        continue;
+      }
+      const candidate = params.map((value, index) => value + step[index]);
+      const candidateResiduals = residuals(candidate);
+      const candidateSse = isFiniteVector(candidateResiduals)
+        ? sumOfSquares(candidateResiduals)
+        : Number.POSITIVE_INFINITY;
+
+      if (candidateSse < sse) {
+        const relativeChange = (sse - candidateSse) / Math.max(sse, 1e-300);
+        const stepSize = Math.sqrt(sumOfSquares(step));
+        const paramSize = Math.sqrt(sumOfSquares(candidate));
+        params = candidate;
+        current = candidateResiduals;
+        sse = candidateSse;
+        lambda = Math.max(lambda / 10, 1e-12);
+        improved = true;
+        if (relativeChange < tolerance || stepSize < tolerance * (paramSize + tolerance)) {
+          converged = true;
+        }
+        break;
+      }
+      lambda *= 10;
+    }
+
+    if (!improved) {
+      // No downhill step exists at any damping: we are at a (local) minimum.
+      converged = true;
+      break;
+    }
+    if (converged || sse === 0) {
+      converged = true;
+      break;
+    }
+  }
+
+  return {
+    params,
+    residuals: current,
+    sse,
+    iterations,
+    converged,
+    covariance: estimateCovariance(computeJacobian(params, current), sse)
+  };
+};
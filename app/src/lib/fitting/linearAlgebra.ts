@@ -0,0 +1,81 @@
+export type Matrix = number[][];
+
+export const transpose = (matrix: Matrix): Matrix => {
+  const rows = matrix.length;
+  const columns = matrix[0]?.length ?? 0;
+  return Array.from({ length: columns }, (_, column) =>
+    Array.from({ length: rows }, (_, row) => matrix[row][column])
+  );
+};
+
+export const multiply = (left: Matrix, right: Matrix): Matrix => {
+  const inner = right.length;
+  const columns = right[0]?.length ?? 0;
+  return left.map((row) =>
+    Array.from({ length: columns }, (_, column) => {
+      let sum = 0;
+      for (let index = 0; index < inner; index += 1) {
+        sum += row[index] * right[index][column];
+      }
+      return sum;
+    })
+  );
+};
+
+export const identity = (size: number): Matrix =>
+  Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, column) => (row === column ? 1 : 0))
+  );
+
+/**
+ * Solves A·x = b with Gaussian elimination and partial pivoting.
+ * Returns null when the system is (numerically) singular.
+ */
+export const solveLinearSystem = (matrix: Matrix, vector: number[]): number[] | null => {
+  const size = vector.length;
+  const augmented = matrix.map((row, index) => [...row, vector[index]]);
+
+  for (let pivot = 0; pivot < size; pivot += 1) {
+    let bestRow = pivot;
+    for (let row = pivot + 1; row < size; row += 1) {
+      if (Math.abs(augmented[row][pivot]) > Math.abs(augmented[bestRow][pivot])) {
+        bestRow = row;
+      }
+    }
+    if (Math.abs(augmented[bestRow][pivot]) < 1e-300) {
+      return null;
+    }
+    [augmented[pivot], augmented[bestRow]] = [augmented[bestRow], augmented[pivot]];
+
+    for (let row = pivot + 1; row < size; row += 1) {
+      const factor = augmented[row][pivot] / augmented[pivot][pivot];
+      for (let column = pivot; column <= size; column += 1) {
+        augmented[row][column] -= factor * augmented[pivot][column];
+      }
+    }
+  }
+
+  const solution = new Array<number>(size).fill(0);
+  for (let row = size - 1; row >= 0; row -= 1) {
+    let sum = augmented[row][size];
+    for (let column = row + 1; column < size; column += 1) {
+      sum -= augmented[row][column] * solution[column];
+    }
+    solution[row] = sum / augmented[row][row];
+  }
+  return solution.every(Number.isFinite) ? solution : null;
+};
+
+export const invertMatrix = (matrix: Matrix): Matrix | null => {
+  const size = matrix.length;
+  const columns: number[][] = [];
+  for (let column = 0; column < size; column += 1) {
+    const unit = identity(size)[column];
+    const solved = solveLinearSystem(matrix, unit);
+    if (!solved) {
+      return null;
+    }
+    columns.push(solved);
+  }
+  return transpose(columns);
+};
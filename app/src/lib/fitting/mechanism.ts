@@ -0,0 +1,378 @@
+import { getFitPoints, computeRSquared, type FitPoints } from "./fitSeries";
+import { levenbergMarquardt } from "./levenbergMarquardt";
+import { integrateOde, type OdeDerivative, type OdeMethod } from "./ode";
+import type { Matrix } from "./linearAlgebra";
+import type { Experiment } from "../import/types";
+
+export type Stoichiometry = Record<string, number>;
+
+export type ReactionStep = {
+  reactants: Stoichiometry;
+  products: Stoichiometry;
+  reversible: boolean;
+};
+
+export type Mechanism = {
+  species: string[];
+  steps: ReactionStep[];
+};
+
+export type CompiledMechanism = {
+  species: string[];
+  rateConstantNames: string[];
+  derivative: (rateConstants: number[]) => OdeDerivative;
+};
+
+export type MechanismSpeciesFit = {
+  species: string;
+  seriesId: string;
+  time: number[];
+  observed: number[];
+  fitted: number[];
+  residuals: number[];
+  sse: number;
+  rSquared: number;
+};
+
+export type MechanismFitResult = {
+  mechanism: string;
+  parameters: Record<string, number>;
+  standardErrors: Record<string, number | null>;
+  covariance: Matrix | null;
+  species: MechanismSpeciesFit[];
+  /** Initial concentrations that were held fixed (unobserved species). */
+  fixedInitialConcentrations: Record<string, number>;
+  sse: number;
+  pointCount: number;
+  parameterCount: number;
+  iterations: number;
+  converged: boolean;
+  solverMethod: Exclude<OdeMethod, "auto">;
+};
+
+const arrowPattern = /\s*(<=>|<->|⇌|->|→)\s*/;
+const speciesPattern = /^[A-Za-z][\w']*$/;
+
+const parseSide = (side: string): Stoichiometry => {
+  const result: Stoichiometry = {};
+  side
+    .split("+")
+    .map((term) => term.trim())
+    .forEach((term) => {
+      const match = term.match(/^(\d+(?:\.\d+)?)?\s*(.+)$/);
+      const name = match?.[2]?.trim() ?? "";
+      if (!speciesPattern.test(name)) {
+        throw new Error(`Invalid species "${term}" in mechanism.`);
+      }
+      result[name] = (result[name] ?? 0) + Number(match?.[1] ?? 1);
+    });
+  return result;
+};
+
+/**
+ * Parses mechanisms such as "A -> B -> C", "A <=> B" or "A + B -> C". Several
+ * reactions can be separated by ";" or line breaks; chained arrows create one
+ * step per arrow.
+ */
+export const parseMechanism = (text: string): Mechanism => {
+  const steps: ReactionStep[] = [];
+  text
+    .split(/[;\n]/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .forEach((line) => {
+      const parts = line.split(arrowPattern);
+      if (parts.length < 3) {
+        throw new Error(`Reaction "${line}" has no arrow.`);
+      }
+      for (let index = 0; index + 2 < parts.length; index += 2) {
+        const arrow = parts[index + 1];
+        steps.push({
+          reactants: parseSide(parts[index]),
+          products: parseSide(parts[index + 2]),
+          reversible: arrow !== "->" && arrow !== "→"
+        });
+      }
+    });
+  if (steps.length === 0) {
+    throw new Error("Mechanism is empty.");
+  }
+  const species = Array.from(
+    new Set(
+      steps.flatMap((step) => [...Object.keys(step.reactants), ...Object.keys(step.products)])
+    )
+  );
+  return { species, steps };
+};
+
+const formatSide = (side: Stoichiometry): string =>
+  Object.entries(side)
+    .map(([name, coefficient]) => (coefficient === 1 ? name : `${coefficient} ${name}`))
+    .join(" + ");
+
+export const formatMechanism = (mechanism: Mechanism): string =>
+  mechanism.steps
+    .map(
+      (step) =>
+        `${formatSide(step.reactants)} ${step.reversible ? "⇌" : "→"} ${formatSide(step.products)}`
+    )
+    .join("; ");
+
+const massActionRate = (
+  k: number,
+  side: Stoichiometry,
+  speciesIndex: Map<string, number>,
+  y: number[]
+) =>
+  Object.entries(side).reduce(
+    (rate, [name, order]) => rate * Math.max(y[speciesIndex.get(name) ?? 0], 0) ** order,
+    k
+  );
+
+/**
+ * Compiles a mechanism into mass-action ODEs. Rate constants are named k1, k2, …
+ * per step; reversible steps add a reverse constant k1r, k2r, ….
+ */
+export const compileMechanism = (mechanism: Mechanism): CompiledMechanism => {
+  const speciesIndex = new Map(mechanism.species.map((name, index) => [name, index]));
+  const rateConstantNames = mechanism.steps.flatMap((step, index) =>
+    step.reversible ? [`k${index + 1}`, `k${index + 1}r`] : [`k${index + 1}`]
+  );
+
+  return {
+    species: mechanism.species,
+    rateConstantNames,
+    derivative: (rateConstants) => (_t, y) => {
+      const dydt = new Array<number>(y.length).fill(0);
+      let constantIndex = 0;
+      mechanism.steps.forEach((step) => {
+        const forward = massActionRate(
+          rateConstants[constantIndex],
+          step.reactants,
+          speciesIndex,
+          y
+        );
+        constantIndex += 1;
+        const reverse = step.reversible
+          ? massActionRate(rateConstants[constantIndex], step.products, speciesIndex, y)
+          : 0;
+        if (step.reversible) {
+          constantIndex += 1;
+        }
+        const net = forward - reverse;
+        Object.entries(step.reactants).forEach(([name, coefficient]) => {
+          dydt[speciesIndex.get(name) ?? 0] -= coefficient * net;
+        });
+        Object.entries(step.products).forEach(([name, coefficient]) => {
+          dydt[speciesIndex.get(name) ?? 0] += coefficient * net;
+        });
+      });
+      return dydt;
+    }
+  };
+};
+
+const reactionOrder = (mechanism: Mechanism, constantIndex: number): number => {
+  let index = 0;
+  for (const step of mechanism.steps) {
+    const sides = step.reversible ? [step.reactants, step.products] : [step.reactants];
+    for (const side of sides) {
+      if (index === constantIndex) {
+        return Object.values(side).reduce((sum, value) => sum + value, 0);
+      }
+      index += 1;
+    }
+  }
+  return 1;
+};
+
+export type MechanismModelInput = {
+  mechanism: Mechanism;
+  experiment: Experiment;
+  speciesSeries: Record<string, string>;
+  fixedInitialConcentrations?: Record<string, number>;
+  method?: OdeMethod;
+};
+
+/**
+ * The fitted vector of a mechanism: log rate constants, then the initial
+ * concentrations of the observed species. Shared by the fit and its uncertainty
+ * analysis.
+ */
+export const createMechanismModel = ({
+  mechanism,
+  experiment,
+  speciesSeries,
+  fixedInitialConcentrations = {},
+  method = "auto"
+}: MechanismModelInput) => {
+  const compiled = compileMechanism(mechanism);
+  const observed = compiled.species.flatMap((species) => {
+    const series = experiment.series.find((item) => item.id === speciesSeries[species]);
+    return series ? [{ species, seriesId: series.id, points: getFitPoints(series) }] : [];
+  });
+  if (observed.length === 0) {
+    throw new Error("Assign at least one series to a species of the mechanism.");
+  }
+
+  const outputTimes = Array.from(new Set(observed.flatMap((item) => item.points.time))).sort(
+    (left, right) => left - right
+  );
+  const timeIndex = new Map(outputTimes.map((t, index) => [t, index]));
+  const span = Math.max(outputTimes[outputTimes.length - 1] - Math.min(0, outputTimes[0]), 1e-9);
+  const maxConcentration = Math.max(
+    ...observed.flatMap((item) => item.points.y.map(Math.abs)),
+    1e-9
+  );
+
+  const observedSpecies = observed.map((item) => item.species);
+  const fixed: Record<string, number> = {};
+  compiled.species.forEach((species) => {
+    if (!observedSpecies.includes(species)) {
+      fixed[species] = fixedInitialConcentrations[species] ?? 0;
+    }
+  });
+  const parameterNames = [
+    ...compiled.rateConstantNames,
+    ...observedSpecies.map((species) => `${species}0`)
+  ];
+  const rateCount = compiled.rateConstantNames.length;
+
+  const initial = [
+    ...compiled.rateConstantNames.map((_, index) =>
+      Math.log(1 / (span * maxConcentration ** (reactionOrder(mechanism, index) - 1)))
+    ),
+    ...observed.map((item) => item.points.y[0] ?? 0)
+  ];
+
+  let solverMethod: Exclude<OdeMethod, "auto"> = method === "stiff" ? "stiff" : "rk45";
+  const simulate = (vector: number[]) => {
+    const rateConstants = vector.slice(0, rateCount).map(Math.exp);
+    const y0 = compiled.species.map((species) => {
+      const observedIndex = observedSpecies.indexOf(species);
+      return observedIndex >= 0 ? vector[rateCount + observedIndex] : fixed[species];
+    });
+    const solution = integrateOde(compiled.derivative(rateConstants), y0, outputTimes, {
+      method,
+      relativeTolerance: 1e-9,
+      absoluteTolerance: 1e-14 * maxConcentration
+    });
+    solverMethod = solution.method;
+    return solution.states;
+  };
+  const predictions = (vector: number[], states = simulate(vector)) =>
+    observed.map((item) => {
+      const speciesIndex = compiled.species.indexOf(item.species);
+      return item.points.time.map((t) => states[timeIndex.get(t) ?? 0][speciesIndex]);
+    });
+  /** All observations in species order, NaN where the integration fails. */
+  const predict = (vector: number[]): number[] => {
+    let states: number[][];
+    try {
+      states = simulate(vector);
+    } catch {
+      return observed.flatMap((item) => item.points.y.map(() => Number.NaN));
+    }
+    return predictions(vector, states).flat();
+  };
+
+  return {
+    observed,
+    fixed,
+    parameterNames,
+    rateCount,
+    initial,
+    predictions,
+    predict,
+    observedValues: observed.flatMap((item) => item.points.y),
+    /** The fitted vector for reported parameters, i.e. with log rate constants. */
+    toVector: (parameters: Record<string, number>) =>
+      parameterNames.map((name, index) =>
+        index < rateCount ? Math.log(parameters[name]) : parameters[name]
+      ),
+    getSolverMethod: () => solverMethod
+  };
+};
+
+/**
+ * Fits all mapped series of one experiment simultaneously to a mechanism.
+ * Rate constants are optimised in log space to keep them positive; initial
+ * concentrations of observed species are fitted, unobserved ones are held at
+ * `fixedInitialConcentrations` (default 0).
+ */
+export const fitMechanism = (input: MechanismModelInput): MechanismFitResult => {
+  const { mechanism } = input;
+  const model = createMechanismModel(input);
+  const { observed, fixed, parameterNames, rateCount, observedValues } = model;
+  const residuals = (vector: number[]) =>
+    model.predict(vector).map((value, index) => observedValues[index] - value);
+
+  const solution = levenbergMarquardt({
+    initial: model.initial,
+    residuals,
+    jacobian: (vector) => {
+      const columns = vector.map((value, column) => {
+        const step = 1e-6 * Math.max(Math.abs(value), 1e-3);
+        const up = [...vector];
+        const down = [...vector];
+        up[column] = value + step;
+        down[column] = value - step;
+        const upper = residuals(up);
+        const lower = residuals(down);
+        return upper.map((entry, row) => (entry - lower[row]) / (2 * step));
+      });
+      return columns[0].map((_, row) => columns.map((column) => column[row]));
+    },
+    maxIterations: 100
+  });
+
+  // Delta method: d k / d(log k) = k.
+  const scale = solution.params.map((value, index) => (index < rateCount ? Math.exp(value) : 1));
+  const covariance =
+    solution.covariance?.map((row, rowIndex) =>
+      row.map((value, columnIndex) => value * scale[rowIndex] * scale[columnIndex])
+    ) ?? null;
+  const parameters: Record<string, number> = {};
+  const standardErrors: Record<string, number | null> = {};
+  parameterNames.forEach((name, index) => {
+    parameters[name] =
+      index < rateCount ? Math.exp(solution.params[index]) : solution.params[index];
+    const variance = covariance?.[index]?.[index];
+    standardErrors[name] =
+      variance !== undefined && Number.isFinite(variance) && variance >= 0
+        ? Math.sqrt(variance)
+        : null;
+  });
+
+  const fitted = model.predictions(solution.params);
+  const species = observed.map((item, index): MechanismSpeciesFit => {
+    const points: FitPoints = item.points;
+    const speciesResiduals = points.y.map((value, pointIndex) => value - fitted[index][pointIndex]);
+    const sse = speciesResiduals.reduce((sum, value) => sum + value * value, 0);
+    return {
+      species: item.species,
+      seriesId: item.seriesId,
+      time: points.time,
+      observed: points.y,
+      fitted: fitted[index],
+      residuals: speciesResiduals,
+      sse,
+      rSquared: computeRSquared(points.y, sse)
+    };
+  });
+
+  return {
+    mechanism: formatMechanism(mechanism),
+    parameters,
+    standardErrors,
+    covariance,
+    species,
+    fixedInitialConcentrations: fixed,
+    sse: solution.sse,
+    pointCount: species.reduce((sum, item) => sum + item.time.length, 0),
+    parameterCount: parameterNames.length,
+    iterations: solution.iterations,
+    converged: solution.converged,
+    solverMethod: model.getSolverMethod()
+  };
+};
@@ -0,0 +1,206 @@
+import { fitAllRateLaws } from "./fitSeries";
+import { normalCdf } from "./statistics";
+import type { FitResult, Series } from "./types";
+
+export type FitDiagnosticCode =
+  | "NOT_CONVERGED"
+  | "FEW_POINTS_PER_PARAMETER"
+  | "HIGH_PARAMETER_UNCERTAINTY"
+  | "PARAMETER_CORRELATION"
+  | "RESIDUAL_RUNS"
+  | "RESIDUAL_AUTOCORRELATION";
+
+export type FitDiagnosticFlag = {
+  code: FitDiagnosticCode;
+  /** Over-parameterisation and non-convergence disqualify a fit from being recommended. */
+  critical: boolean;
+  parameter?: string;
+};
+
+export type ResidualDiagnostics = {
+  runs: number;
+  expectedRuns: number;
+  runsPValue: number | null;
+  lag1Autocorrelation: number | null;
+  durbinWatson: number | null;
+};
+
+export type RankedModel = {
+  rank: number;
+  fit: FitResult;
+  aicc: number;
+  bic: number;
+  /** Null when AICc is undefined, i.e. too few points for the parameter count. */
+  deltaAicc: number | null;
+  akaikeWeight: number | null;
+  residualDiagnostics: ResidualDiagnostics;
+  flags: FitDiagnosticFlag[];
+};
+
+export type ModelComparison = {
+  seriesId: string;
+  ranking: RankedModel[];
+  recommendedModelId: string | null;
+};
+
+const MIN_POINTS_PER_PARAMETER = 3;
+const MAX_RELATIVE_STANDARD_ERROR = 0.5;
+const MAX_PARAMETER_CORRELATION = 0.98;
+const RESIDUAL_P_THRESHOLD = 0.05;
+const AUTOCORRELATION_THRESHOLD = 0.5;
+
+/**
+ * AICc and BIC for Gaussian least squares. The error variance counts as an
+ * estimated parameter, so K = p + 1.
+ */
+export const computeInformationCriteria = (
+  fit: Pick<FitResult, "sse" | "pointCount" | "parameterCount">
+): { aicc: number; bic: number } => {
+  const n = fit.pointCount;
+  const k = fit.parameterCount + 1;
+  const logLikelihoodTerm = n * Math.log(Math.max(fit.sse, Number.MIN_VALUE) / n);
+  const correction = n - k - 1 > 0 ? (2 * k * (k + 1)) / (n - k - 1) : Number.POSITIVE_INFINITY;
+  return {
+    aicc: logLikelihoodTerm + 2 * k + correction,
+    bic: logLikelihoodTerm + k * Math.log(n)
+  };
+};
+
+/** Wald–Wolfowitz runs test on residual signs plus lag-1 autocorrelation. */
+export const computeResidualDiagnostics = (residuals: number[]): ResidualDiagnostics => {
+  const signs = residuals.filter((value) => value !== 0).map((value) => value > 0);
+  const positives = signs.filter(Boolean).length;
+  const negatives = signs.length - positives;
+  const runs = signs.reduce(
+    (count, sign, index) => (index === 0 || sign !== signs[index - 1] ? count + 1 : count),
+    0
+  );
+  const total = positives + negatives;
+  const expectedRuns = total === 0 ? 0 : (2 * positives * negatives) / total + 1;
+  const runsVariance =
+    total > 1
+      ? (2 * positives * negatives * (2 * positives * negatives - total)) /
+        (total * total * (total - 1))
+      : 0;
+  // One-sided: too few runs means the model misses a systematic trend.
+  const runsPValue =
+    runsVariance > 0 ? normalCdf((runs - expectedRuns) / Math.sqrt(runsVariance)) : null;
+
+  const sumSquares = residuals.reduce((sum, value) => sum + value * value, 0);
+  let lagProduct = 0;
+  let differenceSquares = 0;
+  for (let index = 1; index < residuals.length; index += 1) {
+    lagProduct += residuals[index] * residuals[index - 1];
+    differenceSquares += (residuals[index] - residuals[index - 1]) ** 2;
+  }
+  const hasSignal = residuals.length > 2 && sumSquares > 0;
+
+  return {
+    runs,
+    expectedRuns,
+    runsPValue,
+    lag1Autocorrelation: hasSignal ? lagProduct / sumSquares : null,
+    durbinWatson: hasSignal ? differenceSquares / sumSquares : null
+  };
+};
+
+export const collectFitFlags = (
+  fit: FitResult,
+  diagnostics: ResidualDiagnostics
+): FitDiagnosticFlag[] => {
+  const flags: FitDiagnosticFlag[] = [];
+  if (!fit.converged) {
+    flags.push({ code: "NOT_CONVERGED", critical: true });
+  }
+  if (fit.pointCount < MIN_POINTS_PER_PARAMETER * fit.parameterCount) {
+    flags.push({ code: "FEW_POINTS_PER_PARAMETER", critical: false });
+  }
+  Object.entries(fit.parameters).forEach(([name, value]) => {
+    const standardError = fit.standardErrors[name];
+    if (
+      standardError === null ||
+      standardError === undefined ||
+      (value !== 0 && Math.abs(standardError / value) > MAX_RELATIVE_STANDARD_ERROR)
+    ) {
+      flags.push({ code: "HIGH_PARAMETER_UNCERTAINTY", critical: true, parameter: name });
+    }
+  });
+  const names = Object.keys(fit.parameters);
+  const covariance = fit.covariance ?? [];
+  covariance.forEach((row, rowIndex) => {
+    row.forEach((value, columnIndex) => {
+      if (columnIndex <= rowIndex) {
+        return;
+      }
+      const scale = Math.sqrt(
+        covariance[rowIndex][rowIndex] * covariance[columnIndex][columnIndex]
+      );
+      if (scale > 0 && Math.abs(value / scale) > MAX_PARAMETER_CORRELATION) {
+        flags.push({
+          code: "PARAMETER_CORRELATION",
+          critical: true,
+          parameter: `${names[rowIndex]}/${names[columnIndex]}`
+        });
+      }
+    });
+  });
+  if (diagnostics.runsPValue !== null && diagnostics.runsPValue < RESIDUAL_P_THRESHOLD) {
+    flags.push({ code: "RESIDUAL_RUNS", critical: false });
+  }
+  if (
+    diagnostics.lag1Autocorrelation !== null &&
+    diagnostics.lag1Autocorrelation > AUTOCORRELATION_THRESHOLD
+  ) {
+    flags.push({ code: "RESIDUAL_AUTOCORRELATION", critical: false });
+  }
+  return flags;
+};
+
+/**
+ * Ranks candidate fits of the same data by AICc (ties broken by BIC). The
+ * recommendation is the best-ranked fit without critical flags.
+ */
+export const compareModels = (
+  fits: FitResult[],
+  seriesId = fits[0]?.seriesId ?? ""
+): ModelComparison => {
+  const scored = fits.map((fit) => {
+    const criteria = computeInformationCriteria(fit);
+    const residualDiagnostics = computeResidualDiagnostics(fit.residuals);
+    return {
+      fit,
+      ...criteria,
+      residualDiagnostics,
+      flags: collectFitFlags(fit, residualDiagnostics)
+    };
+  });
+  scored.sort((left, right) => left.aicc - right.aicc || left.bic - right.bic);
+
+  // Non-finite AICc values sort last, so a non-finite best means no candidate has one.
+  const bestAicc = scored[0]?.aicc ?? 0;
+  const relativeLikelihoods = scored.map((entry) =>
+    Number.isFinite(entry.aicc) ? Math.exp(-(entry.aicc - bestAicc) / 2) : 0
+  );
+  const likelihoodSum = relativeLikelihoods.reduce((sum, value) => sum + value, 0);
+
+  const ranking: RankedModel[] = scored.map((entry, index) => ({
+    ...entry,
+    rank: index + 1,
+    deltaAicc: Number.isFinite(entry.aicc) ? entry.aicc - bestAicc : null,
+    akaikeWeight:
+      Number.isFinite(entry.aicc) && likelihoodSum > 0
+        ? relativeLikelihoods[index] / likelihoodSum
+        : null
+  }));
+
+  const recommended = ranking.find((entry) => !entry.flags.some((flag) => flag.critical));
+
+  return {
+    seriesId,
+    ranking,
+    recommendedModelId: recommended?.fit.modelId ?? null
+  };
+};
+
+export const compareRateLaws = (series: Series): ModelComparison =>
+  compareModels(fitAllRateLaws(series), series.id);
@@ -0,0 +1,226 @@
+import { solveLinearSystem, type Matrix } from "./linearAlgebra";
+
+export type OdeDerivative = (t: number, y: number[]) => number[];
+
+export type OdeMethod = "rk45" | "stiff" | "auto";
+
+export type OdeOptions = {
+  method?: OdeMethod;
+  relativeTolerance?: number;
+  absoluteTolerance?: number;
+  maxSteps?: number;
+};
+
+export type OdeSolution = {
+  times: number[];
+  states: number[][];
+  method: Exclude<OdeMethod, "auto">;
+  steps: number;
+};
+
+const DEFAULT_RELATIVE_TOLERANCE = 1e-8;
+const DEFAULT_ABSOLUTE_TOLERANCE = 1e-12;
+const DEFAULT_MAX_STEPS = 20_000;
+
+const add = (y: number[], ...terms: [number, number[]][]): number[] =>
+  y.map((value, index) =>
+    terms.reduce((sum, [factor, vector]) => sum + factor * vector[index], value)
+  );
+
+const errorNorm = (error: number[], y: number[], next: number[], rtol: number, atol: number) => {
+  const sum = error.reduce((total, value, index) => {
+    const scale = atol + rtol * Math.max(Math.abs(y[index]), Math.abs(next[index]));
+    return total + (value / scale) ** 2;
+  }, 0);
+  return Math.sqrt(sum / Math.max(error.length, 1));
+};
+
+class StepLimitError extends Error {}
+
+// Dormand–Prince 5(4) tableau.
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A: number[][] = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+type Stepper = (
+  t: number,
+  y: number[],
+  h: number
+) => { next: number[]; error: number[]; order: number };
+
+const dormandPrinceStep =
+  (derivative: OdeDerivative): Stepper =>
+  (t, y, h) => {
+    const k: number[][] = [];
+    DP_C.forEach((c, stage) => {
+      const terms = DP_A[stage].map((a, index) => [h * a, k[index]] as [number, number[]]);
+      k.push(derivative(t + c * h, add(y, ...terms)));
+    });
+    const next = add(
+      y,
+      ...k.map((stage, index) => [h * DP_B5[index], stage] as [number, number[]])
+    );
+    const lower = add(
+      y,
+      ...k.map((stage, index) => [h * DP_B4[index], stage] as [number, number[]])
+    );
+    return { next, error: next.map((value, index) => value - lower[index]), order: 4 };
+  };
+
+const finiteDifferenceJacobian = (derivative: OdeDerivative, t: number, y: number[]): Matrix => {
+  const base = derivative(t, y);
+  const yScale = Math.max(...y.map(Math.abs), 1e-5);
+  const columns = y.map((value, column) => {
+    const step = Math.sqrt(Number.EPSILON) * Math.max(Math.abs(value), yScale);
+    const shifted = [...y];
+    shifted[column] = value + step;
+    return derivative(t, shifted).map((entry, row) => (entry - base[row]) / step);
+  });
+  return base.map((_, row) => columns.map((column) => column[row]));
+};
+
+/**
+ * Two-stage Rosenbrock method (ROS2, L-stable) with the linearly implicit Euler
+ * solution as embedded first-order estimate.
+ */
+const rosenbrockStep =
+  (derivative: OdeDerivative): Stepper =>
+  (t, y, h) => {
+    const gamma = 1 + 1 / Math.SQRT2;
+    const failed = { next: y.map(() => Number.NaN), error: y.map(() => Infinity), order: 1 };
+    const jacobian = finiteDifferenceJacobian(derivative, t, y);
+    const w = jacobian.map((row, rowIndex) =>
+      row.map((value, columnIndex) => (rowIndex === columnIndex ? 1 : 0) - gamma * h * value)
+    );
+    const f1 = derivative(t, y);
+    const timeStep = Math.sqrt(Number.EPSILON) * Math.max(Math.abs(t), 1);
+    const dfdt = derivative(t + timeStep, y).map((value, index) => (value - f1[index]) / timeStep);
+    const k1 = solveLinearSystem(w, add(f1, [gamma * h, dfdt]));
+    if (!k1) {
+      return failed;
+    }
+    const f2 = derivative(t + h, add(y, [h, k1]));
+    const k2 = solveLinearSystem(w, add(f2, [-2, k1], [-gamma * h, dfdt]));
+    if (!k2) {
+      return failed;
+    }
+    const next = add(y, [1.5 * h, k1], [0.5 * h, k2]);
+    const lower = add(y, [h, k1]);
+    return { next, error: next.map((value, index) => value - lower[index]), order: 1 };
+  };
+
+const integrateWith = (
+  stepper: Stepper,
+  y0: number[],
+  outputTimes: number[],
+  { relativeTolerance, absoluteTolerance, maxSteps }: Required<Omit<OdeOptions, "method">>
+): { states: number[][]; steps: number } => {
+  const start = Math.min(0, outputTimes[0] ?? 0);
+  const end = outputTimes[outputTimes.length - 1] ?? start;
+  let t = start;
+  let y = [...y0];
+  let h = end > start ? (end - start) / 100 : 0;
+  let steps = 0;
+  const states: number[][] = [];
+  let outputIndex = 0;
+
+  while (outputIndex < outputTimes.length && outputTimes[outputIndex] <= t) {
+    states.push([...y]);
+    outputIndex += 1;
+  }
+
+  while (outputIndex < outputTimes.length) {
+    if (steps >= maxSteps) {
+      throw new StepLimitError(`ODE integration exceeded ${maxSteps} steps.`);
+    }
+    const target = outputTimes[outputIndex];
+    const stepSize = Math.min(h, target - t);
+    const { next, error, order } = stepper(t, y, stepSize);
+    steps += 1;
+    const norm = next.every(Number.isFinite)
+      ? errorNorm(error, y, next, relativeTolerance, absoluteTolerance)
+      : Number.POSITIVE_INFINITY;
+
+    if (norm <= 1) {
+      t += stepSize;
+      y = next;
+      while (
+        outputIndex < outputTimes.length &&
+        outputTimes[outputIndex] <= t + 1e-12 * Math.abs(t)
+      ) {
+        states.push([...y]);
+        outputIndex += 1;
+      }
+    }
+    const factor = norm === 0 ? 5 : Number.isFinite(norm) ? 0.9 * norm ** (-1 / (order + 1)) : 0.1;
+    h = stepSize * Math.min(5, Math.max(0.1, factor));
+    if (!(h > 0) || h < 1e-14 * Math.max(Math.abs(t), 1)) {
+      throw new Error("ODE step size underflow.");
+    }
+  }
+
+  return { states, steps };
+};
+
+/**
+ * Integrates y' = f(t, y) from t = min(0, first output time) and returns the state
+ * at each (ascending) output time. "auto" starts with Dormand–Prince and switches
+ * to the Rosenbrock solver when the explicit method needs too many steps, which
+ * is the usual symptom of a stiff mechanism.
+ */
+export const integrateOde = (
+  derivative: OdeDerivative,
+  y0: number[],
+  outputTimes: number[],
+  options: OdeOptions = {}
+): OdeSolution => {
+  const method = options.method ?? "auto";
+  const settings = {
+    relativeTolerance: options.relativeTolerance ?? DEFAULT_RELATIVE_TOLERANCE,
+    absoluteTolerance: options.absoluteTolerance ?? DEFAULT_ABSOLUTE_TOLERANCE,
+    maxSteps: options.maxSteps ?? DEFAULT_MAX_STEPS
+  };
+
+  if (method === "stiff") {
+    return {
+      times: outputTimes,
+      method,
+      ...integrateWith(rosenbrockStep(derivative), y0, outputTimes, settings)
+    };
+  }
+  if (method === "rk45") {
+    return {
+      times: outputTimes,
+      method,
+      ...integrateWith(dormandPrinceStep(derivative), y0, outputTimes, settings)
+    };
+  }
+  try {
+    return {
+      times: outputTimes,
+      method: "rk45",
+      ...integrateWith(dormandPrinceStep(derivative), y0, outputTimes, {
+        ...settings,
+        maxSteps: Math.min(settings.maxSteps, 5_000)
+      })
+    };
+  } catch (error) {
+    if (!(error instanceof StepLimitError)) {
+      throw error;
+    }
+    return {
+      times: outputTimes,
+      method: "stiff",
+      ...integrateWith(rosenbrockStep(derivative), y0, outputTimes, settings)
+    };
+  }
+};
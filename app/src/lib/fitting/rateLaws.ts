@@ -0,0 +1,116 @@
+import { getRateConstantUnit } from "../units/seriesUnits";
+import type { RateLaw, RateLawId } from "./types";
+
+const linearRegression = (x: number[], y: number[]): { slope: number; intercept: number } => {
+  const n = x.length;
+  if (n < 2) {
+    return { slope: 0, intercept: y[0] ?? 0 };
+  }
+  const meanX = x.reduce((sum, value) => sum + value, 0) / n;
+  const meanY = y.reduce((sum, value) => sum + value, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  x.forEach((value, index) => {
+    numerator += (value - meanX) * (y[index] - meanY);
+    denominator += (value - meanX) ** 2;
+  });
+  const slope = denominator === 0 ? 0 : numerator / denominator;
+  return { slope, intercept: meanY - slope * meanX };
+};
+
+const fallbackRate = (time: number[]): number => {
+  const span = Math.max(...time) - Math.min(...time);
+  return span > 0 ? 1 / span : 1;
+};
+
+const positivePairs = (time: number[], y: number[]) => {
+  const t: number[] = [];
+  const values: number[] = [];
+  time.forEach((value, index) => {
+    if (y[index] > 0) {
+      t.push(value);
+      values.push(y[index]);
+    }
+  });
+  return { t, values };
+};
+
+/** c(t) = c0 − k·t */
+const zeroOrder: RateLaw = {
+  id: "zero-order",
+  order: 0,
+  label: "0. Ordnung",
+  parameterNames: ["k", "c0"],
+  evaluate: (time, [k, c0]) => c0 - k * time,
+  gradient: (time) => [-time, 1],
+  initialGuess: (time, y) => {
+    const { slope, intercept } = linearRegression(time, y);
+    return [slope === 0 ? fallbackRate(time) : -slope, intercept];
+  }
+};
+
+/** c(t) = c0·exp(−k·t) */
+const firstOrder: RateLaw = {
+  id: "first-order",
+  order: 1,
+  label: "1. Ordnung",
+  parameterNames: ["k", "c0"],
+  evaluate: (time, [k, c0]) => c0 * Math.exp(-k * time),
+  gradient: (time, [k, c0]) => {
+    const decay = Math.exp(-k * time);
+    return [-time * c0 * decay, decay];
+  },
+  initialGuess: (time, y) => {
+    const { t, values } = positivePairs(time, y);
+    if (t.length < 2) {
+      return [fallbackRate(time), y[0] ?? 1];
+    }
+    const { slope, intercept } = linearRegression(t, values.map(Math.log));
+    return [slope === 0 ? fallbackRate(time) : -slope, Math.exp(intercept)];
+  }
+};
+
+/** c(t) = c0 / (1 + k·c0·t) */
+const secondOrder: RateLaw = {
+  id: "second-order",
+  order: 2,
+  label: "2. Ordnung",
+  parameterNames: ["k", "c0"],
+  evaluate: (time, [k, c0]) => c0 / (1 + k * c0 * time),
+  gradient: (time, [k, c0]) => {
+    const denominator = 1 + k * c0 * time;
+    return [-(c0 * c0 * time) / denominator ** 2, 1 / denominator ** 2];
+  },
+  initialGuess: (time, y) => {
+    const { t, values } = positivePairs(time, y);
+    if (t.length < 2) {
+      return [fallbackRate(time), y[0] ?? 1];
+    }
+    const { slope, intercept } = linearRegression(
+      t,
+      values.map((value) => 1 / value)
+    );
+    const c0 = intercept > 0 ? 1 / intercept : values[0];
+    return [slope === 0 ? fallbackRate(time) / c0 : slope, c0];
+  }
+};
+
+export const RATE_LAWS: Record<RateLawId, RateLaw> = {
+  "zero-order": zeroOrder,
+  "first-order": firstOrder,
+  "second-order": secondOrder
+};
+
+export const RATE_LAW_IDS = Object.keys(RATE_LAWS) as RateLawId[];
+
+/**
+ * Units of the fitted parameters. Fits run in seconds, so k is always per second;
+ * `concentrationLabel` is "M" or the arbitrary-unit label for raw signals.
+ */
+export const getRateLawParameterUnits = (
+  modelId: RateLawId,
+  concentrationLabel: string
+): Record<string, string> => ({
+  k: getRateConstantUnit(RATE_LAWS[modelId].order, concentrationLabel),
+  c0: concentrationLabel
+});
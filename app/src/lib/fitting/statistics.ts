@@ -0,0 +1,216 @@
+import { invertMatrix, multiply, transpose } from "./linearAlgebra";
+
+const logGamma = (value: number): number => {
+  // Lanczos approximation (g = 7, n = 9).
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7
+  ];
+  if (value < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * value)) - logGamma(1 - value);
+  }
+  const x = value - 1;
+  let sum = coefficients[0];
+  for (let index = 1; index < coefficients.length; index += 1) {
+    sum += coefficients[index] / (x + index);
+  }
+  const t = x + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+  for (let m = 1; m <= maxIterations; m += 1) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < epsilon) {
+      break;
+    }
+  }
+  return result;
+};
+
+/** Regularized incomplete beta function I_x(a, b). */
+export const regularizedIncompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(a, b, x)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+};
+
+export const studentTCdf = (t: number, degreesOfFreedom: number): number => {
+  const x = degreesOfFreedom / (degreesOfFreedom + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, degreesOfFreedom / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+};
+
+/** Two-sided critical value t such that P(|T| ≤ t) = confidence. */
+export const studentTCritical = (confidence: number, degreesOfFreedom: number): number => {
+  if (degreesOfFreedom <= 0) {
+    return Number.NaN;
+  }
+  const target = 1 - (1 - confidence) / 2;
+  let low = 0;
+  let high = 1000;
+  for (let iteration = 0; iteration < 200; iteration += 1) {
+    const mid = (low + high) / 2;
+    if (studentTCdf(mid, degreesOfFreedom) < target) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+export type LinearRegressionResult = {
+  slope: number;
+  intercept: number;
+  slopeStandardError: number | null;
+  interceptStandardError: number | null;
+  slopeInterceptCovariance: number | null;
+  rSquared: number;
+  degreesOfFreedom: number;
+  residuals: number[];
+};
+
+/** Ordinary least-squares straight line with standard errors. */
+export const linearRegressionWithStats = (x: number[], y: number[]): LinearRegressionResult => {
+  const n = x.length;
+  if (n < 2) {
+    throw new Error("At least two points are required for a linear regression.");
+  }
+  const meanX = x.reduce((sum, value) => sum + value, 0) / n;
+  const meanY = y.reduce((sum, value) => sum + value, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  x.forEach((value, index) => {
+    sxx += (value - meanX) ** 2;
+    sxy += (value - meanX) * (y[index] - meanY);
+    syy += (y[index] - meanY) ** 2;
+  });
+  if (sxx === 0) {
+    throw new Error("Linear regression needs at least two distinct x values.");
+  }
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const residuals = x.map((value, index) => y[index] - (intercept + slope * value));
+  const sse = residuals.reduce((sum, value) => sum + value * value, 0);
+  const degreesOfFreedom = n - 2;
+  const variance = degreesOfFreedom > 0 ? sse / degreesOfFreedom : null;
+
+  return {
+    slope,
+    intercept,
+    slopeStandardError: variance === null ? null : Math.sqrt(variance / sxx),
+    interceptStandardError:
+      variance === null ? null : Math.sqrt(variance * (1 / n + (meanX * meanX) / sxx)),
+    slopeInterceptCovariance: variance === null ? null : (-meanX * variance) / sxx,
+    rSquared: syy === 0 ? 1 : 1 - sse / syy,
+    degreesOfFreedom,
+    residuals
+  };
+};
+
+/** Standard normal CDF (Abramowitz–Stegun 7.1.26 for erf). */
+export const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const polynomial =
+    t *
+    (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - polynomial * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+};
+
+export type MultipleRegressionResult = {
+  /** Intercept first, then one coefficient per predictor column. */
+  coefficients: number[];
+  standardErrors: (number | null)[];
+  rSquared: number;
+  degreesOfFreedom: number;
+  residuals: number[];
+};
+
+/** Ordinary least squares y = b0 + Σ bi·xi via the normal equations. */
+export const multipleLinearRegression = (
+  predictors: number[][],
+  y: number[]
+): MultipleRegressionResult => {
+  const design = predictors.map((row) => [1, ...row]);
+  const parameterCount = design[0]?.length ?? 1;
+  if (design.length < parameterCount) {
+    throw new Error(`At least ${parameterCount} observations are required.`);
+  }
+  const xt = transpose(design);
+  const inverse = invertMatrix(multiply(xt, design));
+  if (!inverse) {
+    throw new Error("Predictors are collinear; vary them independently.");
+  }
+  const xty = xt.map((row) => row.reduce((sum, value, index) => sum + value * y[index], 0));
+  const coefficients = inverse.map((row) =>
+    row.reduce((sum, value, index) => sum + value * xty[index], 0)
+  );
+  const residuals = design.map(
+    (row, rowIndex) =>
+      y[rowIndex] - row.reduce((sum, value, index) => sum + value * coefficients[index], 0)
+  );
+  const sse = residuals.reduce((sum, value) => sum + value * value, 0);
+  const meanY = y.reduce((sum, value) => sum + value, 0) / y.length;
+  const sst = y.reduce((sum, value) => sum + (value - meanY) ** 2, 0);
+  const degreesOfFreedom = design.length - parameterCount;
+  const variance = degreesOfFreedom > 0 ? sse / degreesOfFreedom : null;
+
+  return {
+    coefficients,
+    standardErrors: inverse.map((row, index) =>
+      variance === null ? null : Math.sqrt(Math.max(row[index] * variance, 0))
+    ),
+    rSquared: sst === 0 ? 1 : 1 - sse / sst,
+    degreesOfFreedom,
+    residuals
+  };
+};
+
+/** Inverse of normalCdf by bisection. */
+export const normalQuantile = (probability: number): number => {
+  let low = -40;
+  let high = 40;
+  for (let iteration = 0; iteration < 200; iteration += 1) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < probability) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+};
@@ -0,0 +1,33 @@
+import type { Series } from "../import/types";
+export type { Series };
+
+export type RateLawId = "zero-order" | "first-order" | "second-order";
+
+export type RateLaw = {
+  id: RateLawId;
+  label: string;
+  /** Reaction order n in dc/dt = −k·cⁿ. */
+  order: number;
+  parameterNames: string[];
+  evaluate: (time: number, params: number[]) => number;
+  gradient: (time: number, params: number[]) => number[];
+  initialGuess: (time: number[], y: number[]) => number[];
+};
+
+export type FitResult = {
+  modelId: string;
+  seriesId: string;
+  parameters: Record<string, number>;
+  standardErrors: Record<string, number | null>;
+  covariance: number[][] | null;
+  time: number[];
+  observed: number[];
+  fitted: number[];
+  residuals: number[];
+  sse: number;
+  rSquared: number;
+  pointCount: number;
+  parameterCount: number;
+  iterations: number;
+  converged: boolean;
+};
@@ -0,0 +1,326 @@
+import type { FitUncertainty, ParameterInterval } from "../../types/fitting";
+import type { FitPoints } from "./fitSeries";
+import { createGlobalModel, type GlobalModelMember, type ParameterSharing } from "./globalFit";
+import { levenbergMarquardt } from "./levenbergMarquardt";
+import { createMechanismModel, type MechanismModelInput } from "./mechanism";
+import { RATE_LAWS } from "./rateLaws";
+import { normalQuantile } from "./statistics";
+import type { FitResult, RateLawId } from "./types";
+
+export type { FitUncertainty };
+
+export type UncertaintyOptions = {
+  confidence?: number;
+  bootstrapIterations?: number;
+  seed?: number;
+};
+
+/** Reported parameters and their asymptotic covariance, in parameter-name order. */
+export type FittedParameters = Pick<FitResult, "parameters" | "covariance">;
+
+/**
+ * Everything the worker needs to rebuild a fit's model; only plain data, since
+ * requests are posted to the worker.
+ */
+export type UncertaintyRequest = UncertaintyOptions &
+  (
+    | { kind: "rate-law"; modelId: RateLawId; points: FitPoints; fit: FittedParameters }
+    | {
+        kind: "global";
+        modelId: RateLawId;
+        members: GlobalModelMember[];
+        sharing: ParameterSharing;
+        fit: FittedParameters;
+      }
+    | ({ kind: "mechanism"; fit: FittedParameters } & MechanismModelInput)
+  );
+
+type ParametricModel = {
+  parameterNames: string[];
+  predict: (params: number[]) => number[];
+  /** Maps a fitted value to the reported one; monotone increasing, e.g. exp for log k. */
+  report?: (index: number, value: number) => number;
+};
+
+const DEFAULT_CONFIDENCE = 0.95;
+const DEFAULT_BOOTSTRAP_ITERATIONS = 200;
+const DEFAULT_SEED = 20240601;
+const PROFILE_MAX_STEPS = 40;
+
+/** Small seeded PRNG (mulberry32) so bootstrap results are reproducible. */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const toCorrelationMatrix = (covariance: number[][] | null): number[][] | null => {
+  if (!covariance) {
+    return null;
+  }
+  const scale = covariance.map((row, index) => Math.sqrt(row[index]));
+  if (!scale.every((value) => Number.isFinite(value) && value > 0)) {
+    return null;
+  }
+  return covariance.map((row, rowIndex) =>
+    row.map((value, columnIndex) => value / (scale[rowIndex] * scale[columnIndex]))
+  );
+};
+
+const sampleCovariance = (samples: number[][]): number[][] | null => {
+  if (samples.length < 2) {
+    return null;
+  }
+  const size = samples[0].length;
+  const means = Array.from(
+    { length: size },
+    (_, index) => samples.reduce((sum, sample) => sum + sample[index], 0) / samples.length
+  );
+  return Array.from({ length: size }, (_, row) =>
+    Array.from(
+      { length: size },
+      (_, column) =>
+        samples.reduce(
+          (sum, sample) => sum + (sample[row] - means[row]) * (sample[column] - means[column]),
+          0
+        ) /
+        (samples.length - 1)
+    )
+  );
+};
+
+const percentile = (sorted: number[], fraction: number): number => {
+  const position = fraction * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const fitModel = (model: ParametricModel, observed: number[], initial: number[]) =>
+  levenbergMarquardt({
+    initial,
+    residuals: (params) => model.predict(params).map((value, index) => observed[index] - value),
+    maxIterations: 100
+  });
+
+/**
+ * Residual bootstrap: adds resampled residuals to the fitted curve, refits and
+ * reports percentile intervals plus the correlation of the bootstrap estimates.
+ */
+export const residualBootstrap = (
+  model: ParametricModel,
+  observed: number[],
+  estimate: number[],
+  {
+    confidence = DEFAULT_CONFIDENCE,
+    bootstrapIterations = DEFAULT_BOOTSTRAP_ITERATIONS,
+    seed = DEFAULT_SEED
+  }: UncertaintyOptions = {}
+): FitUncertainty["bootstrap"] => {
+  const random = createRandom(seed);
+  const fitted = model.predict(estimate);
+  const residuals = observed.map((value, index) => value - fitted[index]);
+  const samples: number[][] = [];
+
+  for (let iteration = 0; iteration < bootstrapIterations; iteration += 1) {
+    const synthetic = fitted.map(
+      (value) => value + residuals[Math.floor(random() * residuals.length)]
+    );
+    try {
+      const solution = fitModel(model, synthetic, estimate);
+      if (solution.params.every(Number.isFinite)) {
+        samples.push(solution.params.map((value, index) => model.report?.(index, value) ?? value));
+      }
+    } catch {
+      // Diverging resamples are dropped; `successful` reports how many remain.
+    }
+  }
+
+  const alpha = (1 - confidence) / 2;
+  const standardErrors: Record<string, number | null> = {};
+  const intervals: Record<string, ParameterInterval> = {};
+  const covariance = sampleCovariance(samples);
+  model.parameterNames.forEach((name, index) => {
+    const values = samples.map((sample) => sample[index]).sort((left, right) => left - right);
+    standardErrors[name] = covariance ? Math.sqrt(covariance[index][index]) : null;
+    intervals[name] =
+      values.length >= 2
+        ? { lower: percentile(values, alpha), upper: percentile(values, 1 - alpha) }
+        : { lower: null, upper: null };
+  });
+
+  return {
+    iterations: bootstrapIterations,
+    successful: samples.length,
+    seed,
+    standardErrors,
+    intervals,
+    correlation: toCorrelationMatrix(covariance)
+  };
+};
+
+/**
+ * Profile-likelihood interval for each parameter: the parameter is fixed on a
+ * grid while the others are refitted, and the bounds are where
+ * n·ln(SSE/SSEmin) crosses the χ²₁ quantile.
+ */
+export const profileLikelihood = (
+  model: ParametricModel,
+  observed: number[],
+  estimate: number[],
+  standardErrors: (number | null)[],
+  confidence = DEFAULT_CONFIDENCE
+): FitUncertainty["profile"] => {
+  const n = observed.length;
+  const sseOf = (params: number[]) =>
+    model.predict(params).reduce((sum, value, index) => sum + (observed[index] - value) ** 2, 0);
+  const sseMin = Math.max(sseOf(estimate), Number.MIN_VALUE);
+  const threshold = normalQuantile(1 - (1 - confidence) / 2) ** 2;
+
+  const profiledExcess = (parameterIndex: number, value: number, start: number[]): number => {
+    const free = estimate.map((_, index) => index).filter((index) => index !== parameterIndex);
+    const assemble = (freeValues: number[]) => {
+      const params = [...estimate];
+      params[parameterIndex] = value;
+      free.forEach((index, position) => {
+        params[index] = freeValues[position];
+      });
+      return params;
+    };
+    let sse: number;
+    if (free.length === 0) {
+      sse = sseOf(assemble([]));
+    } else {
+      try {
+        const solution = levenbergMarquardt({
+          initial: free.map((index) => start[index]),
+          residuals: (freeValues) =>
+            model.predict(assemble(freeValues)).map((fitted, index) => observed[index] - fitted),
+          maxIterations: 100
+        });
+        sse = solution.sse;
+      } catch {
+        return Number.POSITIVE_INFINITY;
+      }
+    }
+    return n * Math.log(Math.max(sse, Number.MIN_VALUE) / sseMin) - threshold;
+  };
+
+  const findBound = (parameterIndex: number, direction: 1 | -1): number | null => {
+    const center = estimate[parameterIndex];
+    const step =
+      standardErrors[parameterIndex] ?? Math.max(Math.abs(center) * 0.05, Number.EPSILON);
+    let inside = center;
+    for (let iteration = 1; iteration <= PROFILE_MAX_STEPS; iteration += 1) {
+      const candidate = center + direction * step * iteration * 0.5;
+      if (profiledExcess(parameterIndex, candidate, estimate) > 0) {
+        let low = inside;
+        let high = candidate;
+        for (let bisection = 0; bisection < 40; bisection += 1) {
+          const mid = (low + high) / 2;
+          if (profiledExcess(parameterIndex, mid, estimate) > 0) {
+            high = mid;
+          } else {
+            low = mid;
+          }
+        }
+        return (low + high) / 2;
+      }
+      inside = candidate;
+    }
+    return null;
+  };
+
+  const report = (index: number, bound: number | null) =>
+    bound === null ? null : (model.report?.(index, bound) ?? bound);
+  const intervals: Record<string, ParameterInterval> = {};
+  model.parameterNames.forEach((name, index) => {
+    intervals[name] = {
+      lower: report(index, findBound(index, -1)),
+      upper: report(index, findBound(index, 1))
+    };
+  });
+  return { intervals };
+};
+
+const standardErrorsOf = (covariance: number[][] | null, count: number): (number | null)[] =>
+  Array.from({ length: count }, (_, index) => {
+    const variance = covariance?.[index]?.[index];
+    return variance !== undefined && variance > 0 ? Math.sqrt(variance) : null;
+  });
+
+/**
+ * The model, observations, estimate and asymptotic standard errors of a request, all
+ * in the space the fit was optimised in.
+ */
+const buildModel = (
+  request: UncertaintyRequest
+): {
+  model: ParametricModel;
+  observed: number[];
+  estimate: number[];
+  standardErrors: (number | null)[];
+} => {
+  const { fit } = request;
+  if (request.kind === "rate-law") {
+    const law = RATE_LAWS[request.modelId];
+    return {
+      model: {
+        parameterNames: law.parameterNames,
+        predict: (params) => request.points.time.map((t) => law.evaluate(t, params))
+      },
+      observed: request.points.y,
+      estimate: law.parameterNames.map((name) => fit.parameters[name]),
+      standardErrors: standardErrorsOf(fit.covariance, law.parameterNames.length)
+    };
+  }
+  if (request.kind === "global") {
+    const model = createGlobalModel(request);
+    return {
+      model: { parameterNames: model.parameterNames, predict: model.predict },
+      observed: request.members.flatMap((member) => member.points.y),
+      estimate: model.parameterNames.map((name) => fit.parameters[name]),
+      standardErrors: standardErrorsOf(fit.covariance, model.parameterNames.length)
+    };
+  }
+  // Rate constants were fitted as log k, whose standard error is SE(k)/k; intervals
+  // are reported for k.
+  const model = createMechanismModel(request);
+  return {
+    model: {
+      parameterNames: model.parameterNames,
+      predict: model.predict,
+      report: (index, value) => (index < model.rateCount ? Math.exp(value) : value)
+    },
+    observed: model.observedValues,
+    estimate: model.toVector(fit.parameters),
+    standardErrors: standardErrorsOf(fit.covariance, model.parameterNames.length).map(
+      (error, index) =>
+        error !== null && index < model.rateCount
+          ? error / fit.parameters[model.parameterNames[index]]
+          : error
+    )
+  };
+};
+
+export const analyseFitUncertainty = (request: UncertaintyRequest): FitUncertainty => {
+  const { fit, confidence = DEFAULT_CONFIDENCE, bootstrapIterations, seed } = request;
+  const { model, observed, estimate, standardErrors } = buildModel(request);
+
+  return {
+    confidence,
+    parameterNames: model.parameterNames,
+    bootstrap: residualBootstrap(model, observed, estimate, {
+      confidence,
+      bootstrapIterations,
+      seed
+    }),
+    profile: profileLikelihood(model, observed, estimate, standardErrors, confidence),
+    correlation: toCorrelationMatrix(fit.covariance)
+  };
+};
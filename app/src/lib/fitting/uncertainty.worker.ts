@@ -0,0 +1,20 @@
+import { analyseFitUncertainty, type UncertaintyRequest } from "./uncertainty";
+
+type WorkerScope = {
+  onmessage: ((event: MessageEvent<UncertaintyRequest>) => void) | null;
+  postMessage: (message: unknown) => void;
+};
+
+const scope = self as unknown as WorkerScope;
+
+// One worker per analysis, so the client can stop a job by terminating its worker.
+scope.onmessage = (event) => {
+  try {
+    scope.postMessage({ ok: true, result: analyseFitUncertainty(event.data) });
+  } catch (error) {
+    scope.postMessage({
+      ok: false,
+      error: error instanceof Error ? error.message : "Uncertainty analysis failed."
+    });
+  }
+};
@@ -0,0 +1,54 @@
+import { analyseFitUncertainty, type FitUncertainty, type UncertaintyRequest } from "./uncertainty";
+
+type WorkerResponse = { ok: true; result: FitUncertainty } | { ok: false; error: string };
+
+export type UncertaintyJob = {
+  result: Promise<FitUncertainty>;
+  /** Stops the worker and rejects `result`; does nothing once the job has finished. */
+  terminate: () => void;
+};
+
+/**
+ * Runs bootstrap and profile-likelihood analysis in its own Web Worker so the UI stays
+ * responsive and an abandoned job can be stopped. Falls back to the main thread where
+ * workers are unavailable (tests).
+ */
+export const startUncertaintyAnalysis = (request: UncertaintyRequest): UncertaintyJob => {
+  if (typeof Worker === "undefined") {
+    return {
+      result: Promise.resolve().then(() => analyseFitUncertainty(request)),
+      terminate: () => undefined
+    };
+  }
+  const worker = new Worker(new URL("./uncertainty.worker.ts", import.meta.url), {
+    type: "module"
+  });
+  let fail: ((error: Error) => void) | null = null;
+  const result = new Promise<FitUncertainty>((resolve, reject) => {
+    const finish = () => {
+      fail = null;
+      worker.terminate();
+    };
+    fail = (error) => {
+      finish();
+      reject(error);
+    };
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      finish();
+      if (event.data.ok) {
+        resolve(event.data.result);
+      } else {
+        reject(new Error(event.data.error));
+      }
+    };
+    worker.onerror = () => fail?.(new Error("Uncertainty worker crashed."));
+    worker.postMessage(request);
+  });
+  return {
+    result,
+    terminate: () => fail?.(new Error("Uncertainty analysis was cancelled."))
+  };
+};
+
+export const runUncertaintyAnalysis = (request: UncertaintyRequest): Promise<FitUncertainty> =>
+  startUncertaintyAnalysis(request).result;
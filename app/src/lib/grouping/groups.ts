@@ -0,0 +1,48 @@
+import type { Experiment } from "../../types/experiment";
+import type { ExperimentGroup } from "../../types/grouping";
+
+export const GROUP_COLORS = ["#2563eb", "#16a34a", "#d97706", "#dc2626", "#7c3aed", "#0891b2"];
+
+const createId = (prefix: string): string => `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createGroup = (
+  name: string,
+  experimentIds: string[] = [],
+  index = 0
+): ExperimentGroup => ({
+  id: createId("group"),
+  name,
+  color: GROUP_COLORS[index % GROUP_COLORS.length],
+  experimentIds
+});
+
+const toGroupLabel = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) {
+    return "(empty)";
+  }
+  const label = String(value).trim();
+  return label || "(empty)";
+};
+
+/**
+ * Suggests one group per distinct metaRaw value, e.g. one group per temperature.
+ */
+export const groupExperimentsByMeta = (
+  experiments: Experiment[],
+  key: string
+): ExperimentGroup[] => {
+  const buckets = new Map<string, string[]>();
+  experiments.forEach((experiment) => {
+    const label = toGroupLabel(experiment.metaRaw[key]);
+    buckets.set(label, [...(buckets.get(label) ?? []), experiment.experimentId]);
+  });
+  return Array.from(buckets.entries()).map(([label, experimentIds], index) =>
+    createGroup(`${key}: ${label}`, experimentIds, index)
+  );
+};
+
+export const getGroupExperiments = (
+  group: ExperimentGroup,
+  experiments: Experiment[]
+): Experiment[] =>
+  experiments.filter((experiment) => group.experimentIds.includes(experiment.experimentId));
@@ -0,0 +1,144 @@
+import {
+  applyMappingToDataset,
+  type MappingError,
+  type MappingSelection,
+  type MappingStats
+} from "./mapping";
+import type { Dataset, Experiment, RawTable } from "./types";
+
+/** One table of a batch import: a whole file, or one sheet or block of it. */
+export type BatchSource = {
+  id: string;
+  fileName: string;
+  /** Sheet or block name inside the file, null for single-table files. */
+  sheetName: string | null;
+  table: RawTable;
+  included: boolean;
+  /** Mapping for this source only; null uses the shared selection. */
+  selection: MappingSelection | null;
+};
+
+export type BatchSourceResult = {
+  sourceId: string;
+  label: string;
+  errors: MappingError[];
+  stats: MappingStats;
+};
+
+export type BatchMappingResult = {
+  dataset: Dataset | null;
+  errors: MappingError[];
+  stats: MappingStats;
+  sources: BatchSourceResult[];
+};
+
+const createId = (prefix: string): string => `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const getBatchSourceLabel = (source: Pick<BatchSource, "fileName" | "sheetName">) =>
+  source.sheetName ? `${source.fileName} · ${source.sheetName}` : source.fileName;
+
+/**
+ * Names each source's table after its file and sheet, so the tables of several files
+ * can be told apart in the sheet selector.
+ */
+export const labelBatchSources = (sources: BatchSource[]): BatchSource[] =>
+  sources.map((source) => ({
+    ...source,
+    table: { ...source.table, sheetName: getBatchSourceLabel(source) }
+  }));
+
+/**
+ * One source per table of every parsed file. Sources of a multi-file upload are all
+ * included; of a single workbook only the table that is shown first.
+ */
+export const createBatchSources = (
+  files: { fileName: string; tables: RawTable[]; activeTable: RawTable }[]
+): BatchSource[] =>
+  files.flatMap(({ fileName, tables, activeTable }) =>
+    tables.map((table) => ({
+      id: createId("source"),
+      fileName,
+      sheetName: tables.length > 1 ? (table.sheetName ?? null) : null,
+      table,
+      included: files.length > 1 || table === activeTable,
+      selection: null
+    }))
+  );
+
+/**
+ * Maps every included source with the shared selection (or its own override) and
+ * merges the experiments into one dataset. Experiments remember their source file
+ * and sheet in metaRaw, their series in meta; names that occur in several sources get
+ * the source appended.
+ * Any mapping error leaves the dataset null, as for a single table.
+ */
+export const applyBatchMapping = ({
+  sources,
+  selection,
+  datasetName,
+  datasetId,
+  createdAt
+}: {
+  sources: BatchSource[];
+  selection: MappingSelection;
+  datasetName: string;
+  datasetId?: string;
+  createdAt?: string;
+}): BatchMappingResult => {
+  const experiments: Experiment[] = [];
+  const errors: MappingError[] = [];
+  const usedNames = new Set<string>();
+
+  const results = sources
+    .filter((source) => source.included)
+    .map((source): BatchSourceResult => {
+      const label = getBatchSourceLabel(source);
+      const mapping = applyMappingToDataset({
+        table: source.table,
+        selection: source.selection ?? selection,
+        fileName: label
+      });
+      errors.push(...mapping.errors.map((error) => ({ ...error, source: label })));
+      mapping.dataset?.experiments.forEach((experiment) => {
+        const baseName = experiment.name ?? label;
+        const name = usedNames.has(baseName) ? `${baseName} (${label})` : baseName;
+        usedNames.add(name);
+        experiments.push({
+          ...experiment,
+          name,
+          series: experiment.series.map((series) => ({
+            ...series,
+            meta: { ...series.meta, sourceFile: source.fileName, sourceSheet: source.sheetName }
+          })),
+          metaRaw: {
+            ...experiment.metaRaw,
+            sourceFile: source.fileName,
+            sourceSheet: source.sheetName
+          }
+        });
+      });
+      return { sourceId: source.id, label, errors: mapping.errors, stats: mapping.stats };
+    });
+
+  const stats: MappingStats = {
+    experimentCount: experiments.length,
+    seriesCount: experiments.reduce((sum, experiment) => sum + experiment.series.length, 0),
+    pointCount: results.reduce((sum, result) => sum + result.stats.pointCount, 0)
+  };
+
+  return {
+    dataset:
+      errors.length > 0 || results.length === 0
+        ? null
+        : {
+            id: datasetId ?? createId("dataset"),
+            name: datasetName,
+            createdAt: createdAt ?? new Date().toISOString(),
+            experiments,
+            audit: []
+          },
+    errors,
+    stats: errors.length > 0 ? { experimentCount: 0, seriesCount: 0, pointCount: 0 } : stats,
+    sources: results
+  };
+};
@@ -0,0 +1,237 @@
+export type CsvEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+export type CsvDialect = {
+  delimiter: string;
+  quote: '"' | "'";
+  decimalSeparator: "." | ",";
+  thousandsSeparator: "," | "." | " " | null;
+  encoding: CsvEncoding;
+};
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+export const DEFAULT_CSV_DIALECT: CsvDialect = {
+  delimiter: ",",
+  quote: '"',
+  decimalSeparator: ".",
+  thousandsSeparator: null,
+  encoding: "utf-8"
+};
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "Komma",
+  ";": "Semikolon",
+  "\t": "Tabulator",
+  "|": "Pipe"
+};
+
+const ENCODING_LABELS: Record<CsvEncoding, string> = {
+  "utf-8": "UTF-8",
+  "utf-16le": "UTF-16 LE",
+  "utf-16be": "UTF-16 BE",
+  "windows-1252": "Windows-1252"
+};
+
+export const formatCsvDialect = (dialect: CsvDialect): string =>
+  [
+    `Trennzeichen ${DELIMITER_LABELS[dialect.delimiter] ?? dialect.delimiter}`,
+    dialect.decimalSeparator === "," ? "Dezimalkomma" : "Dezimalpunkt",
+    ENCODING_LABELS[dialect.encoding]
+  ].join(" · ");
+
+// Records beyond this are not needed to recognise the dialect.
+const SNIFF_RECORD_LIMIT = 50;
+
+const ENCODING_SAMPLE_BYTES = 4096;
+
+/**
+ * Recognises the encoding from a BOM, from the zero bytes of BOM-less UTF-16 and from
+ * whether the bytes are valid UTF-8. Anything else is read as Windows-1252, which is
+ * what most instrument software on Windows writes.
+ */
+export const detectCsvEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return "utf-16le";
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return "utf-16be";
+  }
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8";
+  }
+  const sample = bytes.subarray(0, ENCODING_SAMPLE_BYTES);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((byte, index) => {
+    if (byte === 0) {
+      if (index % 2 === 0) {
+        evenZeros += 1;
+      } else {
+        oddZeros += 1;
+      }
+    }
+  });
+  if (oddZeros > sample.length / 4 && evenZeros < oddZeros / 4) {
+    return "utf-16le";
+  }
+  if (evenZeros > sample.length / 4 && oddZeros < evenZeros / 4) {
+    return "utf-16be";
+  }
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+};
+
+/**
+ * Splits the sample into records with a minimal quote-aware scanner; the real
+ * parser lives in parseCsv.ts and also handles chunk boundaries.
+ */
+const sampleRecords = (sample: string, delimiter: string, quote: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let index = 0; index < sample.length && records.length < SNIFF_RECORD_LIMIT; index += 1) {
+    const char = sample[index];
+    if (inQuotes) {
+      if (char === quote && sample[index + 1] === quote) {
+        field += quote;
+        index += 1;
+      } else if (char === quote) {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === quote) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      record.push(field);
+      if (record.some((cell) => cell.trim())) {
+        records.push(record);
+      }
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  return records;
+};
+
+const scoreDelimiter = (records: string[][]): { consistency: number; width: number } => {
+  const counts = new Map<number, number>();
+  records.forEach((record) => counts.set(record.length, (counts.get(record.length) ?? 0) + 1));
+  let width = 0;
+  let frequency = 0;
+  counts.forEach((count, length) => {
+    if (count > frequency || (count === frequency && length > width)) {
+      width = length;
+      frequency = count;
+    }
+  });
+  return { consistency: width > 1 ? frequency / records.length : 0, width };
+};
+
+const detectQuote = (sample: string, delimiter: string): '"' | "'" => {
+  const escaped = delimiter.replace(/[|\\]/g, "\\$&");
+  const countQuoted = (quote: string) =>
+    (
+      sample.match(
+        new RegExp(`(^|${escaped})${quote}[^${quote}\\n]*${quote}(?=${escaped}|$)`, "gm")
+      ) ?? []
+    ).length;
+  return countQuoted("'") > countQuoted('"') ? "'" : '"';
+};
+
+const COMMA_DECIMAL = /^[-+]?(\d{1,3}(\.\d{3})+|\d+),\d+$/;
+const DOT_DECIMAL = /^[-+]?(\d{1,3}(,\d{3})+|\d*)\.\d+([eE][-+]?\d+)?$/;
+const DOT_THOUSANDS = /^[-+]?\d{1,3}(\.\d{3})+(,\d+)?$/;
+const COMMA_THOUSANDS = /^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+const SPACE_THOUSANDS = /^[-+]?\d{1,3}( \d{3})+([.,]\d+)?$/;
+
+/**
+ * Guesses delimiter, quote character and number format from the start of a file.
+ * The delimiter is the candidate that splits most records into the same number of
+ * fields (more than one); the decimal separator follows the majority of numbers.
+ */
+export const sniffCsvDialect = (sample: string, encoding: CsvEncoding = "utf-8"): CsvDialect => {
+  let best = { delimiter: DEFAULT_CSV_DIALECT.delimiter, consistency: 0, width: 0 };
+  CSV_DELIMITERS.forEach((delimiter) => {
+    const score = scoreDelimiter(sampleRecords(sample, delimiter, '"'));
+    if (
+      score.consistency > best.consistency ||
+      (score.consistency === best.consistency && score.width > best.width)
+    ) {
+      best = { delimiter, ...score };
+    }
+  });
+  const { delimiter } = best;
+  const quote = detectQuote(sample, delimiter);
+  const values = sampleRecords(sample, delimiter, quote)
+    .slice(1)
+    .flat()
+    .map((value) => value.trim());
+
+  const commaDecimals = values.filter((value) => COMMA_DECIMAL.test(value)).length;
+  const dotDecimals = values.filter((value) => DOT_DECIMAL.test(value)).length;
+  const decimalSeparator = commaDecimals > dotDecimals ? "," : ".";
+
+  let thousandsSeparator: CsvDialect["thousandsSeparator"] = null;
+  if (decimalSeparator === "," && values.some((value) => DOT_THOUSANDS.test(value))) {
+    thousandsSeparator = ".";
+  } else if (
+    decimalSeparator === "." &&
+    delimiter !== "," &&
+    values.some((value) => COMMA_THOUSANDS.test(value))
+  ) {
+    thousandsSeparator = ",";
+  } else if (values.some((value) => SPACE_THOUSANDS.test(value))) {
+    thousandsSeparator = " ";
+  }
+
+  return { delimiter, quote, decimalSeparator, thousandsSeparator, encoding };
+};
+
+const numericPattern = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/**
+ * Converts a cell to a number when it is one in the given dialect, e.g. "1.234,5"
+ * with decimal comma and thousands dot. Everything else stays text.
+ */
+export const coerceCsvCell = (value: string, dialect: CsvDialect): string | number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  let normalized = trimmed;
+  if (dialect.thousandsSeparator) {
+    const grouped =
+      dialect.thousandsSeparator === "."
+        ? DOT_THOUSANDS
+        : dialect.thousandsSeparator === ","
+          ? COMMA_THOUSANDS
+          : SPACE_THOUSANDS;
+    if (grouped.test(normalized)) {
+      normalized = normalized.split(dialect.thousandsSeparator).join("");
+    }
+  }
+  if (dialect.decimalSeparator === ",") {
+    if (normalized.includes(".")) {
+      return trimmed;
+    }
+    normalized = normalized.replace(",", ".");
+  }
+  if (numericPattern.test(normalized)) {
+    const parsed = Number(normalized);
+    if (!Number.isNaN(parsed)) {
+      return parsed;
+    }
+  }
+  return trimmed;
+};
@@ -0,0 +1,25 @@
+import { parseCsvStream } from "./parseCsv";
+
+type WorkerScope = {
+  onmessage: ((event: MessageEvent<{ jobId: string; file: File }>) => void) | null;
+  postMessage: (message: unknown) => void;
+};
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = async (event) => {
+  const { jobId, file } = event.data;
+  try {
+    const result = await parseCsvStream(file.stream(), {
+      totalBytes: file.size,
+      onProgress: (progress) => scope.postMessage({ jobId, type: "progress", progress })
+    });
+    scope.postMessage({ jobId, type: "done", result });
+  } catch (error) {
+    scope.postMessage({
+      jobId,
+      type: "error",
+      error: error instanceof Error ? error.message : "CSV parsing failed."
+    });
+  }
+};
@@ -0,0 +1,83 @@
+import {
+  parseCsvBytes,
+  parseCsvStream,
+  type CsvParseProgress,
+  type CsvParseResult
+} from "./parseCsv";
+
+type WorkerResponse =
+  | { jobId: string; type: "progress"; progress: CsvParseProgress }
+  | { jobId: string; type: "done"; result: CsvParseResult }
+  | { jobId: string; type: "error"; error: string };
+
+type PendingJob = {
+  resolve: (result: CsvParseResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: CsvParseProgress) => void;
+};
+
+let worker: Worker | null = null;
+const pending = new Map<string, PendingJob>();
+
+const getWorker = (): Worker | null => {
+  if (typeof Worker === "undefined") {
+    return null;
+  }
+  if (!worker) {
+    worker = new Worker(new URL("./csvParse.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const job = pending.get(event.data.jobId);
+      if (!job) {
+        return;
+      }
+      if (event.data.type === "progress") {
+        job.onProgress?.(event.data.progress);
+        return;
+      }
+      pending.delete(event.data.jobId);
+      if (event.data.type === "done") {
+        job.resolve(event.data.result);
+      } else {
+        job.reject(new Error(event.data.error));
+      }
+    };
+    worker.onerror = () => {
+      pending.forEach((job) => job.reject(new Error("CSV worker crashed.")));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const parseOnMainThread = async (
+  file: File,
+  onProgress?: (progress: CsvParseProgress) => void
+): Promise<CsvParseResult> => {
+  if (typeof file.stream === "function") {
+    return parseCsvStream(file.stream(), { totalBytes: file.size, onProgress });
+  }
+  const result = parseCsvBytes(new Uint8Array(await file.arrayBuffer()));
+  onProgress?.({ loadedBytes: file.size, totalBytes: file.size });
+  return result;
+};
+
+/**
+ * Streams a CSV file through a Web Worker so large files do not block the tab.
+ * Falls back to the main thread where workers are unavailable (tests).
+ */
+export const parseCsvFile = (
+  file: File,
+  onProgress?: (progress: CsvParseProgress) => void
+): Promise<CsvParseResult> => {
+  const target = getWorker();
+  if (!target) {
+    return parseOnMainThread(file, onProgress);
+  }
+  const jobId = `job-${Math.random().toString(36).slice(2, 10)}`;
+  return new Promise((resolve, reject) => {
+    pending.set(jobId, { resolve, reject, onProgress });
+    target.postMessage({ jobId, file });
+  });
+};
@@ -0,0 +1,241 @@
+import { excludeSeriesPoints, getDroppedRows, getSourceRows, type DroppedRow } from "./provenance";
+import type { Series } from "./types";
+
+export type FixActionId =
+  | "sort-by-time"
+  | "average-duplicates"
+  | "drop-negative"
+  | "clip-to-baseline"
+  | "shift-time-to-zero";
+
+export const FIX_ACTION_LABELS: Record<FixActionId, string> = {
+  "sort-by-time": "Nach Zeit sortieren",
+  "average-duplicates": "Doppelte Zeitpunkte mitteln",
+  "drop-negative": "Negative Werte ausschließen",
+  "clip-to-baseline": "Negative Werte auf 0 setzen",
+  "shift-time-to-zero": "Zeitachse auf 0 verschieben"
+};
+
+export type FixRecord = {
+  id: FixActionId;
+  appliedAt: string;
+};
+
+/**
+ * Points of a series before its first fix, kept in meta so fixes can be undone. Only the
+ * point provenance is kept; roles, preprocessing and other meta set later survive a revert.
+ */
+type SeriesSnapshot = {
+  time: number[];
+  y: number[];
+  provenance: Record<string, unknown>;
+};
+
+const PROVENANCE_KEYS = ["sourceRows", "droppedRows", "droppedPoints"];
+
+export type FixPreviewRow = {
+  before: [number, number] | null;
+  after: [number, number] | null;
+  changed: boolean;
+};
+
+export type FixPreview = {
+  fixId: FixActionId;
+  series: Series;
+  /** Point-by-point comparison in series order. */
+  rows: FixPreviewRow[];
+  changedCount: number;
+};
+
+type Point = { time: number; y: number; sourceRow: number | null };
+
+const toPoints = (series: Series): Point[] => {
+  const sourceRows = getSourceRows(series);
+  return series.time.map((time, index) => ({
+    time,
+    y: series.y[index],
+    sourceRow: sourceRows?.[index] ?? null
+  }));
+};
+
+const fromPoints = (series: Series, points: Point[]): Series => ({
+  ...series,
+  time: points.map((point) => point.time),
+  y: points.map((point) => point.y),
+  meta: {
+    ...series.meta,
+    ...(getSourceRows(series) ? { sourceRows: points.map((point) => point.sourceRow) } : {})
+  }
+});
+
+const FIXES: Record<FixActionId, (series: Series) => Series> = {
+  // Stable, so points with equal times keep their file order.
+  "sort-by-time": (series) =>
+    fromPoints(
+      series,
+      toPoints(series).sort((a, b) => a.time - b.time)
+    ),
+  // The merged point keeps the time, position and source row of the first occurrence; the
+  // later occurrences are listed as dropped rows. They come back by reverting the fix.
+  "average-duplicates": (series) => {
+    const groups = new Map<number, Point[]>();
+    toPoints(series).forEach((point) => {
+      groups.set(point.time, [...(groups.get(point.time) ?? []), point]);
+    });
+    const merged = fromPoints(
+      series,
+      Array.from(groups.values()).map((group) => ({
+        ...group[0],
+        y: group.reduce((sum, point) => sum + point.y, 0) / group.length
+      }))
+    );
+    const absorbed: DroppedRow[] = Array.from(groups.values()).flatMap((group) =>
+      group.slice(1).map((point) => ({
+        rowIndex: point.sourceRow,
+        reason: "merged-duplicate" as const,
+        column: series.name,
+        raw: point.y
+      }))
+    );
+    const droppedRows = [...getDroppedRows(series), ...absorbed];
+    return {
+      ...merged,
+      meta: { ...merged.meta, droppedRows, droppedPoints: droppedRows.length }
+    };
+  },
+  "drop-negative": (series) =>
+    excludeSeriesPoints(
+      series,
+      series.y.flatMap((value, index) => (value < 0 ? [index] : [])),
+      "user-excluded"
+    ),
+  "clip-to-baseline": (series) =>
+    fromPoints(
+      series,
+      toPoints(series).map((point) => ({ ...point, y: Math.max(point.y, 0) }))
+    ),
+  "shift-time-to-zero": (series) => {
+    const start = Math.min(...series.time);
+    return fromPoints(
+      series,
+      toPoints(series).map((point) => ({ ...point, time: point.time - start }))
+    );
+  }
+};
+
+export const getAppliedFixes = (series: Series): FixRecord[] => {
+  const raw = series.meta?.fixes;
+  return Array.isArray(raw)
+    ? raw.filter(
+        (entry): entry is FixRecord =>
+          typeof entry === "object" &&
+          entry !== null &&
+          entry.id in FIX_ACTION_LABELS &&
+          typeof entry.appliedAt === "string"
+      )
+    : [];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const pickMeta = (meta: Record<string, unknown> | undefined, keep: (key: string) => boolean) =>
+  Object.fromEntries(Object.entries(meta ?? {}).filter(([key]) => keep(key)));
+
+const readSnapshot = (series: Series): SeriesSnapshot | null => {
+  const raw = series.meta?.beforeFixes;
+  if (!isRecord(raw) || !Array.isArray(raw.time) || !Array.isArray(raw.y)) {
+    return null;
+  }
+  // Snapshots of older projects hold the whole meta.
+  const provenance = isRecord(raw.provenance)
+    ? raw.provenance
+    : pickMeta(isRecord(raw.meta) ? raw.meta : {}, (key) => PROVENANCE_KEYS.includes(key));
+  return { time: raw.time, y: raw.y, provenance };
+};
+
+/**
+ * Applies a fix to a copy of the series. The state before the first fix is kept in
+ * meta.beforeFixes and every fix is listed in meta.fixes, so nothing is overwritten
+ * for good.
+ */
+export const applyFix = (series: Series, fixId: FixActionId, appliedAt?: string): Series => {
+  const snapshot = readSnapshot(series) ?? {
+    time: series.time,
+    y: series.y,
+    provenance: pickMeta(series.meta, (key) => PROVENANCE_KEYS.includes(key))
+  };
+  const fixed = FIXES[fixId](series);
+  return {
+    ...fixed,
+    meta: {
+      ...fixed.meta,
+      beforeFixes: snapshot,
+      fixes: [
+        ...getAppliedFixes(series),
+        { id: fixId, appliedAt: appliedAt ?? new Date().toISOString() }
+      ]
+    }
+  };
+};
+
+/**
+ * Restores the points as they were before the first fix; exclusions made since are undone
+ * too. Role and preprocessing stay as they are.
+ */
+export const revertFixes = (series: Series): Series => {
+  const snapshot = readSnapshot(series);
+  if (!snapshot) {
+    return series;
+  }
+  const meta = pickMeta(
+    series.meta,
+    (key) => key !== "beforeFixes" && key !== "fixes" && !PROVENANCE_KEYS.includes(key)
+  );
+  return {
+    ...series,
+    time: snapshot.time,
+    y: snapshot.y,
+    meta: { ...meta, ...snapshot.provenance }
+  };
+};
+
+const toRow = (before: Point | null, after: Point | null): FixPreviewRow => ({
+  before: before ? [before.time, before.y] : null,
+  after: after ? [after.time, after.y] : null,
+  changed: before?.time !== after?.time || before?.y !== after?.y
+});
+
+/**
+ * Fixes that keep every point are compared position by position; fixes that remove or
+ * merge points are aligned by source row (or time), so removed points show up as such.
+ */
+const diffPoints = (before: Point[], after: Point[]): FixPreviewRow[] => {
+  if (before.length === after.length) {
+    return before.map((point, index) => toRow(point, after[index]));
+  }
+  const rows: FixPreviewRow[] = [];
+  let next = 0;
+  before.forEach((point) => {
+    const candidate = after[next];
+    const matches =
+      candidate !== undefined &&
+      (point.sourceRow !== null && candidate.sourceRow !== null
+        ? point.sourceRow === candidate.sourceRow
+        : point.time === candidate.time);
+    rows.push(toRow(point, matches ? candidate : null));
+    next += matches ? 1 : 0;
+  });
+  return rows;
+};
+
+export const previewFix = (series: Series, fixId: FixActionId): FixPreview => {
+  const fixed = FIXES[fixId](series);
+  const rows = diffPoints(toPoints(series), toPoints(fixed));
+  return {
+    fixId,
+    series: fixed,
+    rows,
+    changedCount: rows.filter((row) => row.changed).length
+  };
+};
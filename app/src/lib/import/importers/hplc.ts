@@ -0,0 +1,17 @@
+import { hasPreamble, parsePreambleTable } from "./preamble";
+import type { InstrumentImporter } from "./types";
+
+const HPLC_MARKERS =
+  /Chromeleon|ChemStation|OpenLab|Injection Date|Inject Time|Injection Name|Acq\. Operator|Sequence Name|Ret\.?\s?Time/i;
+
+/**
+ * Agilent ChemStation/OpenLab and Thermo Chromeleon exports: sample and sequence
+ * information above a peak or injection table (one row per injection over time).
+ */
+export const hplcImporter: InstrumentImporter = {
+  id: "hplc",
+  label: "HPLC (Agilent/Chromeleon)",
+  extensions: ["csv", "txt"],
+  detect: (head) => HPLC_MARKERS.test(head) && hasPreamble(head),
+  parse: (text) => [parsePreambleTable(text, { importerId: "hplc" })]
+};
@@ -0,0 +1,41 @@
+import { hplcImporter } from "./hplc";
+import { jcampImporter } from "./jcamp";
+import { reactIrImporter } from "./reactIr";
+import type { InstrumentImporter } from "./types";
+import { uvVisImporter } from "./uvVis";
+
+export type { InstrumentImporter } from "./types";
+
+// Specific vendors first: UV-Vis markers ("Abs") also appear in other exports.
+const importers: InstrumentImporter[] = [
+  jcampImporter,
+  reactIrImporter,
+  hplcImporter,
+  uvVisImporter
+];
+
+export const getInstrumentImporters = (): InstrumentImporter[] => [...importers];
+
+/** Adds an importer ahead of the built-in ones, so it can claim formats they also match. */
+export const registerInstrumentImporter = (importer: InstrumentImporter) => {
+  const existing = importers.findIndex((item) => item.id === importer.id);
+  if (existing !== -1) {
+    importers.splice(existing, 1);
+  }
+  importers.unshift(importer);
+};
+
+export const getImporterExtensions = (): string[] =>
+  Array.from(new Set(importers.flatMap((importer) => importer.extensions)));
+
+export const findInstrumentImporter = (
+  head: string,
+  fileName: string
+): InstrumentImporter | null => {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return (
+    importers.find(
+      (importer) => importer.extensions.includes(extension) && importer.detect(head, fileName)
+    ) ?? null
+  );
+};
@@ -0,0 +1,222 @@
+import type { RawTable } from "../types";
+import { splitLines, toMetadataValue } from "./preamble";
+import type { InstrumentImporter, MetadataValue } from "./types";
+
+type JcampBlock = {
+  labels: Record<string, string>;
+  dataLabel: string | null;
+  dataLines: string[];
+};
+
+type AsdfToken = { kind: "value" | "difference" | "repeat"; value: number };
+
+const SQZ = "@ABCDEFGHI";
+const SQZ_NEGATIVE = "abcdefghi";
+const DIF = "%JKLMNOPQR";
+const DIF_NEGATIVE = "jklmnopqr";
+const DUP = "STUVWXYZs";
+
+// Any ASDF character except E/e, which AFFN uses for exponents.
+const COMPRESSED_PATTERN = /[@A-DF-Ia-df-i%J-Rj-rS-Zs]/;
+
+const normalizeLabel = (label: string): string => label.replace(/[\s\-/_]/g, "").toUpperCase();
+
+const readNumber = (labels: Record<string, string>, label: string): number | null => {
+  const value = Number(labels[label]);
+  return labels[label] !== undefined && Number.isFinite(value) ? value : null;
+};
+
+/** Splits a line of (possibly compressed) JCAMP data into tokens. */
+const tokenizeDataLine = (line: string): AsdfToken[] => {
+  if (!COMPRESSED_PATTERN.test(line)) {
+    return (line.match(/[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g) ?? []).map((text) => ({
+      kind: "value",
+      value: Number(text)
+    }));
+  }
+  const tokens: AsdfToken[] = [];
+  let kind: AsdfToken["kind"] = "value";
+  let digits = "";
+  const flush = () => {
+    if (digits && digits !== "-" && digits !== "+") {
+      tokens.push({ kind, value: Number(digits) });
+    }
+    digits = "";
+  };
+  for (const char of line) {
+    if (/[\d.]/.test(char)) {
+      digits += char;
+    } else if (SQZ.includes(char) || SQZ_NEGATIVE.includes(char)) {
+      flush();
+      kind = "value";
+      digits = SQZ.includes(char) ? `${SQZ.indexOf(char)}` : `-${SQZ_NEGATIVE.indexOf(char) + 1}`;
+    } else if (DIF.includes(char) || DIF_NEGATIVE.includes(char)) {
+      flush();
+      kind = "difference";
+      digits = DIF.includes(char) ? `${DIF.indexOf(char)}` : `-${DIF_NEGATIVE.indexOf(char) + 1}`;
+    } else if (DUP.includes(char)) {
+      flush();
+      kind = "repeat";
+      digits = `${DUP.indexOf(char) + 1}`;
+    } else if (char === "+" || char === "-") {
+      flush();
+      kind = "value";
+      digits = char;
+    } else {
+      flush();
+    }
+  }
+  flush();
+  return tokens;
+};
+
+/**
+ * Decodes an (X++(Y..Y)) table in AFFN or ASDF (SQZ/DIF/DUP) form. The first token
+ * of a line is the abscissa; in DIF form the first ordinate repeats the last value
+ * of the previous line as a check and is skipped.
+ */
+const decodeXyData = (lines: string[]): number[] => {
+  const values: number[] = [];
+  let previousEndedInDifference = false;
+  lines.forEach((line) => {
+    const [, ...tokens] = tokenizeDataLine(line);
+    const state: { kind: AsdfToken["kind"]; difference: number } = {
+      kind: "value",
+      difference: 0
+    };
+    const lineValues: number[] = [];
+    const apply = (token: AsdfToken) => {
+      if (token.kind === "value") {
+        lineValues.push(token.value);
+        state.kind = "value";
+      } else if (token.kind === "difference") {
+        const base = lineValues[lineValues.length - 1] ?? values[values.length - 1] ?? 0;
+        lineValues.push(base + token.value);
+        state.kind = "difference";
+        state.difference = token.value;
+      } else {
+        for (let count = 1; count < token.value; count += 1) {
+          apply(
+            state.kind === "difference"
+              ? { kind: "difference", value: state.difference }
+              : { kind: "value", value: lineValues[lineValues.length - 1] }
+          );
+        }
+      }
+    };
+    tokens.forEach(apply);
+    if (previousEndedInDifference && lineValues.length > 0) {
+      lineValues.shift();
+    }
+    previousEndedInDifference = state.kind === "difference";
+    values.push(...lineValues);
+  });
+  return values;
+};
+
+const decodePoints = (lines: string[]): { x: number[]; y: number[] } => {
+  const numbers = lines.flatMap(
+    (line) => line.match(/[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g) ?? []
+  );
+  const x: number[] = [];
+  const y: number[] = [];
+  for (let index = 0; index + 1 < numbers.length; index += 2) {
+    x.push(Number(numbers[index]));
+    y.push(Number(numbers[index + 1]));
+  }
+  return { x, y };
+};
+
+const readBlocks = (text: string): JcampBlock[] => {
+  const blocks: JcampBlock[] = [];
+  const stack: JcampBlock[] = [];
+  let lastLabel: string | null = null;
+  splitLines(text).forEach((rawLine) => {
+    const line = rawLine.replace(/\$\$.*$/, "").trimEnd();
+    const current = stack[stack.length - 1];
+    const labelMatch = /^\s*##([^=]+)=(.*)$/.exec(line);
+    if (!labelMatch) {
+      if (current?.dataLabel) {
+        current.dataLines.push(line);
+      } else if (current && lastLabel && line.trim()) {
+        current.labels[lastLabel] = `${current.labels[lastLabel]} ${line.trim()}`.trim();
+      }
+      return;
+    }
+    const label = normalizeLabel(labelMatch[1]);
+    const value = labelMatch[2].trim();
+    if (label === "TITLE") {
+      stack.push({ labels: { TITLE: value }, dataLabel: null, dataLines: [] });
+      lastLabel = label;
+      return;
+    }
+    if (!current) {
+      return;
+    }
+    if (label === "END") {
+      blocks.push(current);
+      stack.pop();
+      lastLabel = null;
+      return;
+    }
+    current.dataLabel = null;
+    if (label === "XYDATA" || label === "XYPOINTS" || label === "PEAKTABLE") {
+      current.dataLabel = label;
+      current.labels[label] = value;
+    } else {
+      current.labels[label] = value;
+      lastLabel = label;
+    }
+  });
+  return blocks.filter((block) => block.dataLines.length > 0);
+};
+
+const toTable = (block: JcampBlock, index: number): RawTable => {
+  const { labels } = block;
+  const xFactor = readNumber(labels, "XFACTOR") ?? 1;
+  const yFactor = readNumber(labels, "YFACTOR") ?? 1;
+  let x: number[];
+  let y: number[];
+  if (block.dataLabel === "XYDATA") {
+    y = decodeXyData(block.dataLines).map((value) => value * yFactor);
+    const firstX = readNumber(labels, "FIRSTX") ?? 0;
+    const lastX = readNumber(labels, "LASTX") ?? firstX + y.length - 1;
+    const step = y.length > 1 ? (lastX - firstX) / (y.length - 1) : 0;
+    x = y.map((_, position) => firstX + step * position);
+  } else {
+    const points = decodePoints(block.dataLines);
+    x = points.x.map((value) => value * xFactor);
+    y = points.y.map((value) => value * yFactor);
+  }
+  const unitSuffix = (unit: string | undefined) => (unit ? ` [${unit.toLowerCase()}]` : "");
+  const metadata: Record<string, MetadataValue> = { importer: "jcamp-dx" };
+  Object.entries(labels)
+    .filter(([label]) => !["XYDATA", "XYPOINTS", "PEAKTABLE"].includes(label))
+    .forEach(([label, value]) => {
+      metadata[label] = toMetadataValue(value);
+    });
+  return {
+    sheetName: labels.TITLE || `Block ${index + 1}`,
+    headers: [`X${unitSuffix(labels.XUNITS)}`, `Y${unitSuffix(labels.YUNITS)}`],
+    rows: x.map((value, position) => [value, y[position]]),
+    metadata
+  };
+};
+
+/**
+ * JCAMP-DX 4.24/5 spectra and time traces. Linked files (##BLOCKS) yield one
+ * table per data block.
+ */
+export const jcampImporter: InstrumentImporter = {
+  id: "jcamp-dx",
+  label: "JCAMP-DX",
+  extensions: ["jdx", "dx", "jcamp"],
+  detect: (head) => /^\s*##TITLE=/m.test(head) && /^\s*##JCAMP-?DX=/im.test(head),
+  parse: (text) => {
+    const tables = readBlocks(text).map(toTable);
+    if (tables.length === 0) {
+      throw new Error("The JCAMP-DX file contains no data block.");
+    }
+    return tables;
+  }
+};
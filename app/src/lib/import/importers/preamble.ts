@@ -0,0 +1,119 @@
+import { parseNumericCell } from "../mapping";
+import { parseCsvText } from "../parseCsv";
+import type { RawTable } from "../types";
+import type { MetadataValue } from "./types";
+
+// Instrument preambles rarely exceed a few dozen lines.
+const MAX_PREAMBLE_LINES = 200;
+
+const CELL_SPLITTERS = [/\t/, /;/, /,/, /\s{2,}/, /\s+/];
+
+export const splitLines = (text: string): string[] =>
+  text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+
+const unquote = (value: string): string =>
+  value
+    .trim()
+    .replace(/^(["'])(.*)\1$/, "$2")
+    .trim();
+
+export const toMetadataValue = (value: string): MetadataValue => {
+  const text = unquote(value);
+  if (!text) {
+    return null;
+  }
+  return parseNumericCell(text) ?? text;
+};
+
+/** Reads "Key: value", "Key=value" and "Key<delimiter>value" preamble lines. */
+export const parseMetadataLine = (line: string): [string, MetadataValue] | null => {
+  const match = /^\s*([^:=\t;,]{1,80}?)\s*(?::\s*[\t;,]?|=|\t|;|,)\s*(.*?)\s*$/.exec(line);
+  if (!match) {
+    return null;
+  }
+  const key = unquote(match[1]);
+  // Trailing empty cells of a delimited preamble ("Operator;Meier;;;") are dropped.
+  const value = match[2].replace(/[\t;,]+$/, "");
+  return key ? [key, toMetadataValue(value)] : null;
+};
+
+const isNumericCell = (cell: string): boolean => parseNumericCell(unquote(cell)) !== null;
+
+const splitCells = (line: string, splitter: RegExp): string[] =>
+  line
+    .trim()
+    .split(splitter)
+    .filter((cell, index, cells) => cell.trim() !== "" || index < cells.length - 1);
+
+/**
+ * Finds the header row of the data table below a metadata preamble: a row with at
+ * least two cells, at least one of them text, followed by two rows of the same
+ * width that are mostly numeric.
+ */
+export const findTableStart = (
+  lines: string[]
+): { headerIndex: number; splitter: RegExp } | null => {
+  const limit = Math.min(lines.length - 2, MAX_PREAMBLE_LINES);
+  for (let index = 0; index < limit; index += 1) {
+    for (const splitter of CELL_SPLITTERS) {
+      const header = splitCells(lines[index], splitter);
+      if (header.length < 2 || header.every(isNumericCell)) {
+        continue;
+      }
+      const following = [lines[index + 1], lines[index + 2]].map((line) =>
+        splitCells(line, splitter)
+      );
+      const isDataRow = (cells: string[]) =>
+        cells.length === header.length && cells.filter(isNumericCell).length * 2 >= cells.length;
+      if (following.every(isDataRow)) {
+        return { headerIndex: index, splitter };
+      }
+    }
+  }
+  return null;
+};
+
+/** True when metadata lines precede the data table, i.e. the file is not a plain CSV. */
+export const hasPreamble = (head: string): boolean =>
+  (findTableStart(splitLines(head))?.headerIndex ?? 0) > 0;
+
+/**
+ * Splits an export into its key/value preamble and the data table below it. Tables
+ * separated by runs of whitespace are re-joined with tabs before the CSV parser
+ * sees them.
+ */
+export const parsePreambleTable = (
+  text: string,
+  {
+    importerId,
+    sheetName,
+    extraMetadata = {}
+  }: { importerId: string; sheetName?: string; extraMetadata?: Record<string, MetadataValue> }
+): RawTable => {
+  const lines = splitLines(text);
+  const start = findTableStart(lines);
+  if (!start) {
+    throw new Error("No data table found below the metadata block.");
+  }
+  const metadata: Record<string, MetadataValue> = { importer: importerId, ...extraMetadata };
+  lines.slice(0, start.headerIndex).forEach((line) => {
+    const entry = parseMetadataLine(line);
+    if (entry && !(entry[0] in metadata)) {
+      metadata[entry[0]] = entry[1];
+    }
+  });
+
+  // A blank line ends the table; vendor footers ("End of report") follow it.
+  const blankIndex = lines.findIndex(
+    (line, index) => index > start.headerIndex && line.trim() === ""
+  );
+  const tableLines = lines.slice(start.headerIndex, blankIndex === -1 ? undefined : blankIndex);
+  const isWhitespaceSplit = start.splitter.source.startsWith("\\s");
+  const tableText = (
+    isWhitespaceSplit
+      ? tableLines.map((line) => splitCells(line, start.splitter).join("\t"))
+      : tableLines
+  ).join("\n");
+  const table = parseCsvText(tableText);
+  return { ...table, ...(sheetName ? { sheetName } : {}), metadata };
+};
@@ -0,0 +1,16 @@
+import { hasPreamble, parsePreambleTable } from "./preamble";
+import type { InstrumentImporter } from "./types";
+
+const REACT_IR_MARKERS = /ReactIR|iC\s?IR|Mettler/i;
+
+/**
+ * Mettler Toledo ReactIR (iC IR) trend exports: experiment metadata lines, then
+ * relative time (often hh:mm:ss) and one column per tracked peak.
+ */
+export const reactIrImporter: InstrumentImporter = {
+  id: "reactir",
+  label: "ReactIR (in-situ IR)",
+  extensions: ["csv", "txt"],
+  detect: (head) => REACT_IR_MARKERS.test(head) && hasPreamble(head),
+  parse: (text) => [parsePreambleTable(text, { importerId: "reactir" })]
+};
@@ -0,0 +1,16 @@
+import type { RawTable } from "../types";
+
+/**
+ * Reads one vendor export format. `detect` sees the first 64 KB of decoded text,
+ * `parse` the whole file; both must be pure so they can run in tests and workers.
+ */
+export type InstrumentImporter = {
+  id: string;
+  label: string;
+  /** Lower-case file extensions without the dot. */
+  extensions: string[];
+  detect: (head: string, fileName: string) => boolean;
+  parse: (text: string, fileName: string) => RawTable[];
+};
+
+export type MetadataValue = string | number | null;
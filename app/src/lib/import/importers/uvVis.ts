@@ -0,0 +1,17 @@
+import { hasPreamble, parsePreambleTable } from "./preamble";
+import type { InstrumentImporter } from "./types";
+
+const UV_VIS_MARKERS = /Kinetics|Cary|Lambda|UV-?Vis|Wavelength|Abs(?:orbance)?\b/i;
+
+/**
+ * Kinetic-mode exports of UV-Vis spectrometers (Cary, Lambda, Specord): a header
+ * block with wavelength and method settings, then time/absorbance columns that are
+ * often separated by spaces instead of a delimiter.
+ */
+export const uvVisImporter: InstrumentImporter = {
+  id: "uv-vis",
+  label: "UV-Vis Kinetik",
+  extensions: ["txt", "csv", "asc"],
+  detect: (head) => UV_VIS_MARKERS.test(head) && hasPreamble(head),
+  parse: (text) => [parsePreambleTable(text, { importerId: "uv-vis" })]
+};
@@ -1,18 +1,46 @@
 import { ensureMetaRaw } from "./types";
 import type { Dataset, Experiment, RawTable, Series } from "./types";
 import { detectTimeType } from "./time";
+import {
+  TIMESTAMP_FORMAT_LABELS,
+  detectTimestampFormat,
+  getTimeColumnType,
+  parseTimestamp,
+  type TimestampFormat
+} from "./timestamp";
+import { detectHeaderUnit } from "../units/units";
+import type { DroppedRow } from "./provenance";
+
+/**
+ * "long": one time column for all value columns; "paired": each value column has its
+ * own time column.
+ */
+export type MappingLayout = "long" | "paired";
 
 export type MappingSelection = {
   firstRowIsHeader: boolean;
   timeColumnIndex: number | null;
   valueColumnIndices: number[];
   experimentColumnIndex: number | null;
+  /** Unit ids overriding what the headers say; missing or null means detect from the header. */
+  timeUnit?: string | null;
+  valueUnit?: string | null;
+  /** Overrides the detected format of the time column. */
+  timeFormat?: TimestampFormat | null;
+  /** Missing means "long". */
+  layout?: MappingLayout;
+  /** Time column per value column in the paired layout, keyed by value column index. */
+  pairedTimeColumns?: Record<number, number>;
+  /** Experiment per value column, keyed by value column index; blank keeps the default grouping. */
+  columnExperiments?: Record<number, string>;
 };
 
 export type MappingError = {
   rowIndex: number;
   column: string;
   message: string;
+  /** File or sheet the error comes from in a batch import. */
+  source?: string;
 };
 
 export type MappingStats = {
@@ -98,6 +126,90 @@ const hasRowContent = (row: (string | number | null)[]): boolean =>
     return cell.trim().length > 0;
   });
 
+/**
+ * Condenses an unmapped column over the rows of one experiment: its constant value,
+ * or the first value plus the numeric range when it changes within the run.
+ */
+const summarizeColumn = (
+  header: string,
+  cells: (string | number | null)[]
+): { entries: Record<string, string | number>; varies: boolean } | null => {
+  const labels = cells.map(toLabel).filter((label) => label !== "");
+  if (labels.length === 0) {
+    return null;
+  }
+  const numbers = labels.map(parseNumericCell);
+  if (numbers.some((value) => value === null)) {
+    const varies = labels.some((label) => label !== labels[0]);
+    return { entries: { [header]: labels[0] }, varies };
+  }
+  // "25,0" and 25 are the same temperature.
+  const values = numbers as number[];
+  const first = values[0];
+  if (values.every((value) => value === first)) {
+    return { entries: { [header]: first }, varies: false };
+  }
+  return {
+    entries: {
+      [header]: first,
+      [`${header} range`]: `${Math.min(...values)}–${Math.max(...values)}`
+    },
+    varies: true
+  };
+};
+
+/** Time column of a value column; the shared time column unless the layout is paired. */
+export const getTimeColumnIndexFor = (
+  selection: MappingSelection,
+  valueIndex: number
+): number | null =>
+  (selection.layout === "paired" ? selection.pairedTimeColumns?.[valueIndex] : undefined) ??
+  selection.timeColumnIndex;
+
+// "t", "t1", "Zeit 2", "time_3 (min)"; a capital "T" is usually a temperature.
+const TIME_HEADER_PATTERN =
+  /^(?:t|[Tt]ime|TIME|[Zz]eit|[Rr]elative [Tt]ime)[\s_-]*\d*(?:\s*[[(/].*)?$/;
+
+const isTimeHeader = (header: string): boolean =>
+  TIME_HEADER_PATTERN.test(header.trim()) || detectHeaderUnit(header, "time") !== null;
+
+/**
+ * Recognises wide sheets with repeating "t1, c1, t2, c2, …" columns or one
+ * "time, values…" block per experiment. Every column right of a time column is paired
+ * with it; experiments are named after the shared upper header ("Ansatz A · t") or
+ * numbered. Returns null when there are fewer than two time columns.
+ */
+export const suggestPairedLayout = (
+  headers: string[]
+): Pick<
+  MappingSelection,
+  "layout" | "timeColumnIndex" | "valueColumnIndices" | "pairedTimeColumns" | "columnExperiments"
+> | null => {
+  const timeColumns = headers.flatMap((header, index) => (isTimeHeader(header) ? [index] : []));
+  if (timeColumns.length < 2) {
+    return null;
+  }
+  const pairedTimeColumns: Record<number, number> = {};
+  const columnExperiments: Record<number, string> = {};
+  const valueColumnIndices: number[] = [];
+  timeColumns.forEach((timeIndex, position) => {
+    const end = timeColumns[position + 1] ?? headers.length;
+    const [prefix] = headers[timeIndex].split(" · ").slice(-2, -1);
+    for (let index = timeIndex + 1; index < end; index += 1) {
+      valueColumnIndices.push(index);
+      pairedTimeColumns[index] = timeIndex;
+      columnExperiments[index] = prefix?.trim() || `Experiment ${position + 1}`;
+    }
+  });
+  return {
+    layout: "paired",
+    timeColumnIndex: timeColumns[0],
+    valueColumnIndices,
+    pairedTimeColumns,
+    columnExperiments
+  };
+};
+
 export const applyMappingToDataset = ({
   table,
   selection,
@@ -115,8 +227,19 @@ export const applyMappingToDataset = ({
   const headers = normalizedTable.headers;
 
   const errors: MappingError[] = [];
-  if (selection.timeColumnIndex === null) {
-    errors.push({ rowIndex: 0, column: "time", message: "Select a time column." });
+  const isPaired = selection.layout === "paired";
+  if (
+    isPaired
+      ? selection.valueColumnIndices.some(
+          (valueIndex) => getTimeColumnIndexFor(selection, valueIndex) === null
+        )
+      : selection.timeColumnIndex === null
+  ) {
+    errors.push({
+      rowIndex: 0,
+      column: "time",
+      message: isPaired ? "Select a time column for every value column." : "Select a time column."
+    });
   }
   if (selection.valueColumnIndices.length === 0) {
     errors.push({
@@ -135,7 +258,10 @@ export const applyMappingToDataset = ({
     };
   }
 
-  const timeIndex = selection.timeColumnIndex ?? -1;
+  const timeIndexFor = (valueIndex: number) => getTimeColumnIndexFor(selection, valueIndex) ?? -1;
+  const timeIndices = Array.from(new Set(selection.valueColumnIndices.map(timeIndexFor)));
+  const timeHeadersFor = (valueIndices: number[]) =>
+    Array.from(new Set(valueIndices.map((index) => headers[timeIndexFor(index)] ?? "Time")));
   const experimentIndex = selection.experimentColumnIndex ?? -1;
 
   const experimentName =
@@ -143,19 +269,42 @@ export const applyMappingToDataset = ({
       ? fileName || "Experiment 1"
       : null;
 
-  const groupMap = new Map<string, (string | number | null)[][]>();
+  type GroupRow = { row: (string | number | null)[]; sourceRow: number };
+  const groupMap = new Map<string, GroupRow[]>();
+  // Sheet row of a table row; without layout detection the rows follow the header directly.
+  const headerOffset = selection.firstRowIsHeader ? 0 : 1;
+  const sourceRowOf = (rowIndex: number): number =>
+    table.sourceRows
+      ? (table.sourceRows[rowIndex - headerOffset] ?? (table.sourceRows[0] ?? 1) - 1)
+      : rowIndex + 1 - headerOffset;
+  const timeFormat =
+    selection.timeFormat ??
+    detectTimestampFormat(
+      normalizedTable.rows
+        .filter(hasRowContent)
+        .flatMap((row) => timeIndices.map((timeIndex) => row[timeIndex] ?? null))
+    );
+  const parseTimeCell = (cell: string | number | null) => parseTimestamp(cell, timeFormat);
 
   normalizedTable.rows.forEach((row, rowIndex) => {
     if (!hasRowContent(row)) {
       return;
     }
-    const timeValue = parseNumericCell(row[timeIndex] ?? null);
-    if (timeValue === null) {
-      const timeLabel = headers[timeIndex] ?? "Time";
+    // Paired time columns of different length leave blank cells below the shorter ones.
+    const invalidTimeIndex = timeIndices.find(
+      (timeIndex) =>
+        (!isPaired || toLabel(row[timeIndex] ?? null) !== "") &&
+        parseTimeCell(row[timeIndex] ?? null) === null
+    );
+    if (invalidTimeIndex !== undefined) {
+      const timeLabel = headers[invalidTimeIndex] ?? "Time";
       errors.push({
         rowIndex: rowIndex + 1,
         column: timeLabel,
-        message: "Time value must be numeric."
+        message:
+          timeFormat === "numeric"
+            ? "Time value must be numeric."
+            : `Time value does not match the format ${TIMESTAMP_FORMAT_LABELS[timeFormat]}.`
       });
       return;
     }
@@ -164,7 +313,7 @@ export const applyMappingToDataset = ({
         ? experimentName ?? "Experiment 1"
         : toLabel(row[experimentIndex] ?? null) || "Unlabeled experiment";
     const group = groupMap.get(label) ?? [];
-    group.push(row);
+    group.push({ row, sourceRow: sourceRowOf(rowIndex) });
     groupMap.set(label, group);
   });
 
@@ -179,54 +328,127 @@ export const applyMappingToDataset = ({
 
   const experiments: Experiment[] = [];
   let pointCount = 0;
+  // Durations are parsed to seconds, whatever unit the header names.
+  const timeUnitFor = (valueIndex: number) =>
+    timeFormat === "duration"
+      ? "s"
+      : (selection.timeUnit ??
+        detectHeaderUnit(headers[timeIndexFor(valueIndex)] ?? "", "time")?.id ??
+        null);
+  const valueUnits = selection.valueColumnIndices.map(
+    (valueIndex) =>
+      selection.valueUnit ??
+      detectHeaderUnit(headers[valueIndex] ?? "", "concentration")?.id ??
+      null
+  );
+  const experimentNameFor = (groupName: string, valueIndex: number): string => {
+    const assigned = selection.columnExperiments?.[valueIndex]?.trim();
+    if (!assigned) {
+      return groupName;
+    }
+    return experimentIndex === -1 ? assigned : `${groupName} · ${assigned}`;
+  };
 
+  const experimentMap = new Map<
+    string,
+    { series: Series[]; valueIndices: number[]; rows: GroupRow[] }
+  >();
   Array.from(groupMap.entries()).forEach(([groupName, rows]) => {
-    const series: Series[] = selection.valueColumnIndices.map((valueIndex) => {
+    selection.valueColumnIndices.forEach((valueIndex, valuePosition) => {
+      const timeIndex = timeIndexFor(valueIndex);
       const time: number[] = [];
       const y: number[] = [];
-      let droppedPoints = 0;
+      const sourceRows: number[] = [];
+      const droppedRows: DroppedRow[] = [];
+      const drop = (sourceRow: number, columnIndex: number, raw: string | number | null) =>
+        droppedRows.push({
+          rowIndex: sourceRow,
+          reason: toLabel(raw) === "" ? "empty-value" : "non-numeric",
+          column: headers[columnIndex] ?? null,
+          raw
+        });
 
-      rows.forEach((row) => {
-        const timeValue = parseNumericCell(row[timeIndex] ?? null);
+      rows.forEach(({ row, sourceRow }) => {
+        const timeCell = row[timeIndex] ?? null;
+        const valueCell = row[valueIndex] ?? null;
+        if (isPaired && toLabel(timeCell) === "" && toLabel(valueCell) === "") {
+          return;
+        }
+        const timeValue = parseTimeCell(timeCell);
         if (timeValue === null) {
-          droppedPoints += 1;
+          drop(sourceRow, timeIndex, timeCell);
           return;
         }
-        const value = parseNumericCell(row[valueIndex] ?? null);
+        const value = parseNumericCell(valueCell);
         if (value === null) {
-          droppedPoints += 1;
+          drop(sourceRow, valueIndex, valueCell);
           return;
         }
         time.push(timeValue);
         y.push(value);
+        sourceRows.push(sourceRow);
       });
 
       pointCount += time.length;
 
-      const timeType = detectTimeType(time);
+      const timeType =
+        timeFormat === "numeric" ? detectTimeType(time) : getTimeColumnType(timeFormat);
 
-      return {
+      const name = experimentNameFor(groupName, valueIndex);
+      const experiment = experimentMap.get(name) ?? { series: [], valueIndices: [], rows };
+      experiment.series.push({
         id: createId("series"),
         name: headers[valueIndex] ?? `Series ${valueIndex + 1}`,
         time,
         y,
         meta: {
-          droppedPoints,
-          timeType
+          droppedPoints: droppedRows.length,
+          droppedRows,
+          sourceRows,
+          sourceFile: fileName || null,
+          sourceSheet: normalizedTable.sheetName ?? null,
+          timeType,
+          timeFormat,
+          timeUnit: timeType === "numeric" ? timeUnitFor(valueIndex) : null,
+          valueUnit: valueUnits[valuePosition]
         }
-      };
+      });
+      experiment.valueIndices.push(valueIndex);
+      experimentMap.set(name, experiment);
     });
+  });
 
-    const valueHeaders = selection.valueColumnIndices.map(
-      (index) => headers[index] ?? `Column ${index + 1}`
-    );
+  const mappedIndices = new Set([...timeIndices, ...selection.valueColumnIndices, experimentIndex]);
+  const unmappedIndices = headers
+    .map((_, index) => index)
+    .filter((index) => !mappedIndices.has(index));
+
+  experimentMap.forEach(({ series, valueIndices, rows }, name) => {
+    const valueHeaders = valueIndices.map((index) => headers[index] ?? `Column ${index + 1}`);
+    // Conditions such as temperature or catalyst loading stay available for grouping.
+    const columnMeta: Record<string, string | number> = {};
+    const variesWithinRun: string[] = [];
+    unmappedIndices.forEach((index) => {
+      const header = headers[index] ?? `Column ${index + 1}`;
+      const summary = summarizeColumn(header, rows.map(({ row }) => row[index] ?? null));
+      if (!summary) {
+        return;
+      }
+      Object.assign(columnMeta, summary.entries);
+      if (summary.varies) {
+        variesWithinRun.push(header);
+      }
+    });
     experiments.push(
       ensureMetaRaw({
         experimentId: createId("exp"),
-        name: groupName,
+        name,
         series,
         metaRaw: {
-          timeHeader: headers[timeIndex] ?? null,
+          ...normalizedTable.metadata,
+          ...columnMeta,
+          ...(variesWithinRun.length > 0 ? { variesWithinRun: variesWithinRun.join(", ") } : {}),
+          timeHeader: timeHeadersFor(valueIndices).join(", "),
           valueHeaders: valueHeaders.join(", "),
           experimentHeader: experimentIndex === -1 ? null : headers[experimentIndex] ?? null,
           sheetName: normalizedTable.sheetName ?? null
@@ -242,11 +464,9 @@ export const applyMappingToDataset = ({
   };
 
   const resolvedColumns: MappingResolvedColumns = {
-    time: headers[timeIndex] ?? "Time",
-    values: selection.valueColumnIndices.map(
-      (index) => headers[index] ?? `Column ${index + 1}`
-    ),
-    experiment: experimentIndex === -1 ? null : headers[experimentIndex] ?? null
+    time: timeHeadersFor(selection.valueColumnIndices).join(", "),
+    values: selection.valueColumnIndices.map((index) => headers[index] ?? `Column ${index + 1}`),
+    experiment: experimentIndex === -1 ? null : (headers[experimentIndex] ?? null)
   };
 
   return {
@@ -0,0 +1,271 @@
+import { TIMESTAMP_FORMATS } from "./timestamp";
+import { getTimeColumnIndexFor, normalizeMappingTable, type MappingSelection } from "./mapping";
+import type { RawTable } from "./types";
+
+/**
+ * Identifies a column by its header: the exact name (trimmed, case-insensitive) or a
+ * regular expression written as "/…/".
+ */
+export type HeaderMatcher = string;
+
+export type TemplateValueColumn = {
+  column: HeaderMatcher;
+  /** Time column of a paired layout. */
+  time?: HeaderMatcher;
+  experiment?: string;
+};
+
+/** A MappingSelection expressed by header names, so it survives reordered columns. */
+export type MappingTemplate = {
+  id: string;
+  name: string;
+  createdAt: string;
+  /** File type or instrument importer the template was made from. */
+  fileType: string | null;
+  firstRowIsHeader: boolean;
+  time: HeaderMatcher | null;
+  values: TemplateValueColumn[];
+  experiment: HeaderMatcher | null;
+  layout: NonNullable<MappingSelection["layout"]>;
+  timeUnit: string | null;
+  valueUnit: string | null;
+  timeFormat: MappingSelection["timeFormat"];
+};
+
+const STORAGE_KEY = "kinetik.mappingTemplates";
+
+const createId = (prefix: string): string => `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+
+const normalizeHeader = (header: string): string =>
+  header.trim().replace(/\s+/g, " ").toLowerCase();
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+
+/** "Peak 3 [mAU]" becomes /^Peak \d+ \[mAU\]$/ so numbered runs and channels match. */
+const generalizeHeader = (header: string): HeaderMatcher =>
+  /\d/.test(header) ? `/^${escapeRegExp(header.trim()).replace(/\d+/g, "\\d+")}$/` : header.trim();
+
+const toMatcher = (header: string, generalizeNumbers: boolean): HeaderMatcher =>
+  generalizeNumbers ? generalizeHeader(header) : header.trim();
+
+const isPattern = (matcher: HeaderMatcher): boolean =>
+  matcher.length > 2 && matcher.startsWith("/") && matcher.endsWith("/");
+
+const matches = (matcher: HeaderMatcher, header: string): boolean => {
+  if (!isPattern(matcher)) {
+    return normalizeHeader(matcher) === normalizeHeader(header);
+  }
+  try {
+    return new RegExp(matcher.slice(1, -1), "i").test(header.trim());
+  } catch {
+    return false;
+  }
+};
+
+const findColumns = (matcher: HeaderMatcher, headers: string[]): number[] =>
+  headers.flatMap((header, index) => (matches(matcher, header) ? [index] : []));
+
+export const createMappingTemplate = ({
+  name,
+  headers,
+  selection,
+  fileType,
+  generalizeNumbers = false
+}: {
+  name: string;
+  headers: string[];
+  selection: MappingSelection;
+  fileType: string | null;
+  generalizeNumbers?: boolean;
+}): MappingTemplate => {
+  const matcherAt = (index: number | null) =>
+    index === null || headers[index] === undefined
+      ? null
+      : toMatcher(headers[index], generalizeNumbers);
+  const values = selection.valueColumnIndices.flatMap((valueIndex): TemplateValueColumn[] => {
+    const column = matcherAt(valueIndex);
+    if (column === null) {
+      return [];
+    }
+    const time =
+      selection.layout === "paired"
+        ? matcherAt(getTimeColumnIndexFor(selection, valueIndex))
+        : null;
+    const experiment = selection.columnExperiments?.[valueIndex]?.trim();
+    return [{ column, ...(time ? { time } : {}), ...(experiment ? { experiment } : {}) }];
+  });
+  return {
+    id: createId("template"),
+    name: name.trim() || "Vorlage",
+    createdAt: new Date().toISOString(),
+    fileType,
+    firstRowIsHeader: selection.firstRowIsHeader,
+    time: matcherAt(selection.timeColumnIndex),
+    // Patterns of numbered columns collapse into one matcher.
+    values: values.filter(
+      (value, index) => values.findIndex((other) => other.column === value.column) === index
+    ),
+    experiment: matcherAt(selection.experimentColumnIndex),
+    layout: selection.layout ?? "long",
+    timeUnit: selection.timeUnit ?? null,
+    valueUnit: selection.valueUnit ?? null,
+    timeFormat: selection.timeFormat ?? null
+  };
+};
+
+/**
+ * Rebuilds a MappingSelection for a table. Pattern matchers take every matching
+ * column. Returns null when the time column, the experiment column or any value
+ * column cannot be found.
+ */
+export const resolveMappingTemplate = (
+  template: MappingTemplate,
+  table: RawTable
+): MappingSelection | null => {
+  const { headers } = normalizeMappingTable(table, template.firstRowIsHeader);
+  const [timeColumnIndex = null] = template.time ? findColumns(template.time, headers) : [];
+  const [experimentColumnIndex = null] = template.experiment
+    ? findColumns(template.experiment, headers)
+    : [];
+  if (
+    (template.time && timeColumnIndex === null) ||
+    (template.experiment && experimentColumnIndex === null)
+  ) {
+    return null;
+  }
+
+  const valueColumnIndices: number[] = [];
+  const pairedTimeColumns: Record<number, number> = {};
+  const columnExperiments: Record<number, string> = {};
+  for (const value of template.values) {
+    const columns = findColumns(value.column, headers).filter(
+      (index) =>
+        index !== timeColumnIndex &&
+        index !== experimentColumnIndex &&
+        !valueColumnIndices.includes(index)
+    );
+    if (columns.length === 0) {
+      return null;
+    }
+    const timeColumns = value.time ? findColumns(value.time, headers) : [];
+    if (value.time && timeColumns.length === 0) {
+      return null;
+    }
+    columns.forEach((index) => {
+      valueColumnIndices.push(index);
+      // A time pattern matching several columns pairs each value with the nearest one on its left.
+      const pairedTime =
+        timeColumns.filter((timeIndex) => timeIndex < index).pop() ?? timeColumns[0];
+      if (pairedTime !== undefined) {
+        pairedTimeColumns[index] = pairedTime;
+      }
+      if (value.experiment) {
+        columnExperiments[index] = value.experiment;
+      }
+    });
+  }
+  if (valueColumnIndices.length === 0) {
+    return null;
+  }
+
+  return {
+    firstRowIsHeader: template.firstRowIsHeader,
+    timeColumnIndex,
+    valueColumnIndices,
+    experimentColumnIndex,
+    ...(template.layout === "paired" ? { layout: "paired" as const, pairedTimeColumns } : {}),
+    ...(Object.keys(columnExperiments).length > 0 ? { columnExperiments } : {}),
+    ...(template.timeUnit ? { timeUnit: template.timeUnit } : {}),
+    ...(template.valueUnit ? { valueUnit: template.valueUnit } : {}),
+    ...(template.timeFormat ? { timeFormat: template.timeFormat } : {})
+  };
+};
+
+/**
+ * The template that fits the table best: it must resolve completely; templates made
+ * for the same file type win, then the one covering more columns, then the newest.
+ */
+export const suggestMappingTemplate = (
+  templates: MappingTemplate[],
+  table: RawTable,
+  fileType: string | null
+): MappingTemplate | null => {
+  const candidates = templates.flatMap((template) => {
+    const selection = resolveMappingTemplate(template, table);
+    return selection ? [{ template, selection }] : [];
+  });
+  const coverage = (selection: MappingSelection) =>
+    selection.valueColumnIndices.length + (selection.experimentColumnIndex === null ? 0 : 1);
+  candidates.sort(
+    (a, b) =>
+      Number(b.template.fileType === fileType) - Number(a.template.fileType === fileType) ||
+      coverage(b.selection) - coverage(a.selection) ||
+      b.template.createdAt.localeCompare(a.template.createdAt)
+  );
+  return candidates[0]?.template ?? null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown): string | null => (typeof value === "string" ? value : null);
+
+const readTemplate = (value: unknown): MappingTemplate | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    typeof value.name !== "string" ||
+    !Array.isArray(value.values)
+  ) {
+    return null;
+  }
+  const values = value.values.flatMap((entry): TemplateValueColumn[] =>
+    isRecord(entry) && typeof entry.column === "string"
+      ? [
+          {
+            column: entry.column,
+            ...(typeof entry.time === "string" ? { time: entry.time } : {}),
+            ...(typeof entry.experiment === "string" ? { experiment: entry.experiment } : {})
+          }
+        ]
+      : []
+  );
+  return {
+    id: value.id,
+    name: value.name,
+    createdAt: readString(value.createdAt) ?? new Date(0).toISOString(),
+    fileType: readString(value.fileType),
+    firstRowIsHeader: value.firstRowIsHeader !== false,
+    time: readString(value.time),
+    values,
+    experiment: readString(value.experiment),
+    layout: value.layout === "paired" ? "paired" : "long",
+    timeUnit: readString(value.timeUnit),
+    valueUnit: readString(value.valueUnit),
+    timeFormat: TIMESTAMP_FORMATS.find((format) => format === value.timeFormat) ?? null
+  };
+};
+
+/** Templates saved in this browser; [] where localStorage is unavailable or unreadable. */
+export const loadMappingTemplates = (): MappingTemplate[] => {
+  if (typeof localStorage === "undefined") {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed)
+      ? parsed.flatMap((entry) => {
+          const template = readTemplate(entry);
+          return template ? [template] : [];
+        })
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveMappingTemplates = (templates: MappingTemplate[]) => {
+  if (typeof localStorage !== "undefined") {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  }
+};
@@ -1,91 +1,189 @@
+import { coerceCsvCell, detectCsvEncoding, sniffCsvDialect, type CsvDialect } from "./csvDialect";
+import { detectTables } from "./tableLayout";
 import type { RawTable } from "./types";
 
-const numericPattern = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
-
-const sanitizeText = (text: string): string =>
-  text
-    .replace(/^\uFEFF/, "")
-    .replace(/\\r\\n/g, "\n")
-    .replace(/\\r/g, "\n")
-    .replace(/\\n/g, "\n")
-    .replace(/\r\n/g, "\n")
-    .replace(/\r/g, "\n");
-
-const detectDelimiter = (headerLine: string): string => {
-  const commaCount = (headerLine.match(/,/g) ?? []).length;
-  const semicolonCount = (headerLine.match(/;/g) ?? []).length;
-  return semicolonCount > commaCount ? ";" : ",";
+export type CsvParseResult = {
+  /** One table per data block found in the file; usually exactly one. */
+  tables: RawTable[];
+  dialect: CsvDialect;
 };
 
-const parseDelimitedLine = (line: string, delimiter: string): string[] => {
-  const result: string[] = [];
-  let current = "";
+export type CsvParseProgress = {
+  loadedBytes: number;
+  totalBytes: number;
+};
+
+// Enough text to see the header and a few dozen records when sniffing.
+const SNIFF_BYTES = 64 * 1024;
+
+/**
+ * Text pasted from logs sometimes carries escaped line breaks ("\n" as two characters).
+ * They are only decoded when the text has no real line break at all.
+ */
+const decodeEscapedLineBreaks = (text: string): string =>
+  /[\r\n]/.test(text)
+    ? text
+    : text
+        .replace(/\\r\\n/g, "\n")
+        .replace(/\\r/g, "\n")
+        .replace(/\\n/g, "\n");
+
+/**
+ * Incremental RFC 4180 tokenizer: text can be pushed in arbitrary chunks, quoted
+ * fields may contain delimiters, doubled quotes and line breaks.
+ */
+const createCsvTokenizer = (dialect: CsvDialect, onRecord: (record: string[]) => void) => {
+  const { delimiter, quote } = dialect;
+  let record: string[] = [];
+  let field = "";
   let inQuotes = false;
+  let quoteInQuotes = false;
+  let afterCarriageReturn = false;
 
-  for (let index = 0; index < line.length; index += 1) {
-    const char = line[index];
-    if (char === '"') {
-      const nextChar = line[index + 1];
-      if (inQuotes && nextChar === '"') {
-        current += '"';
-        index += 1;
+  const endRecord = () => {
+    record.push(field);
+    field = "";
+    onRecord(record);
+    record = [];
+  };
+
+  const push = (chunk: string) => {
+    for (let index = 0; index < chunk.length; index += 1) {
+      const char = chunk[index];
+      if (afterCarriageReturn) {
+        afterCarriageReturn = false;
+        if (char === "\n") {
+          continue;
+        }
+      }
+      if (inQuotes) {
+        if (quoteInQuotes) {
+          quoteInQuotes = false;
+          if (char === quote) {
+            field += quote;
+            continue;
+          }
+          inQuotes = false;
+        } else if (char === quote) {
+          quoteInQuotes = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+      if (char === quote) {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = "";
+      } else if (char === "\n") {
+        endRecord();
+      } else if (char === "\r") {
+        endRecord();
+        afterCarriageReturn = true;
       } else {
-        inQuotes = !inQuotes;
+        field += char;
       }
-      continue;
     }
+  };
 
-    if (char === delimiter && !inQuotes) {
-      result.push(current);
-      current = "";
-      continue;
+  const end = () => {
+    if (field.length > 0 || record.length > 0) {
+      endRecord();
     }
+  };
 
-    current += char;
-  }
-
-  result.push(current);
-  return result;
+  return { push, end };
 };
 
-const coerceCell = (value: string): string | number | null => {
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return null;
-  }
-  if (numericPattern.test(trimmed)) {
-    const parsed = Number(trimmed);
-    if (!Number.isNaN(parsed)) {
-      return parsed;
+/** Collects tokenized records into a grid and finds the table block(s) in it. */
+const createTableBuilder = (dialect: CsvDialect) => {
+  const grid: RawTable["rows"] = [];
+  const addRecord = (record: string[]) => {
+    grid.push(record.map((cell) => coerceCsvCell(cell, dialect)));
+  };
+  const build = (): RawTable[] => {
+    if (grid.length === 0) {
+      throw new Error("CSV appears to be empty.");
     }
-  }
-  return trimmed;
+    return detectTables(grid);
+  };
+  return { addRecord, build };
+};
+
+const parseCsvTables = (text: string, dialect: CsvDialect): RawTable[] => {
+  const builder = createTableBuilder(dialect);
+  const tokenizer = createCsvTokenizer(dialect, builder.addRecord);
+  tokenizer.push(text);
+  tokenizer.end();
+  return builder.build();
+};
+
+/** Parses CSV text and returns its first table. */
+export const parseCsvText = (text: string, dialect?: CsvDialect): RawTable => {
+  const sanitized = decodeEscapedLineBreaks(text.replace(/^\uFEFF/, ""));
+  const resolved = dialect ?? sniffCsvDialect(sanitized.slice(0, SNIFF_BYTES));
+  return parseCsvTables(sanitized, resolved)[0];
+};
+
+/** Decodes raw file bytes (any supported encoding) and parses them in one go. */
+export const parseCsvBytes = (bytes: Uint8Array): CsvParseResult => {
+  const encoding = detectCsvEncoding(bytes);
+  const text = decodeEscapedLineBreaks(new TextDecoder(encoding).decode(bytes));
+  const dialect = sniffCsvDialect(text.slice(0, SNIFF_BYTES), encoding);
+  return { tables: parseCsvTables(text, dialect), dialect };
 };
 
-const buildHeaders = (rawHeaders: string[]): string[] =>
-  rawHeaders.map((header, index) => {
-    const trimmed = header.trim();
-    return trimmed ? trimmed : `Column ${index + 1}`;
-  });
-
-export const parseCsvText = (text: string): RawTable => {
-  const sanitized = sanitizeText(text);
-  const lines = sanitized.split("\n").filter((line) => line.trim().length > 0);
-  if (lines.length === 0) {
-    throw new Error("CSV appears to be empty.");
+/**
+ * Parses a CSV byte stream chunk by chunk so large files never exist as one string.
+ * Encoding and dialect are sniffed from the first 64 KB.
+ */
+export const parseCsvStream = async (
+  stream: ReadableStream<Uint8Array>,
+  {
+    totalBytes,
+    onProgress
+  }: { totalBytes: number; onProgress?: (progress: CsvParseProgress) => void }
+): Promise<CsvParseResult> => {
+  const reader = stream.getReader();
+  const head: Uint8Array[] = [];
+  let loadedBytes = 0;
+  let done = false;
+
+  while (!done && loadedBytes < SNIFF_BYTES) {
+    const next = await reader.read();
+    done = next.done;
+    if (next.value) {
+      head.push(next.value);
+      loadedBytes += next.value.length;
+    }
   }
+  const headBytes = new Uint8Array(loadedBytes);
+  head.reduce((offset, chunk) => {
+    headBytes.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
 
-  const delimiter = detectDelimiter(lines[0]);
-  const rawHeaders = parseDelimitedLine(lines[0], delimiter);
-  const headers = buildHeaders(rawHeaders);
-  const rows = lines.slice(1).map((line) => {
-    const rawValues = parseDelimitedLine(line, delimiter);
-    const normalized = headers.map((_, index) => rawValues[index] ?? "");
-    return normalized.map(coerceCell);
-  });
-
-  return {
-    headers,
-    rows
-  };
+  const encoding = detectCsvEncoding(headBytes);
+  const decoder = new TextDecoder(encoding);
+  const headText = decoder.decode(headBytes, { stream: !done });
+  const dialect = sniffCsvDialect(headText.slice(0, SNIFF_BYTES), encoding);
+  const builder = createTableBuilder(dialect);
+  const tokenizer = createCsvTokenizer(dialect, builder.addRecord);
+  tokenizer.push(headText);
+  onProgress?.({ loadedBytes, totalBytes });
+
+  while (!done) {
+    const next = await reader.read();
+    done = next.done;
+    if (next.value) {
+      loadedBytes += next.value.length;
+      tokenizer.push(decoder.decode(next.value, { stream: true }));
+      onProgress?.({ loadedBytes, totalBytes });
+    }
+  }
+  tokenizer.push(decoder.decode());
+  tokenizer.end();
+  return { tables: builder.build(), dialect };
 };
@@ -1,27 +1,71 @@
-import { parseCsvText } from "./parseCsv";
+import { detectCsvEncoding, type CsvDialect } from "./csvDialect";
+import { parseCsvFile } from "./csvParseClient";
+import type { CsvParseProgress } from "./parseCsv";
+import { findInstrumentImporter, getImporterExtensions } from "./importers";
 import { parseXlsxBuffer } from "./parseXlsx";
 import type { RawTable } from "./types";
 
 export type ParseFileResult = {
   rawTables: RawTable[];
   activeTable: RawTable;
-  fileType: "csv" | "xlsx";
+  /** "csv", "xlsx" or the id of the instrument importer that read the file. */
+  fileType: string;
+  /** Display name of the instrument format, null for plain CSV and XLSX. */
+  importerLabel: string | null;
   sheetNames: string[];
+  /** Detected dialect of CSV uploads, null for spreadsheets. */
+  csvDialect: CsvDialect | null;
 };
 
-const fileExtension = (name: string): string =>
-  name.split(".").pop()?.toLowerCase() ?? "";
+export const MAX_FILE_BYTES = 50 * 1024 * 1024;
 
-export const parseFile = async (file: File): Promise<ParseFileResult> => {
+const CSV_EXTENSIONS = ["csv", "tsv", "txt"];
+
+// Instrument detection only looks at the start of a file.
+const HEAD_BYTES = 64 * 1024;
+
+const readHead = async (file: File) => {
+  const bytes = new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer());
+  const encoding = detectCsvEncoding(bytes);
+  return { encoding, text: new TextDecoder(encoding).decode(bytes, { stream: true }) };
+};
+
+const fileExtension = (name: string): string => name.split(".").pop()?.toLowerCase() ?? "";
+
+export const parseFile = async (
+  file: File,
+  { onProgress }: { onProgress?: (progress: CsvParseProgress) => void } = {}
+): Promise<ParseFileResult> => {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error("The file is larger than 50 MB.");
+  }
   const extension = fileExtension(file.name);
-  if (extension === "csv") {
-    const text = await file.text();
-    const table = parseCsvText(text);
+  if (getImporterExtensions().includes(extension)) {
+    const head = await readHead(file);
+    const importer = findInstrumentImporter(head.text, file.name);
+    if (importer) {
+      const text = new TextDecoder(head.encoding).decode(await file.arrayBuffer());
+      const tables = importer.parse(text, file.name);
+      return {
+        rawTables: tables,
+        activeTable: tables[0],
+        fileType: importer.id,
+        importerLabel: importer.label,
+        sheetNames: tables.length > 1 ? tables.map((table) => table.sheetName ?? "Block") : [],
+        csvDialect: null
+      };
+    }
+  }
+
+  if (CSV_EXTENSIONS.includes(extension)) {
+    const { tables, dialect } = await parseCsvFile(file, onProgress);
     return {
-      rawTables: [table],
-      activeTable: table,
+      rawTables: tables,
+      activeTable: tables[0],
       fileType: "csv",
-      sheetNames: []
+      importerLabel: null,
+      sheetNames: tables.length > 1 ? tables.map((table) => table.sheetName ?? "Block") : [],
+      csvDialect: dialect
     };
   }
 
@@ -35,9 +79,13 @@ export const parseFile = async (file: File): Promise<ParseFileResult> => {
       rawTables: tables,
       activeTable: tables[0],
       fileType: "xlsx",
-      sheetNames: tables.map((table) => table.sheetName ?? "Sheet")
+      importerLabel: null,
+      sheetNames: tables.map((table) => table.sheetName ?? "Sheet"),
+      csvDialect: null
     };
   }
 
-  throw new Error("Unsupported file type. Please upload a .csv or .xlsx file.");
+  throw new Error(
+    "Unsupported file type. Please upload a .csv, .tsv, .txt or .xlsx file or a supported instrument export."
+  );
 };
@@ -1,4 +1,6 @@
 import * as XLSX from "xlsx";
+import { detectTables } from "./tableLayout";
+import { excelSerialToDuration, excelSerialToIso } from "./timestamp";
 import type { RawTable } from "./types";
 
 const normalizeCell = (value: unknown): string | number | null => {
@@ -17,35 +19,66 @@ const normalizeCell = (value: unknown): string | number | null => {
   return String(value);
 };
 
-const buildHeaders = (rawHeaders: unknown[]): string[] =>
-  rawHeaders.map((header, index) => {
-    const label = normalizeCell(header);
-    if (label === null || label === "") {
-      return `Column ${index + 1}`;
+// Number formats with quoted text, escapes and [Red]/[$-409] sections removed.
+const stripFormatLiterals = (format: string): string =>
+  format
+    .replace(/"[^"]*"/g, "")
+    .replace(/\\./g, "")
+    .replace(/\[(?![hms]+\])[^\]]*\]/gi, "");
+
+/**
+ * Date-formatted cells arrive as serial day numbers. They are rewritten as ISO
+ * timestamps, pure time formats (hh:mm:ss, [h]:mm) as durations.
+ */
+const convertDateCells = (sheet: XLSX.WorkSheet) => {
+  Object.keys(sheet)
+    .filter((address) => !address.startsWith("!"))
+    .forEach((address) => {
+      const cell = sheet[address] as XLSX.CellObject;
+      if (cell.t !== "n" || typeof cell.v !== "number" || typeof cell.z !== "string") {
+        return;
+      }
+      const format = stripFormatLiterals(cell.z);
+      if (!/[dmyhs]/i.test(format) || /general/i.test(format)) {
+        return;
+      }
+      const value = /[dy]/i.test(format) ? excelSerialToIso(cell.v) : excelSerialToDuration(cell.v);
+      sheet[address] = { t: "s", v: value };
+    });
+};
+
+/** Copies the value of merged cells into every cell they cover. */
+const fillMergedCells = (sheet: XLSX.WorkSheet) => {
+  (sheet["!merges"] ?? []).forEach((merge) => {
+    const origin = sheet[XLSX.utils.encode_cell(merge.s)] as XLSX.CellObject | undefined;
+    if (!origin) {
+      return;
+    }
+    for (let r = merge.s.r; r <= merge.e.r; r += 1) {
+      for (let c = merge.s.c; c <= merge.e.c; c += 1) {
+        sheet[XLSX.utils.encode_cell({ r, c })] = { ...origin };
+      }
     }
-    return String(label);
   });
+};
 
+/** Reads every sheet; a sheet with several data blocks yields one table per block. */
 export const parseXlsxBuffer = (buffer: ArrayBuffer): RawTable[] => {
-  const workbook = XLSX.read(buffer, { type: "array" });
-  return workbook.SheetNames.map((sheetName) => {
+  const workbook = XLSX.read(buffer, { type: "array", cellNF: true });
+  return workbook.SheetNames.flatMap((sheetName) => {
     const sheet = workbook.Sheets[sheetName];
-    const rows = XLSX.utils.sheet_to_json(sheet, {
-      header: 1,
-      blankrows: false
-    }) as unknown[][];
-
-    const rawHeaders = rows[0] ?? [];
-    const headers = buildHeaders(rawHeaders);
-    const dataRows = rows.slice(1).map((row) => {
-      const normalized = headers.map((_, index) => normalizeCell(row[index]));
-      return normalized.map((cell) => cell ?? null);
-    });
-
-    return {
-      sheetName,
-      headers,
-      rows: dataRows
-    };
+    convertDateCells(sheet);
+    fillMergedCells(sheet);
+    const used = sheet["!ref"] ? XLSX.utils.decode_range(sheet["!ref"]) : null;
+    // Read from A1 so grid positions match the sheet's own row and column numbers.
+    const rows = used
+      ? (XLSX.utils.sheet_to_json(sheet, {
+          header: 1,
+          blankrows: true,
+          range: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: used.e })
+        }) as unknown[][])
+      : [];
+    const grid = rows.map((row) => Array.from(row ?? [], normalizeCell));
+    return detectTables(grid, { sheetName });
   });
 };
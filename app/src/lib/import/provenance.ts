@@ -0,0 +1,239 @@
+import type { Series } from "./types";
+
+export type DropReason =
+  "empty-value" | "non-numeric" | "outlier-excluded" | "user-excluded" | "merged-duplicate";
+
+export const DROP_REASONS: DropReason[] = [
+  "empty-value",
+  "non-numeric",
+  "outlier-excluded",
+  "user-excluded",
+  "merged-duplicate"
+];
+
+export const DROP_REASON_LABELS: Record<DropReason, string> = {
+  "empty-value": "leerer Wert",
+  "non-numeric": "nicht numerisch",
+  "outlier-excluded": "als Ausreißer ausgeschlossen",
+  "user-excluded": "manuell ausgeschlossen",
+  "merged-duplicate": "mit gleichem Zeitpunkt gemittelt"
+};
+
+/**
+ * A raw row that did not become a point of its series. Exclusions keep the parsed
+ * time and value so the point can be restored.
+ */
+export type DroppedRow = {
+  /** 0-based row on the source sheet, null when the series was not imported from a table. */
+  rowIndex: number | null;
+  reason: DropReason;
+  /** Header of the cell that caused the drop. */
+  column: string | null;
+  raw: string | number | null;
+  time?: number;
+  y?: number;
+};
+
+export type ExclusionReason = Extract<DropReason, "outlier-excluded" | "user-excluded">;
+
+/** Identifies a point across re-imports: by source row where known, else by time and value. */
+export type PointRef = {
+  rowIndex: number | null;
+  time: number;
+  y: number;
+};
+
+/** An exclusion decision as recorded in the audit log and replayed from it. */
+export type PointChange =
+  | { action: "exclude"; reason: ExclusionReason; points: PointRef[] }
+  | { action: "include"; points: PointRef[] };
+
+export type SeriesSource = {
+  file: string | null;
+  sheet: string | null;
+};
+
+const isDropReason = (value: unknown): value is DropReason =>
+  DROP_REASONS.some((reason) => reason === value);
+
+const readCell = (value: unknown): string | number | null =>
+  typeof value === "string" || typeof value === "number" ? value : null;
+
+/** Source row of every point, or null when the series carries none or they no longer line up. */
+export const getSourceRows = (series: Series): (number | null)[] | null => {
+  const raw = series.meta?.sourceRows;
+  if (!Array.isArray(raw) || raw.length !== series.time.length) {
+    return null;
+  }
+  return raw.map((value) => (typeof value === "number" ? value : null));
+};
+
+export const getDroppedRows = (series: Series): DroppedRow[] => {
+  const raw = series.meta?.droppedRows;
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.flatMap((entry): DroppedRow[] => {
+    if (typeof entry !== "object" || entry === null || !isDropReason(entry.reason)) {
+      return [];
+    }
+    return [
+      {
+        rowIndex: typeof entry.rowIndex === "number" ? entry.rowIndex : null,
+        reason: entry.reason,
+        column: typeof entry.column === "string" ? entry.column : null,
+        raw: readCell(entry.raw),
+        ...(typeof entry.time === "number" ? { time: entry.time } : {}),
+        ...(typeof entry.y === "number" ? { y: entry.y } : {})
+      }
+    ];
+  });
+};
+
+/** Dropped rows, falling back to the plain droppedPoints count of older datasets. */
+export const getDroppedPointCount = (series: Series): number => {
+  if (Array.isArray(series.meta?.droppedRows)) {
+    return getDroppedRows(series).length;
+  }
+  const raw = series.meta?.droppedPoints;
+  return typeof raw === "number" && !Number.isNaN(raw) ? raw : 0;
+};
+
+export const getSeriesSource = (series: Series): SeriesSource => ({
+  file: typeof series.meta?.sourceFile === "string" ? series.meta.sourceFile : null,
+  sheet: typeof series.meta?.sourceSheet === "string" ? series.meta.sourceSheet : null
+});
+
+export const countDropReasons = (rows: DroppedRow[]): Record<DropReason, number> => {
+  const counts = Object.fromEntries(DROP_REASONS.map((reason) => [reason, 0])) as Record<
+    DropReason,
+    number
+  >;
+  rows.forEach((row) => {
+    counts[row.reason] += 1;
+  });
+  return counts;
+};
+
+/** "Zeile 12 · A · nicht numerisch („n/a“)"; rows are counted from 1 like in a spreadsheet. */
+export const formatDroppedRow = (row: DroppedRow): string =>
+  [
+    row.rowIndex === null ? "ohne Zeile" : `Zeile ${row.rowIndex + 1}`,
+    ...(row.column ? [row.column] : []),
+    row.raw === null || row.raw === ""
+      ? DROP_REASON_LABELS[row.reason]
+      : `${DROP_REASON_LABELS[row.reason]} („${row.raw}“)`
+  ].join(" · ");
+
+/**
+ * Moves points out of a series into its dropped rows, keeping time, value and source
+ * row so the exclusion can be reported and undone.
+ */
+export const excludeSeriesPoints = (
+  series: Series,
+  pointIndices: number[],
+  reason: ExclusionReason
+): Series => {
+  const excluded = new Set(pointIndices);
+  const sourceRows = getSourceRows(series);
+  const keep = series.time.map((_, index) => !excluded.has(index));
+  const droppedRows: DroppedRow[] = series.time.flatMap((time, index) =>
+    keep[index]
+      ? []
+      : [
+          {
+            rowIndex: sourceRows?.[index] ?? null,
+            reason,
+            column: series.name,
+            raw: series.y[index],
+            time,
+            y: series.y[index]
+          }
+        ]
+  );
+  const allDropped = [...getDroppedRows(series), ...droppedRows];
+  return {
+    ...series,
+    time: series.time.filter((_, index) => keep[index]),
+    y: series.y.filter((_, index) => keep[index]),
+    meta: {
+      ...series.meta,
+      ...(sourceRows ? { sourceRows: sourceRows.filter((_, index) => keep[index]) } : {}),
+      droppedRows: allDropped,
+      droppedPoints: allDropped.length
+    }
+  };
+};
+
+const matchesRef = (ref: PointRef, point: PointRef): boolean =>
+  ref.rowIndex !== null && point.rowIndex !== null
+    ? ref.rowIndex === point.rowIndex
+    : ref.time === point.time && ref.y === point.y;
+
+export const getPointRefs = (series: Series, pointIndices: number[]): PointRef[] => {
+  const sourceRows = getSourceRows(series);
+  return pointIndices
+    .filter((index) => index >= 0 && index < series.time.length)
+    .map((index) => ({
+      rowIndex: sourceRows?.[index] ?? null,
+      time: series.time[index],
+      y: series.y[index]
+    }));
+};
+
+export const findPointIndices = (series: Series, refs: PointRef[]): number[] => {
+  const sourceRows = getSourceRows(series);
+  return series.time.flatMap((time, index) => {
+    const point = { rowIndex: sourceRows?.[index] ?? null, time, y: series.y[index] };
+    return refs.some((ref) => matchesRef(ref, point)) ? [index] : [];
+  });
+};
+
+/**
+ * Puts excluded points back. Existing points keep their order; a restored point goes
+ * before the first point from a later source row, or a later time where rows are unknown.
+ */
+export const includeSeriesPoints = (series: Series, refs: PointRef[]): Series => {
+  const dropped = getDroppedRows(series);
+  const restored = dropped.filter(
+    (row) =>
+      row.time !== undefined &&
+      row.y !== undefined &&
+      refs.some((ref) => matchesRef(ref, { rowIndex: row.rowIndex, time: row.time!, y: row.y! }))
+  );
+  if (restored.length === 0) {
+    return series;
+  }
+  const sourceRows = getSourceRows(series);
+  const points: PointRef[] = series.time.map((time, index) => ({
+    rowIndex: sourceRows?.[index] ?? null,
+    time,
+    y: series.y[index]
+  }));
+  restored.forEach((row) => {
+    const point = { rowIndex: row.rowIndex, time: row.time!, y: row.y! };
+    const position = points.findIndex((other) =>
+      point.rowIndex !== null && other.rowIndex !== null
+        ? other.rowIndex > point.rowIndex
+        : other.time > point.time
+    );
+    points.splice(position === -1 ? points.length : position, 0, point);
+  });
+  const remaining = dropped.filter((row) => !restored.includes(row));
+  return {
+    ...series,
+    time: points.map((point) => point.time),
+    y: points.map((point) => point.y),
+    meta: {
+      ...series.meta,
+      ...(sourceRows ? { sourceRows: points.map((point) => point.rowIndex) } : {}),
+      droppedRows: remaining,
+      droppedPoints: remaining.length
+    }
+  };
+};
+
+export const applyPointChange = (series: Series, change: PointChange): Series =>
+  change.action === "exclude"
+    ? excludeSeriesPoints(series, findPointIndices(series, change.points), change.reason)
+    : includeSeriesPoints(series, change.points);
@@ -0,0 +1,24 @@
+import type { Series } from "./types";
+
+/** What a series measures in the reaction; drives the kinetic plausibility checks. */
+export type SeriesRole = "reactant" | "product";
+
+export const SERIES_ROLES: SeriesRole[] = ["reactant", "product"];
+
+export const SERIES_ROLE_LABELS: Record<SeriesRole, string> = {
+  reactant: "Edukt",
+  product: "Produkt"
+};
+
+export const isSeriesRole = (value: unknown): value is SeriesRole =>
+  SERIES_ROLES.some((role) => role === value);
+
+export const getSeriesRole = (series: Series): SeriesRole | null =>
+  isSeriesRole(series.meta?.role) ? series.meta.role : null;
+
+/** Declares (or with null clears) the role; time and values stay untouched. */
+export const setSeriesRole = (series: Series, role: SeriesRole | null): Series => {
+  const meta = { ...series.meta };
+  delete meta.role;
+  return { ...series, meta: role ? { ...meta, role } : meta };
+};
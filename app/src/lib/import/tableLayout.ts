@@ -0,0 +1,346 @@
+import { parseNumericCell } from "./mapping";
+import { TIMESTAMP_FORMATS, parseTimestamp } from "./timestamp";
+import type { RawTable, TableLayout } from "./types";
+import { parseUnit } from "../units/units";
+
+type Cell = string | number | null;
+
+type Segment = { top: number; bottom: number; left: number; right: number };
+
+type TableBlock = Segment & Omit<TableLayout, "range">;
+
+// Header rows are searched near the top of a block only.
+const HEADER_SEARCH_ROWS = 50;
+const MAX_EXTRA_HEADER_ROWS = 2;
+
+const OTHER_UNITS =
+  /^(°C|K|%|a\.?\s?u\.?|AU|mAU|nm|cm-1|cm⁻¹|bar|mbar|rpm|mL|ml|L|g|mg|mol|mmol|pH|-)$/i;
+
+const TEXT_TIMESTAMP_FORMATS = TIMESTAMP_FORMATS.filter(
+  (format) => format !== "numeric" && format !== "excel-serial"
+);
+
+const isEmpty = (cell: Cell | undefined): boolean =>
+  cell === null || cell === undefined || (typeof cell === "string" && cell.trim() === "");
+
+const isDataCell = (cell: Cell): boolean =>
+  typeof cell === "number" ||
+  parseNumericCell(cell) !== null ||
+  TEXT_TIMESTAMP_FORMATS.some((format) => parseTimestamp(cell, format) !== null);
+
+const stripBrackets = (text: string): string =>
+  text
+    .trim()
+    .replace(/^[[(](.*)[\])]$/, "$1")
+    .trim();
+
+const isUnitCell = (cell: Cell): boolean => {
+  if (typeof cell !== "string") {
+    return false;
+  }
+  const text = stripBrackets(cell);
+  return parseUnit(text) !== null || OTHER_UNITS.test(text);
+};
+
+export const toColumnLetter = (index: number): string => {
+  let letters = "";
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const digit = (remaining - 1) % 26;
+    letters = String.fromCharCode(65 + digit) + letters;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return letters;
+};
+
+const cellsOf = (grid: Cell[][], row: number, left: number, right: number): Cell[] =>
+  Array.from({ length: right - left + 1 }, (_, offset) => grid[row]?.[left + offset] ?? null);
+
+const filledCells = (cells: Cell[]): Cell[] => cells.filter((cell) => !isEmpty(cell));
+
+const isDataRow = (cells: Cell[]): boolean => {
+  const filled = filledCells(cells);
+  return filled.length > 0 && filled.filter(isDataCell).length * 2 >= filled.length;
+};
+
+const isUnitsRow = (cells: Cell[]): boolean => {
+  const filled = filledCells(cells);
+  return filled.length > 0 && filled.every(isUnitCell);
+};
+
+/** Maximal runs of columns that hold at least one value anywhere in the grid. */
+const findColumnRanges = (grid: Cell[][]): [number, number][] => {
+  const width = grid.reduce((max, row) => Math.max(max, row.length), 0);
+  const used = Array.from({ length: width }, (_, column) =>
+    grid.some((row) => !isEmpty(row[column]))
+  );
+  const ranges: [number, number][] = [];
+  used.forEach((isUsed, column) => {
+    if (!isUsed) {
+      return;
+    }
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === column - 1) {
+      last[1] = column;
+    } else {
+      ranges.push([column, column]);
+    }
+  });
+  return ranges;
+};
+
+/** Splits a column range at rows that are empty within it. */
+const findSegments = (grid: Cell[][], left: number, right: number): Segment[] => {
+  const segments: Segment[] = [];
+  let top: number | null = null;
+  grid.forEach((_, row) => {
+    const empty = filledCells(cellsOf(grid, row, left, right)).length === 0;
+    if (!empty && top === null) {
+      top = row;
+    }
+    if (empty && top !== null) {
+      segments.push({ top, bottom: row - 1, left, right });
+      top = null;
+    }
+  });
+  if (top !== null) {
+    segments.push({ top, bottom: grid.length - 1, left, right });
+  }
+  return segments;
+};
+
+/** Merged XLSX cells arrive as the same text in every covered cell; keep it once. */
+const collapseMergedText = (cells: Cell[]): Cell[] =>
+  cells.map((cell, index) =>
+    index > 0 && typeof cell === "string" && !isEmpty(cell) && cell === cells[index - 1]
+      ? null
+      : cell
+  );
+
+/**
+ * A title or a "key | value" note rather than a header: one or two cells at the
+ * left edge of a wider block.
+ */
+const isNoteRow = (cells: Cell[]): boolean => {
+  const filledIndices = collapseMergedText(cells).flatMap((cell, index) =>
+    isEmpty(cell) ? [] : [index]
+  );
+  return (
+    cells.length > 2 &&
+    filledIndices.length > 0 &&
+    filledIndices.length <= 2 &&
+    filledIndices.every((index, position) => index === position)
+  );
+};
+
+const analyseSegment = (grid: Cell[][], segment: Segment): TableBlock | null => {
+  const { top, bottom, left, right } = segment;
+  const rowCells = (row: number) => cellsOf(grid, row, left, right);
+  const searchEnd = Math.min(bottom, top + HEADER_SEARCH_ROWS);
+  let firstDataRow: number | null = null;
+  for (let row = top; row < searchEnd; row += 1) {
+    if (isDataRow(rowCells(row)) && isDataRow(rowCells(row + 1))) {
+      firstDataRow = row;
+      break;
+    }
+  }
+  const labelsOnly = Array.from(
+    { length: bottom - top + 1 },
+    (_, offset) => rowCells(top + offset)[0]
+  ).every((cell) => typeof cell === "string" && !isDataCell(cell));
+  // Two columns of "key | value" pairs are notes, not a table.
+  if (firstDataRow === null || (right - left === 1 && labelsOnly)) {
+    return null;
+  }
+  // Columns that are numeric in the first data rows decide whether a row above
+  // is data with text annotations or a header row.
+  const startRow = firstDataRow;
+  const numericColumns = rowCells(startRow).flatMap((cell, index) =>
+    isDataCell(cell) && isDataCell(rowCells(startRow + 1)[index]) ? [index] : []
+  );
+  const parsesAsData = (cells: Cell[]) =>
+    numericColumns.length > 0 && numericColumns.every((index) => isDataCell(cells[index]));
+  const hasNumericCell = (cells: Cell[]) =>
+    numericColumns.some((index) => !isEmpty(cells[index]) && isDataCell(cells[index]));
+  while (firstDataRow - 1 >= top && parsesAsData(rowCells(firstDataRow - 1))) {
+    firstDataRow -= 1;
+  }
+  const unitsRow =
+    firstDataRow - 1 >= top && isUnitsRow(rowCells(firstDataRow - 1)) ? firstDataRow - 1 : null;
+  const headerRow = (unitsRow ?? firstDataRow) - 1;
+  if (headerRow < top) {
+    return { ...segment, headerRows: [], unitsRow, firstDataRow };
+  }
+  const headerRows = [headerRow];
+  for (
+    let row = headerRow - 1;
+    row >= top &&
+    headerRows.length <= MAX_EXTRA_HEADER_ROWS &&
+    !isNoteRow(rowCells(row)) &&
+    !hasNumericCell(rowCells(row));
+    row -= 1
+  ) {
+    headerRows.unshift(row);
+  }
+  return { ...segment, headerRows, unitsRow, firstDataRow };
+};
+
+/** Fills the blanks right of a header cell, which is how merged cells arrive in CSV. */
+const forwardFill = (cells: Cell[]): string[] => {
+  let last = "";
+  return cells.map((cell) => {
+    if (!isEmpty(cell)) {
+      last = String(cell).trim();
+    }
+    return last;
+  });
+};
+
+const buildHeaders = (grid: Cell[][], block: TableBlock): string[] => {
+  const width = block.right - block.left + 1;
+  const [mainRow] = block.headerRows.slice(-1);
+  const upperRows = block.headerRows
+    .slice(0, -1)
+    .map((row) => forwardFill(cellsOf(grid, row, block.left, block.right)));
+  const main = mainRow === undefined ? [] : cellsOf(grid, mainRow, block.left, block.right);
+  const units =
+    block.unitsRow === null ? [] : cellsOf(grid, block.unitsRow, block.left, block.right);
+  return Array.from({ length: width }, (_, index) => {
+    const parts = [
+      ...upperRows.map((cells) => cells[index]),
+      isEmpty(main[index]) ? "" : String(main[index]).trim()
+    ].filter((part, position, all) => part && all.indexOf(part) === position);
+    const name = parts.join(" · ") || `Column ${index + 1}`;
+    const unit = units[index];
+    return isEmpty(unit) || /[[(].*[\])]/.test(name)
+      ? name
+      : `${name} [${stripBrackets(String(unit))}]`;
+  });
+};
+
+/** A single cell is read as the title, two or more as "key | value". */
+const readNote = (
+  grid: Cell[][],
+  { row, left, right }: { row: number; left: number; right: number }
+): [string, Cell] | null => {
+  const filled = filledCells(collapseMergedText(cellsOf(grid, row, left, right)));
+  if (filled.length === 1) {
+    return ["title", filled[0]];
+  }
+  return filled.length >= 2 ? [String(filled[0]).trim(), filled[1]] : null;
+};
+
+const toRange = (block: Segment): string =>
+  `${toColumnLetter(block.left)}${block.top + 1}:${toColumnLetter(block.right)}${block.bottom + 1}`;
+
+/**
+ * Finds the tables on a sheet: rectangular blocks separated by empty rows and
+ * columns, each with its header row(s) and an optional units row directly above
+ * the data. Title and "key | value" rows become metadata of the sheet's tables.
+ * Blocks without a header continue the table above them. When nothing looks like
+ * a table, row 0 is taken as the header as before.
+ */
+export const detectTables = (
+  grid: Cell[][],
+  { sheetName }: { sheetName?: string } = {}
+): RawTable[] => {
+  const blocks: TableBlock[] = [];
+  const noteRows: { row: number; left: number; right: number }[] = [];
+
+  findColumnRanges(grid).forEach(([left, right]) => {
+    let previous: TableBlock | null = null;
+    findSegments(grid, left, right).forEach((segment) => {
+      const block = analyseSegment(grid, segment);
+      if (block && block.headerRows.length === 0 && previous) {
+        previous.bottom = segment.bottom;
+        return;
+      }
+      if (block && block.headerRows.length === 0) {
+        // Without a text header the top row is taken as the header, as before.
+        const headerRow = block.unitsRow ?? block.firstDataRow;
+        blocks.push({
+          ...block,
+          headerRows: [headerRow],
+          unitsRow: null,
+          firstDataRow: headerRow + 1
+        });
+        previous = blocks[blocks.length - 1];
+        return;
+      }
+      if (!block) {
+        for (let row = segment.top; row <= segment.bottom; row += 1) {
+          noteRows.push({ row, left, right });
+        }
+        return;
+      }
+      for (let row = segment.top; row < block.headerRows[0]; row += 1) {
+        noteRows.push({ row, left, right });
+      }
+      blocks.push(block);
+      previous = block;
+    });
+  });
+
+  if (blocks.length === 0) {
+    const [headerIndex = 0, ...rowIndices] = grid.flatMap((row, index) =>
+      filledCells(row).length > 0 ? [index] : []
+    );
+    const headerRow = grid[headerIndex] ?? [];
+    const width = headerRow.length;
+    return [
+      {
+        ...(sheetName ? { sheetName } : {}),
+        headers: Array.from({ length: width }, (_, index) =>
+          isEmpty(headerRow[index]) ? `Column ${index + 1}` : String(headerRow[index]).trim()
+        ),
+        rows: rowIndices.map((rowIndex) =>
+          Array.from({ length: width }, (_, index) => grid[rowIndex][index] ?? null)
+        ),
+        sourceRows: rowIndices
+      }
+    ];
+  }
+
+  const notes: Record<string, Cell> = {};
+  noteRows.forEach((noteRow) => {
+    const note = readNote(grid, noteRow);
+    if (note && !(note[0] in notes)) {
+      notes[note[0]] = note[1];
+    }
+  });
+  blocks.sort((a, b) => a.top - b.top || a.left - b.left);
+
+  return blocks.map((block) => {
+    const range = toRange(block);
+    // Blank rows inside a block only separate it from its continuation.
+    const sourceRows = Array.from(
+      { length: block.bottom - block.firstDataRow + 1 },
+      (_, offset) => block.firstDataRow + offset
+    ).filter((row) => filledCells(cellsOf(grid, row, block.left, block.right)).length > 0);
+    const rows = sourceRows.map((row) => cellsOf(grid, row, block.left, block.right));
+    const name = blocks.length > 1 ? `${sheetName ?? "Tabelle"} · ${range}` : sheetName;
+    return {
+      ...(name ? { sheetName: name } : {}),
+      headers: buildHeaders(grid, block),
+      rows,
+      sourceRows,
+      ...(Object.keys(notes).length > 0 ? { metadata: notes } : {}),
+      layout: {
+        range,
+        headerRows: block.headerRows,
+        unitsRow: block.unitsRow,
+        firstDataRow: block.firstDataRow
+      }
+    };
+  });
+};
+
+/** Short description for the import summary, e.g. "Bereich A3:C40 · Kopfzeile 3 · Einheiten in Zeile 4". */
+export const formatTableLayout = (layout: TableLayout): string =>
+  [
+    `Bereich ${layout.range}`,
+    layout.headerRows.length > 1
+      ? `Kopfzeilen ${layout.headerRows[0] + 1}–${layout.headerRows[layout.headerRows.length - 1] + 1}`
+      : `Kopfzeile ${layout.headerRows[0] + 1}`,
+    ...(layout.unitsRow === null ? [] : [`Einheiten in Zeile ${layout.unitsRow + 1}`])
+  ].join(" · ");
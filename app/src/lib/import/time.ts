@@ -1,3 +1,5 @@
+import { convertToBase, getUnit } from "../units/units";
+
 export type TimeColumnType = "numeric" | "datetime";
 
 const DATETIME_THRESHOLD = 10_000_000_000;
@@ -10,12 +12,18 @@ export const detectTimeType = (time: number[]): TimeColumnType => {
   return datetimeLike > 0 ? "datetime" : "numeric";
 };
 
+/**
+ * Datetime columns become seconds since the first sample; numeric columns are
+ * scaled from their unit (registry id, e.g. "min") and taken as seconds if none is known.
+ */
 export const normalizeTimeToSeconds = ({
   time,
-  timeType
+  timeType,
+  timeUnit
 }: {
   time: number[];
   timeType?: TimeColumnType;
+  timeUnit?: string | null;
 }): number[] => {
   if (time.length === 0) {
     return [];
@@ -26,5 +34,5 @@ export const normalizeTimeToSeconds = ({
     return time.map((value) => (value - baseline) / 1000);
   }
 
-  return [...time];
+  return convertToBase(time, getUnit(timeUnit));
 };
@@ -0,0 +1,225 @@
+import { parseNumericCell } from "./mapping";
+import type { TimeColumnType } from "./time";
+
+export type TimestampFormat = "numeric" | "iso" | "de" | "us" | "uk" | "duration" | "excel-serial";
+
+export const TIMESTAMP_FORMATS: TimestampFormat[] = [
+  "numeric",
+  "iso",
+  "de",
+  "us",
+  "uk",
+  "duration",
+  "excel-serial"
+];
+
+export const TIMESTAMP_FORMAT_LABELS: Record<TimestampFormat, string> = {
+  numeric: "Zahlen",
+  iso: "ISO 8601 (2025-03-04 13:05:22)",
+  de: "Deutsch (04.03.2025 13:05)",
+  us: "US (03/04/2025 1:05 PM)",
+  uk: "UK (04/03/2025 13:05)",
+  duration: "Dauer (hh:mm:ss)",
+  "excel-serial": "Excel-Seriennummer"
+};
+
+type Cell = string | number | null;
+
+const MS_PER_DAY = 86_400_000;
+// Excel serial 25569 is 1970-01-01; serials before March 1900 are off by the 1900 leap-year bug.
+const EXCEL_EPOCH_OFFSET = 25_569;
+
+const ISO_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const DE_PATTERN =
+  /^(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?$/;
+const SLASH_PATTERN =
+  /^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?\s*(AM|PM)?)?$/i;
+const DURATION_PATTERN = /^(-)?(\d+):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?$/;
+
+export const isDatetimeFormat = (format: TimestampFormat): boolean =>
+  format !== "numeric" && format !== "duration";
+
+export const getTimeColumnType = (format: TimestampFormat): TimeColumnType =>
+  isDatetimeFormat(format) ? "datetime" : "numeric";
+
+const toFraction = (digits: string | undefined): number =>
+  digits ? Number(`0.${digits}`) * 1000 : 0;
+
+const toFullYear = (year: string): number =>
+  year.length === 2 ? 2000 + Number(year) : Number(year);
+
+/**
+ * Builds epoch milliseconds from wall-clock parts. Timestamps without a zone are read
+ * as UTC, so relative times do not depend on the time zone of the browser.
+ */
+const buildTimestamp = (
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  millisecond = 0
+): number | null => {
+  if (month < 1 || month > 12 || day < 1 || hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+  const value = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+  // Date.UTC rolls 31.02. over into March; such dates are rejected instead.
+  return new Date(value).getUTCDate() === day ? value : null;
+};
+
+const parseZoneOffset = (zone: string | undefined): number => {
+  if (!zone || zone.toUpperCase() === "Z") {
+    return 0;
+  }
+  const digits = zone.replace(":", "");
+  const minutes = Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5));
+  return (digits.startsWith("-") ? -1 : 1) * minutes * 60_000;
+};
+
+const parseIso = (text: string): number | null => {
+  const match = ISO_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, second, fraction, zone] = match;
+  const value = buildTimestamp(
+    Number(year),
+    Number(month),
+    Number(day),
+    Number(hour ?? 0),
+    Number(minute ?? 0),
+    Number(second ?? 0),
+    toFraction(fraction)
+  );
+  return value === null ? null : value - parseZoneOffset(zone);
+};
+
+const parseGerman = (text: string): number | null => {
+  const match = DE_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [, day, month, year, hour, minute, second, fraction] = match;
+  return buildTimestamp(
+    toFullYear(year),
+    Number(month),
+    Number(day),
+    Number(hour ?? 0),
+    Number(minute ?? 0),
+    Number(second ?? 0),
+    toFraction(fraction)
+  );
+};
+
+const parseSlashed = (text: string, dayFirst: boolean): number | null => {
+  const match = SLASH_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [, first, second, year, hourText, minute, secondText, fraction, meridiem] = match;
+  let hour = Number(hourText ?? 0);
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    hour = (hour % 12) + (meridiem.toUpperCase() === "PM" ? 12 : 0);
+  }
+  return buildTimestamp(
+    toFullYear(year),
+    Number(dayFirst ? second : first),
+    Number(dayFirst ? first : second),
+    hour,
+    Number(minute ?? 0),
+    Number(secondText ?? 0),
+    toFraction(fraction)
+  );
+};
+
+/** "hh:mm:ss(.fff)" and "hh:mm" become seconds. */
+const parseDuration = (text: string): number | null => {
+  const match = DURATION_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [, sign, hours, minutes, seconds, fraction] = match;
+  if (Number(minutes) > 59 || Number(seconds ?? 0) > 59) {
+    return null;
+  }
+  const total =
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds ?? 0) +
+    toFraction(fraction) / 1000;
+  return sign ? -total : total;
+};
+
+export const excelSerialToTimestamp = (serial: number): number =>
+  Math.round((serial - EXCEL_EPOCH_OFFSET) * MS_PER_DAY);
+
+/** Writes an Excel serial as a zone-less ISO string that parses back with `parseTimestamp`. */
+export const excelSerialToIso = (serial: number): string =>
+  new Date(excelSerialToTimestamp(serial)).toISOString().replace(/\.000Z$|Z$/, "");
+
+/** Writes a time-of-day serial (fraction of a day) as "hh:mm:ss". */
+export const excelSerialToDuration = (serial: number): string => {
+  const totalSeconds = Math.round(serial * 86_400);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(
+    totalSeconds % 60
+  )}`;
+};
+
+/**
+ * Parses one time cell. Datetime formats return epoch milliseconds, "duration"
+ * and "numeric" return plain numbers (seconds for durations).
+ */
+export const parseTimestamp = (cell: Cell, format: TimestampFormat): number | null => {
+  if (format === "numeric") {
+    return parseNumericCell(cell);
+  }
+  if (format === "excel-serial") {
+    const serial = parseNumericCell(cell);
+    return serial === null ? null : excelSerialToTimestamp(serial);
+  }
+  if (typeof cell !== "string") {
+    return null;
+  }
+  const text = cell.trim();
+  switch (format) {
+    case "iso":
+      return parseIso(text);
+    case "de":
+      return parseGerman(text);
+    case "us":
+      return parseSlashed(text, false);
+    case "uk":
+      return parseSlashed(text, true);
+    case "duration":
+      return parseDuration(text);
+  }
+};
+
+const isEmptyCell = (cell: Cell): boolean =>
+  cell === null || (typeof cell === "string" && cell.trim() === "");
+
+/**
+ * Picks the format that parses most non-empty cells; ties go to the earlier entry
+ * of TIMESTAMP_FORMATS, so "03/04/2025" reads as US unless a day above 12 shows
+ * the column is day-first. Excel serials are never guessed from plain numbers.
+ */
+export const detectTimestampFormat = (cells: Cell[]): TimestampFormat => {
+  const filled = cells.filter((cell) => !isEmptyCell(cell));
+  let best: TimestampFormat = "numeric";
+  let bestCount = 0;
+  TIMESTAMP_FORMATS.filter((format) => format !== "excel-serial").forEach((format) => {
+    const count = filled.filter((cell) => parseTimestamp(cell, format) !== null).length;
+    if (count > bestCount) {
+      best = format;
+      bestCount = count;
+    }
+  });
+  return best;
+};
@@ -1,4 +1,5 @@
 import type { Experiment, Series } from "../../types/experiment";
+import type { DatasetArrheniusRecord, DatasetFitRecord } from "../../types/fitting";
 export type { Experiment, Series };
 export { ensureMetaRaw, normalizeExperimentId } from "../../types/experiment";
 
@@ -6,6 +7,20 @@ export type RawTable = {
   sheetName?: string;
   headers: string[];
   rows: (string | number | null)[][];
+  /** Metadata block of instrument exports; ends up in Experiment.metaRaw. */
+  metadata?: Record<string, string | number | null>;
+  /** Position of the table on its sheet when it was found by layout detection. */
+  layout?: TableLayout;
+  /** 0-based sheet row of each entry in rows; missing means rows follow the header directly. */
+  sourceRows?: number[];
+};
+
+/** Row and column indices are 0-based positions on the source sheet. */
+export type TableLayout = {
+  range: string;
+  headerRows: number[];
+  unitsRow: number | null;
+  firstDataRow: number;
 };
 
 export type AuditEntry = {
@@ -21,4 +36,6 @@ export type Dataset = {
   createdAt: string;
   experiments: Experiment[];
   audit: AuditEntry[];
+  fits?: DatasetFitRecord[];
+  arrhenius?: DatasetArrheniusRecord;
 };
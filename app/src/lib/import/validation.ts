@@ -1,4 +1,20 @@
 import type { Dataset, Experiment, Series } from "./types";
+import type { FixActionId } from "./fixes";
+import { getSeriesRole } from "./seriesRole";
+import {
+  DEFAULT_VALIDATION_THRESHOLDS,
+  getValidationProfile,
+  type ValidationProfile,
+  type ValidationProfileId,
+  type ValidationThresholds
+} from "./validationProfiles";
+import { getSeriesValueUnit } from "../units/seriesUnits";
+import {
+  countDropReasons,
+  getDroppedPointCount,
+  getDroppedRows,
+  type DropReason
+} from "./provenance";
 
 export type ValidationSeverity = "info" | "warn" | "error";
 
@@ -11,6 +27,14 @@ export type ValidationCode =
   | "NAN_OR_NONNUMERIC"
   | "NEGATIVE_VALUES"
   | "CONSTANT_SIGNAL"
+  | "OUTLIER_POINTS"
+  | "TIME_OFFSET"
+  | "TIME_ZERO_MISSING"
+  | "REACTANT_RISING"
+  | "MASS_BALANCE"
+  | "SAMPLING_GAP"
+  | "DETECTOR_SATURATION"
+  | "BASELINE_DRIFT"
   | "NO_EXPERIMENTS";
 
 export type ValidationFinding = {
@@ -19,12 +43,25 @@ export type ValidationFinding = {
   title: string;
   description: string;
   hint?: string;
+  /** Fixes that resolve the finding on the series; see lib/import/fixes. */
+  fixes?: FixActionId[];
   details?: {
     droppedPoints?: number;
+    /** 0-based source rows of the dropped points. */
+    droppedRows?: number[];
     duplicateCount?: number;
     negativeCount?: number;
     pointCount?: number;
     timeIssueCount?: number;
+    /** Indices into series.time / series.y. */
+    outlierIndices?: number[];
+    /** In the unit of the series' time axis. */
+    halfLife?: number;
+    maxGap?: number;
+    plateauCount?: number;
+    /** Largest deviation of the summed species from their typical total, as a fraction. */
+    balanceDeviation?: number;
+    driftChange?: number;
   };
   experimentId?: string;
   experimentName?: string;
@@ -37,10 +74,13 @@ export type ValidationCounts = {
   series: number;
   points: number;
   droppedPoints: number;
+  dropReasons: Record<DropReason, number>;
 };
 
 export type ValidationReport = {
   status: ValidationStatus;
+  /** Rule profile the report was checked with; missing in reports saved before profiles. */
+  profile?: { id: ValidationProfileId; label: string };
   counts: ValidationCounts;
   datasetFindings: ValidationFinding[];
   experimentSummaries: {
@@ -63,17 +103,21 @@ const createSeriesFinding = (
   seriesName: series.name
 });
 
+const createExperimentFinding = (
+  experiment: Experiment,
+  finding: Omit<ValidationFinding, "experimentId" | "experimentName" | "seriesId" | "seriesName">
+): ValidationFinding => ({
+  ...finding,
+  experimentId: experiment.experimentId,
+  experimentName: experiment.name
+});
+
 const createDatasetFinding = (
   finding: Omit<ValidationFinding, "experimentId" | "experimentName" | "seriesId" | "seriesName">
 ): ValidationFinding => ({
   ...finding
 });
 
-const getDroppedPoints = (series: Series): number => {
-  const raw = series.meta?.droppedPoints;
-  return typeof raw === "number" && !Number.isNaN(raw) ? raw : 0;
-};
-
 const computeStandardDeviation = (values: number[]): number => {
   if (values.length === 0) {
     return 0;
@@ -84,6 +128,125 @@ const computeStandardDeviation = (values: number[]): number => {
   return Math.sqrt(variance);
 };
 
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Scales the median absolute deviation to a standard deviation for normal noise.
+const MAD_SCALE = 1.4826;
+// Below a fifth of the signal range a jump is not called an outlier, however clean the data.
+const MIN_OUTLIER_SHARE = 0.2;
+
+/** Residual of every value against the median of its neighbours (two on each side). */
+const getNeighbourResiduals = (values: number[]): number[] =>
+  values.map((value, index) => {
+    const last = values.length - 1;
+    // Tukey's end-point rule: the end value against its neighbour and the extrapolated trend.
+    if (index === 0) {
+      return value - median([value, values[1], 3 * values[1] - 2 * values[2]]);
+    }
+    if (index === last) {
+      return value - median([value, values[last - 1], 3 * values[last - 1] - 2 * values[last - 2]]);
+    }
+    const half = Math.min(2, index, last - index);
+    const neighbours = values
+      .slice(index - half, index + half + 1)
+      .filter((_, position) => position !== half);
+    return value - median(neighbours);
+  });
+
+/**
+ * Hampel-style outlier search: a point is flagged when its residual against the median
+ * of its neighbours exceeds the threshold in robust standard deviations (MAD of all residuals). The
+ * worst point is removed and the rest re-checked, so one spike does not drag its
+ * neighbours along. Needs at least five points; flags at most a quarter of them.
+ */
+export const findOutlierIndices = (
+  values: number[],
+  threshold = DEFAULT_VALIDATION_THRESHOLDS.outlierThreshold
+): number[] => {
+  if (values.length < 5) {
+    return [];
+  }
+  const range = Math.max(...values) - Math.min(...values);
+  const floor = (range * MIN_OUTLIER_SHARE) / threshold;
+  let remaining = values.map((_, index) => index);
+  const outliers: number[] = [];
+  while (outliers.length < Math.floor(values.length / 4) && remaining.length >= 5) {
+    const residuals = getNeighbourResiduals(remaining.map((index) => values[index]));
+    const sigma = Math.max(MAD_SCALE * median(residuals.map(Math.abs)), floor);
+    let worst = -1;
+    residuals.forEach((residual, position) => {
+      if (
+        sigma > 0 &&
+        Math.abs(residual) > threshold * sigma &&
+        (worst === -1 || Math.abs(residual) > Math.abs(residuals[worst]))
+      ) {
+        worst = position;
+      }
+    });
+    if (worst === -1) {
+      break;
+    }
+    outliers.push(remaining[worst]);
+    remaining = remaining.filter((_, position) => position !== worst);
+  }
+  return outliers.sort((a, b) => a - b);
+};
+
+const isStrictlyIncreasing = (values: number[]): boolean =>
+  values.every((value, index) => index === 0 || value > values[index - 1]);
+
+const linearSlope = (x: number[], y: number[]): number => {
+  const meanX = x.reduce((sum, value) => sum + value, 0) / x.length;
+  const meanY = y.reduce((sum, value) => sum + value, 0) / y.length;
+  const numerator = x.reduce((sum, value, index) => sum + (value - meanX) * (y[index] - meanY), 0);
+  const denominator = x.reduce((sum, value) => sum + (value - meanX) ** 2, 0);
+  return denominator > 0 ? numerator / denominator : 0;
+};
+
+const slopeOf = (series: Series, start: number, end: number): number =>
+  linearSlope(series.time.slice(start, end), series.y.slice(start, end));
+
+// Below a tenth of the largest signal the series is not treated as reacting.
+const MIN_REACTION_SHARE = 0.1;
+
+/**
+ * Share of the observed change reached at every point: 0 at the first point, 1 at the
+ * end level (median of the last three points). Null when the series barely changes.
+ */
+const getConversion = (series: Series): number[] | null => {
+  const { y } = series;
+  if (y.length < 4 || !isStrictlyIncreasing(series.time)) {
+    return null;
+  }
+  const change = median(y.slice(-3)) - y[0];
+  const scale = Math.max(...y.map(Math.abs));
+  if (Math.abs(change) <= MIN_REACTION_SHARE * scale) {
+    return null;
+  }
+  return y.map((value) => (value - y[0]) / change);
+};
+
+/**
+ * Time until half of the observed change, interpolated between the bracketing points.
+ * Series that have not levelled off yet give a lower bound of the true half-life.
+ */
+export const estimateHalfLife = (series: Series): number | null => {
+  const conversion = getConversion(series);
+  const index = conversion?.findIndex((share) => share >= 0.5) ?? -1;
+  if (!conversion || index < 1) {
+    return null;
+  }
+  const share =
+    (0.5 - conversion[index - 1]) / (conversion[index] - conversion[index - 1]);
+  const halfTime =
+    series.time[index - 1] + share * (series.time[index] - series.time[index - 1]);
+  return halfTime - series.time[0];
+};
+
 export const checkTimeNotMonotonic = (
   series: Series,
   experiment: Experiment
@@ -102,6 +265,7 @@ export const checkTimeNotMonotonic = (
       description:
         "Die Zeitspalte steigt mindestens einmal nicht streng an. So kann keine sinnvolle Kinetik berechnet werden.",
       hint: "Sortiere oder korrigiere die Zeitwerte, sodass sie nur steigen.",
+      fixes: ["sort-by-time"],
       details: {
         timeIssueCount: issueCount
       }
@@ -123,6 +287,7 @@ export const checkTimeDuplicates = (
       description:
         "Einige Zeitwerte wiederholen sich in der Reihe. Das verwirrt Fits und Ratenberechnungen.",
       hint: "Entferne Duplikate oder mittlere doppelte Punkte vor dem Import.",
+      fixes: ["average-duplicates"],
       details: {
         duplicateCount: series.time.length - unique.size
       }
@@ -133,9 +298,10 @@ export const checkTimeDuplicates = (
 
 export const checkTooFewPoints = (
   series: Series,
-  experiment: Experiment
+  experiment: Experiment,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
 ): ValidationFinding | null => {
-  if (series.time.length < 5) {
+  if (series.time.length < thresholds.minPoints) {
     return createSeriesFinding(series, experiment, {
       code: "TOO_FEW_POINTS",
       severity: "warn",
@@ -155,7 +321,13 @@ export const checkNanOrNonNumeric = (
   series: Series,
   experiment: Experiment
 ): ValidationFinding | null => {
-  const droppedPoints = getDroppedPoints(series);
+  // Excluded outliers are deliberate and not reported as invalid input.
+  const invalidRows = getDroppedRows(series).filter(
+    (row) => row.reason === "empty-value" || row.reason === "non-numeric"
+  );
+  const droppedPoints = Array.isArray(series.meta?.droppedRows)
+    ? invalidRows.length
+    : getDroppedPointCount(series);
   if (droppedPoints > 0) {
     return createSeriesFinding(series, experiment, {
       code: "NAN_OR_NONNUMERIC",
@@ -165,7 +337,14 @@ export const checkNanOrNonNumeric = (
         "Einige Zeilen enthielten Text oder leere Felder, wo Zahlen erwartet wurden. Diese Zeilen wurden ignoriert.",
       hint: "Prüfe die Quelldatei auf fehlende oder nicht-numerische Einträge.",
       details: {
-        droppedPoints
+        droppedPoints,
+        ...(invalidRows.length > 0
+          ? {
+              droppedRows: invalidRows.flatMap((row) =>
+                row.rowIndex === null ? [] : [row.rowIndex]
+              )
+            }
+          : {})
       }
     });
   }
@@ -185,6 +364,7 @@ export const checkNegativeValues = (
       description:
         "Es gibt negative Signalwerte. Das kann nach Basiskorrektur in Ordnung sein, aber auch auf Import-Probleme hinweisen.",
       hint: "Bestätige, ob negative Werte für dieses Assay erwartbar sind.",
+      fixes: ["drop-negative", "clip-to-baseline"],
       details: {
         negativeCount
       }
@@ -195,13 +375,14 @@ export const checkNegativeValues = (
 
 export const checkConstantSignal = (
   series: Series,
-  experiment: Experiment
+  experiment: Experiment,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
 ): ValidationFinding | null => {
   if (series.y.length < 2) {
     return null;
   }
   const stddev = computeStandardDeviation(series.y);
-  if (stddev <= 1e-6) {
+  if (stddev <= thresholds.constantSignalStdDev) {
     return createSeriesFinding(series, experiment, {
       code: "CONSTANT_SIGNAL",
       severity: "info",
@@ -214,6 +395,274 @@ export const checkConstantSignal = (
   return null;
 };
 
+export const checkOutliers = (
+  series: Series,
+  experiment: Experiment,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): ValidationFinding | null => {
+  const outlierIndices = findOutlierIndices(series.y, thresholds.outlierThreshold);
+  if (outlierIndices.length > 0) {
+    return createSeriesFinding(series, experiment, {
+      code: "OUTLIER_POINTS",
+      severity: "warn",
+      title: "Mögliche Ausreißer",
+      description:
+        "Einzelne Punkte weichen stark vom Verlauf ihrer Nachbarn ab. Solche Punkte verzerren Fits oft deutlich.",
+      hint: "Prüfe die markierten Punkte im Serien-Check und schließe echte Fehlmessungen aus.",
+      details: {
+        outlierIndices
+      }
+    });
+  }
+  return null;
+};
+
+/**
+ * Numeric time that starts later than the run lasts, e.g. a clock time in seconds;
+ * a few minutes of lead time before the first sample are not flagged.
+ */
+export const checkTimeOffset = (
+  series: Series,
+  experiment: Experiment
+): ValidationFinding | null => {
+  if (series.meta?.timeType === "datetime" || series.time.length < 2) {
+    return null;
+  }
+  const start = Math.min(...series.time);
+  const span = Math.max(...series.time) - start;
+  if (start > 0 && start >= span) {
+    return createSeriesFinding(series, experiment, {
+      code: "TIME_OFFSET",
+      severity: "info",
+      title: "Zeitachse beginnt spät",
+      description:
+        "Der erste Zeitpunkt liegt weiter vom Nullpunkt entfernt, als die Messung dauert. Anfangsraten und Fits beziehen sich dann auf einen falschen Start.",
+      hint: "Verschiebe die Zeitachse, sodass der erste Messpunkt bei 0 liegt.",
+      fixes: ["shift-time-to-zero"]
+    });
+  }
+  return null;
+};
+
+/** Numeric time that starts after zero, but not so late that TIME_OFFSET applies. */
+export const checkTimeZeroMissing = (
+  series: Series,
+  experiment: Experiment
+): ValidationFinding | null => {
+  if (series.meta?.timeType === "datetime" || series.time.length < 2) {
+    return null;
+  }
+  const start = Math.min(...series.time);
+  const span = Math.max(...series.time) - start;
+  if (start > 0 && start < span) {
+    return createSeriesFinding(series, experiment, {
+      code: "TIME_ZERO_MISSING",
+      severity: "info",
+      title: "Kein Messpunkt bei t = 0",
+      description:
+        "Die Reihe beginnt erst nach dem Start der Reaktion. Die Anfangskonzentration wird dann nur aus dem Fit geschätzt.",
+      hint:
+        "Ergänze falls vorhanden den Wert bei t = 0 oder prüfe, ob die Zeitachse verschoben ist."
+    });
+  }
+  return null;
+};
+
+export const checkReactantRising = (
+  series: Series,
+  experiment: Experiment,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): ValidationFinding | null => {
+  if (getSeriesRole(series) !== "reactant" || series.y.length < 3) {
+    return null;
+  }
+  const window = Math.max(1, Math.floor(series.y.length / 3));
+  const rise = median(series.y.slice(-window)) - median(series.y.slice(0, window));
+  // A reactant may wobble by noise, but not end clearly above where it started.
+  if (rise > thresholds.maxReactantRise * Math.max(...series.y.map(Math.abs))) {
+    return createSeriesFinding(series, experiment, {
+      code: "REACTANT_RISING",
+      severity: "warn",
+      title: "Edukt nimmt zu",
+      description:
+        "Die Reihe ist als Edukt markiert, ihre Konzentration steigt aber über die Messung an. Edukte sollten verbraucht werden.",
+      hint:
+        "Prüfe die Rollen-Zuordnung, die Spaltenwahl im Mapping oder ob das Signal invertiert ist."
+    });
+  }
+  return null;
+};
+
+/**
+ * Largest gap between samples taken before the reaction is 90 % through, compared with
+ * the estimated half-life: slower sampling misses the part of the curve that sets k.
+ */
+export const checkSamplingGap = (
+  series: Series,
+  experiment: Experiment
+): ValidationFinding | null => {
+  const conversion = getConversion(series);
+  const halfLife = estimateHalfLife(series);
+  if (!conversion || halfLife === null || halfLife <= 0) {
+    return null;
+  }
+  const gaps = series.time.flatMap((time, index) =>
+    index > 0 && conversion[index - 1] < 0.9 ? [time - series.time[index - 1]] : []
+  );
+  const maxGap = Math.max(0, ...gaps);
+  if (maxGap > halfLife) {
+    return createSeriesFinding(series, experiment, {
+      code: "SAMPLING_GAP",
+      severity: "warn",
+      title: "Messabstand größer als Halbwertszeit",
+      description:
+        "Zwischen zwei Messpunkten vergeht mehr Zeit, als die Reaktion für die Hälfte ihres Umsatzes braucht. Der schnelle Teil der Kurve ist kaum belegt.",
+      hint:
+        "Miss in der Anfangsphase dichter oder behandle Geschwindigkeitskonstanten aus dieser Reihe als grobe Schätzung.",
+      details: {
+        halfLife,
+        maxGap
+      }
+    });
+  }
+  return null;
+};
+
+/**
+ * Identical readings at the series maximum point to a detector or calibration limit.
+ * Flat runs at the minimum are left alone; they are usually a finished reaction.
+ */
+export const checkDetectorSaturation = (
+  series: Series,
+  experiment: Experiment,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): ValidationFinding | null => {
+  const max = Math.max(...series.y);
+  if (
+    series.y.length < thresholds.saturationRun ||
+    series.y.every((value) => value === max)
+  ) {
+    return null;
+  }
+  let run = 0;
+  let plateauCount = 0;
+  series.y.forEach((value) => {
+    run = value === max ? run + 1 : 0;
+    plateauCount = Math.max(plateauCount, run);
+  });
+  if (plateauCount >= thresholds.saturationRun) {
+    return createSeriesFinding(series, experiment, {
+      code: "DETECTOR_SATURATION",
+      severity: "warn",
+      title: "Signal in Sättigung",
+      description:
+        "Mehrere aufeinanderfolgende Punkte liegen exakt auf dem Höchstwert der Reihe. Das deutet auf die Obergrenze des Detektors oder der Kalibrierung hin.",
+      hint:
+        "Prüfe, ob die Probe verdünnt gemessen werden muss, und schließe gesättigte Punkte vor dem Fit aus.",
+      details: {
+        plateauCount
+      }
+    });
+  }
+  return null;
+};
+
+const MIN_DRIFT_POINTS = 12;
+// The tail counts as linear when its second half is at least this steep as its first.
+const MIN_DRIFT_LINEARITY = 0.7;
+// ...and as a baseline when it is this much flatter than the start of the reaction.
+const MAX_DRIFT_SLOPE_SHARE = 0.2;
+
+/**
+ * A reaction levels off, so its tail flattens out; a tail that keeps a steady slope
+ * well below the initial rate is drift of the baseline. Needs a dozen points.
+ */
+export const checkBaselineDrift = (
+  series: Series,
+  experiment: Experiment,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): ValidationFinding | null => {
+  const count = series.y.length;
+  if (count < MIN_DRIFT_POINTS || !isStrictlyIncreasing(series.time)) {
+    return null;
+  }
+  const tailStart = count - Math.max(6, Math.floor(count / 3));
+  const tailMiddle = Math.floor((tailStart + count) / 2);
+  const startSlope = slopeOf(series, 0, Math.max(3, Math.floor(count / 4)));
+  const tailSlope = slopeOf(series, tailStart, count);
+  const firstHalf = slopeOf(series, tailStart, tailMiddle);
+  const secondHalf = slopeOf(series, tailMiddle, count);
+  const driftChange = tailSlope * (series.time[count - 1] - series.time[tailStart]);
+  const range = Math.max(...series.y) - Math.min(...series.y);
+  if (
+    firstHalf * secondHalf > 0 &&
+    Math.abs(secondHalf) >= MIN_DRIFT_LINEARITY * Math.abs(firstHalf) &&
+    Math.abs(tailSlope) < MAX_DRIFT_SLOPE_SHARE * Math.abs(startSlope) &&
+    Math.abs(driftChange) >= thresholds.minDriftShare * range
+  ) {
+    return createSeriesFinding(series, experiment, {
+      code: "BASELINE_DRIFT",
+      severity: "info",
+      title: "Basislinie driftet",
+      description:
+        "Nach dem Abklingen der Reaktion läuft das Signal gleichmäßig weiter. Eine driftende Basislinie verfälscht Endwerte und Geschwindigkeitskonstanten.",
+      hint: "Korrigiere die Basislinie (z. B. Leerwert abziehen) oder fitte ein Modell mit Offset.",
+      details: {
+        driftChange
+      }
+    });
+  }
+  return null;
+};
+
+/**
+ * Sums the reactant and product series at their shared time points; with 1:1
+ * stoichiometry the total should stay constant. Needs one declared reactant and one
+ * product in the same concentration unit.
+ */
+export const checkMassBalance = (
+  experiment: Experiment,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): ValidationFinding | null => {
+  const species = experiment.series.filter((series) => getSeriesRole(series) !== null);
+  const units = new Set(species.map((series) => getSeriesValueUnit(series)?.id ?? null));
+  if (
+    !species.some((series) => getSeriesRole(series) === "reactant") ||
+    !species.some((series) => getSeriesRole(series) === "product") ||
+    units.size > 1
+  ) {
+    return null;
+  }
+  const valuesByTime = species.map(
+    (series) => new Map(series.time.map((time, index) => [time, series.y[index]]))
+  );
+  const totals = species[0].time
+    .filter((time) => valuesByTime.every((values) => values.has(time)))
+    .map((time) => valuesByTime.reduce((sum, values) => sum + values.get(time)!, 0));
+  const reference = totals.length >= 3 ? median(totals) : 0;
+  if (reference === 0) {
+    return null;
+  }
+  const balanceDeviation = Math.max(
+    ...totals.map((total) => Math.abs(total - reference) / Math.abs(reference))
+  );
+  if (balanceDeviation > thresholds.massBalanceTolerance) {
+    return createExperimentFinding(experiment, {
+      code: "MASS_BALANCE",
+      severity: "warn",
+      title: "Massenbilanz geht nicht auf",
+      description:
+        "Die Summe aus Edukten und Produkten schwankt deutlich über die Zeit. Bei 1:1-Stöchiometrie sollte sie konstant bleiben.",
+      hint:
+        "Prüfe Kalibrierung und Einheiten der Reihen oder ob ein Zwischenprodukt bzw. eine Nebenreaktion fehlt.",
+      details: {
+        balanceDeviation
+      }
+    });
+  }
+  return null;
+};
+
 export const checkNoExperiments = (dataset: Dataset): ValidationFinding | null => {
   if (dataset.experiments.length === 0) {
     return createDatasetFinding({
@@ -228,25 +677,53 @@ export const checkNoExperiments = (dataset: Dataset): ValidationFinding | null =
   return null;
 };
 
+/** Drops findings the profile switches off and applies its severities. */
+const applyProfileRules = (
+  findings: (ValidationFinding | null)[],
+  profile: ValidationProfile
+): ValidationFinding[] =>
+  findings.flatMap((finding) => {
+    const rule = finding ? profile.rules[finding.code] : undefined;
+    if (!finding || rule === "off") {
+      return [];
+    }
+    return [rule ? { ...finding, severity: rule } : finding];
+  });
+
 export const getSeriesFindings = (
   series: Series,
-  experiment: Experiment
+  experiment: Experiment,
+  profile: ValidationProfile = getValidationProfile()
 ): ValidationFinding[] => {
+  const { thresholds } = profile;
   const findings = [
     checkTimeNotMonotonic(series, experiment),
     checkTimeDuplicates(series, experiment),
-    checkTooFewPoints(series, experiment),
+    checkTooFewPoints(series, experiment, thresholds),
     checkNanOrNonNumeric(series, experiment),
     checkNegativeValues(series, experiment),
-    checkConstantSignal(series, experiment)
+    checkConstantSignal(series, experiment, thresholds),
+    checkOutliers(series, experiment, thresholds),
+    checkTimeOffset(series, experiment),
+    checkTimeZeroMissing(series, experiment),
+    checkReactantRising(series, experiment, thresholds),
+    checkSamplingGap(series, experiment),
+    checkDetectorSaturation(series, experiment, thresholds),
+    checkBaselineDrift(series, experiment, thresholds)
   ];
-  return findings.filter((finding): finding is ValidationFinding => Boolean(finding));
+  return applyProfileRules(findings, profile);
 };
 
-export const getDatasetFindings = (dataset: Dataset): ValidationFinding[] => {
-  const datasetFinding = checkNoExperiments(dataset);
-  return datasetFinding ? [datasetFinding] : [];
-};
+export const getExperimentFindings = (
+  experiment: Experiment,
+  profile: ValidationProfile = getValidationProfile()
+): ValidationFinding[] =>
+  applyProfileRules([checkMassBalance(experiment, profile.thresholds)], profile);
+
+export const getDatasetFindings = (
+  dataset: Dataset,
+  profile: ValidationProfile = getValidationProfile()
+): ValidationFinding[] => applyProfileRules([checkNoExperiments(dataset)], profile);
 
 export const getValidationCounts = (dataset: Dataset): ValidationCounts => {
   const experiments = dataset.experiments.length;
@@ -262,15 +739,19 @@ export const getValidationCounts = (dataset: Dataset): ValidationCounts => {
   const droppedPoints = dataset.experiments.reduce(
     (sum, experiment) =>
       sum +
-      experiment.series.reduce((inner, series) => inner + getDroppedPoints(series), 0),
+      experiment.series.reduce((inner, series) => inner + getDroppedPointCount(series), 0),
     0
   );
+  const dropReasons = countDropReasons(
+    dataset.experiments.flatMap((experiment) => experiment.series.flatMap(getDroppedRows))
+  );
 
   return {
     experiments,
     series,
     points,
-    droppedPoints
+    droppedPoints,
+    dropReasons
   };
 };
 
@@ -284,12 +765,17 @@ const resolveStatus = (findings: ValidationFinding[]): ValidationStatus => {
   return "clean";
 };
 
-export const generateImportValidationReport = (dataset: Dataset): ValidationReport => {
-  const datasetFindings = getDatasetFindings(dataset);
+export const generateImportValidationReport = (
+  dataset: Dataset,
+  profileId?: ValidationProfileId
+): ValidationReport => {
+  const profile = getValidationProfile(profileId);
+  const datasetFindings = getDatasetFindings(dataset, profile);
   const experimentSummaries = dataset.experiments.map((experiment) => {
-    const findings = experiment.series.flatMap((series) =>
-      getSeriesFindings(series, experiment)
-    );
+    const findings = [
+      ...experiment.series.flatMap((series) => getSeriesFindings(series, experiment, profile)),
+      ...getExperimentFindings(experiment, profile)
+    ];
     const experimentName = experiment.name ?? "Untitled experiment";
     return {
       experimentId: experiment.experimentId,
@@ -304,6 +790,7 @@ export const generateImportValidationReport = (dataset: Dataset): ValidationRepo
   ];
   return {
     status: resolveStatus(findings),
+    profile: { id: profile.id, label: profile.label },
     counts: getValidationCounts(dataset),
     datasetFindings,
     experimentSummaries
@@ -0,0 +1,91 @@
+import type { ValidationCode, ValidationSeverity } from "./validation";
+
+export type ValidationProfileId =
+  "default" | "hplc-concentration" | "uvvis-absorbance" | "conversion-percent";
+
+/** Limits the checks compare against; see the check of the same name in validation.ts. */
+export type ValidationThresholds = {
+  /** TOO_FEW_POINTS below this many points. */
+  minPoints: number;
+  /** CONSTANT_SIGNAL at or below this standard deviation, in the unit of the values. */
+  constantSignalStdDev: number;
+  /** OUTLIER_POINTS beyond this many robust standard deviations. */
+  outlierThreshold: number;
+  /** REACTANT_RISING above this share of the largest value. */
+  maxReactantRise: number;
+  /** DETECTOR_SATURATION from this many identical readings at the maximum. */
+  saturationRun: number;
+  /** BASELINE_DRIFT from this share of the signal range. */
+  minDriftShare: number;
+  /** MASS_BALANCE above this relative deviation of the summed species. */
+  massBalanceTolerance: number;
+};
+
+/** Per code: "off" skips the check, a severity replaces the built-in one. */
+export type ValidationRules = Partial<Record<ValidationCode, ValidationSeverity | "off">>;
+
+export type ValidationProfile = {
+  id: ValidationProfileId;
+  label: string;
+  description: string;
+  rules: ValidationRules;
+  thresholds: ValidationThresholds;
+};
+
+export const DEFAULT_VALIDATION_THRESHOLDS: ValidationThresholds = {
+  minPoints: 5,
+  constantSignalStdDev: 1e-6,
+  outlierThreshold: 3.5,
+  maxReactantRise: 0.05,
+  saturationRun: 3,
+  minDriftShare: 0.05,
+  massBalanceTolerance: 0.15
+};
+
+export const DEFAULT_VALIDATION_PROFILE_ID: ValidationProfileId = "default";
+
+export const VALIDATION_PROFILES: ValidationProfile[] = [
+  {
+    id: "default",
+    label: "Standard",
+    description: "Alle Prüfungen mit allgemeinen Schwellenwerten.",
+    rules: {},
+    thresholds: DEFAULT_VALIDATION_THRESHOLDS
+  },
+  {
+    id: "hplc-concentration",
+    label: "HPLC-Konzentration",
+    description:
+      "Kalibrierte Konzentrationen: negative Werte sind eine Warnung, die Massenbilanz wird enger geprüft.",
+    rules: { NEGATIVE_VALUES: "warn" },
+    thresholds: { ...DEFAULT_VALIDATION_THRESHOLDS, massBalanceTolerance: 0.1 }
+  },
+  {
+    id: "uvvis-absorbance",
+    label: "UV-Vis-Absorbanz",
+    description:
+      "Absorbanzen: negative Basislinien und die Totzeit nach dem Mischen sind normal; ohne Extinktionskoeffizienten gibt es keine Massenbilanz.",
+    rules: { NEGATIVE_VALUES: "off", TIME_ZERO_MISSING: "off", MASS_BALANCE: "off" },
+    thresholds: { ...DEFAULT_VALIDATION_THRESHOLDS, minPoints: 10, constantSignalStdDev: 1e-3 }
+  },
+  {
+    id: "conversion-percent",
+    label: "Umsatz in %",
+    description:
+      "Umsatz steigt bis 100 %: ein Plateau dort ist vollständiger Umsatz, keine Sättigung; negative Werte sind eine Warnung.",
+    rules: {
+      NEGATIVE_VALUES: "warn",
+      DETECTOR_SATURATION: "off",
+      REACTANT_RISING: "off",
+      MASS_BALANCE: "off"
+    },
+    thresholds: { ...DEFAULT_VALIDATION_THRESHOLDS, constantSignalStdDev: 0.1 }
+  }
+];
+
+export const isValidationProfileId = (value: unknown): value is ValidationProfileId =>
+  VALIDATION_PROFILES.some((profile) => profile.id === value);
+
+/** Unknown ids (e.g. from an older project file) fall back to the default profile. */
+export const getValidationProfile = (id?: string | null): ValidationProfile =>
+  VALIDATION_PROFILES.find((profile) => profile.id === id) ?? VALIDATION_PROFILES[0];
@@ -0,0 +1,206 @@
+import { solveLinearSystem } from "../fitting/linearAlgebra";
+import type { Experiment, Series } from "../import/types";
+
+/** Subtracts the mean of the first or last points, e.g. the signal before mixing or at the end. */
+export type BaselineStep = { kind: "baseline"; reference: "start" | "end"; points: number };
+
+/** Local polynomial least squares in time, so uneven sampling is handled too. */
+export type SmoothingStep = { kind: "savitzky-golay"; window: number; order: number };
+
+/**
+ * "initial" divides by the first value; "conversion" maps the first value to 0 and the
+ * last to 1, whichever direction the signal runs.
+ */
+export type NormalizeStep = { kind: "normalize"; mode: "initial" | "conversion" };
+
+/** c = A / (ε · l) with ε in L·mol⁻¹·cm⁻¹ and l in cm, giving mol/L. */
+export type BeerLambertStep = { kind: "beer-lambert"; epsilon: number; pathLength: number };
+
+export type PreprocessingStep = BaselineStep | SmoothingStep | NormalizeStep | BeerLambertStep;
+
+export type PreprocessingStepKind = PreprocessingStep["kind"];
+
+export const PREPROCESSING_STEP_LABELS: Record<PreprocessingStepKind, string> = {
+  baseline: "Basislinie abziehen",
+  "savitzky-golay": "Savitzky-Golay-Glättung",
+  normalize: "Normieren",
+  "beer-lambert": "Absorbanz → Konzentration"
+};
+
+/** Starting parameters when a step is added. */
+export const DEFAULT_PREPROCESSING_STEPS: Record<PreprocessingStepKind, PreprocessingStep> = {
+  baseline: { kind: "baseline", reference: "end", points: 3 },
+  "savitzky-golay": { kind: "savitzky-golay", window: 5, order: 2 },
+  normalize: { kind: "normalize", mode: "initial" },
+  "beer-lambert": { kind: "beer-lambert", epsilon: 1000, pathLength: 1 }
+};
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const isPositiveInteger = (value: unknown): value is number =>
+  isPositiveNumber(value) && Number.isInteger(value);
+
+/** Checks a step read from meta, an audit entry or a project file. */
+export const readPreprocessingStep = (value: unknown): PreprocessingStep | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const step = value as Record<string, unknown>;
+  if (
+    step.kind === "baseline" &&
+    (step.reference === "start" || step.reference === "end") &&
+    isPositiveInteger(step.points)
+  ) {
+    return { kind: "baseline", reference: step.reference, points: step.points };
+  }
+  if (
+    step.kind === "savitzky-golay" &&
+    isPositiveInteger(step.window) &&
+    step.window % 2 === 1 &&
+    typeof step.order === "number" &&
+    Number.isInteger(step.order) &&
+    step.order >= 0 &&
+    step.order < step.window
+  ) {
+    return { kind: "savitzky-golay", window: step.window, order: step.order };
+  }
+  if (step.kind === "normalize" && (step.mode === "initial" || step.mode === "conversion")) {
+    return { kind: "normalize", mode: step.mode };
+  }
+  if (
+    step.kind === "beer-lambert" &&
+    isPositiveNumber(step.epsilon) &&
+    isPositiveNumber(step.pathLength)
+  ) {
+    return { kind: "beer-lambert", epsilon: step.epsilon, pathLength: step.pathLength };
+  }
+  return null;
+};
+
+export const readPreprocessingSteps = (value: unknown): PreprocessingStep[] =>
+  Array.isArray(value)
+    ? value.flatMap((entry) => {
+        const step = readPreprocessingStep(entry);
+        return step ? [step] : [];
+      })
+    : [];
+
+export const getPreprocessingSteps = (series: Series): PreprocessingStep[] =>
+  readPreprocessingSteps(series.meta?.preprocessing);
+
+/** Stores the pipeline on the series; time and values stay as imported. */
+export const setPreprocessingSteps = (series: Series, steps: PreprocessingStep[]): Series => {
+  const meta = { ...series.meta };
+  delete meta.preprocessing;
+  return { ...series, meta: steps.length > 0 ? { ...meta, preprocessing: steps } : meta };
+};
+
+/** "Savitzky-Golay-Glättung (5 Punkte, Grad 2)" */
+export const describePreprocessingStep = (step: PreprocessingStep): string => {
+  const label = PREPROCESSING_STEP_LABELS[step.kind];
+  switch (step.kind) {
+    case "baseline":
+      return `${label} (Mittel der ${step.reference === "start" ? "ersten" : "letzten"} ${
+        step.points
+      } Punkte)`;
+    case "savitzky-golay":
+      return `${label} (${step.window} Punkte, Grad ${step.order})`;
+    case "normalize":
+      return `${label} (${step.mode === "initial" ? "auf Startwert" : "auf Umsatz 0–1"})`;
+    case "beer-lambert":
+      return `${label} (ε = ${step.epsilon} L·mol⁻¹·cm⁻¹, l = ${step.pathLength} cm)`;
+  }
+};
+
+const mean = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/** Value of the polynomial fitted to the window around index, evaluated at its time. */
+const smoothPoint = (time: number[], y: number[], index: number, step: SmoothingStep): number => {
+  const half = (step.window - 1) / 2;
+  // Near the ends the window shifts inwards instead of shrinking.
+  const start = Math.max(0, Math.min(index - half, time.length - step.window));
+  const indices = Array.from({ length: step.window }, (_, offset) => start + offset);
+  const scale = Math.max(...indices.map((other) => Math.abs(time[other] - time[index]))) || 1;
+  const size = step.order + 1;
+  const normal = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  const rhs = new Array<number>(size).fill(0);
+  indices.forEach((other) => {
+    const x = (time[other] - time[index]) / scale;
+    const powers = Array.from({ length: size }, (_, power) => x ** power);
+    powers.forEach((rowPower, row) => {
+      rhs[row] += rowPower * y[other];
+      powers.forEach((columnPower, column) => {
+        normal[row][column] += rowPower * columnPower;
+      });
+    });
+  });
+  return solveLinearSystem(normal, rhs)?.[0] ?? y[index];
+};
+
+/**
+ * Applies one step to the values. Steps that need more points than the series has
+ * (or a zero reference) leave the values unchanged.
+ */
+export const applyPreprocessingStep = (
+  time: number[],
+  y: number[],
+  step: PreprocessingStep
+): number[] => {
+  if (y.length === 0) {
+    return y;
+  }
+  switch (step.kind) {
+    case "baseline": {
+      const count = Math.min(step.points, y.length);
+      const offset = mean(step.reference === "start" ? y.slice(0, count) : y.slice(-count));
+      return y.map((value) => value - offset);
+    }
+    case "savitzky-golay":
+      return y.length < step.window ? y : y.map((_, index) => smoothPoint(time, y, index, step));
+    case "normalize": {
+      const first = y[0];
+      const span = y[y.length - 1] - first;
+      if (step.mode === "initial") {
+        return first === 0 ? y : y.map((value) => value / first);
+      }
+      return span === 0 ? y : y.map((value) => (value - first) / span);
+    }
+    case "beer-lambert":
+      return y.map((value) => value / (step.epsilon * step.pathLength));
+  }
+};
+
+/**
+ * The series as the fits see it: every step applied in order to a copy. The raw values
+ * stay on the imported series; normalised values lose their unit, Beer–Lambert values
+ * are in mol/L.
+ */
+export const preprocessSeries = (series: Series): Series => {
+  const steps = getPreprocessingSteps(series);
+  if (steps.length === 0) {
+    return series;
+  }
+  const y = steps.reduce(
+    (values, step) => applyPreprocessingStep(series.time, values, step),
+    [...series.y]
+  );
+  const meta = { ...series.meta };
+  steps.forEach((step) => {
+    if (step.kind === "beer-lambert") {
+      meta.valueUnit = "M";
+    }
+    if (step.kind === "normalize") {
+      delete meta.valueUnit;
+    }
+  });
+  return { ...series, y, meta };
+};
+
+export const preprocessExperiments = (experiments: Experiment[]): Experiment[] =>
+  experiments.map((experiment) =>
+    experiment.series.some((series) => getPreprocessingSteps(series).length > 0)
+      ? { ...experiment, series: experiment.series.map(preprocessSeries) }
+      : experiment
+  );
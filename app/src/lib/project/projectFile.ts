@@ -0,0 +1,194 @@
+import type { BatchSource } from "../import/batch";
+import type { MappingSelection, MappingStats } from "../import/mapping";
+import type { Dataset, RawTable } from "../import/types";
+import type { ValidationReport } from "../import/validation";
+import type { ExperimentGroup } from "../../types/grouping";
+
+export const PROJECT_FORMAT = "kinetik-project";
+export const PROJECT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = ".kinetik";
+
+export const PROJECT_STEPS = ["import", "validation", "grouping", "modeling", "report"] as const;
+
+export type ProjectStep = (typeof PROJECT_STEPS)[number];
+
+export type ProjectSource = {
+  fileName: string;
+  fileType: string | null;
+  sheetNames: string[];
+  selectedSheet: string | null;
+};
+
+export type ProjectMapping = {
+  selection: MappingSelection;
+  lastAppliedSelection: MappingSelection | null;
+  stats: MappingStats | null;
+};
+
+/** A batch source with its table referenced by index into `rawTables`. */
+export type ProjectBatchSource = {
+  fileName: string;
+  sheetName: string | null;
+  tableIndex: number;
+  included: boolean;
+  selection: MappingSelection | null;
+};
+
+/**
+ * Everything needed to continue an analysis elsewhere. The audit trail travels
+ * inside `dataset.audit`, fit results inside `dataset.fits`.
+ */
+export type KinetikProject = {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_VERSION;
+  savedAt: string;
+  step: ProjectStep;
+  source: ProjectSource;
+  rawTables: RawTable[];
+  mapping: ProjectMapping;
+  batchSources: ProjectBatchSource[];
+  dataset: Dataset;
+  validationReport: ValidationReport | null;
+  groups: ExperimentGroup[];
+  conditionColumns: string[];
+};
+
+export type ProjectSnapshot = Omit<KinetikProject, "format" | "version" | "savedAt">;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isRawTable = (value: unknown): value is RawTable =>
+  isRecord(value) && Array.isArray(value.headers) && Array.isArray(value.rows);
+
+const isSelection = (value: unknown): value is MappingSelection =>
+  isRecord(value) &&
+  typeof value.firstRowIsHeader === "boolean" &&
+  Array.isArray(value.valueColumnIndices);
+
+const readBatchSources = (value: unknown, tableCount: number): ProjectBatchSource[] =>
+  Array.isArray(value)
+    ? value.flatMap((source) =>
+        isRecord(source) &&
+        typeof source.fileName === "string" &&
+        typeof source.tableIndex === "number" &&
+        Number.isInteger(source.tableIndex) &&
+        source.tableIndex >= 0 &&
+        source.tableIndex < tableCount
+          ? [
+              {
+                fileName: source.fileName,
+                sheetName: typeof source.sheetName === "string" ? source.sheetName : null,
+                tableIndex: source.tableIndex,
+                included: source.included !== false,
+                selection: isSelection(source.selection) ? source.selection : null
+              }
+            ]
+          : []
+      )
+    : [];
+
+const isDataset = (value: unknown): value is Dataset =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  Array.isArray(value.experiments) &&
+  Array.isArray(value.audit);
+
+export const serializeProject = (snapshot: ProjectSnapshot, savedAt = new Date()): string =>
+  JSON.stringify({
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: savedAt.toISOString(),
+    ...snapshot
+  } satisfies KinetikProject);
+
+/**
+ * Validates the structure of a project file. Throws for foreign files and for
+ * versions written by a newer app.
+ */
+export const parseProject = (text: string): KinetikProject => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The project file is not valid JSON.");
+  }
+  if (!isRecord(parsed) || parsed.format !== PROJECT_FORMAT) {
+    throw new Error("The file is not a Kinetik project.");
+  }
+  if (typeof parsed.version !== "number" || parsed.version > PROJECT_VERSION) {
+    throw new Error(
+      `Project version ${String(parsed.version)} is not supported (expected ${PROJECT_VERSION}).`
+    );
+  }
+  const { source, mapping } = parsed;
+  if (
+    !isRecord(source) ||
+    typeof source.fileName !== "string" ||
+    !Array.isArray(parsed.rawTables) ||
+    !parsed.rawTables.every(isRawTable) ||
+    !isRecord(mapping) ||
+    !isSelection(mapping.selection) ||
+    !isDataset(parsed.dataset)
+  ) {
+    throw new Error("The project file is incomplete or corrupted.");
+  }
+  const step = PROJECT_STEPS.find((item) => item === parsed.step) ?? "import";
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: typeof parsed.savedAt === "string" ? parsed.savedAt : "",
+    step,
+    source: {
+      fileName: source.fileName,
+      fileType: typeof source.fileType === "string" ? source.fileType : null,
+      sheetNames: Array.isArray(source.sheetNames)
+        ? source.sheetNames.filter((name): name is string => typeof name === "string")
+        : [],
+      selectedSheet: typeof source.selectedSheet === "string" ? source.selectedSheet : null
+    },
+    rawTables: parsed.rawTables,
+    mapping: {
+      selection: mapping.selection,
+      lastAppliedSelection: isSelection(mapping.lastAppliedSelection)
+        ? mapping.lastAppliedSelection
+        : null,
+      stats: isRecord(mapping.stats) ? (mapping.stats as MappingStats) : null
+    },
+    batchSources: readBatchSources(parsed.batchSources, parsed.rawTables.length),
+    dataset: parsed.dataset,
+    validationReport: isRecord(parsed.validationReport)
+      ? (parsed.validationReport as ValidationReport)
+      : null,
+    groups: Array.isArray(parsed.groups) ? (parsed.groups as ExperimentGroup[]) : [],
+    conditionColumns: Array.isArray(parsed.conditionColumns)
+      ? parsed.conditionColumns.filter((name): name is string => typeof name === "string")
+      : []
+  };
+};
+
+/** Batch sources whose table is not among the saved raw tables are left out. */
+export const toProjectBatchSources = (
+  sources: BatchSource[],
+  rawTables: RawTable[]
+): ProjectBatchSource[] =>
+  sources.flatMap(({ fileName, sheetName, table, included, selection }) => {
+    const tableIndex = rawTables.indexOf(table);
+    return tableIndex < 0 ? [] : [{ fileName, sheetName, tableIndex, included, selection }];
+  });
+
+export const fromProjectBatchSources = (project: KinetikProject): BatchSource[] =>
+  project.batchSources.map(({ tableIndex, ...source }, index) => ({
+    ...source,
+    id: `source-${index + 1}`,
+    table: project.rawTables[tableIndex]
+  }));
+
+export const getProjectFileName = (name: string, savedAt = new Date()): string => {
+  const stem = name
+    .replace(/\.[^.]+$/, "")
+    .replace(/[^\w-]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${stem || "projekt"}-${savedAt.toISOString().slice(0, 10)}${PROJECT_FILE_EXTENSION}`;
+};
@@ -0,0 +1,492 @@
+import { formatNumber } from "../units/format";
+import type { ChartPoint, KineticsReport, ReportBlock } from "./reportModel";
+
+export type RenderedPdf = {
+  bytes: Uint8Array;
+  pageCount: number;
+};
+
+type Color = [number, number, number];
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FOOTER_SPACE = 24;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const BODY_SIZE = 9.5;
+const LINE_FACTOR = 1.35;
+const CELL_PADDING = 4;
+const CHART_HEIGHT = 190;
+const TEXT_COLOR: Color = [0.09, 0.11, 0.16];
+const MUTED_COLOR: Color = [0.39, 0.45, 0.55];
+const RULE_COLOR: Color = [0.8, 0.84, 0.88];
+const HEADER_FILL: Color = [0.93, 0.95, 0.97];
+const CURVE_COLOR: Color = [0.15, 0.39, 0.92];
+
+/** Standard Helvetica advance widths (1/1000 em) for ASCII 32–126. */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const DEFAULT_WIDTH = 556;
+// Helvetica-Bold is slightly wider; overestimating keeps wrapped text inside its box.
+const BOLD_FACTOR = 1.08;
+
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‡": 0x87,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97
+};
+
+const REPLACEMENTS: Record<string, string> = {
+  "→": "->",
+  "⇌": "<=>",
+  "≤": "<=",
+  "≥": ">=",
+  "−": "-",
+  "⁻": "-",
+  "⁰": "^0",
+  "⁴": "^4",
+  "⁵": "^5",
+  "⁶": "^6",
+  "⁷": "^7",
+  "⁸": "^8",
+  "⁹": "^9",
+  χ: "chi",
+  Δ: "d"
+};
+
+const toWinAnsi = (text: string): number[] => {
+  const codes: number[] = [];
+  for (const char of text) {
+    const replacement = REPLACEMENTS[char];
+    if (replacement) {
+      codes.push(...toWinAnsi(replacement));
+      continue;
+    }
+    const code = char.codePointAt(0) ?? 63;
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      codes.push(WIN_ANSI_EXTRAS[char]);
+    } else if (code === 9) {
+      codes.push(32);
+    } else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      codes.push(code);
+    } else {
+      codes.push(63);
+    }
+  }
+  return codes;
+};
+
+export const measureText = (text: string, size: number, bold = false): number => {
+  const units = toWinAnsi(text).reduce(
+    (sum, code) => sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_WIDTH),
+    0
+  );
+  return (units * size * (bold ? BOLD_FACTOR : 1)) / 1000;
+};
+
+export const escapePdfText = (text: string): string =>
+  toWinAnsi(text)
+    .map((code) => {
+      if (code === 40 || code === 41 || code === 92) {
+        return `\\${String.fromCharCode(code)}`;
+      }
+      if (code < 32 || code > 126) {
+        return `\\${code.toString(8).padStart(3, "0")}`;
+      }
+      return String.fromCharCode(code);
+    })
+    .join("");
+
+const splitLongWord = (word: string, width: number, size: number, bold: boolean): string[] => {
+  const parts: string[] = [];
+  let current = "";
+  for (const char of word) {
+    if (current && measureText(current + char, size, bold) > width) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  if (current) {
+    parts.push(current);
+  }
+  return parts;
+};
+
+export const wrapText = (text: string, width: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+  text.split("\n").forEach((paragraph) => {
+    let current = "";
+    paragraph
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((word) => {
+        const candidate = current ? `${current} ${word}` : word;
+        if (measureText(candidate, size, bold) <= width) {
+          current = candidate;
+          return;
+        }
+        if (current) {
+          lines.push(current);
+        }
+        const pieces = splitLongWord(word, width, size, bold);
+        current = pieces.pop() ?? "";
+        lines.push(...pieces);
+      });
+    lines.push(current);
+  });
+  return lines;
+};
+
+const num = (value: number): string => value.toFixed(2);
+const colorOp = ([r, g, b]: Color, stroke: boolean): string =>
+  `${num(r)} ${num(g)} ${num(b)} ${stroke ? "RG" : "rg"}`;
+
+const computeColumnWidths = (columns: string[], rows: string[][]): number[] => {
+  const natural = columns.map(
+    (column, index) =>
+      Math.max(
+        measureText(column, BODY_SIZE, true),
+        ...rows.map((row) => measureText(row[index] ?? "", BODY_SIZE))
+      ) +
+      2 * CELL_PADDING
+  );
+  const total = natural.reduce((sum, value) => sum + value, 0);
+  if (total <= CONTENT_WIDTH) {
+    return natural.map((value) => (value / total) * CONTENT_WIDTH);
+  }
+  const fairShare = CONTENT_WIDTH / columns.length;
+  const fixed = natural.map((value) => value <= fairShare);
+  const fixedWidth = natural.reduce((sum, value, index) => sum + (fixed[index] ? value : 0), 0);
+  const flexibleNatural = total - fixedWidth;
+  return natural.map((value, index) =>
+    fixed[index] ? value : (value / flexibleNatural) * (CONTENT_WIDTH - fixedWidth)
+  );
+};
+
+const getRange = (values: number[]): [number, number] => {
+  const finite = values.filter(Number.isFinite);
+  if (finite.length === 0) {
+    return [0, 1];
+  }
+  const min = Math.min(...finite);
+  const max = Math.max(...finite);
+  if (min === max) {
+    return [min - 1, max + 1];
+  }
+  const padding = (max - min) * 0.05;
+  return [min - padding, max + padding];
+};
+
+const formatPdfDate = (iso: string): string => {
+  const digits = iso.replace(/[^0-9]/g, "").slice(0, 14);
+  return `D:${digits}Z`;
+};
+
+/**
+ * Lays out a KineticsReport on A4 pages and serialises it as a PDF 1.4 file.
+ * Uses the standard Helvetica fonts, so no font data has to be embedded and the
+ * output stays byte-identical for identical input.
+ */
+export const renderReportPdf = (report: KineticsReport): RenderedPdf => {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const ensureSpace = (height: number): boolean => {
+    if (y - height < MARGIN + FOOTER_SPACE) {
+      newPage();
+      return true;
+    }
+    return false;
+  };
+
+  const drawText = (
+    x: number,
+    baseline: number,
+    text: string,
+    size: number,
+    bold = false,
+    color: Color = TEXT_COLOR
+  ) => {
+    ops.push(
+      `BT ${colorOp(color, false)} /${bold ? "F2" : "F1"} ${num(size)} Tf ${num(x)} ${num(
+        baseline
+      )} Td (${escapePdfText(text)}) Tj ET`
+    );
+  };
+
+  const drawLine = (x1: number, y1: number, x2: number, y2: number, color = RULE_COLOR) => {
+    ops.push(`${colorOp(color, true)} 0.5 w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+  };
+
+  const fillRect = (x: number, bottom: number, width: number, height: number, color: Color) => {
+    ops.push(`${colorOp(color, false)} ${num(x)} ${num(bottom)} ${num(width)} ${num(height)} re f`);
+  };
+
+  const lineHeight = (size: number) => size * LINE_FACTOR;
+
+  const renderParagraph = (text: string, size = BODY_SIZE, color: Color = TEXT_COLOR) => {
+    wrapText(text, CONTENT_WIDTH, size).forEach((line) => {
+      ensureSpace(lineHeight(size));
+      y -= lineHeight(size);
+      drawText(MARGIN, y + size * 0.3, line, size, false, color);
+    });
+    y -= 6;
+  };
+
+  const renderKeyValue = (entries: [string, string][]) => {
+    const keyWidth = Math.min(
+      CONTENT_WIDTH / 3,
+      Math.max(...entries.map(([key]) => measureText(key, BODY_SIZE, true))) + 12
+    );
+    entries.forEach(([key, value]) => {
+      const lines = wrapText(value, CONTENT_WIDTH - keyWidth, BODY_SIZE);
+      ensureSpace(lines.length * lineHeight(BODY_SIZE));
+      lines.forEach((line, index) => {
+        y -= lineHeight(BODY_SIZE);
+        if (index === 0) {
+          drawText(MARGIN, y + BODY_SIZE * 0.3, key, BODY_SIZE, true);
+        }
+        drawText(MARGIN + keyWidth, y + BODY_SIZE * 0.3, line, BODY_SIZE);
+      });
+    });
+    y -= 8;
+  };
+
+  const renderTableRow = (cells: string[], widths: number[], header: boolean) => {
+    const wrapped = cells.map((cell, index) =>
+      wrapText(cell, widths[index] - 2 * CELL_PADDING, BODY_SIZE, header)
+    );
+    const rowHeight =
+      Math.max(...wrapped.map((lines) => lines.length)) * lineHeight(BODY_SIZE) + 2 * CELL_PADDING;
+    if (header) {
+      fillRect(MARGIN, y - rowHeight, CONTENT_WIDTH, rowHeight, HEADER_FILL);
+    }
+    let x = MARGIN;
+    wrapped.forEach((lines, index) => {
+      lines.forEach((line, lineIndex) => {
+        const baseline =
+          y - CELL_PADDING - (lineIndex + 1) * lineHeight(BODY_SIZE) + BODY_SIZE * 0.3;
+        drawText(x + CELL_PADDING, baseline, line, BODY_SIZE, header);
+      });
+      x += widths[index];
+    });
+    y -= rowHeight;
+    drawLine(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+  };
+
+  const measureRowHeight = (cells: string[], widths: number[], header: boolean) =>
+    Math.max(
+      ...cells.map(
+        (cell, index) => wrapText(cell, widths[index] - 2 * CELL_PADDING, BODY_SIZE, header).length
+      )
+    ) *
+      lineHeight(BODY_SIZE) +
+    2 * CELL_PADDING;
+
+  const renderTable = (columns: string[], rows: string[][]) => {
+    const widths = computeColumnWidths(columns, rows);
+    const headerHeight = measureRowHeight(columns, widths, true);
+    ensureSpace(headerHeight + (rows[0] ? measureRowHeight(rows[0], widths, false) : 0));
+    renderTableRow(columns, widths, true);
+    rows.forEach((row) => {
+      if (ensureSpace(measureRowHeight(row, widths, false))) {
+        renderTableRow(columns, widths, true);
+      }
+      renderTableRow(row, widths, false);
+    });
+    y -= 10;
+  };
+
+  const renderChart = (
+    title: string,
+    xLabel: string,
+    yLabel: string,
+    points: ChartPoint[],
+    curve: ChartPoint[]
+  ) => {
+    ensureSpace(CHART_HEIGHT + lineHeight(BODY_SIZE) + 30);
+    y -= lineHeight(BODY_SIZE);
+    drawText(MARGIN, y + BODY_SIZE * 0.3, title, BODY_SIZE, true);
+    const left = MARGIN + 55;
+    const right = MARGIN + CONTENT_WIDTH - 10;
+    const top = y - 8;
+    const bottom = top - CHART_HEIGHT + 30;
+    const [xMin, xMax] = getRange([...points, ...curve].map((point) => point.x));
+    const [yMin, yMax] = getRange([...points, ...curve].map((point) => point.y));
+    const toX = (value: number) => left + ((value - xMin) / (xMax - xMin)) * (right - left);
+    const toY = (value: number) => bottom + ((value - yMin) / (yMax - yMin)) * (top - bottom);
+
+    ops.push(
+      `${colorOp(MUTED_COLOR, true)} 0.5 w ${num(left)} ${num(bottom)} ${num(right - left)} ${num(
+        top - bottom
+      )} re S`
+    );
+    [0, 0.5, 1].forEach((fraction) => {
+      const xValue = xMin + fraction * (xMax - xMin);
+      const yValue = yMin + fraction * (yMax - yMin);
+      const xLabelText = formatNumber(xValue);
+      const yLabelText = formatNumber(yValue);
+      drawText(
+        toX(xValue) - measureText(xLabelText, 7.5) / 2,
+        bottom - 11,
+        xLabelText,
+        7.5,
+        false,
+        MUTED_COLOR
+      );
+      drawText(
+        left - 4 - measureText(yLabelText, 7.5),
+        toY(yValue) - 2.5,
+        yLabelText,
+        7.5,
+        false,
+        MUTED_COLOR
+      );
+    });
+    drawText((left + right) / 2 - measureText(xLabel, 8) / 2, bottom - 23, xLabel, 8);
+    drawText(MARGIN, top + 2, yLabel, 8, false, MUTED_COLOR);
+
+    if (curve.length > 1) {
+      const path = curve
+        .map(
+          (point, index) => `${num(toX(point.x))} ${num(toY(point.y))} ${index === 0 ? "m" : "l"}`
+        )
+        .join(" ");
+      ops.push(`${colorOp(CURVE_COLOR, true)} 1.2 w ${path} S`);
+    }
+    points.forEach((point) => {
+      if (Number.isFinite(point.x) && Number.isFinite(point.y)) {
+        fillRect(toX(point.x) - 1.5, toY(point.y) - 1.5, 3, 3, TEXT_COLOR);
+      }
+    });
+    y = bottom - 36;
+  };
+
+  const renderBlock = (block: ReportBlock) => {
+    switch (block.kind) {
+      case "paragraph":
+        renderParagraph(block.text);
+        break;
+      case "keyValue":
+        renderKeyValue(block.entries);
+        break;
+      case "table":
+        renderTable(block.columns, block.rows);
+        break;
+      case "chart":
+        renderChart(block.title, block.xLabel, block.yLabel, block.points, block.curve);
+        break;
+    }
+  };
+
+  newPage();
+  wrapText(report.title, CONTENT_WIDTH, 18, true).forEach((line) => {
+    y -= lineHeight(18);
+    drawText(MARGIN, y, line, 18, true);
+  });
+  renderParagraph(report.subtitle, 10, MUTED_COLOR);
+  drawLine(MARGIN, y, MARGIN + CONTENT_WIDTH, y, MUTED_COLOR);
+  y -= 12;
+
+  report.sections.forEach((section) => {
+    // Keep a heading together with at least a few lines of its content.
+    ensureSpace(lineHeight(13) + 4 * lineHeight(BODY_SIZE));
+    y -= lineHeight(13);
+    drawText(MARGIN, y, section.title, 13, true);
+    y -= 6;
+    section.blocks.forEach(renderBlock);
+    y -= 6;
+  });
+
+  pages.forEach((pageOps, index) => {
+    ops = pageOps;
+    const footerY = MARGIN - 10;
+    const pageLabel = `Seite ${index + 1} / ${pages.length}`;
+    drawLine(MARGIN, footerY + 12, MARGIN + CONTENT_WIDTH, footerY + 12);
+    drawText(
+      MARGIN,
+      footerY,
+      wrapText(report.title, CONTENT_WIDTH * 0.7, 8)[0] ?? "",
+      8,
+      false,
+      MUTED_COLOR
+    );
+    drawText(
+      MARGIN + CONTENT_WIDTH - measureText(pageLabel, 8),
+      footerY,
+      pageLabel,
+      8,
+      false,
+      MUTED_COLOR
+    );
+  });
+
+  const objects: string[] = [];
+  const pageObjectIds = pages.map((_, index) => 6 + index * 2);
+  objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objects.push(
+    `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${
+      pages.length
+    } >>`
+  );
+  objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  objects.push(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+  );
+  objects.push(
+    `<< /Title (${escapePdfText(report.title)}) /Producer (Kinetik Researcher) /CreationDate (${formatPdfDate(
+      report.generatedAt
+    )}) >>`
+  );
+  pages.forEach((pageOps, index) => {
+    const content = pageOps.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(
+        PAGE_HEIGHT
+      )}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+        pageObjectIds[index] + 1
+      } 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Every byte written is 7-bit ASCII, so string offsets equal byte offsets.
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return {
+    bytes: Uint8Array.from(output, (char) => char.charCodeAt(0)),
+    pageCount: pages.length
+  };
+};
@@ -0,0 +1,500 @@
+import type { Dataset, Experiment, Series } from "../import/types";
+import { generateImportValidationReport, type ValidationFinding } from "../import/validation";
+import type { ValidationProfileId } from "../import/validationProfiles";
+import {
+  describePreprocessingStep,
+  getPreprocessingSteps,
+  preprocessExperiments
+} from "../preprocessing/pipeline";
+import {
+  DROP_REASONS,
+  DROP_REASON_LABELS,
+  getDroppedRows,
+  getSeriesSource
+} from "../import/provenance";
+import { getFitPoints } from "../fitting/fitSeries";
+import { RATE_LAWS, getRateLawParameterUnits } from "../fitting/rateLaws";
+import type { RateLawId } from "../fitting/types";
+import { formatNumber } from "../units/format";
+import { getFitConcentrationLabel } from "../units/seriesUnits";
+import type {
+  DatasetArrheniusRecord,
+  DatasetFitRecord,
+  EstimatedQuantity
+} from "../../types/fitting";
+import type { ExperimentGroup } from "../../types/grouping";
+
+export type ChartPoint = { x: number; y: number };
+
+export type ReportBlock =
+  | { kind: "paragraph"; text: string }
+  | { kind: "keyValue"; entries: [string, string][] }
+  | { kind: "table"; columns: string[]; rows: string[][] }
+  | {
+      kind: "chart";
+      title: string;
+      xLabel: string;
+      yLabel: string;
+      points: ChartPoint[];
+      curve: ChartPoint[];
+    };
+
+export type ReportSection = {
+  title: string;
+  blocks: ReportBlock[];
+};
+
+export type KineticsReport = {
+  title: string;
+  subtitle: string;
+  generatedAt: string;
+  sections: ReportSection[];
+};
+
+export type ReportOptions = {
+  title?: string;
+  author?: string;
+  notes?: string;
+  includeCharts?: boolean;
+  includeAudit?: boolean;
+};
+
+type BuildReportInput = {
+  dataset: Dataset;
+  groups?: ExperimentGroup[];
+  /** Rule profile the validation section is checked with. */
+  validationProfileId?: ValidationProfileId;
+  options?: ReportOptions;
+  generatedAt?: Date;
+};
+
+const STATUS_LABELS = {
+  clean: "Sauber",
+  "needs-info": "Prüfen",
+  broken: "Blockiert"
+} as const;
+
+const SEVERITY_LABELS = {
+  info: "Info",
+  warn: "Warnung",
+  error: "Fehler"
+} as const;
+
+const CURVE_SAMPLES = 60;
+const AUDIT_PAYLOAD_LIMIT = 160;
+
+const formatTimestamp = (iso: string): string => iso.replace("T", " ").replace(/\.\d+Z$/, "Z");
+
+const getModelLabel = (modelId: string): string =>
+  RATE_LAWS[modelId as RateLawId]?.label ?? modelId;
+
+const getRecordModelLabel = (record: DatasetFitRecord): string => {
+  if (record.kind === "mechanism") {
+    return `Mechanismus ${record.modelId}`;
+  }
+  return record.kind === "global"
+    ? `${getModelLabel(record.modelId)} · global`
+    : getModelLabel(record.modelId);
+};
+
+const findSeries = (
+  experiments: Experiment[],
+  record: DatasetFitRecord
+): { experiment: Experiment; series: Series } | null => {
+  const experiment = experiments.find((item) => item.experimentId === record.experimentId);
+  const series = experiment?.series.find((item) => item.id === record.seriesId);
+  return experiment && series ? { experiment, series } : null;
+};
+
+const formatParameters = (record: DatasetFitRecord, series?: Series): string => {
+  const units =
+    series && record.modelId in RATE_LAWS
+      ? getRateLawParameterUnits(record.modelId as RateLawId, getFitConcentrationLabel(series))
+      : {};
+  return Object.entries(record.parameters)
+    .map(([name, value]) => {
+      const unit = units[name] ? ` ${units[name]}` : "";
+      return `${name} = ${formatNumber(value)} ± ${formatNumber(record.standardErrors[name])}${unit}`;
+    })
+    .join("; ");
+};
+
+const formatFinding = (finding: ValidationFinding): string[] => [
+  SEVERITY_LABELS[finding.severity],
+  finding.experimentName ?? finding.experimentId ?? "Datensatz",
+  finding.seriesName ?? "–",
+  finding.title
+];
+
+const buildDatasetSection = (dataset: Dataset): ReportSection => {
+  const seriesCount = dataset.experiments.reduce((sum, item) => sum + item.series.length, 0);
+  return {
+    title: "Datensatz",
+    blocks: [
+      {
+        kind: "keyValue",
+        entries: [
+          ["Name", dataset.name],
+          ["Datensatz-ID", dataset.id],
+          ["Importiert", formatTimestamp(dataset.createdAt)],
+          ["Experimente", String(dataset.experiments.length)],
+          ["Datenreihen", String(seriesCount)]
+        ]
+      },
+      {
+        kind: "table",
+        columns: ["Experiment", "Reihen", "Punkte", "Metadaten"],
+        rows: dataset.experiments.map((experiment) => [
+          experiment.name ?? experiment.experimentId,
+          experiment.series.map((series) => series.name).join(", "),
+          String(experiment.series.reduce((sum, series) => sum + series.y.length, 0)),
+          Object.entries(experiment.metaRaw)
+            .filter(([, value]) => value !== null && value !== "")
+            .map(([key, value]) => `${key}: ${value}`)
+            .join("; ") || "–"
+        ])
+      }
+    ]
+  };
+};
+
+const buildValidationSection = (
+  dataset: Dataset,
+  validationProfileId?: ValidationProfileId
+): ReportSection => {
+  const validation = generateImportValidationReport(dataset, validationProfileId);
+  const findings = [
+    ...validation.datasetFindings,
+    ...validation.experimentSummaries.flatMap((summary) => summary.findings)
+  ];
+  // Every raw row that did not become a point, so nothing is discarded silently.
+  const droppedRows = dataset.experiments.flatMap((experiment) =>
+    experiment.series.flatMap((series) => {
+      const source = getSeriesSource(series);
+      return getDroppedRows(series).map((row) => [
+        experiment.name ?? experiment.experimentId,
+        series.name,
+        [source.file, source.sheet].filter(Boolean).join(" · ") || "–",
+        row.rowIndex === null ? "–" : String(row.rowIndex + 1),
+        row.raw === null || row.raw === "" ? "–" : String(row.raw),
+        DROP_REASON_LABELS[row.reason]
+      ]);
+    })
+  );
+  const preprocessing = dataset.experiments.flatMap((experiment) =>
+    experiment.series.flatMap((series) => {
+      const steps = getPreprocessingSteps(series);
+      return steps.length > 0
+        ? [
+            [
+              experiment.name ?? experiment.experimentId,
+              series.name,
+              steps
+                .map((step, index) => `${index + 1}. ${describePreprocessingStep(step)}`)
+                .join("; ")
+            ]
+          ]
+        : [];
+    })
+  );
+  return {
+    title: "Validierung",
+    blocks: [
+      {
+        kind: "keyValue",
+        entries: [
+          ["Status", STATUS_LABELS[validation.status]],
+          ["Prüfprofil", validation.profile?.label ?? "–"],
+          ["Messpunkte", String(validation.counts.points)],
+          ["Verworfene Punkte", String(validation.counts.droppedPoints)],
+          ...DROP_REASONS.filter((reason) => validation.counts.dropReasons[reason] > 0).map(
+            (reason): [string, string] => [
+              `davon ${DROP_REASON_LABELS[reason]}`,
+              String(validation.counts.dropReasons[reason])
+            ]
+          )
+        ]
+      },
+      ...(droppedRows.length > 0
+        ? [
+            {
+              kind: "table" as const,
+              columns: ["Experiment", "Reihe", "Quelle", "Zeile", "Wert", "Grund"],
+              rows: droppedRows
+            }
+          ]
+        : []),
+      ...(preprocessing.length > 0
+        ? [
+            {
+              kind: "table" as const,
+              columns: ["Experiment", "Reihe", "Vorverarbeitung"],
+              rows: preprocessing
+            }
+          ]
+        : []),
+      findings.length === 0
+        ? { kind: "paragraph", text: "Keine Auffälligkeiten gefunden." }
+        : {
+            kind: "table",
+            columns: ["Schweregrad", "Experiment", "Reihe", "Befund"],
+            rows: findings.map(formatFinding)
+          }
+    ]
+  };
+};
+
+const buildGroupingSection = (dataset: Dataset, groups: ExperimentGroup[]): ReportSection => {
+  if (groups.length === 0) {
+    return {
+      title: "Gruppierung",
+      blocks: [{ kind: "paragraph", text: "Es wurden keine Gruppen bestätigt." }]
+    };
+  }
+  const nameById = new Map(
+    dataset.experiments.map((experiment) => [
+      experiment.experimentId,
+      experiment.name ?? experiment.experimentId
+    ])
+  );
+  return {
+    title: "Gruppierung",
+    blocks: [
+      {
+        kind: "table",
+        columns: ["Gruppe", "Experimente"],
+        rows: groups.map((group) => [
+          group.name,
+          group.experimentIds.map((id) => nameById.get(id) ?? id).join(", ") || "–"
+        ])
+      }
+    ]
+  };
+};
+
+const buildFitChart = (
+  record: DatasetFitRecord,
+  experiment: Experiment,
+  series: Series
+): ReportBlock | null => {
+  const law = RATE_LAWS[record.modelId as RateLawId];
+  const points = getFitPoints(series);
+  if (!law || points.time.length === 0) {
+    return null;
+  }
+  const params = law.parameterNames.map((name) => record.parameters[name]);
+  const start = Math.min(...points.time);
+  const end = Math.max(...points.time);
+  const curve = Array.from({ length: CURVE_SAMPLES }, (_, index) => {
+    const x = start + ((end - start) * index) / (CURVE_SAMPLES - 1);
+    return { x, y: law.evaluate(x, params) };
+  }).filter((point) => Number.isFinite(point.y));
+  return {
+    kind: "chart",
+    title: `${experiment.name ?? experiment.experimentId} · ${series.name} · ${law.label}`,
+    xLabel: "t [s]",
+    yLabel: `${series.name} [${getFitConcentrationLabel(series)}]`,
+    points: points.time.map((x, index) => ({ x, y: points.y[index] })),
+    curve
+  };
+};
+
+const buildFitSection = (dataset: Dataset, includeCharts: boolean): ReportSection => {
+  const records = dataset.fits ?? [];
+  if (records.length === 0) {
+    return {
+      title: "Fits",
+      blocks: [{ kind: "paragraph", text: "Es liegen noch keine Fit-Ergebnisse vor." }]
+    };
+  }
+  // Fits were computed on the preprocessed values, so units and plots follow them.
+  const experiments = preprocessExperiments(dataset.experiments);
+  const resolved = records.map((record) => ({
+    record,
+    match: findSeries(experiments, record)
+  }));
+  const blocks: ReportBlock[] = [
+    {
+      kind: "table",
+      columns: ["Experiment", "Reihe", "Modell", "Parameter ± SE", "R²", "n"],
+      rows: resolved.map(({ record, match }) => [
+        match?.experiment.name ?? record.label ?? record.experimentId,
+        match?.series.name ?? (record.kind ? "–" : record.seriesId),
+        getRecordModelLabel(record),
+        formatParameters(record, match?.series),
+        record.rSquared.toFixed(4),
+        String(record.pointCount)
+      ])
+    }
+  ];
+
+  const withUncertainty = resolved.filter(({ record }) => record.uncertainty);
+  if (withUncertainty.length > 0) {
+    blocks.push({
+      kind: "table",
+      columns: ["Experiment", "Modell", "Parameter", "Bootstrap-KI", "Profil-KI"],
+      rows: withUncertainty.flatMap(({ record, match }) => {
+        const uncertainty = record.uncertainty;
+        if (!uncertainty) {
+          return [];
+        }
+        const level = `${Math.round(uncertainty.confidence * 100)} %`;
+        return uncertainty.parameterNames.map((name) => {
+          const bootstrap = uncertainty.bootstrap.intervals[name];
+          const profile = uncertainty.profile.intervals[name];
+          return [
+            match?.experiment.name ?? record.label ?? record.experimentId,
+            getRecordModelLabel(record),
+            name,
+            `${level}: ${formatNumber(bootstrap?.lower)} – ${formatNumber(bootstrap?.upper)}`,
+            `${level}: ${formatNumber(profile?.lower)} – ${formatNumber(profile?.upper)}`
+          ];
+        });
+      })
+    });
+  }
+
+  if (includeCharts) {
+    resolved.forEach(({ record, match }) => {
+      const chart = match ? buildFitChart(record, match.experiment, match.series) : null;
+      if (chart) {
+        blocks.push(chart);
+      }
+    });
+  }
+  return { title: "Fits", blocks };
+};
+
+const formatQuantity = (
+  quantity: EstimatedQuantity,
+  confidence: number,
+  unit: string,
+  scale = 1
+): string =>
+  `${formatNumber(quantity.value / scale)} ${unit} (${Math.round(confidence * 100)} %-KI ${formatNumber(
+    quantity.lower === null ? null : quantity.lower / scale
+  )} – ${formatNumber(quantity.upper === null ? null : quantity.upper / scale)})`;
+
+const buildArrheniusSection = (dataset: Dataset, record: DatasetArrheniusRecord): ReportSection => {
+  const { arrhenius, eyring } = record;
+  const fit = (dataset.fits ?? []).find(
+    (item) => item.experimentId === arrhenius.points[0]?.experimentId
+  );
+  const match = fit ? findSeries(preprocessExperiments(dataset.experiments), fit) : null;
+  const kUnit = getRateLawParameterUnits(
+    record.modelId as RateLawId,
+    match ? getFitConcentrationLabel(match.series) : "M"
+  ).k;
+  const entries: [string, string][] = [
+    ["Geschwindigkeitsgesetz", getModelLabel(record.modelId)],
+    ["Temperatur-Spalte", record.temperatureKey],
+    ["Ea", formatQuantity(arrhenius.activationEnergy, arrhenius.confidence, "kJ/mol", 1000)],
+    ["A", formatQuantity(arrhenius.preExponentialFactor, arrhenius.confidence, kUnit)],
+    ["R² (Arrhenius)", arrhenius.rSquared.toFixed(4)],
+    ...(eyring
+      ? ([
+          ["ΔH‡", formatQuantity(eyring.enthalpyOfActivation, eyring.confidence, "kJ/mol", 1000)],
+          ["ΔS‡", formatQuantity(eyring.entropyOfActivation, eyring.confidence, "J/(mol·K)")],
+          ["R² (Eyring)", eyring.rSquared.toFixed(4)]
+        ] as [string, string][])
+      : [["Eyring", "nur für 1. Ordnung (k in s⁻¹)"] as [string, string]])
+  ];
+  return {
+    title: "Arrhenius/Eyring",
+    blocks: [
+      { kind: "keyValue", entries },
+      {
+        kind: "table",
+        columns: ["Experiment", "T [K]", `k [${kUnit}]`],
+        rows: arrhenius.points.map((point) => [
+          point.experimentName,
+          point.temperatureK.toFixed(2),
+          formatNumber(point.k)
+        ])
+      },
+      ...(record.leftOut.length > 0
+        ? [
+            {
+              kind: "paragraph" as const,
+              text: `Nicht berücksichtigt (kein Fit mit diesem Gesetz oder keine Temperatur): ${record.leftOut.join(", ")}`
+            }
+          ]
+        : [])
+    ]
+  };
+};
+
+const truncate = (value: string, limit: number): string =>
+  value.length > limit ? `${value.slice(0, limit - 1)}…` : value;
+
+const buildAuditSection = (dataset: Dataset): ReportSection => ({
+  title: "Audit-Trail",
+  blocks:
+    dataset.audit.length === 0
+      ? [{ kind: "paragraph", text: "Keine Audit-Einträge vorhanden." }]
+      : [
+          {
+            kind: "table",
+            columns: ["Zeitpunkt", "Aktion", "Details"],
+            rows: [...dataset.audit]
+              .sort((a, b) => a.ts.localeCompare(b.ts))
+              .map((entry) => [
+                formatTimestamp(entry.ts),
+                entry.type,
+                truncate(JSON.stringify(entry.payload), AUDIT_PAYLOAD_LIMIT)
+              ])
+          }
+        ]
+});
+
+/**
+ * Assembles everything QA needs to reproduce an analysis into a renderer-agnostic
+ * document model. The PDF writer and the on-screen summary both consume it.
+ */
+export const buildKineticsReport = ({
+  dataset,
+  groups = [],
+  validationProfileId,
+  options = {},
+  generatedAt = new Date()
+}: BuildReportInput): KineticsReport => {
+  const { includeCharts = true, includeAudit = true } = options;
+  const sections: ReportSection[] = [
+    buildDatasetSection(dataset),
+    buildValidationSection(dataset, validationProfileId),
+    buildGroupingSection(dataset, groups),
+    buildFitSection(dataset, includeCharts)
+  ];
+  if (dataset.arrhenius) {
+    sections.push(buildArrheniusSection(dataset, dataset.arrhenius));
+  }
+  const notes = options.notes?.trim();
+  if (notes) {
+    sections.push({
+      title: "Anmerkungen",
+      blocks: notes.split(/\n\s*\n/).map((text) => ({ kind: "paragraph", text }))
+    });
+  }
+  if (includeAudit) {
+    sections.push(buildAuditSection(dataset));
+  }
+  const author = options.author?.trim();
+  return {
+    title: options.title?.trim() || `Kinetik-Report · ${dataset.name}`,
+    subtitle: [`Erstellt ${formatTimestamp(generatedAt.toISOString())}`, author && `von ${author}`]
+      .filter(Boolean)
+      .join(" "),
+    generatedAt: generatedAt.toISOString(),
+    sections
+  };
+};
+
+export const getReportFileName = (report: KineticsReport): string => {
+  const stem = report.title
+    .normalize("NFKD")
+    .replace(/[^\w-]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "")
+    .toLowerCase();
+  return `${stem || "kinetik-report"}-${report.generatedAt.slice(0, 10)}.pdf`;
+};
@@ -0,0 +1,11 @@
+/** Four significant digits, switching to exponent notation for very small or large values. */
+export const formatNumber = (value: number | null | undefined): string => {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return "n/a";
+  }
+  const magnitude = Math.abs(value);
+  if (magnitude !== 0 && (magnitude < 1e-3 || magnitude >= 1e5)) {
+    return value.toExponential(3);
+  }
+  return value.toPrecision(4);
+};
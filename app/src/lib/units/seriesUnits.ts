@@ -0,0 +1,30 @@
+import type { Series } from "../import/types";
+import { BASE_UNITS, formatCompoundUnit, getUnit, type UnitDefinition } from "./units";
+
+const readUnitMeta = (series: Series, key: "timeUnit" | "valueUnit"): UnitDefinition | null => {
+  const value = series.meta?.[key];
+  return typeof value === "string" ? getUnit(value) : null;
+};
+
+export const getSeriesTimeUnit = (series: Series): UnitDefinition | null =>
+  readUnitMeta(series, "timeUnit");
+
+export const getSeriesValueUnit = (series: Series): UnitDefinition | null =>
+  readUnitMeta(series, "valueUnit");
+
+/** Label used when a series has no recognised concentration unit. */
+export const UNKNOWN_CONCENTRATION_LABEL = "a.u.";
+
+/**
+ * Fits run in base units (s, M). A series without a concentration unit keeps its
+ * raw signal, which is labelled as arbitrary units.
+ */
+export const getFitConcentrationLabel = (series: Series): string =>
+  getSeriesValueUnit(series) ? BASE_UNITS.concentration : UNKNOWN_CONCENTRATION_LABEL;
+
+/** Unit of an n-th order rate constant: c^(1−n)·s⁻¹. */
+export const getRateConstantUnit = (order: number, concentrationLabel: string): string =>
+  formatCompoundUnit([
+    [concentrationLabel, 1 - order],
+    [BASE_UNITS.time, -1]
+  ]);
@@ -0,0 +1,183 @@
+export type UnitDimension = "time" | "concentration";
+
+export type UnitDefinition = {
+  id: string;
+  dimension: UnitDimension;
+  symbol: string;
+  /** Multiply a value in this unit by `factor` to get the base unit (s, mol/L). */
+  factor: number;
+  aliases: string[];
+};
+
+export const BASE_UNITS: Record<UnitDimension, string> = {
+  time: "s",
+  concentration: "M"
+};
+
+export const UNITS: UnitDefinition[] = [
+  {
+    id: "ms",
+    dimension: "time",
+    symbol: "ms",
+    factor: 1e-3,
+    aliases: ["ms", "msec", "millisecond", "milliseconds", "millisekunden"]
+  },
+  {
+    id: "s",
+    dimension: "time",
+    symbol: "s",
+    factor: 1,
+    aliases: ["s", "sec", "secs", "second", "seconds", "sek", "sekunde", "sekunden"]
+  },
+  {
+    id: "min",
+    dimension: "time",
+    symbol: "min",
+    factor: 60,
+    aliases: ["min", "mins", "minute", "minutes", "minuten"]
+  },
+  {
+    id: "h",
+    dimension: "time",
+    symbol: "h",
+    factor: 3600,
+    aliases: ["h", "hr", "hrs", "hour", "hours", "std", "stunde", "stunden"]
+  },
+  {
+    id: "d",
+    dimension: "time",
+    symbol: "d",
+    factor: 86400,
+    aliases: ["d", "day", "days", "tag", "tage"]
+  },
+  {
+    id: "M",
+    dimension: "concentration",
+    symbol: "M",
+    factor: 1,
+    aliases: ["M", "mol/l", "mol/dm3", "molar"]
+  },
+  {
+    id: "mM",
+    dimension: "concentration",
+    symbol: "mM",
+    factor: 1e-3,
+    aliases: ["mM", "mmol/l", "mmol/dm3", "mol/m3", "millimolar"]
+  },
+  {
+    id: "µM",
+    dimension: "concentration",
+    symbol: "µM",
+    factor: 1e-6,
+    aliases: ["µM", "μM", "uM", "µmol/l", "μmol/l", "umol/l", "mikromolar", "micromolar"]
+  },
+  {
+    id: "nM",
+    dimension: "concentration",
+    symbol: "nM",
+    factor: 1e-9,
+    aliases: ["nM", "nmol/l", "nanomolar"]
+  }
+];
+
+// Short symbols (m, M, mM, h, d, ...) only match case-sensitively: "mM" is not "MM".
+const CASE_INSENSITIVE_MIN_LENGTH = 3;
+
+const SUPERSCRIPTS: Record<string, string> = {
+  "⁻": "-",
+  "¹": "1",
+  "²": "2",
+  "³": "3"
+};
+
+const normalizeUnitText = (text: string): string =>
+  text
+    .trim()
+    .replace(/[⁻¹²³]/g, (char) => SUPERSCRIPTS[char])
+    .replace(/[·⋅*]/g, " ")
+    .replace(/\s*\/\s*/g, "/")
+    // "mmol L-1" and "mmol·L⁻¹" mean "mmol/L".
+    .replace(/\s+(l|dm3|m3)\s*-1$/i, "/$1")
+    .replace(/\s+/g, " ");
+
+export const getUnit = (id: string | null | undefined): UnitDefinition | null =>
+  UNITS.find((unit) => unit.id === id) ?? null;
+
+export const getUnitsByDimension = (dimension: UnitDimension): UnitDefinition[] =>
+  UNITS.filter((unit) => unit.dimension === dimension);
+
+export const parseUnit = (text: string, dimension?: UnitDimension): UnitDefinition | null => {
+  const normalized = normalizeUnitText(text);
+  if (!normalized) {
+    return null;
+  }
+  const candidates = dimension ? getUnitsByDimension(dimension) : UNITS;
+  const exact = candidates.find((unit) => unit.aliases.includes(normalized));
+  if (exact) {
+    return exact;
+  }
+  const lower = normalized.toLowerCase();
+  return (
+    candidates.find((unit) =>
+      unit.aliases.some(
+        (alias) => alias.length >= CASE_INSENSITIVE_MIN_LENGTH && alias.toLowerCase() === lower
+      )
+    ) ?? null
+  );
+};
+
+/**
+ * Reads the unit out of a column header: "t [min]", "Zeit (h)", "c / mmol·L⁻¹",
+ * "time in s". Returns null when no recognised unit is present.
+ */
+export const detectHeaderUnit = (
+  header: string,
+  dimension?: UnitDimension
+): UnitDefinition | null => {
+  const candidates = [
+    ...Array.from(header.matchAll(/\[([^\]]+)\]/g), (match) => match[1]),
+    ...Array.from(header.matchAll(/\(([^)]+)\)/g), (match) => match[1]),
+    header.match(/\s\/\s*(.+)$/)?.[1],
+    header.match(/\bin\s+(\S+)\s*$/i)?.[1],
+    header.match(/_([A-Za-zµμ]+)$/)?.[1]
+  ];
+  for (const candidate of candidates) {
+    const unit = candidate ? parseUnit(candidate, dimension) : null;
+    if (unit) {
+      return unit;
+    }
+  }
+  return null;
+};
+
+export const convertToBase = (values: number[], unit: UnitDefinition | null): number[] =>
+  unit && unit.factor !== 1 ? values.map((value) => value * unit.factor) : [...values];
+
+export const convertValue = (value: number, from: UnitDefinition, to: UnitDefinition): number => {
+  if (from.dimension !== to.dimension) {
+    throw new Error(`Cannot convert ${from.symbol} to ${to.symbol}.`);
+  }
+  return (value * from.factor) / to.factor;
+};
+
+const SUPERSCRIPT_DIGITS = ["⁰", "¹", "²", "³", "⁴", "⁵", "⁶", "⁷", "⁸", "⁹"];
+
+const formatPower = (symbol: string, power: number): string => {
+  if (power === 1) {
+    return symbol;
+  }
+  const digits = String(Math.abs(power))
+    .split("")
+    .map((digit) => SUPERSCRIPT_DIGITS[Number(digit)])
+    .join("");
+  return `${symbol}${power < 0 ? "⁻" : ""}${digits}`;
+};
+
+/**
+ * Composes a unit label from factors, e.g. [["M", -1], ["s", -1]] → "M⁻¹·s⁻¹".
+ */
+export const formatCompoundUnit = (factors: [string, number][]): string =>
+  factors
+    .filter(([, power]) => power !== 0)
+    .map(([symbol, power]) => formatPower(symbol, power))
+    .join("·") || "1";
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import type { Experiment } from "../lib/import/types";
+import {
+  GAS_CONSTANT,
+  collectRateConstants,
+  findTemperatureKey,
+  fitArrhenius,
+  fitEyring
+} from "../lib/fitting/arrhenius";
+import type { FitResult } from "../lib/fitting/types";
+import { studentTCritical } from "../lib/fitting/statistics";
+
+const activationEnergy = 60_000;
+const preExponential = 1e7;
+const temperaturesC = [25, 40, 55, 70];
+
+const buildExperiment = (index: number, temperature: number): Experiment => ({
+  experimentId: `exp-${index}`,
+  name: `Run ${index}`,
+  series: [],
+  metaRaw: { "Temp [°C]": temperature }
+});
+
+const buildFit = (k: number): FitResult => ({
+  modelId: "first-order",
+  seriesId: "series",
+  parameters: { k, c0: 1 },
+  standardErrors: { k: k * 0.01, c0: 0.01 },
+  covariance: null,
+  time: [],
+  observed: [],
+  fitted: [],
+  residuals: [],
+  sse: 0,
+  rSquared: 1,
+  pointCount: 10,
+  parameterCount: 2,
+  iterations: 1,
+  converged: true
+});
+
+const experiments = temperaturesC.map((temperature, index) => buildExperiment(index, temperature));
+const fits = Object.fromEntries(
+  temperaturesC.map((temperature, index) => {
+    const noise = 1 + 0.01 * (index % 2 === 0 ? 1 : -1);
+    const k =
+      preExponential * Math.exp(-activationEnergy / (GAS_CONSTANT * (temperature + 273.15)));
+    return [`exp-${index}`, buildFit(k * noise)];
+  })
+);
+
+describe("arrhenius and eyring analysis", () => {
+  it("matches tabulated Student t critical values", () => {
+    expect(studentTCritical(0.95, 2)).toBeCloseTo(4.303, 3);
+    expect(studentTCritical(0.95, 10)).toBeCloseTo(2.228, 3);
+  });
+
+  it("finds the temperature key and converts Celsius to Kelvin", () => {
+    const key = findTemperatureKey(experiments);
+    expect(key).toBe("Temp [°C]");
+    const points = collectRateConstants({ experiments, fits, temperatureKey: key ?? "" });
+    expect(points).toHaveLength(4);
+    expect(points[0].temperatureK).toBeCloseTo(298.15, 6);
+  });
+
+  it("does not mistake a time header for the temperature", () => {
+    const withTime = experiments.map((experiment) => ({
+      ...experiment,
+      metaRaw: { "t [min]": 5, ...experiment.metaRaw }
+    }));
+    expect(findTemperatureKey(withTime)).toBe("Temp [°C]");
+    const kelvin = [{ ...experiments[0], metaRaw: { "t [min]": 5, "T (K)": 298 } }];
+    expect(findTemperatureKey(kelvin)).toBe("T (K)");
+  });
+
+  it("recovers Ea and A with a confidence interval", () => {
+    const points = collectRateConstants({ experiments, fits, temperatureKey: "Temp [°C]" });
+    const result = fitArrhenius(points);
+
+    expect(result.activationEnergy.value / 1000).toBeCloseTo(activationEnergy / 1000, 0);
+    expect(result.activationEnergy.lower).toBeLessThan(result.activationEnergy.value);
+    expect(result.activationEnergy.upper).toBeGreaterThan(result.activationEnergy.value);
+    expect(Math.log10(result.preExponentialFactor.value)).toBeCloseTo(7, 0);
+    expect(result.preExponentialFactor.lower).toBeLessThan(result.preExponentialFactor.value);
+    expect(result.preExponentialFactor.upper).toBeGreaterThan(result.preExponentialFactor.value);
+    expect(result.degreesOfFreedom).toBe(2);
+  });
+
+  it("derives activation enthalpy close to Ea − RT", () => {
+    const points = collectRateConstants({ experiments, fits, temperatureKey: "Temp [°C]" });
+    const result = fitEyring(points);
+    const meanT = points.reduce((sum, point) => sum + point.temperatureK, 0) / points.length;
+    expect(result.enthalpyOfActivation.value).toBeCloseTo(
+      activationEnergy - GAS_CONSTANT * meanT,
+      -3
+    );
+    expect(result.entropyOfActivation.lower).not.toBeNull();
+  });
+
+  it("uses only fits of the selected rate law", () => {
+    const mixedFits = { ...fits, "exp-1": { ...fits["exp-1"], modelId: "second-order" } };
+    const points = collectRateConstants({
+      experiments,
+      fits: mixedFits,
+      temperatureKey: "Temp [°C]",
+      modelId: "first-order"
+    });
+    expect(points.map((point) => point.experimentId)).toEqual(["exp-0", "exp-2", "exp-3"]);
+  });
+
+  it("requires at least two temperatures", () => {
+    const points = collectRateConstants({
+      experiments: [experiments[0]],
+      fits,
+      temperatureKey: "Temp [°C]"
+    });
+    expect(() => fitArrhenius(points)).toThrow();
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, expect, it } from "vitest";
+import {
+  createAuditEntry,
+  mergeAuditEntries,
+  parseAuditLog,
+  serializeAuditLog
+} from "../lib/audit/auditLog";
+import { describeFitsForAudit, replayAuditLog } from "../lib/audit/replay";
+import { toFitRecord } from "../lib/fitting/fitRecords";
+import { fitRateLaw } from "../lib/fitting/fitSeries";
+import { applyMappingToDataset, type MappingSelection } from "../lib/import/mapping";
+import type { AuditEntry, RawTable } from "../lib/import/types";
+
+const table: RawTable = {
+  headers: ["Run", "time", "A"],
+  rows: [0, 20, 40, 60, 80, 100].flatMap((t) => [
+    ["R1", t, Math.exp(-0.02 * t)],
+    ["R2", t, Math.exp(-0.01 * t)]
+  ])
+};
+
+const rawFiles = [{ fileName: "runs.csv", rawTables: [table] }];
+
+const selection: MappingSelection = {
+  firstRowIsHeader: true,
+  timeColumnIndex: 1,
+  valueColumnIndices: [2],
+  experimentColumnIndex: 0
+};
+
+/** Records a session the way App does: newest entry first. */
+const recordSession = (): AuditEntry[] => {
+  const mapping = applyMappingToDataset({ table, selection, fileName: "runs.csv" });
+  const experiments = mapping.dataset?.experiments ?? [];
+  const fits = experiments.map((experiment) =>
+    toFitRecord(experiment.experimentId, fitRateLaw(experiment.series[0], "first-order"))
+  );
+  return [
+    createAuditEntry("FITS_COMPUTED", { fits: describeFitsForAudit(experiments, fits) }),
+    createAuditEntry("GROUPS_CONFIRMED", {
+      groups: [{ name: "Alle", experiments: ["R1", "R2"] }]
+    }),
+    createAuditEntry("MAPPING_APPLIED", {
+      fileName: "runs.csv",
+      sheet: null,
+      selection,
+      ...mapping.stats
+    }),
+    createAuditEntry("FILE_UPLOADED", { fileName: "runs.csv" })
+  ];
+};
+
+describe("audit log", () => {
+  it("round-trips through JSON Lines in chronological order", () => {
+    const entries = recordSession();
+    const text = serializeAuditLog(entries);
+    expect(text.trim().split("\n")).toHaveLength(4);
+    const parsed = parseAuditLog(text);
+    expect(parsed.map((entry) => entry.type)).toEqual([
+      "FILE_UPLOADED",
+      "MAPPING_APPLIED",
+      "GROUPS_CONFIRMED",
+      "FITS_COMPUTED"
+    ]);
+    expect(parsed[1]).toEqual(entries[2]);
+  });
+
+  it("rejects malformed lines with their line number", () => {
+    expect(() => parseAuditLog('{"id":"a","ts":"t","type":"X","payload":{}}\nnope')).toThrow(
+      "line 2"
+    );
+    expect(() => parseAuditLog('{"id":"a","type":"X"}')).toThrow("not an audit entry");
+    expect(() => parseAuditLog("\n\n")).toThrow("empty");
+  });
+
+  it("merges a restored trail behind the entries of the running session", () => {
+    const stored = [createAuditEntry("B", {}), createAuditEntry("A", {})];
+    const current = [createAuditEntry("C", {}), stored[0]];
+    expect(mergeAuditEntries(current, stored).map((entry) => entry.type)).toEqual(["C", "B", "A"]);
+  });
+});
+
+describe("audit replay", () => {
+  it("reconstructs mapping, groups and fits from the log and the raw file", () => {
+    const entries = parseAuditLog(serializeAuditLog(recordSession()));
+    const result = replayAuditLog({ entries, files: rawFiles });
+
+    expect(result.selection).toEqual(selection);
+    expect(result.stats.experimentCount).toBe(2);
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups[0].experimentIds).toEqual(
+      result.dataset.experiments.map((experiment) => experiment.experimentId)
+    );
+    expect(result.fitChecks).toHaveLength(2);
+    expect(result.fitChecks.every((check) => check.matches)).toBe(true);
+    expect(result.dataset.fits).toHaveLength(2);
+    expect(result.issues).toEqual([]);
+  });
+
+  it("reports recorded results that the replay does not reproduce", () => {
+    const entries = parseAuditLog(serializeAuditLog(recordSession()));
+    const fitsEntry = entries[entries.length - 1];
+    const fits = fitsEntry.payload.fits as { parameters: Record<string, number> }[];
+    fits[0].parameters.k *= 1.01;
+
+    const result = replayAuditLog({
+      entries,
+      files: [{ fileName: "other.csv", rawTables: [table] }]
+    });
+    expect(result.fitChecks.map((check) => check.matches)).toEqual([false, true]);
+    expect(result.issues).toHaveLength(2);
+    expect(result.issues[0]).toContain("runs.csv");
+  });
+
+  it("replays point exclusions and re-inclusions in order", () => {
+    const point = (t: number) => ({ rowIndex: 1 + t / 10, time: t, y: Math.exp(-0.02 * t) });
+    const exclusion = (type: string, points: ReturnType<typeof point>[]) =>
+      createAuditEntry(type, { experiment: "R1", series: "A", reason: "user-excluded", points });
+    const entries = parseAuditLog(
+      serializeAuditLog([
+        exclusion("POINTS_INCLUDED", [point(20)]),
+        exclusion("POINTS_EXCLUDED", [point(20), point(60)]),
+        ...recordSession().slice(2)
+      ])
+    );
+    const result = replayAuditLog({ entries, files: rawFiles });
+
+    const [r1, r2] = result.dataset.experiments;
+    expect(r1.series[0].time).toEqual([0, 20, 40, 80, 100]);
+    expect(r1.series[0].meta?.droppedRows).toEqual([
+      expect.objectContaining({ rowIndex: 7, reason: "user-excluded", time: 60 })
+    ]);
+    expect(r2.series[0].time).toHaveLength(6);
+    expect(result.issues).toEqual([]);
+  });
+
+  it("replays validation fixes and their revert", () => {
+    const fixEntry = (fix: string, pointCountAfter: number) =>
+      createAuditEntry("VALIDATION_FIX_APPLIED", {
+        experiment: "R2",
+        series: "A",
+        fix,
+        pointCountBefore: 6,
+        pointCountAfter
+      });
+    const session = recordSession().slice(2);
+    const fixed = replayAuditLog({
+      entries: parseAuditLog(
+        serializeAuditLog([
+          fixEntry("drop-negative", 5),
+          fixEntry("clip-to-baseline", 6),
+          ...session
+        ])
+      ),
+      files: rawFiles
+    });
+
+    expect(fixed.dataset.experiments[1].series[0].meta?.fixes).toHaveLength(2);
+    expect(fixed.issues).toEqual([
+      'Fix "drop-negative" for R2 / A could not be replayed completely.'
+    ]);
+
+    const reverted = replayAuditLog({
+      entries: parseAuditLog(
+        serializeAuditLog([
+          createAuditEntry("VALIDATION_FIXES_REVERTED", { experiment: "R2", series: "A" }),
+          fixEntry("clip-to-baseline", 6),
+          ...session
+        ])
+      ),
+      files: rawFiles
+    });
+    expect(reverted.dataset.experiments[1].series[0].meta?.fixes).toBeUndefined();
+    expect(reverted.issues).toEqual([]);
+  });
+
+  it("replays declared series roles", () => {
+    const roleEntry = (role: string | null) =>
+      createAuditEntry("SERIES_ROLE_SET", { experiment: "R1", series: "A", role });
+    const result = replayAuditLog({
+      entries: parseAuditLog(
+        serializeAuditLog([
+          roleEntry("product"),
+          roleEntry("reactant"),
+          ...recordSession().slice(2)
+        ])
+      ),
+      files: rawFiles
+    });
+
+    expect(result.dataset.experiments[0].series[0].meta?.role).toBe("product");
+    expect(result.dataset.experiments[1].series[0].meta?.role).toBeUndefined();
+    expect(result.issues).toEqual([]);
+  });
+
+  it("replays preprocessing steps before refitting", () => {
+    const steps = [{ kind: "beer-lambert", epsilon: 2, pathLength: 1 }];
+    const [fitsEntry, ...earlier] = recordSession();
+    const result = replayAuditLog({
+      entries: parseAuditLog(
+        serializeAuditLog([
+          fitsEntry,
+          createAuditEntry("PREPROCESSING_STEP_ADDED", {
+            experiment: "R1",
+            series: "A",
+            step: steps[0],
+            steps
+          }),
+          ...earlier
+        ])
+      ),
+      files: rawFiles
+    });
+
+    expect(result.dataset.experiments[0].series[0].meta?.preprocessing).toEqual(steps);
+    // The recorded fits used the raw values; R1 is now refitted on halved values.
+    expect(result.fitChecks.map((check) => check.matches)).toEqual([false, true]);
+    expect(result.fitChecks[0].replayed?.k).toBeCloseTo(result.fitChecks[0].recorded.k);
+  });
+
+  it("rebuilds a later batch mapping from its sources instead of an earlier single mapping", () => {
+    const secondTable: RawTable = {
+      headers: ["Run", "time", "A"],
+      rows: [0, 20, 40].map((t) => ["R3", t, Math.exp(-0.03 * t)])
+    };
+    const files = [...rawFiles, { fileName: "runs-b.csv", rawTables: [secondTable] }];
+    const override = { ...selection, valueColumnIndices: [2] };
+    const entries = parseAuditLog(
+      serializeAuditLog([
+        createAuditEntry("POINTS_EXCLUDED", {
+          experiment: "R3",
+          series: "A",
+          reason: "user-excluded",
+          points: [{ rowIndex: 2, time: 20, y: Math.exp(-0.6) }]
+        }),
+        createAuditEntry("BATCH_MAPPING_APPLIED", {
+          name: "2 Dateien",
+          selection,
+          sources: [
+            { fileName: "runs.csv", sheet: null, selection: null },
+            { fileName: "runs-b.csv", sheet: null, selection: override }
+          ],
+          experimentCount: 3,
+          seriesCount: 3,
+          pointCount: 15
+        }),
+        ...recordSession().slice(2)
+      ])
+    );
+
+    const result = replayAuditLog({ entries, files });
+    expect(result.dataset.name).toBe("2 Dateien");
+    expect(result.dataset.experiments.map((experiment) => experiment.name)).toEqual([
+      "R1",
+      "R2",
+      "R3"
+    ]);
+    expect(result.dataset.experiments[2].series[0].time).toEqual([0, 40]);
+    expect(result.sources.map((source) => source.selection)).toEqual([null, override]);
+    expect(result.issues).toEqual([]);
+
+    expect(() => replayAuditLog({ entries, files: rawFiles })).toThrow('raw file "runs-b.csv"');
+  });
+
+  it("requires a mapping entry with the full selection", () => {
+    const entries = [createAuditEntry("MAPPING_APPLIED", { timeColumn: "time" })];
+    expect(() => replayAuditLog({ entries, files: rawFiles })).toThrow("no replayable mapping");
+  });
+});
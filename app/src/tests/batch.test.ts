@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { applyBatchMapping, createBatchSources } from "../lib/import/batch";
+import type { MappingSelection } from "../lib/import/mapping";
+import type { RawTable } from "../lib/import/types";
+
+const run = (offset: number, sheetName?: string): RawTable => ({
+  ...(sheetName ? { sheetName } : {}),
+  headers: ["time", "A"],
+  rows: [
+    [0, 1 + offset],
+    [10, 0.5 + offset]
+  ]
+});
+
+const selection: MappingSelection = {
+  firstRowIsHeader: true,
+  timeColumnIndex: 0,
+  valueColumnIndices: [1],
+  experimentColumnIndex: null
+};
+
+describe("batch import", () => {
+  it("merges runs from several files and records their source", () => {
+    const sources = createBatchSources([
+      { fileName: "run1.csv", tables: [run(0)], activeTable: run(0) },
+      { fileName: "run2.csv", tables: [run(1)], activeTable: run(1) }
+    ]);
+    const result = applyBatchMapping({ sources, selection, datasetName: "2 Dateien" });
+
+    expect(result.errors).toEqual([]);
+    expect(result.stats).toEqual({ experimentCount: 2, seriesCount: 2, pointCount: 4 });
+    expect(result.dataset?.name).toBe("2 Dateien");
+    expect(result.dataset?.experiments.map((experiment) => experiment.name)).toEqual([
+      "run1.csv",
+      "run2.csv"
+    ]);
+    expect(result.dataset?.experiments[1].metaRaw).toMatchObject({
+      sourceFile: "run2.csv",
+      sourceSheet: null
+    });
+  });
+
+  it("applies per-source overrides and keeps experiment names unique", () => {
+    const first = run(0, "Lauf 1");
+    const second: RawTable = {
+      sheetName: "Lauf 2",
+      headers: ["A", "t"],
+      rows: [
+        [2, 0],
+        [1, 5]
+      ]
+    };
+    const sources = createBatchSources([
+      { fileName: "kampagne.xlsx", tables: [first, second, run(2, "Notizen")], activeTable: first }
+    ]);
+    expect(sources.map((source) => source.included)).toEqual([true, false, false]);
+
+    const overrides: MappingSelection[] = [
+      { ...selection, columnExperiments: { 1: "Lauf" } },
+      {
+        ...selection,
+        timeColumnIndex: 1,
+        valueColumnIndices: [0],
+        columnExperiments: { 0: "Lauf" }
+      }
+    ];
+    const batch = sources.map((source, index) => ({
+      ...source,
+      included: index < 2,
+      selection: overrides[index] ?? null
+    }));
+    const result = applyBatchMapping({ sources: batch, selection, datasetName: "kampagne.xlsx" });
+
+    expect(result.dataset?.experiments.map((experiment) => experiment.name)).toEqual([
+      "Lauf",
+      "Lauf (kampagne.xlsx · Lauf 2)"
+    ]);
+    expect(result.dataset?.experiments[1].series[0].time).toEqual([0, 5]);
+    expect(result.sources.map((source) => source.stats.experimentCount)).toEqual([1, 1]);
+  });
+
+  it("reports mapping errors per source and builds no dataset", () => {
+    const broken: RawTable = { headers: ["time", "A"], rows: [["x", 1]] };
+    const sources = createBatchSources([
+      { fileName: "ok.csv", tables: [run(0)], activeTable: run(0) },
+      { fileName: "broken.csv", tables: [broken], activeTable: broken }
+    ]);
+    const result = applyBatchMapping({ sources, selection, datasetName: "2 Dateien" });
+
+    expect(result.dataset).toBeNull();
+    expect(result.errors).toEqual([
+      expect.objectContaining({ source: "broken.csv", rowIndex: 1, column: "time" })
+    ]);
+    expect(result.sources[0].errors).toEqual([]);
+  });
+});
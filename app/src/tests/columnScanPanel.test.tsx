@@ -0,0 +1,21 @@
+import { render } from "@testing-library/react";
+import { vi } from "vitest";
+import { ColumnScanPanel } from "../components/grouping/ColumnScanPanel";
+
+describe("ColumnScanPanel", () => {
+  it("leaves the condition columns alone until a scan result exists", () => {
+    const onConditionColumnsChange = vi.fn();
+    render(
+      <ColumnScanPanel
+        payload={{
+          columns: [],
+          experimentCount: 2,
+          knownStructuralColumns: [],
+          structuralSummary: { time: "t", experiment: null, values: ["A"] }
+        }}
+        onConditionColumnsChange={onConditionColumnsChange}
+      />
+    );
+    expect(onConditionColumnsChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { detectCsvEncoding, sniffCsvDialect } from "../lib/import/csvDialect";
+import { parseCsvBytes, parseCsvStream, parseCsvText } from "../lib/import/parseCsv";
+
+const streamOf = (chunks: Uint8Array[]): ReadableStream<Uint8Array> =>
+  new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    }
+  });
+
+const toUtf16Le = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(2 + text.length * 2);
+  bytes.set([0xff, 0xfe]);
+  for (let index = 0; index < text.length; index += 1) {
+    bytes[2 + index * 2] = text.charCodeAt(index) & 0xff;
+    bytes[3 + index * 2] = text.charCodeAt(index) >> 8;
+  }
+  return bytes;
+};
+
+describe("CSV dialect sniffing", () => {
+  it("recognises tab, pipe and semicolon files", () => {
+    expect(sniffCsvDialect("t\tA\tB\n0\t1\t2\n1\t3\t4\n").delimiter).toBe("\t");
+    expect(sniffCsvDialect("t|A\n0|1.5\n1|2.5\n").delimiter).toBe("|");
+    expect(sniffCsvDialect("t;A\n0;1,5\n1;2,5\n")).toMatchObject({
+      delimiter: ";",
+      decimalSeparator: ","
+    });
+  });
+
+  it("reads decimal commas and thousands separators as numbers", () => {
+    const table = parseCsvText("Zeit;Signal\n0;1.234,5\n10;987,25\n20;1.001,0\n");
+    expect(table.rows).toEqual([
+      [0, 1234.5],
+      [10, 987.25],
+      [20, 1001]
+    ]);
+  });
+
+  it("keeps delimiters and line breaks inside quoted cells", () => {
+    const table = parseCsvText(
+      't,Kommentar,A\n0,"Probe 1, frisch\nangesetzt",1.5\n1,"""ok""",1.2\n'
+    );
+    expect(table.rows).toEqual([
+      [0, "Probe 1, frisch\nangesetzt", 1.5],
+      [1, '"ok"', 1.2]
+    ]);
+  });
+
+  it("detects UTF-16 and Windows-1252 encodings", () => {
+    const utf16 = toUtf16Le("t\tT [°C]\n0\t25\n");
+    expect(detectCsvEncoding(utf16)).toBe("utf-16le");
+    expect(parseCsvBytes(utf16).tables[0].headers).toEqual(["t", "T [°C]"]);
+
+    const latin = Uint8Array.from("t;T [\xb0C]\n0;25\n", (char) => char.charCodeAt(0));
+    const result = parseCsvBytes(latin);
+    expect(result.dialect.encoding).toBe("windows-1252");
+    expect(result.tables[0].headers).toEqual(["t", "T [°C]"]);
+  });
+});
+
+describe("streaming CSV parse", () => {
+  it("handles chunk boundaries inside quotes and multi-byte characters", async () => {
+    const bytes = new TextEncoder().encode('t;"µM ""A"""\r\n0;1,5\r\n60;"1,2"\r\n');
+    const chunks = [bytes.subarray(0, 4), bytes.subarray(4, 7), bytes.subarray(7)];
+    const progress: number[] = [];
+    const result = await parseCsvStream(streamOf(chunks), {
+      totalBytes: bytes.length,
+      onProgress: ({ loadedBytes }) => progress.push(loadedBytes)
+    });
+    expect(result.dialect).toMatchObject({ delimiter: ";", decimalSeparator: "," });
+    expect(result.tables[0].headers).toEqual(["t", 'µM "A"']);
+    expect(result.tables[0].rows).toEqual([
+      [0, 1.5],
+      [60, 1.2]
+    ]);
+    expect(progress[progress.length - 1]).toBe(bytes.length);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { Series } from "../lib/import/types";
+import { fitAllRateLaws, fitRateLaw } from "../lib/fitting/fitSeries";
+import { levenbergMarquardt, numericJacobian } from "../lib/fitting/levenbergMarquardt";
+
+const buildSeries = (time: number[], y: number[]): Series => ({
+  id: "series-1",
+  name: "A",
+  time,
+  y,
+  meta: { timeType: "numeric" }
+});
+
+const sampleTimes = Array.from({ length: 12 }, (_, index) => index * 30);
+const noise = (index: number) => 0.002 * Math.sin(index * 1.7);
+
+describe("kinetic fitting", () => {
+  it("solves a simple linear least-squares problem", () => {
+    const x = [0, 1, 2, 3];
+    const y = [1, 3, 5, 7];
+    const solution = levenbergMarquardt({
+      initial: [0, 0],
+      residuals: ([a, b]) => x.map((value, index) => y[index] - (a * value + b))
+    });
+    expect(solution.params[0]).toBeCloseTo(2, 6);
+    expect(solution.params[1]).toBeCloseTo(1, 6);
+    expect(solution.converged).toBe(true);
+  });
+
+  it("differentiates numerically at parameters that start at zero", () => {
+    const decay = ([k, c0]: number[]) => sampleTimes.map((t) => c0 * Math.exp(-k * t));
+    const jacobian = numericJacobian(decay, [0, 1]);
+    jacobian.forEach(([dk], index) => {
+      expect(dk).toBeCloseTo(-sampleTimes[index], 2);
+    });
+
+    const observed = decay([0.01, 1]);
+    const solution = levenbergMarquardt({
+      initial: [0, 1],
+      residuals: (params) => decay(params).map((value, index) => observed[index] - value)
+    });
+    expect(solution.params[0]).toBeCloseTo(0.01, 6);
+    expect(solution.converged).toBe(true);
+  });
+
+  it("recovers first-order k and c0 from noisy data", () => {
+    const y = sampleTimes.map((t, index) => 1.2 * Math.exp(-0.004 * t) + noise(index));
+    const result = fitRateLaw(buildSeries(sampleTimes, y), "first-order");
+
+    expect(result.parameters.k).toBeCloseTo(0.004, 4);
+    expect(result.parameters.c0).toBeCloseTo(1.2, 2);
+    expect(result.rSquared).toBeGreaterThan(0.999);
+    expect(result.standardErrors.k).not.toBeNull();
+    expect(result.residuals).toHaveLength(sampleTimes.length);
+  });
+
+  it("recovers second-order k", () => {
+    const y = sampleTimes.map((t) => 0.5 / (1 + 0.02 * 0.5 * t));
+    const result = fitRateLaw(buildSeries(sampleTimes, y), "second-order");
+
+    expect(result.parameters.k).toBeCloseTo(0.02, 5);
+    expect(result.parameters.c0).toBeCloseTo(0.5, 5);
+  });
+
+  it("fits all rate laws and skips series with too few points", () => {
+    const y = sampleTimes.map((t) => 2 - 0.001 * t);
+    const results = fitAllRateLaws(buildSeries(sampleTimes, y));
+    expect(results.map((result) => result.modelId)).toEqual([
+      "zero-order",
+      "first-order",
+      "second-order"
+    ]);
+    expect(results[0].parameters.k).toBeCloseTo(0.001, 8);
+
+    expect(fitAllRateLaws(buildSeries([0, 1], [1, 0.5]))).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyFix,
+  getAppliedFixes,
+  previewFix,
+  revertFixes,
+  type FixActionId
+} from "../lib/import/fixes";
+import { applyMappingToDataset } from "../lib/import/mapping";
+import { parseCsvText } from "../lib/import/parseCsv";
+import { getDroppedRows, getSourceRows } from "../lib/import/provenance";
+import { getSeriesRole, setSeriesRole } from "../lib/import/seriesRole";
+import type { Dataset } from "../lib/import/types";
+import { generateImportValidationReport } from "../lib/import/validation";
+import {
+  getPreprocessingSteps,
+  setPreprocessingSteps,
+  type PreprocessingStep
+} from "../lib/preprocessing/pipeline";
+
+const importCsv = (rows: string[]): Dataset =>
+  applyMappingToDataset({
+    table: parseCsvText(["time,A", ...rows].join("\n")),
+    selection: {
+      firstRowIsHeader: true,
+      timeColumnIndex: 0,
+      valueColumnIndices: [1],
+      experimentColumnIndex: null
+    },
+    fileName: "run.csv"
+  }).dataset!;
+
+const findingsOf = (dataset: Dataset) =>
+  generateImportValidationReport(dataset).experimentSummaries[0].findings;
+
+describe("validation fixes", () => {
+  it("offers fixes on findings and clears them once applied", () => {
+    const dataset = importCsv(["10,1.0", "0,0.8", "5,0.6", "5,0.5", "15,-0.1"]);
+    const findings = findingsOf(dataset);
+    const fixesOf = (code: string) => findings.find((finding) => finding.code === code)?.fixes;
+
+    expect(fixesOf("TIME_NOT_MONOTONIC")).toEqual(["sort-by-time"]);
+    expect(fixesOf("TIME_DUPLICATES")).toEqual(["average-duplicates"]);
+    expect(fixesOf("NEGATIVE_VALUES")).toEqual(["drop-negative", "clip-to-baseline"]);
+
+    const [series] = dataset.experiments[0].series;
+    const fixIds: FixActionId[] = ["sort-by-time", "average-duplicates", "clip-to-baseline"];
+    const fixed = fixIds.reduce((current, fixId) => applyFix(current, fixId), series);
+    const fixedDataset = {
+      ...dataset,
+      experiments: [{ ...dataset.experiments[0], series: [fixed] }]
+    };
+    const codes = findingsOf(fixedDataset).map((finding) => finding.code);
+
+    expect(fixed.time).toEqual([0, 5, 10, 15]);
+    expect(fixed.y).toEqual([0.8, 0.55, 1, 0]);
+    expect(getSourceRows(fixed)).toEqual([2, 3, 1, 5]);
+    expect(getDroppedRows(fixed)).toEqual([
+      { rowIndex: 4, reason: "merged-duplicate", column: "A", raw: 0.5 }
+    ]);
+    expect(generateImportValidationReport(fixedDataset).counts.droppedPoints).toBe(1);
+    expect(codes).not.toContain("TIME_NOT_MONOTONIC");
+    expect(codes).not.toContain("TIME_DUPLICATES");
+    expect(codes).not.toContain("NEGATIVE_VALUES");
+  });
+
+  it("suggests shifting a time axis that starts late", () => {
+    const dataset = importCsv(["60,1.0", "65,0.8", "70,0.6"]);
+    const finding = findingsOf(dataset).find((item) => item.code === "TIME_OFFSET");
+
+    expect(finding?.fixes).toEqual(["shift-time-to-zero"]);
+    expect(applyFix(dataset.experiments[0].series[0], "shift-time-to-zero").time).toEqual([
+      0, 5, 10
+    ]);
+  });
+
+  it("previews removed points and can revert every fix", () => {
+    const [series] = importCsv(["0,1.0", "5,-0.2", "10,0.6"]).experiments[0].series;
+    const preview = previewFix(series, "drop-negative");
+
+    expect(preview.changedCount).toBe(1);
+    expect(preview.rows).toEqual([
+      { before: [0, 1], after: [0, 1], changed: false },
+      { before: [5, -0.2], after: null, changed: true },
+      { before: [10, 0.6], after: [10, 0.6], changed: false }
+    ]);
+    expect(series.y).toEqual([1, -0.2, 0.6]);
+
+    const fixed = applyFix(
+      applyFix(series, "drop-negative", "2026-01-01T00:00:00.000Z"),
+      "shift-time-to-zero",
+      "2026-01-01T00:01:00.000Z"
+    );
+    expect(fixed.y).toEqual([1, 0.6]);
+    expect(getDroppedRows(fixed)).toMatchObject([{ rowIndex: 2, reason: "user-excluded" }]);
+    expect(getAppliedFixes(fixed).map((fix) => fix.id)).toEqual([
+      "drop-negative",
+      "shift-time-to-zero"
+    ]);
+
+    const steps: PreprocessingStep[] = [{ kind: "normalize", mode: "initial" }];
+    const reverted = revertFixes(setPreprocessingSteps(setSeriesRole(fixed, "reactant"), steps));
+    expect(reverted.time).toEqual(series.time);
+    expect(reverted.y).toEqual(series.y);
+    expect(getAppliedFixes(reverted)).toEqual([]);
+    expect(getDroppedRows(reverted)).toEqual([]);
+    expect(reverted.meta?.sourceRows).toEqual(series.meta?.sourceRows);
+    expect(reverted.meta?.beforeFixes).toBeUndefined();
+    expect(getSeriesRole(reverted)).toBe("reactant");
+    expect(getPreprocessingSteps(reverted)).toEqual(steps);
+  });
+});
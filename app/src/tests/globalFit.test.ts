@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import type { Series } from "../lib/import/types";
+import { fitGlobal } from "../lib/fitting/globalFit";
+import { groupExperimentsByMeta } from "../lib/grouping/groups";
+
+const time = Array.from({ length: 10 }, (_, index) => index * 60);
+
+const buildSeries = (id: string, c0: number, k: number, phase: number): Series => ({
+  id,
+  name: "A",
+  time,
+  y: time.map((t, index) => c0 * Math.exp(-k * t) + 0.003 * Math.sin(index * 1.9 + phase)),
+  meta: { timeType: "numeric" }
+});
+
+describe("global fitting", () => {
+  it("shares k across replicates while keeping c0 local", () => {
+    const members = [
+      { experimentId: "exp-1", series: buildSeries("s-1", 1.0, 0.002, 0) },
+      { experimentId: "exp-2", series: buildSeries("s-2", 0.5, 0.002, 1) },
+      { experimentId: "exp-3", series: buildSeries("s-3", 2.0, 0.002, 2) }
+    ];
+    const result = fitGlobal({
+      modelId: "first-order",
+      members,
+      sharing: { k: "shared", c0: "local" }
+    });
+
+    expect(result.parameterCount).toBe(4);
+    expect(result.pointCount).toBe(30);
+    expect(result.sharedParameters.k).toBeCloseTo(0.002, 5);
+    expect(result.sharedStandardErrors.k).not.toBeNull();
+    expect(result.members.map((member) => member.parameters.c0)).toEqual([
+      expect.closeTo(1.0, 2),
+      expect.closeTo(0.5, 2),
+      expect.closeTo(2.0, 2)
+    ]);
+    expect(
+      result.members.every((member) => member.parameters.k === result.sharedParameters.k)
+    ).toBe(true);
+    expect(result.members[0].residuals).toHaveLength(10);
+  });
+
+  it("fits everything locally when nothing is shared", () => {
+    const result = fitGlobal({
+      modelId: "first-order",
+      members: [
+        { experimentId: "exp-1", series: buildSeries("s-1", 1, 0.001, 0) },
+        { experimentId: "exp-2", series: buildSeries("s-2", 1, 0.004, 1) }
+      ],
+      sharing: { k: "local", c0: "local" }
+    });
+    expect(result.sharedParameters).toEqual({});
+    expect(result.members[0].parameters.k).toBeCloseTo(0.001, 4);
+    expect(result.members[1].parameters.k).toBeCloseTo(0.004, 4);
+  });
+
+  it("suggests one group per metadata value", () => {
+    const groups = groupExperimentsByMeta(
+      [
+        { experimentId: "a", series: [], metaRaw: { T: 25 } },
+        { experimentId: "b", series: [], metaRaw: { T: 40 } },
+        { experimentId: "c", series: [], metaRaw: { T: 25 } }
+      ],
+      "T"
+    );
+    expect(groups.map((group) => group.experimentIds)).toEqual([["a", "c"], ["b"]]);
+    expect(groups[0].name).toBe("T: 25");
+  });
+});
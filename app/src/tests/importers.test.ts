@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { findInstrumentImporter } from "../lib/import/importers";
+import { applyMappingToDataset } from "../lib/import/mapping";
+
+const CHROMELEON_EXPORT = [
+  "Sequence Name:;Kinetik Lauf 3",
+  "Operator:;Meier;;",
+  "Temperature:;25",
+  "",
+  "No.;Injection Name;Inject Time;Peak Area A",
+  "1;t0;0;1.234,5",
+  "2;t10;10;987,6",
+  "3;t20;20;790,1",
+  "",
+  "End of report"
+].join("\r\n");
+
+const CARY_KINETICS = [
+  "Kinetics Report",
+  "Instrument: Cary 60",
+  "Wavelength (nm): 420",
+  "",
+  "Time (min)  Abs",
+  "0.0000   0.8123",
+  "0.5000   0.7011",
+  "1.0000   0.6050"
+].join("\n");
+
+const REACT_IR_EXPORT = [
+  "Experiment Name,Hydrierung 12",
+  "Instrument,ReactIR 15",
+  "Relative Time,Peak at 1720 cm-1,Peak at 1650 cm-1",
+  "00:00:00,0.512,0.010",
+  "00:01:00,0.498,0.022",
+  "00:02:00,0.481,0.035"
+].join("\n");
+
+const JCAMP_TRACE = [
+  "##TITLE=Absorbance trace 420 nm",
+  "##JCAMP-DX=4.24",
+  "##DATA TYPE=UV/VIS SPECTRUM",
+  "##XUNITS=SECONDS",
+  "##YUNITS=ABSORBANCE",
+  "##XFACTOR=1",
+  "##YFACTOR=0.001",
+  "##FIRSTX=0",
+  "##LASTX=40",
+  "##NPOINTS=5",
+  "##XYDATA=(X++(Y..Y))",
+  "0 800 700 600",
+  "30 500 420",
+  "##END="
+].join("\n");
+
+const JCAMP_COMPRESSED = [
+  "##TITLE=Compressed",
+  "##JCAMP-DX=5.01",
+  "##FIRSTX=1",
+  "##LASTX=6",
+  "##XYDATA=(X++(Y..Y))",
+  "1A0JT",
+  "3A2jU",
+  "##END="
+].join("\n");
+
+const parseWith = (text: string, fileName: string) => {
+  const importer = findInstrumentImporter(text, fileName);
+  if (!importer) {
+    throw new Error("no importer");
+  }
+  return { importer, tables: importer.parse(text, fileName) };
+};
+
+describe("instrument importers", () => {
+  it("leaves plain CSV files to the CSV parser", () => {
+    expect(findInstrumentImporter("time,Abs\n0,0.5\n1,0.4\n", "run.csv")).toBeNull();
+    expect(findInstrumentImporter(CARY_KINETICS, "run.xlsx")).toBeNull();
+  });
+
+  it("splits an HPLC export into metadata and the injection table", () => {
+    const { importer, tables } = parseWith(CHROMELEON_EXPORT, "sequence.txt");
+    expect(importer.id).toBe("hplc");
+    expect(tables[0].headers).toEqual(["No.", "Injection Name", "Inject Time", "Peak Area A"]);
+    expect(tables[0].rows.map((row) => row[3])).toEqual([1234.5, 987.6, 790.1]);
+    expect(tables[0].metadata).toEqual({
+      importer: "hplc",
+      "Sequence Name": "Kinetik Lauf 3",
+      Operator: "Meier",
+      Temperature: 25
+    });
+  });
+
+  it("reads space-separated UV-Vis kinetics below a header block", () => {
+    const { importer, tables } = parseWith(CARY_KINETICS, "kinetik.txt");
+    expect(importer.id).toBe("uv-vis");
+    expect(tables[0].headers).toEqual(["Time (min)", "Abs"]);
+    expect(tables[0].rows).toHaveLength(3);
+    expect(tables[0].metadata).toMatchObject({ Instrument: "Cary 60", "Wavelength (nm)": 420 });
+  });
+
+  it("recognises ReactIR trends and carries metadata into metaRaw", () => {
+    const { importer, tables } = parseWith(REACT_IR_EXPORT, "trend.csv");
+    expect(importer.id).toBe("reactir");
+    const mapping = applyMappingToDataset({
+      table: tables[0],
+      selection: {
+        firstRowIsHeader: true,
+        timeColumnIndex: 0,
+        valueColumnIndices: [1, 2],
+        experimentColumnIndex: null
+      },
+      fileName: "trend.csv"
+    });
+    const experiment = mapping.dataset?.experiments[0];
+    expect(experiment?.series[0].time).toEqual([0, 60, 120]);
+    expect(experiment?.metaRaw).toMatchObject({
+      importer: "reactir",
+      "Experiment Name": "Hydrierung 12",
+      timeHeader: "Relative Time"
+    });
+  });
+
+  it("decodes JCAMP-DX data in AFFN and compressed form", () => {
+    const { tables } = parseWith(JCAMP_TRACE, "trace.jdx");
+    expect(tables[0].sheetName).toBe("Absorbance trace 420 nm");
+    expect(tables[0].headers).toEqual(["X [seconds]", "Y [absorbance]"]);
+    expect(tables[0].rows.map(([x]) => x)).toEqual([0, 10, 20, 30, 40]);
+    [0.8, 0.7, 0.6, 0.5, 0.42].forEach((expected, index) =>
+      expect(tables[0].rows[index][1]).toBeCloseTo(expected, 10)
+    );
+    expect(tables[0].metadata).toMatchObject({ DATATYPE: "UV/VIS SPECTRUM", NPOINTS: 5 });
+
+    const compressed = parseWith(JCAMP_COMPRESSED, "spectrum.dx").tables[0];
+    expect(compressed.rows.map(([, y]) => y)).toEqual([10, 11, 12, 11, 10, 9]);
+  });
+});
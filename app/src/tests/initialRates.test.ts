@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { Experiment, Series } from "../lib/import/types";
+import {
+  SERIES_INITIAL_VALUE,
+  buildReactionOrderInputs,
+  estimateInitialRate,
+  estimateReactionOrders
+} from "../lib/fitting/initialRates";
+
+const time = Array.from({ length: 20 }, (_, index) => index * 10);
+
+const buildSeries = (id: string, y: number[]): Series => ({
+  id,
+  name: "A",
+  time,
+  y,
+  meta: { timeType: "numeric" }
+});
+
+describe("initial rates", () => {
+  it("uses a linear window within the conversion limit", () => {
+    const series = buildSeries("s-1", time.map((t) => 1 - 0.0005 * t));
+    const result = estimateInitialRate(series, { maxConversion: 0.055 });
+    expect(result.method).toBe("linear");
+    expect(result.rate).toBeCloseTo(-0.0005, 10);
+    expect(result.initialValue).toBeCloseTo(1, 10);
+    expect(result.conversion).toBeLessThanOrEqual(0.055);
+    expect(result.windowPointCount).toBe(11);
+  });
+
+  it("falls back to a quadratic slope for strongly curved early data", () => {
+    const k = 0.02;
+    const series = buildSeries("s-1", time.map((t) => Math.exp(-k * t)));
+    const result = estimateInitialRate(series, { maxConversion: 0.5, curvatureTolerance: 0.01 });
+    expect(result.method).toBe("quadratic");
+    expect(result.rate).toBeCloseTo(-k, 3);
+  });
+
+  it("estimates reaction orders from log(rate) vs log(c0)", () => {
+    const concentrations = [0.25, 0.5, 1, 2];
+    const experiments: Experiment[] = concentrations.map((c0, index) => ({
+      experimentId: `exp-${index}`,
+      name: `Run ${index}`,
+      series: [buildSeries(`s-${index}`, time.map((t) => c0 - 0.001 * c0 * c0 * t))],
+      metaRaw: { "c0 [mol/L]": String(c0).replace(".", ",") }
+    }));
+    const rates = Object.fromEntries(
+      experiments.map((experiment) => [
+        experiment.experimentId,
+        estimateInitialRate(experiment.series[0], { maxConversion: 0.1 })
+      ])
+    );
+
+    const inputs = buildReactionOrderInputs({ experiments, rates, sources: ["c0 [mol/L]"] });
+    expect(inputs).toHaveLength(4);
+    const fromMeta = estimateReactionOrders(inputs, ["c0 [mol/L]"]);
+    expect(fromMeta.orders[0].order).toBeCloseTo(2, 6);
+    expect(Math.exp(fromMeta.logRateConstant)).toBeCloseTo(0.001, 8);
+
+    const fromSeries = estimateReactionOrders(
+      buildReactionOrderInputs({ experiments, rates, sources: [SERIES_INITIAL_VALUE] }),
+      [SERIES_INITIAL_VALUE]
+    );
+    expect(fromSeries.orders[0].order).toBeCloseTo(2, 6);
+  });
+});
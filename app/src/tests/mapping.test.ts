@@ -3,6 +3,7 @@ import type { RawTable } from "../lib/import/types";
 import {
   applyMappingToDataset,
   parseNumericCell,
+  suggestPairedLayout,
   type MappingSelection
 } from "../lib/import/mapping";
 
@@ -70,4 +71,105 @@ describe("mapping logic", () => {
     expect(result.errors).toHaveLength(1);
     expect(result.errors[0].rowIndex).toBe(1);
   });
+
+  it("maps paired time/value columns of different length", () => {
+    const table: RawTable = {
+      headers: ["t1 [min]", "c1", "t2 [min]", "c2", "c2b"],
+      rows: [
+        [0, 1, 0, 2, 4],
+        [5, 0.8, 2, 1.7, 3.5],
+        [10, 0.6, null, null, null],
+        ["", "", 4, 1.4, 3.1]
+      ]
+    };
+
+    const suggestion = suggestPairedLayout(table.headers);
+    expect(suggestion).toEqual({
+      layout: "paired",
+      timeColumnIndex: 0,
+      valueColumnIndices: [1, 3, 4],
+      pairedTimeColumns: { 1: 0, 3: 2, 4: 2 },
+      columnExperiments: { 1: "Experiment 1", 3: "Experiment 2", 4: "Experiment 2" }
+    });
+
+    const result = applyMappingToDataset({
+      table,
+      selection: { firstRowIsHeader: true, experimentColumnIndex: null, ...suggestion! },
+      fileName: "wide.csv"
+    });
+
+    expect(result.errors).toHaveLength(0);
+    const [first, second] = result.dataset?.experiments ?? [];
+    expect(first.name).toBe("Experiment 1");
+    expect(first.series[0]).toMatchObject({ time: [0, 5, 10], y: [1, 0.8, 0.6] });
+    expect(first.series[0].meta).toMatchObject({ droppedPoints: 0, timeUnit: "min" });
+    expect(second.series.map((series) => series.time)).toEqual([
+      [0, 2, 4],
+      [0, 2, 4]
+    ]);
+    expect(second.metaRaw).toMatchObject({ timeHeader: "t2 [min]", valueHeaders: "c2, c2b" });
+    expect(suggestPairedLayout(["time", "A", "B"])).toBeNull();
+  });
+
+  it("assigns value columns sharing one time column to experiments", () => {
+    const table: RawTable = {
+      headers: ["time", "A run 1", "A run 2"],
+      rows: [
+        [0, 1, 2],
+        [1, 0.5, 1.2]
+      ]
+    };
+
+    const result = applyMappingToDataset({
+      table,
+      selection: {
+        firstRowIsHeader: true,
+        timeColumnIndex: 0,
+        valueColumnIndices: [1, 2],
+        experimentColumnIndex: null,
+        columnExperiments: { 1: "Run 1", 2: " Run 2 " }
+      },
+      fileName: "runs.csv"
+    });
+
+    expect(result.dataset?.experiments.map((experiment) => experiment.name)).toEqual([
+      "Run 1",
+      "Run 2"
+    ]);
+    expect(result.stats).toEqual({ experimentCount: 2, seriesCount: 2, pointCount: 4 });
+  });
+
+  it("summarises unmapped columns per experiment in metaRaw", () => {
+    const table: RawTable = {
+      headers: ["run", "time", "A", "Temp [°C]", "Operator", "Notiz"],
+      rows: [
+        ["R1", 0, 1, "25,0", "MK", null],
+        ["R1", 10, 0.5, 25, "MK", null],
+        ["R2", 0, 1, 40, "MK", null],
+        ["R2", 10, 0.4, 42.5, "JS", null]
+      ]
+    };
+
+    const result = applyMappingToDataset({
+      table,
+      selection: {
+        firstRowIsHeader: true,
+        timeColumnIndex: 1,
+        valueColumnIndices: [2],
+        experimentColumnIndex: 0
+      },
+      fileName: "conditions.csv"
+    });
+
+    const [first, second] = result.dataset?.experiments ?? [];
+    expect(first.metaRaw).toMatchObject({ "Temp [°C]": 25, Operator: "MK" });
+    expect(first.metaRaw).not.toHaveProperty("variesWithinRun");
+    expect(first.metaRaw).not.toHaveProperty("Notiz");
+    expect(second.metaRaw).toMatchObject({
+      "Temp [°C]": 40,
+      "Temp [°C] range": "40–42.5",
+      Operator: "MK",
+      variesWithinRun: "Temp [°C], Operator"
+    });
+  });
 });
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { MappingSelection } from "../lib/import/mapping";
+import {
+  createMappingTemplate,
+  loadMappingTemplates,
+  resolveMappingTemplate,
+  saveMappingTemplates,
+  suggestMappingTemplate
+} from "../lib/import/mappingTemplates";
+import type { RawTable } from "../lib/import/types";
+
+const table = (headers: string[]): RawTable => ({
+  headers,
+  rows: [headers.map((_, index) => index)]
+});
+
+const selection: MappingSelection = {
+  firstRowIsHeader: true,
+  timeColumnIndex: 0,
+  valueColumnIndices: [2],
+  experimentColumnIndex: 1,
+  timeUnit: "min"
+};
+
+describe("mapping templates", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("finds the template's columns by header name in a reordered table", () => {
+    const template = createMappingTemplate({
+      name: "HPLC Labor 2",
+      headers: ["Inject Time", "Sample", "Peak Area A"],
+      selection,
+      fileType: "hplc"
+    });
+    expect(template).toMatchObject({
+      time: "Inject Time",
+      experiment: "Sample",
+      values: [{ column: "Peak Area A" }],
+      timeUnit: "min"
+    });
+
+    expect(
+      resolveMappingTemplate(template, table(["No.", "peak area a", "Sample", " Inject  Time "]))
+    ).toEqual({
+      firstRowIsHeader: true,
+      timeColumnIndex: 3,
+      valueColumnIndices: [1],
+      experimentColumnIndex: 2,
+      timeUnit: "min"
+    });
+    expect(resolveMappingTemplate(template, table(["Inject Time", "Sample", "Area B"]))).toBeNull();
+  });
+
+  it("matches numbered columns through placeholders, pairing each with its time column", () => {
+    const template = createMappingTemplate({
+      name: "Breitformat",
+      headers: ["t1", "c1", "t2", "c2"],
+      selection: {
+        firstRowIsHeader: true,
+        timeColumnIndex: 0,
+        valueColumnIndices: [1, 3],
+        experimentColumnIndex: null,
+        layout: "paired",
+        pairedTimeColumns: { 1: 0, 3: 2 }
+      },
+      fileType: "csv",
+      generalizeNumbers: true
+    });
+    expect(template.values).toEqual([{ column: "/^c\\d+$/", time: "/^t\\d+$/" }]);
+
+    expect(
+      resolveMappingTemplate(template, table(["t1", "c1", "t2", "c2", "t3", "c3"]))
+    ).toMatchObject({
+      layout: "paired",
+      valueColumnIndices: [1, 3, 5],
+      pairedTimeColumns: { 1: 0, 3: 2, 5: 4 }
+    });
+  });
+
+  it("suggests the best fitting template and keeps templates in localStorage", () => {
+    const generic = createMappingTemplate({
+      name: "Allgemein",
+      headers: ["Inject Time", "Sample", "Peak Area A"],
+      selection: { ...selection, experimentColumnIndex: null },
+      fileType: "csv"
+    });
+    const hplc = createMappingTemplate({
+      name: "HPLC",
+      headers: ["Inject Time", "Sample", "Peak Area A"],
+      selection,
+      fileType: "hplc"
+    });
+    const headers = table(["Inject Time", "Sample", "Peak Area A"]);
+
+    expect(suggestMappingTemplate([generic, hplc], headers, "csv")?.name).toBe("Allgemein");
+    expect(suggestMappingTemplate([generic, hplc], headers, "xlsx")?.name).toBe("HPLC");
+    expect(suggestMappingTemplate([hplc], table(["time", "A"]), "hplc")).toBeNull();
+
+    saveMappingTemplates([generic, hplc]);
+    expect(loadMappingTemplates()).toEqual([generic, hplc]);
+    localStorage.setItem("kinetik.mappingTemplates", "{broken");
+    expect(loadMappingTemplates()).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import type { Experiment, Series } from "../lib/import/types";
+import {
+  compileMechanism,
+  fitMechanism,
+  formatMechanism,
+  parseMechanism
+} from "../lib/fitting/mechanism";
+import { integrateOde } from "../lib/fitting/ode";
+
+const time = Array.from({ length: 16 }, (_, index) => index * 40);
+const k1 = 0.01;
+const k2 = 0.004;
+
+const consecutive = (t: number) => {
+  const a = Math.exp(-k1 * t);
+  const b = (k1 / (k2 - k1)) * (Math.exp(-k1 * t) - Math.exp(-k2 * t));
+  return { a, b, c: 1 - a - b };
+};
+
+const buildSeries = (id: string, values: number[]): Series => ({
+  id,
+  name: id,
+  time,
+  y: values,
+  meta: { timeType: "numeric" }
+});
+
+describe("ODE mechanisms", () => {
+  it("parses chained, reversible and bimolecular reactions", () => {
+    const mechanism = parseMechanism("A -> B -> C; B + D <=> 2 E");
+    expect(mechanism.species).toEqual(["A", "B", "C", "D", "E"]);
+    expect(mechanism.steps).toHaveLength(3);
+    expect(mechanism.steps[2]).toEqual({
+      reactants: { B: 1, D: 1 },
+      products: { E: 2 },
+      reversible: true
+    });
+    expect(compileMechanism(mechanism).rateConstantNames).toEqual(["k1", "k2", "k3", "k3r"]);
+    expect(formatMechanism(mechanism)).toBe("A → B; B → C; B + D ⇌ 2 E");
+    expect(() => parseMechanism("A B")).toThrow();
+  });
+
+  it("integrates non-stiff and stiff systems accurately", () => {
+    const decay = integrateOde((_t, [y]) => [-0.5 * y], [1], [0, 1, 2, 4], { method: "rk45" });
+    decay.states.forEach(([value], index) => {
+      expect(value).toBeCloseTo(Math.exp(-0.5 * decay.times[index]), 7);
+    });
+
+    const stiff = integrateOde((t, [y]) => [-1e5 * (y - Math.cos(t))], [0], [1, 2], {
+      method: "auto",
+      relativeTolerance: 1e-4,
+      absoluteTolerance: 1e-8
+    });
+    expect(stiff.method).toBe("stiff");
+    expect(stiff.states[1][0]).toBeCloseTo(Math.cos(2), 2);
+  });
+
+  it("fits A → B → C to all three series at once", () => {
+    const profiles = time.map(consecutive);
+    const experiment: Experiment = {
+      experimentId: "exp-1",
+      name: "Run 1",
+      metaRaw: {},
+      series: [
+        buildSeries(
+          "a",
+          profiles.map((point) => point.a)
+        ),
+        buildSeries(
+          "b",
+          profiles.map((point) => point.b)
+        ),
+        buildSeries(
+          "c",
+          profiles.map((point) => point.c)
+        )
+      ]
+    };
+
+    const result = fitMechanism({
+      mechanism: parseMechanism("A -> B -> C"),
+      experiment,
+      speciesSeries: { A: "a", B: "b", C: "c" }
+    });
+
+    expect(result.parameters.k1).toBeCloseTo(k1, 5);
+    expect(result.parameters.k2).toBeCloseTo(k2, 5);
+    expect(result.parameters.A0).toBeCloseTo(1, 4);
+    expect(result.species.map((item) => item.species)).toEqual(["A", "B", "C"]);
+    expect(result.species.every((item) => item.rSquared > 0.9999)).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { Series } from "../lib/import/types";
+import {
+  compareRateLaws,
+  computeInformationCriteria,
+  computeResidualDiagnostics
+} from "../lib/fitting/modelComparison";
+
+const time = Array.from({ length: 15 }, (_, index) => index * 20);
+const noise = (index: number) => 0.004 * Math.sin(index * 2.3);
+
+const buildSeries = (y: number[]): Series => ({
+  id: "series-1",
+  name: "A",
+  time,
+  y,
+  meta: { timeType: "numeric" }
+});
+
+describe("model comparison", () => {
+  it("penalises extra parameters in AICc", () => {
+    const base = { sse: 1, pointCount: 10 };
+    const simple = computeInformationCriteria({ ...base, parameterCount: 2 });
+    const complex = computeInformationCriteria({ ...base, parameterCount: 3 });
+    expect(complex.aicc).toBeGreaterThan(simple.aicc);
+    expect(complex.bic).toBeGreaterThan(simple.bic);
+  });
+
+  it("detects systematic residual runs", () => {
+    const trend = [1, 1, 1, 1, 1, 1, -1, -1, -1, -1, -1, -1];
+    const alternating = trend.map((_, index) => (index % 2 === 0 ? 1 : -1));
+    expect(computeResidualDiagnostics(trend).runsPValue).toBeLessThan(0.05);
+    expect(computeResidualDiagnostics(alternating).runsPValue).toBeGreaterThan(0.5);
+    expect(computeResidualDiagnostics(trend).lag1Autocorrelation).toBeGreaterThan(0.5);
+  });
+
+  it("ranks the generating rate law first and recommends it", () => {
+    const y = time.map((t, index) => Math.exp(-0.01 * t) + noise(index));
+    const comparison = compareRateLaws(buildSeries(y));
+
+    expect(comparison.ranking[0].fit.modelId).toBe("first-order");
+    expect(comparison.recommendedModelId).toBe("first-order");
+    expect(comparison.ranking[0].deltaAicc).toBe(0);
+    const weights = comparison.ranking.reduce((sum, entry) => sum + (entry.akaikeWeight ?? 0), 0);
+    expect(weights).toBeCloseTo(1, 10);
+    const zeroOrder = comparison.ranking.find((entry) => entry.fit.modelId === "zero-order");
+    expect(zeroOrder?.flags.map((flag) => flag.code)).toContain("RESIDUAL_RUNS");
+  });
+
+  it("leaves ΔAICc and weights undefined when no candidate has enough points", () => {
+    const comparison = compareRateLaws({
+      ...buildSeries([1, 0.8, 0.65]),
+      time: [0, 20, 40]
+    });
+
+    expect(comparison.ranking.length).toBeGreaterThan(0);
+    comparison.ranking.forEach((entry) => {
+      expect(entry.aicc).toBe(Number.POSITIVE_INFINITY);
+      expect(entry.deltaAicc).toBeNull();
+      expect(entry.akaikeWeight).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { Series } from "../lib/import/types";
+import {
+  applyPreprocessingStep,
+  getPreprocessingSteps,
+  preprocessSeries,
+  readPreprocessingStep,
+  setPreprocessingSteps
+} from "../lib/preprocessing/pipeline";
+import { getSeriesValueUnit } from "../lib/units/seriesUnits";
+
+const time = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+
+describe("preprocessing pipeline", () => {
+  it("subtracts the baseline and normalises", () => {
+    const y = [1.1, 0.8, 0.6, 0.4, 0.3, 0.2, 0.1, 0.1, 0.1];
+    const baseline = applyPreprocessingStep(time, y, {
+      kind: "baseline",
+      reference: "end",
+      points: 3
+    });
+    expect(baseline[0]).toBeCloseTo(1);
+    baseline.slice(-3).forEach((value) => expect(value).toBeCloseTo(0, 12));
+
+    const conversion = applyPreprocessingStep(time, baseline, {
+      kind: "normalize",
+      mode: "conversion"
+    });
+    expect(conversion[0]).toBeCloseTo(0, 12);
+    expect(conversion[8]).toBeCloseTo(1, 12);
+    expect(applyPreprocessingStep(time, y, { kind: "normalize", mode: "initial" })[0]).toBe(1);
+  });
+
+  it("smooths noise with Savitzky-Golay but keeps polynomials exact", () => {
+    const unevenTime = [0, 0.5, 1.5, 2, 3, 4.5, 5, 6, 7.5];
+    const quadratic = unevenTime.map((t) => 2 - 0.3 * t + 0.02 * t * t);
+    const smoothed = applyPreprocessingStep(unevenTime, quadratic, {
+      kind: "savitzky-golay",
+      window: 5,
+      order: 2
+    });
+    smoothed.forEach((value, index) => expect(value).toBeCloseTo(quadratic[index], 10));
+
+    const noisy = time.map((t, index) => 1 - 0.1 * t + (index % 2 === 0 ? 0.05 : -0.05));
+    const line = applyPreprocessingStep(time, noisy, {
+      kind: "savitzky-golay",
+      window: 5,
+      order: 1
+    });
+    const error = (values: number[]) =>
+      Math.max(...values.map((value, index) => Math.abs(value - (1 - 0.1 * time[index]))));
+    expect(error(line)).toBeLessThan(error(noisy) / 2);
+  });
+
+  it("applies the steps to a copy and converts absorbance to concentration", () => {
+    const series: Series = {
+      id: "s1",
+      name: "A 420 nm",
+      time: [0, 10, 20],
+      y: [0.52, 0.32, 0.22],
+      meta: { valueUnit: null }
+    };
+    const withSteps = setPreprocessingSteps(series, [
+      { kind: "baseline", reference: "end", points: 1 },
+      { kind: "beer-lambert", epsilon: 15000, pathLength: 1 }
+    ]);
+    const processed = preprocessSeries(withSteps);
+
+    expect(withSteps.y).toEqual(series.y);
+    expect(processed.y[0]).toBeCloseTo(2e-5);
+    expect(processed.y[2]).toBe(0);
+    expect(getSeriesValueUnit(processed)?.id).toBe("M");
+    expect(getPreprocessingSteps(setPreprocessingSteps(withSteps, []))).toEqual([]);
+  });
+
+  it("rejects steps with invalid parameters", () => {
+    expect(readPreprocessingStep({ kind: "savitzky-golay", window: 4, order: 2 })).toBeNull();
+    expect(readPreprocessingStep({ kind: "savitzky-golay", window: 5, order: 5 })).toBeNull();
+    expect(readPreprocessingStep({ kind: "beer-lambert", epsilon: 0, pathLength: 1 })).toBeNull();
+    expect(readPreprocessingStep({ kind: "baseline", reference: "end", points: 2 })).toEqual({
+      kind: "baseline",
+      reference: "end",
+      points: 2
+    });
+  });
+});
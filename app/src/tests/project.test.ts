@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { createBatchSources } from "../lib/import/batch";
+import { applyMappingToDataset, type MappingSelection } from "../lib/import/mapping";
+import type { RawTable } from "../lib/import/types";
+import { generateImportValidationReport } from "../lib/import/validation";
+import {
+  PROJECT_VERSION,
+  fromProjectBatchSources,
+  getProjectFileName,
+  parseProject,
+  serializeProject,
+  toProjectBatchSources,
+  type ProjectSnapshot
+} from "../lib/project/projectFile";
+
+const table: RawTable = {
+  sheetName: "Run 1",
+  headers: ["time", "A"],
+  rows: [
+    [0, 1],
+    [10, 0.8],
+    [20, 0.64]
+  ]
+};
+
+const selection: MappingSelection = {
+  firstRowIsHeader: true,
+  timeColumnIndex: 0,
+  valueColumnIndices: [1],
+  experimentColumnIndex: null
+};
+
+const buildSnapshot = (): ProjectSnapshot => {
+  const mapping = applyMappingToDataset({ table, selection, fileName: "run.xlsx" });
+  if (!mapping.dataset) {
+    throw new Error("mapping failed");
+  }
+  const dataset = {
+    ...mapping.dataset,
+    audit: [{ id: "audit-1", ts: "2026-01-01T00:00:00.000Z", type: "MAPPING_APPLIED", payload: {} }]
+  };
+  return {
+    step: "grouping",
+    source: {
+      fileName: "run.xlsx",
+      fileType: "xlsx",
+      sheetNames: ["Run 1"],
+      selectedSheet: "Run 1"
+    },
+    rawTables: [table],
+    mapping: { selection, lastAppliedSelection: selection, stats: mapping.stats },
+    batchSources: [],
+    dataset,
+    validationReport: generateImportValidationReport(dataset),
+    groups: [{ id: "group-1", name: "Alle", color: "#2563eb", experimentIds: [] }],
+    conditionColumns: ["T"]
+  };
+};
+
+describe("project file", () => {
+  it("round-trips the full session state", () => {
+    const snapshot = buildSnapshot();
+    const project = parseProject(serializeProject(snapshot, new Date("2026-02-01T12:00:00Z")));
+    expect(project.version).toBe(PROJECT_VERSION);
+    expect(project.savedAt).toBe("2026-02-01T12:00:00.000Z");
+    expect(project).toMatchObject(snapshot);
+  });
+
+  it("restores batch sources with their tables and per-source overrides", () => {
+    const second: RawTable = { ...table, sheetName: "Run 2" };
+    const override = { ...selection, columnExperiments: { 1: "Lauf 2" } };
+    const sources = createBatchSources([
+      { fileName: "run.xlsx", tables: [table, second], activeTable: table }
+    ]).map((source, index) => ({
+      ...source,
+      included: true,
+      selection: index === 1 ? override : null
+    }));
+    const snapshot = {
+      ...buildSnapshot(),
+      rawTables: [table, second],
+      batchSources: toProjectBatchSources(sources, [table, second])
+    };
+
+    const restored = fromProjectBatchSources(parseProject(serializeProject(snapshot)));
+    const rows = restored.map((source) => [source.sheetName, source.included, source.selection]);
+    expect(rows).toEqual([
+      ["Run 1", true, null],
+      ["Run 2", true, override]
+    ]);
+    expect(restored[1].table).toEqual(second);
+    expect(new Set(restored.map((source) => source.id)).size).toBe(2);
+  });
+
+  it("reads projects saved without batch sources", () => {
+    const stored = JSON.parse(serializeProject(buildSnapshot()));
+    delete stored.batchSources;
+    expect(parseProject(JSON.stringify(stored)).batchSources).toEqual([]);
+  });
+
+  it("rejects foreign files and newer versions", () => {
+    expect(() => parseProject("{")).toThrow("not valid JSON");
+    expect(() => parseProject(JSON.stringify({ format: "other" }))).toThrow("not a Kinetik");
+    const newer = { ...JSON.parse(serializeProject(buildSnapshot())), version: 99 };
+    expect(() => parseProject(JSON.stringify(newer))).toThrow("version 99");
+  });
+
+  it("rejects incomplete projects and falls back to the import step", () => {
+    const stored = JSON.parse(serializeProject(buildSnapshot()));
+    expect(() => parseProject(JSON.stringify({ ...stored, dataset: null }))).toThrow("incomplete");
+    expect(parseProject(JSON.stringify({ ...stored, step: "unknown" })).step).toBe("import");
+  });
+
+  it("derives the file name from the source file", () => {
+    expect(getProjectFileName("Run 1.xlsx", new Date("2026-02-01T12:00:00Z"))).toBe(
+      "Run-1-2026-02-01.kinetik"
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { applyMappingToDataset } from "../lib/import/mapping";
+import { parseCsvText } from "../lib/import/parseCsv";
+import {
+  applyPointChange,
+  excludeSeriesPoints,
+  formatDroppedRow,
+  getDroppedRows,
+  getPointRefs,
+  getSourceRows
+} from "../lib/import/provenance";
+import { generateImportValidationReport } from "../lib/import/validation";
+
+const csv = ["Versuch 7", "", "time,A", "0,1.0", "5,", "", "10,n/a", "15,0.4"].join("\n");
+
+const importCsv = () => {
+  const result = applyMappingToDataset({
+    table: parseCsvText(csv),
+    selection: {
+      firstRowIsHeader: true,
+      timeColumnIndex: 0,
+      valueColumnIndices: [1],
+      experimentColumnIndex: null
+    },
+    fileName: "run.csv"
+  });
+  return result.dataset!;
+};
+
+describe("row provenance", () => {
+  it("keeps the source row of every point and the reason of every dropped row", () => {
+    const [series] = importCsv().experiments[0].series;
+
+    expect(series.y).toEqual([1, 0.4]);
+    expect(getSourceRows(series)).toEqual([3, 7]);
+    expect(series.meta).toMatchObject({ sourceFile: "run.csv", droppedPoints: 2 });
+    expect(getDroppedRows(series)).toEqual([
+      { rowIndex: 4, reason: "empty-value", column: "A", raw: null },
+      { rowIndex: 6, reason: "non-numeric", column: "A", raw: "n/a" }
+    ]);
+    expect(formatDroppedRow(getDroppedRows(series)[1])).toBe(
+      "Zeile 7 · A · nicht numerisch („n/a“)"
+    );
+  });
+
+  it("records excluded points separately from invalid input", () => {
+    const dataset = importCsv();
+    const [series] = dataset.experiments[0].series;
+    const excluded = excludeSeriesPoints(series, [1], "user-excluded");
+
+    expect(excluded.y).toEqual([1]);
+    expect(getSourceRows(excluded)).toEqual([3]);
+    expect(getDroppedRows(excluded)[2]).toEqual({
+      rowIndex: 7,
+      reason: "user-excluded",
+      column: "A",
+      raw: 0.4,
+      time: 15,
+      y: 0.4
+    });
+
+    const report = generateImportValidationReport({
+      ...dataset,
+      experiments: [{ ...dataset.experiments[0], series: [excluded] }]
+    });
+    expect(report.counts.droppedPoints).toBe(3);
+    expect(report.counts.dropReasons).toEqual({
+      "empty-value": 1,
+      "non-numeric": 1,
+      "outlier-excluded": 0,
+      "user-excluded": 1,
+      "merged-duplicate": 0
+    });
+    const finding = report.experimentSummaries[0].findings.find(
+      (item) => item.code === "NAN_OR_NONNUMERIC"
+    );
+    expect(finding?.details).toEqual({ droppedPoints: 2, droppedRows: [4, 6] });
+  });
+
+  it("puts excluded points back at their source position", () => {
+    const [series] = importCsv().experiments[0].series;
+    const points = getPointRefs(series, [0]);
+    const excluded = applyPointChange(series, {
+      action: "exclude",
+      reason: "user-excluded",
+      points
+    });
+    expect(excluded.y).toEqual([0.4]);
+
+    const restored = applyPointChange(excluded, { action: "include", points });
+    expect(restored.time).toEqual([0, 15]);
+    expect(getSourceRows(restored)).toEqual([3, 7]);
+    expect(getDroppedRows(restored).map((row) => row.reason)).toEqual([
+      "empty-value",
+      "non-numeric"
+    ]);
+  });
+});
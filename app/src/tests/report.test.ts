@@ -0,0 +1,232 @@
+import { describe, expect, it } from "vitest";
+import type { AuditEntry, Dataset } from "../lib/import/types";
+import { fitArrhenius, fitEyring } from "../lib/fitting/arrhenius";
+import { fitRateLaw } from "../lib/fitting/fitSeries";
+import { toFitRecord } from "../lib/fitting/fitRecords";
+import { escapePdfText, renderReportPdf, wrapText } from "../lib/report/pdf";
+import { buildKineticsReport, getReportFileName } from "../lib/report/reportModel";
+
+const time = Array.from({ length: 12 }, (_, index) => index * 30);
+
+const buildDataset = (auditCount = 2): Dataset => {
+  const audit: AuditEntry[] = Array.from({ length: auditCount }, (_, index) => ({
+    id: `audit-${index}`,
+    ts: new Date(Date.UTC(2026, 0, 1, 8, 0, index)).toISOString(),
+    type: index === 0 ? "MAPPING_APPLIED" : "FITS_COMPUTED",
+    payload: { index }
+  }));
+  const dataset: Dataset = {
+    id: "dataset-1",
+    name: "runs.csv",
+    createdAt: "2026-01-01T08:00:00.000Z",
+    experiments: [
+      {
+        experimentId: "exp-1",
+        name: "Run (A)",
+        series: [
+          {
+            id: "s-1",
+            name: "A",
+            time,
+            y: time.map((t) => Math.exp(-0.01 * t)),
+            meta: { timeType: "numeric" }
+          }
+        ],
+        metaRaw: { T: 25 }
+      }
+    ],
+    audit
+  };
+  const fit = fitRateLaw(dataset.experiments[0].series[0], "first-order");
+  return { ...dataset, fits: [toFitRecord("exp-1", fit, new Date("2026-01-01T09:00:00Z"))] };
+};
+
+const decode = (bytes: Uint8Array): string => String.fromCharCode(...bytes);
+
+describe("report model", () => {
+  it("collects dataset, validation, grouping, fits and audit sections", () => {
+    const report = buildKineticsReport({
+      dataset: buildDataset(),
+      groups: [{ id: "g-1", name: "25 °C", color: "#000", experimentIds: ["exp-1"] }],
+      options: { author: "QA", notes: "Freigabe ausstehend." },
+      generatedAt: new Date("2026-01-02T10:00:00Z")
+    });
+    expect(report.sections.map((section) => section.title)).toEqual([
+      "Datensatz",
+      "Validierung",
+      "Gruppierung",
+      "Fits",
+      "Anmerkungen",
+      "Audit-Trail"
+    ]);
+    const fits = report.sections[3];
+    expect(fits.blocks.map((block) => block.kind)).toEqual(["table", "chart"]);
+    const table = fits.blocks[0];
+    expect(table.kind === "table" && table.rows[0][2]).toBe("1. Ordnung");
+    expect(report.subtitle).toContain("von QA");
+    expect(getReportFileName(report)).toBe("kinetik-report-runs-csv-2026-01-02.pdf");
+  });
+
+  it("adds the stored Arrhenius and Eyring analysis", () => {
+    const points = [298.15, 318.15].map((temperatureK, index) => ({
+      experimentId: "exp-1",
+      experimentName: "Run (A)",
+      temperatureK,
+      k: 0.01 * (index + 1)
+    }));
+    const dataset = {
+      ...buildDataset(),
+      arrhenius: {
+        modelId: "first-order",
+        temperatureKey: "T",
+        arrhenius: fitArrhenius(points),
+        eyring: fitEyring(points),
+        leftOut: ["Run (B)"],
+        computedAt: "2026-01-01T09:00:00.000Z"
+      }
+    };
+    const report = buildKineticsReport({ dataset, options: { includeAudit: false } });
+    const section = report.sections.find((item) => item.title === "Arrhenius/Eyring");
+    const entries = section?.blocks[0].kind === "keyValue" ? section.blocks[0].entries : [];
+    expect(entries.map(([label]) => label)).toEqual([
+      "Geschwindigkeitsgesetz",
+      "Temperatur-Spalte",
+      "Ea",
+      "A",
+      "R² (Arrhenius)",
+      "ΔH‡",
+      "ΔS‡",
+      "R² (Eyring)"
+    ]);
+    expect(entries[3][1]).toMatch(/s⁻¹ \(95 %-KI/);
+    expect(section?.blocks[2]).toEqual({
+      kind: "paragraph",
+      text: "Nicht berücksichtigt (kein Fit mit diesem Gesetz oder keine Temperatur): Run (B)"
+    });
+  });
+
+  it("lists global fits and their uncertainty next to the single fits", () => {
+    const dataset = buildDataset();
+    const interval = { lower: 0.009, upper: 0.011 };
+    const globalRecord = {
+      id: "group:g-1:first-order",
+      kind: "global" as const,
+      experimentId: "g-1",
+      seriesId: "",
+      label: "25 °C",
+      parameters: { k: 0.01 },
+      standardErrors: { k: 0.0005 },
+      modelId: "first-order",
+      rSquared: 0.99,
+      sse: 0.01,
+      pointCount: 24,
+      computedAt: "2026-01-01T09:00:00.000Z",
+      uncertainty: {
+        confidence: 0.95,
+        parameterNames: ["k"],
+        bootstrap: {
+          iterations: 50,
+          successful: 50,
+          seed: 1,
+          standardErrors: { k: 0.0005 },
+          intervals: { k: interval },
+          correlation: null
+        },
+        profile: { intervals: { k: interval } },
+        correlation: null
+      }
+    };
+    const report = buildKineticsReport({
+      dataset: { ...dataset, fits: [...(dataset.fits ?? []), globalRecord] },
+      options: { includeAudit: false, includeCharts: false }
+    });
+    const [fitTable, uncertaintyTable] =
+      report.sections.find((section) => section.title === "Fits")?.blocks ?? [];
+    expect(fitTable.kind === "table" && fitTable.rows[1].slice(0, 3)).toEqual([
+      "25 °C",
+      "–",
+      "1. Ordnung · global"
+    ]);
+    expect(uncertaintyTable.kind === "table" && uncertaintyTable.rows[0].slice(0, 3)).toEqual([
+      "25 °C",
+      "1. Ordnung · global",
+      "k"
+    ]);
+  });
+
+  it("honours the chart and audit toggles", () => {
+    const report = buildKineticsReport({
+      dataset: buildDataset(),
+      options: { includeAudit: false, includeCharts: false }
+    });
+    expect(report.sections.some((section) => section.title === "Audit-Trail")).toBe(false);
+    const fits = report.sections.find((section) => section.title === "Fits");
+    expect(fits?.blocks.some((block) => block.kind === "chart")).toBe(false);
+  });
+});
+
+describe("pdf rendering", () => {
+  it("escapes delimiters and maps non-ASCII characters to WinAnsi", () => {
+    expect(escapePdfText("k (1) \\ ä – →")).toBe("k \\(1\\) \\\\ \\344 \\226 ->");
+  });
+
+  it("wraps text within the available width", () => {
+    const lines = wrapText("alpha beta gamma delta epsilon", 60, 10);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(" ")).toBe("alpha beta gamma delta epsilon");
+  });
+
+  it("writes a well-formed PDF with a consistent xref table", () => {
+    const report = buildKineticsReport({
+      dataset: buildDataset(),
+      generatedAt: new Date("2026-01-02T10:00:00Z")
+    });
+    const { bytes, pageCount } = renderReportPdf(report);
+    const text = decode(bytes);
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(text).toContain(`/Count ${pageCount}`);
+
+    const startXref = Number(text.match(/startxref\n(\d+)/)?.[1]);
+    expect(text.slice(startXref, startXref + 4)).toBe("xref");
+    const offsets = [...text.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+    expect(text).toContain("(Run \\(A\\) \\267 A \\267 1. Ordnung)");
+  });
+
+  it("writes rate-constant units without unmapped characters", () => {
+    const dataset = buildDataset();
+    const series = {
+      ...dataset.experiments[0].series[0],
+      meta: { timeType: "numeric" as const, valueUnit: "M" }
+    };
+    const fit = fitRateLaw(series, "second-order");
+    const report = buildKineticsReport({
+      dataset: {
+        ...dataset,
+        experiments: [{ ...dataset.experiments[0], series: [series] }],
+        fits: [toFitRecord("exp-1", fit, new Date("2026-01-01T09:00:00Z"))]
+      },
+      generatedAt: new Date("2026-01-02T10:00:00Z")
+    });
+    const row = decode(renderReportPdf(report).bytes)
+      .split("\n")
+      .find((line) => line.includes("(k = "));
+    expect(row).toContain("M-\\271\\267s-\\271");
+    expect(row).not.toContain("?");
+  });
+
+  it("is deterministic and paginates long audit trails", () => {
+    const report = buildKineticsReport({
+      dataset: buildDataset(200),
+      generatedAt: new Date("2026-01-02T10:00:00Z")
+    });
+    const first = renderReportPdf(report);
+    const second = renderReportPdf(report);
+    expect(first.pageCount).toBeGreaterThan(2);
+    expect(decode(first.bytes)).toBe(decode(second.bytes));
+    expect(decode(first.bytes)).toContain(`(Seite ${first.pageCount} / ${first.pageCount})`);
+  });
+});
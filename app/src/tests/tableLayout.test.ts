@@ -0,0 +1,166 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import { applyMappingToDataset } from "../lib/import/mapping";
+import { parseCsvText } from "../lib/import/parseCsv";
+import { parseXlsxBuffer } from "../lib/import/parseXlsx";
+import { detectTables } from "../lib/import/tableLayout";
+
+describe("table layout detection", () => {
+  it("finds side-by-side blocks below a title with header and units rows", () => {
+    const tables = detectTables(
+      [
+        ["Messreihe Hydrolyse", null, null, null, null, null, null],
+        ["Operator", "Meier", null, null, null, null, null],
+        [],
+        ["t", "A", "B", null, "Zeit", "Umsatz", null],
+        ["min", "mM", "mM", null, "h", "%", null],
+        [0, 10, 0, null, 0, 0, null],
+        [5, 8, 2, null, 1, 40, null],
+        [10, 6.5, 3.5, null, 2, 65, null]
+      ],
+      { sheetName: "Run1" }
+    );
+
+    expect(tables.map((table) => table.sheetName)).toEqual(["Run1 · A4:C8", "Run1 · E4:F8"]);
+    expect(tables[0].headers).toEqual(["t [min]", "A [mM]", "B [mM]"]);
+    expect(tables[0].rows).toEqual([
+      [0, 10, 0],
+      [5, 8, 2],
+      [10, 6.5, 3.5]
+    ]);
+    expect(tables[0].layout).toEqual({
+      range: "A4:C8",
+      headerRows: [3],
+      unitsRow: 4,
+      firstDataRow: 5
+    });
+    expect(tables[0].metadata).toEqual({ title: "Messreihe Hydrolyse", Operator: "Meier" });
+    expect(tables[1].headers).toEqual(["Zeit [h]", "Umsatz [%]"]);
+  });
+
+  it("combines multi-row CSV headers and continues a table across blank rows", () => {
+    const table = parseCsvText(
+      [
+        "Versuch 7;;;",
+        ";Ansatz A;;Ansatz B",
+        "t [s];Edukt;Produkt;Edukt",
+        "0;1,0;0,0;1,0",
+        "30;0,8;0,2;0,9",
+        ";;;",
+        "60;0,6;0,4;0,8",
+        "90;0,5;0,5;0,7"
+      ].join("\n")
+    );
+
+    expect(table.headers).toEqual([
+      "t [s]",
+      "Ansatz A · Edukt",
+      "Ansatz A · Produkt",
+      "Ansatz B · Edukt"
+    ]);
+    expect(table.rows.map(([time]) => time)).toEqual([0, 30, 60, 90]);
+    expect(table.metadata).toEqual({ title: "Versuch 7" });
+    expect(table.layout?.headerRows).toEqual([1, 2]);
+  });
+
+  it("keeps plain tables and header-less numbers as before", () => {
+    expect(parseCsvText("time,value\n0,1\n1,2\n2,4").layout).toEqual({
+      range: "A1:B4",
+      headerRows: [0],
+      unitsRow: null,
+      firstDataRow: 1
+    });
+    const numeric = detectTables([
+      [0, 1],
+      [1, 2],
+      [2, 4]
+    ]);
+    expect(numeric[0].headers).toEqual(["0", "1"]);
+    expect(numeric[0].rows).toHaveLength(2);
+  });
+
+  it("keeps data rows with text metadata columns instead of absorbing them as headers", () => {
+    const table = parseCsvText(
+      [
+        "Experiment,Operator,Comment,Time,Value",
+        "A,JD,start,0,1.0",
+        "A,JD,stirred,1,0.8",
+        "A,JD,,2,0.6",
+        "A,JD,,3,0.5",
+        "B,JD,start,0,1.0",
+        "B,JD,,1,0.7"
+      ].join("\n")
+    );
+
+    expect(table.headers).toEqual(["Experiment", "Operator", "Comment", "Time", "Value"]);
+    expect(table.layout).toMatchObject({ headerRows: [0], firstDataRow: 1 });
+    expect(table.rows.map((row) => row.slice(2))).toEqual([
+      ["start", 0, 1],
+      ["stirred", 1, 0.8],
+      [null, 2, 0.6],
+      [null, 3, 0.5],
+      ["start", 0, 1],
+      [null, 1, 0.7]
+    ]);
+    expect(table.sourceRows).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it("keeps a merged XLSX title directly above the header out of the headers", () => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ["Kinetik 25 °C"],
+      ["Zeit", "A", "B"],
+      [0, 100, 0],
+      [2, 80, 20],
+      [4, 64, 36]
+    ]);
+    sheet["!merges"] = [XLSX.utils.decode_range("A1:C1")];
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "Daten");
+    const buffer = XLSX.write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+
+    const [table] = parseXlsxBuffer(buffer);
+
+    expect(table.headers).toEqual(["Zeit", "A", "B"]);
+    expect(table.layout?.headerRows).toEqual([1]);
+    expect(table.metadata).toEqual({ title: "Kinetik 25 °C" });
+  });
+
+  it("reads merged header cells from XLSX and picks up units for mapping", () => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ["Kinetik 25 °C"],
+      [],
+      [null, "Konzentration", null],
+      ["Zeit", "A", "B"],
+      ["(min)", "(µM)", "(µM)"],
+      [0, 100, 0],
+      [2, 80, 20],
+      [4, 64, 36]
+    ]);
+    sheet["!merges"] = [XLSX.utils.decode_range("B3:C3")];
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "Daten");
+    const buffer = XLSX.write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+
+    const [table] = parseXlsxBuffer(buffer);
+
+    expect(table.sheetName).toBe("Daten");
+    expect(table.headers).toEqual([
+      "Zeit [min]",
+      "Konzentration · A [µM]",
+      "Konzentration · B [µM]"
+    ]);
+    const mapping = applyMappingToDataset({
+      table,
+      selection: {
+        firstRowIsHeader: true,
+        timeColumnIndex: 0,
+        valueColumnIndices: [1],
+        experimentColumnIndex: null
+      },
+      fileName: "kinetik.xlsx"
+    });
+    const series = mapping.dataset?.experiments[0].series[0];
+    expect(series?.time).toEqual([0, 2, 4]);
+    expect(series?.meta).toMatchObject({ timeUnit: "min", valueUnit: "µM" });
+  });
+});
@@ -0,0 +1,103 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import { applyMappingToDataset, type MappingSelection } from "../lib/import/mapping";
+import { parseXlsxBuffer } from "../lib/import/parseXlsx";
+import { normalizeTimeToSeconds } from "../lib/import/time";
+import { detectTimestampFormat, excelSerialToIso, parseTimestamp } from "../lib/import/timestamp";
+
+const at = (text: string) => Date.parse(`${text}Z`);
+
+const selection: MappingSelection = {
+  firstRowIsHeader: true,
+  timeColumnIndex: 0,
+  valueColumnIndices: [1],
+  experimentColumnIndex: null
+};
+
+describe("timestamp parsing", () => {
+  it("reads ISO, locale and duration notations", () => {
+    expect(parseTimestamp("2025-03-04 13:05:22", "iso")).toBe(at("2025-03-04T13:05:22"));
+    expect(parseTimestamp("2025-03-04T13:05:22.5+01:00", "iso")).toBe(
+      at("2025-03-04T12:05:22.500")
+    );
+    expect(parseTimestamp("04.03.2025 13:05", "de")).toBe(at("2025-03-04T13:05:00"));
+    expect(parseTimestamp("03/04/2025 1:05:22 PM", "us")).toBe(at("2025-03-04T13:05:22"));
+    expect(parseTimestamp("04/03/2025 13:05", "uk")).toBe(at("2025-03-04T13:05:00"));
+    expect(parseTimestamp("01:30:15", "duration")).toBe(5415);
+    expect(parseTimestamp(45720.5, "excel-serial")).toBe(at("2025-03-04T12:00:00"));
+  });
+
+  it("rejects impossible dates instead of rolling them over", () => {
+    expect(parseTimestamp("31.02.2025", "de")).toBeNull();
+    expect(parseTimestamp("2025-13-01", "iso")).toBeNull();
+    expect(parseTimestamp("00:75:00", "duration")).toBeNull();
+  });
+
+  it("detects the format of a column", () => {
+    expect(detectTimestampFormat([0, "1,5", 3])).toBe("numeric");
+    expect(detectTimestampFormat(["2025-03-04 13:05:22", null, "2025-03-04 13:06:22"])).toBe("iso");
+    expect(detectTimestampFormat(["04.03.2025 13:05", "04.03.2025 13:06"])).toBe("de");
+    expect(detectTimestampFormat(["03/04/2025 13:05", "03/05/2025 13:05"])).toBe("us");
+    expect(detectTimestampFormat(["12/03/2025 13:05", "13/03/2025 13:05"])).toBe("uk");
+    expect(detectTimestampFormat(["00:00:00", "00:05:00"])).toBe("duration");
+  });
+
+  it("maps PLC datetime logs to relative seconds", () => {
+    const result = applyMappingToDataset({
+      table: {
+        headers: ["Zeitstempel", "T"],
+        rows: [
+          ["04.03.2025 13:05:00", 20.1],
+          ["04.03.2025 13:06:30", 20.4],
+          ["04.03.2025 13:10:00", 21]
+        ]
+      },
+      selection,
+      fileName: "plc.csv"
+    });
+    expect(result.errors).toEqual([]);
+    const series = result.dataset?.experiments[0].series[0];
+    expect(series?.meta).toMatchObject({ timeType: "datetime", timeFormat: "de" });
+    expect(normalizeTimeToSeconds({ time: series?.time ?? [], timeType: "datetime" })).toEqual([
+      0, 90, 300
+    ]);
+  });
+
+  it("reports rows that do not match the detected format", () => {
+    const result = applyMappingToDataset({
+      table: {
+        headers: ["Zeit", "A"],
+        rows: [
+          ["2025-03-04 13:05:00", 1],
+          ["2025-03-04 13:06:00", 0.9],
+          ["gestoppt", 0.8]
+        ]
+      },
+      selection,
+      fileName: "run.csv"
+    });
+    expect(result.dataset).toBeNull();
+    expect(result.errors[0]).toMatchObject({ rowIndex: 3 });
+    expect(result.errors[0].message).toContain("ISO 8601");
+  });
+
+  it("turns date-formatted XLSX cells into ISO timestamps", () => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ["Zeit", "A"],
+      [45720.5, 1],
+      [45720.50069444444, 0.9]
+    ]);
+    sheet.A2.z = "dd.mm.yyyy hh:mm";
+    sheet.A3.z = "dd.mm.yyyy hh:mm";
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "Log");
+    const buffer = XLSX.write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+
+    const [table] = parseXlsxBuffer(buffer);
+    expect(table.rows.map((row) => row[0])).toEqual([
+      excelSerialToIso(45720.5),
+      "2025-03-04T12:01:00"
+    ]);
+    expect(table.rows[0][1]).toBe(1);
+  });
+});
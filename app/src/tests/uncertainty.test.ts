@@ -0,0 +1,244 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { DatasetFitRecord } from "../types/fitting";
+import type { Experiment, Series } from "../lib/import/types";
+import {
+  attachUncertainty,
+  mergeFitRecords,
+  toFitRecord,
+  toGlobalFitRecord,
+  toMechanismFitRecord
+} from "../lib/fitting/fitRecords";
+import { fitRateLaw, getFitPoints } from "../lib/fitting/fitSeries";
+import { fitGlobal } from "../lib/fitting/globalFit";
+import { fitMechanism, parseMechanism } from "../lib/fitting/mechanism";
+import {
+  analyseFitUncertainty,
+  createRandom,
+  toCorrelationMatrix
+} from "../lib/fitting/uncertainty";
+import { runUncertaintyAnalysis, startUncertaintyAnalysis } from "../lib/fitting/uncertaintyClient";
+
+const time = Array.from({ length: 15 }, (_, index) => index * 20);
+const random = createRandom(7);
+const series: Series = {
+  id: "series-1",
+  name: "A",
+  time,
+  y: time.map((t) => Math.exp(-0.01 * t) + (random() - 0.5) * 0.02),
+  meta: { timeType: "numeric" }
+};
+
+describe("fit uncertainty", () => {
+  it("derives correlations from a covariance matrix", () => {
+    const correlation = toCorrelationMatrix([
+      [4, 2],
+      [2, 9]
+    ]);
+    expect(correlation?.[0][1]).toBeCloseTo(2 / 6, 10);
+    expect(correlation?.[1][1]).toBeCloseTo(1, 10);
+    expect(toCorrelationMatrix(null)).toBeNull();
+  });
+
+  it("brackets the estimate with bootstrap and profile intervals", () => {
+    const fit = fitRateLaw(series, "first-order");
+    const result = analyseFitUncertainty({
+      kind: "rate-law",
+      modelId: "first-order",
+      points: getFitPoints(series),
+      fit,
+      bootstrapIterations: 100
+    });
+
+    expect(result.bootstrap.successful).toBeGreaterThan(90);
+    const k = fit.parameters.k;
+    const bootstrapK = result.bootstrap.intervals.k;
+    const profileK = result.profile.intervals.k;
+    expect(bootstrapK.lower).toBeLessThan(k);
+    expect(bootstrapK.upper).toBeGreaterThan(k);
+    expect(profileK.lower).toBeLessThan(k);
+    expect(profileK.upper).toBeGreaterThan(k);
+    // The profile interval should be of the same size as ±1.96·SE.
+    const width = (profileK.upper ?? 0) - (profileK.lower ?? 0);
+    expect(width / (2 * 1.96 * (fit.standardErrors.k ?? 1))).toBeCloseTo(1, 0);
+    expect(result.correlation?.[0][1]).toBeGreaterThan(0);
+  });
+
+  it("is reproducible for a fixed seed and runs without a worker", async () => {
+    const fit = fitRateLaw(series, "first-order");
+    const request = {
+      kind: "rate-law" as const,
+      modelId: "first-order" as const,
+      points: getFitPoints(series),
+      fit,
+      bootstrapIterations: 20,
+      seed: 42
+    };
+    const first = await runUncertaintyAnalysis(request);
+    const second = analyseFitUncertainty(request);
+    expect(first.bootstrap.intervals).toEqual(second.bootstrap.intervals);
+  });
+
+  it("covers the shared parameters of a global fit", () => {
+    const members = [1, 0.5].map((c0, index) => ({
+      experimentId: `exp-${index + 1}`,
+      label: `Run ${index + 1}`,
+      series: {
+        ...series,
+        id: `series-${index + 1}`,
+        y: time.map((t) => c0 * Math.exp(-0.01 * t) + (random() - 0.5) * 0.02)
+      }
+    }));
+    const sharing = { k: "shared" as const, c0: "local" as const };
+    const fit = fitGlobal({ modelId: "first-order", members, sharing });
+    const result = analyseFitUncertainty({
+      kind: "global",
+      modelId: "first-order",
+      members: members.map((member) => ({
+        label: member.label,
+        points: getFitPoints(member.series)
+      })),
+      sharing,
+      fit,
+      bootstrapIterations: 50
+    });
+
+    expect(Object.keys(result.bootstrap.intervals)).toEqual(["k", "c0 · Run 1", "c0 · Run 2"]);
+    const k = fit.parameters.k;
+    expect(result.bootstrap.intervals.k.lower).toBeLessThan(k);
+    expect(result.bootstrap.intervals.k.upper).toBeGreaterThan(k);
+    expect(result.profile.intervals.k.lower).toBeLessThan(k);
+    expect(result.profile.intervals.k.upper).toBeGreaterThan(k);
+  });
+
+  it("reports mechanism intervals on the rate constants, not their logarithms", () => {
+    const values = time.map((t) => Math.exp(-0.01 * t));
+    const experiment: Experiment = {
+      experimentId: "exp-1",
+      name: "Run 1",
+      metaRaw: {},
+      series: [
+        { ...series, id: "a", y: values.map((value) => value + (random() - 0.5) * 0.02) },
+        { ...series, id: "b", y: values.map((value) => 1 - value + (random() - 0.5) * 0.02) }
+      ]
+    };
+    const input = {
+      mechanism: parseMechanism("A -> B"),
+      experiment,
+      speciesSeries: { A: "a", B: "b" }
+    };
+    const fit = fitMechanism(input);
+    const result = analyseFitUncertainty({
+      kind: "mechanism",
+      ...input,
+      fit,
+      bootstrapIterations: 10
+    });
+
+    const k1 = fit.parameters.k1;
+    expect(k1).toBeCloseTo(0.01, 2);
+    expect(result.bootstrap.intervals.k1.lower).toBeLessThan(k1);
+    expect(result.bootstrap.intervals.k1.upper).toBeGreaterThan(k1);
+    expect(result.profile.intervals.k1.lower).toBeLessThan(k1);
+    expect(result.profile.intervals.k1.upper).toBeGreaterThan(k1);
+  });
+
+  it("drops a result whose fit was refitted while it ran", () => {
+    const fit = fitRateLaw(series, "first-order");
+    const records: DatasetFitRecord[] = [toFitRecord("exp-1", fit)];
+    const uncertainty = analyseFitUncertainty({
+      kind: "rate-law",
+      modelId: "first-order",
+      points: getFitPoints(series),
+      fit,
+      bootstrapIterations: 5
+    });
+
+    const stale = attachUncertainty(records, records[0].id, uncertainty, {
+      ...fit.parameters,
+      k: fit.parameters.k * 1.1
+    });
+    expect(stale[0].uncertainty).toBeUndefined();
+    const current = attachUncertainty(records, records[0].id, uncertainty, fit.parameters);
+    expect(current[0].uncertainty).toBe(uncertainty);
+  });
+
+  it("keeps global and mechanism results on their fit records", () => {
+    const members = [1, 0.5].map((c0, index) => ({
+      experimentId: `exp-${index + 1}`,
+      label: `Run ${index + 1}`,
+      series: { ...series, id: `series-${index + 1}`, y: series.y.map((value) => value * c0) }
+    }));
+    const globalFit = fitGlobal({
+      modelId: "first-order",
+      members,
+      sharing: { k: "shared", c0: "local" }
+    });
+    const group = { id: "g-1", name: "25 °C", color: "#000", experimentIds: ["exp-1", "exp-2"] };
+    const globalRecord = toGlobalFitRecord(group, globalFit);
+    expect(globalRecord).toMatchObject({ kind: "global", label: "25 °C", seriesId: "" });
+    expect(globalRecord.standardErrors.k).toBeGreaterThan(0);
+
+    const experiment: Experiment = {
+      experimentId: "exp-1",
+      name: "Run 1",
+      metaRaw: {},
+      series: [
+        { ...series, id: "a" },
+        { ...series, id: "b", y: series.y.map((value) => 1 - value) }
+      ]
+    };
+    const mechanismFit = fitMechanism({
+      mechanism: parseMechanism("A -> B"),
+      experiment,
+      speciesSeries: { A: "a", B: "b" }
+    });
+    const mechanismRecord = toMechanismFitRecord("exp-1", "Run 1", mechanismFit);
+    const uncertainty = analyseFitUncertainty({
+      kind: "rate-law",
+      modelId: "first-order",
+      points: getFitPoints(series),
+      fit: fitRateLaw(series, "first-order"),
+      bootstrapIterations: 5
+    });
+    const stored = [globalRecord, mechanismRecord].reduce(
+      (records, record) => attachUncertainty(records, record.id, uncertainty, record.parameters),
+      [globalRecord, mechanismRecord]
+    );
+
+    // Refitting the rate laws and groups must not drop the mechanism fit or the global result.
+    const merged = mergeFitRecords(stored, [toGlobalFitRecord(group, globalFit)]);
+    expect(merged.map((record) => record.kind)).toEqual(["global", "mechanism"]);
+    expect(merged.every((record) => record.uncertainty === uncertainty)).toBe(true);
+  });
+});
+
+describe("uncertainty worker client", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("terminates the worker of a cancelled analysis", async () => {
+    const terminate = vi.fn();
+    vi.stubGlobal(
+      "Worker",
+      class {
+        onmessage: unknown = null;
+        onerror: unknown = null;
+        postMessage() {}
+        terminate = terminate;
+      }
+    );
+    const job = startUncertaintyAnalysis({
+      kind: "rate-law",
+      modelId: "first-order",
+      points: getFitPoints(series),
+      fit: fitRateLaw(series, "first-order")
+    });
+    job.terminate();
+
+    await expect(job.result).rejects.toThrow("cancelled");
+    expect(terminate).toHaveBeenCalledTimes(1);
+    job.terminate();
+    expect(terminate).toHaveBeenCalledTimes(1);
+  });
+});
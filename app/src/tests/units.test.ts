@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { fitRateLaw } from "../lib/fitting/fitSeries";
+import { getRateLawParameterUnits } from "../lib/fitting/rateLaws";
+import { applyMappingToDataset, type MappingSelection } from "../lib/import/mapping";
+import type { RawTable } from "../lib/import/types";
+import { getFitConcentrationLabel } from "../lib/units/seriesUnits";
+import { convertValue, detectHeaderUnit, getUnit, parseUnit } from "../lib/units/units";
+
+const buildTable = (timeHeader: string, scale: number, valueHeader = "A [mM]"): RawTable => ({
+  headers: [timeHeader, valueHeader],
+  rows: [0, 60, 120, 180, 240, 300].map((seconds) => [
+    seconds / scale,
+    5 * Math.exp(-0.01 * seconds)
+  ])
+});
+
+const mapTable = (table: RawTable, overrides: Partial<MappingSelection> = {}) => {
+  const result = applyMappingToDataset({
+    table,
+    selection: {
+      firstRowIsHeader: true,
+      timeColumnIndex: 0,
+      valueColumnIndices: [1],
+      experimentColumnIndex: null,
+      ...overrides
+    },
+    fileName: "run.csv"
+  });
+  const series = result.dataset?.experiments[0]?.series[0];
+  if (!series) {
+    throw new Error("mapping failed");
+  }
+  return series;
+};
+
+describe("units", () => {
+  it("detects units in common header notations", () => {
+    expect(detectHeaderUnit("t [min]", "time")?.id).toBe("min");
+    expect(detectHeaderUnit("Zeit (h)", "time")?.id).toBe("h");
+    expect(detectHeaderUnit("c / mmol·L⁻¹", "concentration")?.id).toBe("mM");
+    expect(detectHeaderUnit("time in s")?.id).toBe("s");
+    expect(detectHeaderUnit("Absorbance")).toBeNull();
+    expect(parseUnit("MM")).toBeNull();
+  });
+
+  it("converts between units of one dimension only", () => {
+    expect(convertValue(90, getUnit("min")!, getUnit("h")!)).toBeCloseTo(1.5);
+    expect(convertValue(250, getUnit("µM")!, getUnit("mM")!)).toBeCloseTo(0.25);
+    expect(() => convertValue(1, getUnit("s")!, getUnit("M")!)).toThrow("Cannot convert");
+  });
+
+  it("labels rate constants by reaction order", () => {
+    expect(getRateLawParameterUnits("zero-order", "M").k).toBe("M·s⁻¹");
+    expect(getRateLawParameterUnits("first-order", "M").k).toBe("s⁻¹");
+    expect(getRateLawParameterUnits("second-order", "M").k).toBe("M⁻¹·s⁻¹");
+  });
+
+  it("stores detected units on the series and honours overrides", () => {
+    const series = mapTable(buildTable("t [min]", 60));
+    expect(series.meta).toMatchObject({ timeUnit: "min", valueUnit: "mM" });
+    expect(getFitConcentrationLabel(series)).toBe("M");
+    expect(getFitConcentrationLabel(mapTable(buildTable("t", 1, "A")))).toBe("a.u.");
+    const overridden = mapTable(buildTable("t [min]", 60), { timeUnit: "s", valueUnit: "µM" });
+    expect(overridden.meta).toMatchObject({ timeUnit: "s", valueUnit: "µM" });
+  });
+
+  it("fits the same rate constant regardless of the time unit", () => {
+    const seconds = fitRateLaw(mapTable(buildTable("t [s]", 1)), "first-order");
+    const minutes = fitRateLaw(mapTable(buildTable("t [min]", 60)), "first-order");
+    const hours = fitRateLaw(mapTable(buildTable("Zeit (h)", 3600)), "first-order");
+    expect(seconds.parameters.k).toBeCloseTo(0.01, 6);
+    expect(minutes.parameters.k).toBeCloseTo(seconds.parameters.k, 8);
+    expect(hours.parameters.k).toBeCloseTo(seconds.parameters.k, 8);
+    expect(minutes.parameters.c0).toBeCloseTo(0.005, 8);
+  });
+});
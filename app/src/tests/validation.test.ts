@@ -2,14 +2,26 @@ import { describe, expect, it } from "vitest";
 import type { Dataset, Experiment, Series } from "../lib/import/types";
 import { ensureMetaRaw } from "../lib/import/types";
 import {
+  checkBaselineDrift,
   checkConstantSignal,
+  checkDetectorSaturation,
+  checkMassBalance,
   checkNanOrNonNumeric,
   checkNegativeValues,
   checkNoExperiments,
+  checkOutliers,
+  checkReactantRising,
+  checkSamplingGap,
   checkTimeDuplicates,
   checkTimeNotMonotonic,
-  checkTooFewPoints
+  checkTimeZeroMissing,
+  checkTooFewPoints,
+  estimateHalfLife,
+  findOutlierIndices,
+  generateImportValidationReport
 } from "../lib/import/validation";
+import type { ValidationProfileId } from "../lib/import/validationProfiles";
+import { setSeriesRole } from "../lib/import/seriesRole";
 import { normalizeTimeToSeconds, type TimeColumnType } from "../lib/import/time";
 
 const buildSeries = (overrides: Partial<Series> = {}): Series => ({
@@ -107,4 +119,124 @@ describe("import validation checks", () => {
     expect(finding?.code).toBe("NO_EXPERIMENTS");
     expect(finding?.severity).toBe("error");
   });
+
+  it("flags single points that leave the curve", () => {
+    const time = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+    const smooth = time.map((t) => Math.exp(-0.3 * t));
+    expect(findOutlierIndices(smooth)).toEqual([]);
+
+    const y = [...smooth];
+    y[4] = 0.9;
+    const series = buildSeries({ time, y });
+    const finding = checkOutliers(series, buildExperiment([series]));
+    expect(finding?.code).toBe("OUTLIER_POINTS");
+    expect(finding?.details?.outlierIndices).toEqual([4]);
+    expect(checkOutliers(buildSeries(), buildExperiment([buildSeries()]))).toBeNull();
+  });
+});
+
+describe("kinetic plausibility checks", () => {
+  const time = Array.from({ length: 21 }, (_, index) => index * 5);
+  const reactant = setSeriesRole(
+    buildSeries({ id: "A", name: "A", time, y: time.map((t) => Math.exp(-0.05 * t)) }),
+    "reactant"
+  );
+
+  it("flags a declared reactant whose concentration rises", () => {
+    const rising = { ...reactant, y: [...reactant.y].reverse() };
+    expect(checkReactantRising(rising, buildExperiment([rising]))?.code).toBe("REACTANT_RISING");
+    expect(checkReactantRising(reactant, buildExperiment([reactant]))).toBeNull();
+    const undeclared = setSeriesRole(rising, null);
+    expect(checkReactantRising(undeclared, buildExperiment([undeclared]))).toBeNull();
+  });
+
+  it("checks the mass balance of reactants and products", () => {
+    const product = (share: number) =>
+      setSeriesRole(
+        buildSeries({ id: "B", name: "B", time, y: reactant.y.map((y) => share * (1 - y)) }),
+        "product"
+      );
+    expect(checkMassBalance(buildExperiment([reactant, product(1)]))).toBeNull();
+    const finding = checkMassBalance(buildExperiment([reactant, product(0.5)]));
+    expect(finding?.code).toBe("MASS_BALANCE");
+    expect(finding?.seriesId).toBeUndefined();
+    expect(finding?.details?.balanceDeviation).toBeGreaterThan(0.15);
+  });
+
+  it("flags sampling gaps longer than the half-life", () => {
+    expect(estimateHalfLife(reactant)).toBeCloseTo(13.9, 0);
+    expect(checkSamplingGap(reactant, buildExperiment([reactant]))).toBeNull();
+
+    const sparseTime = [0, 40, 80, 120, 160];
+    const sparse = buildSeries({ time: sparseTime, y: sparseTime.map((t) => Math.exp(-0.05 * t)) });
+    const finding = checkSamplingGap(sparse, buildExperiment([sparse]));
+    expect(finding?.code).toBe("SAMPLING_GAP");
+    expect(finding?.details?.maxGap).toBe(40);
+  });
+
+  it("flags identical readings at the detector limit", () => {
+    const series = buildSeries({
+      time: [0, 1, 2, 3, 4, 5, 6],
+      y: [2.5, 2.5, 2.5, 2.1, 1.6, 1.0, 0.6]
+    });
+    const finding = checkDetectorSaturation(series, buildExperiment([series]));
+    expect(finding?.code).toBe("DETECTOR_SATURATION");
+    expect(finding?.details?.plateauCount).toBe(3);
+    expect(checkDetectorSaturation(reactant, buildExperiment([reactant]))).toBeNull();
+  });
+
+  it("flags series without a point at time zero", () => {
+    const late = buildSeries({ time: [2, 4, 6, 8, 10] });
+    expect(checkTimeZeroMissing(late, buildExperiment([late]))?.code).toBe("TIME_ZERO_MISSING");
+    expect(checkTimeZeroMissing(reactant, buildExperiment([reactant]))).toBeNull();
+    // Clock-time offsets are reported as TIME_OFFSET instead.
+    const offset = buildSeries({ time: [60, 65, 70, 75, 80] });
+    expect(checkTimeZeroMissing(offset, buildExperiment([offset]))).toBeNull();
+  });
+
+  it("flags a baseline that keeps drifting after the reaction", () => {
+    const driftTime = Array.from({ length: 40 }, (_, index) => index);
+    const clean = buildSeries({ time: driftTime, y: driftTime.map((t) => Math.exp(-0.2 * t)) });
+    expect(checkBaselineDrift(clean, buildExperiment([clean]))).toBeNull();
+    expect(checkBaselineDrift(reactant, buildExperiment([reactant]))).toBeNull();
+
+    const drifting = { ...clean, y: clean.y.map((y, index) => y + 0.005 * driftTime[index]) };
+    const finding = checkBaselineDrift(drifting, buildExperiment([drifting]));
+    expect(finding?.code).toBe("BASELINE_DRIFT");
+    expect(finding?.details?.driftChange).toBeGreaterThan(0);
+  });
+});
+
+describe("validation profiles", () => {
+  const buildDataset = (series: Series[]): Dataset => ({
+    id: "dataset-1",
+    name: "Profiles",
+    createdAt: new Date().toISOString(),
+    experiments: [buildExperiment(series)],
+    audit: []
+  });
+  const codesOf = (dataset: Dataset, profileId?: ValidationProfileId) =>
+    generateImportValidationReport(dataset, profileId).experimentSummaries[0].findings.map(
+      (finding) => `${finding.code}:${finding.severity}`
+    );
+
+  it("switches checks off and changes severities per profile", () => {
+    const dataset = buildDataset([
+      buildSeries({ time: [0, 1, 2, 3, 4, 5], y: [0.8, 0.5, 0.3, 0.1, -0.02, -0.03] })
+    ]);
+
+    expect(codesOf(dataset)).toContain("NEGATIVE_VALUES:info");
+    expect(codesOf(dataset, "hplc-concentration")).toContain("NEGATIVE_VALUES:warn");
+    expect(codesOf(dataset, "uvvis-absorbance")).not.toContain("NEGATIVE_VALUES:info");
+  });
+
+  it("applies profile thresholds and records the profile in the report", () => {
+    const dataset = buildDataset([buildSeries({ time: [0, 1, 2, 3, 4, 5] })]);
+    expect(codesOf(dataset)).not.toContain("TOO_FEW_POINTS:warn");
+    expect(codesOf(dataset, "uvvis-absorbance")).toContain("TOO_FEW_POINTS:warn");
+
+    const report = generateImportValidationReport(dataset, "conversion-percent");
+    expect(report.profile).toEqual({ id: "conversion-percent", label: "Umsatz in %" });
+    expect(generateImportValidationReport(dataset).profile?.id).toBe("default");
+  });
 });
@@ -0,0 +1,92 @@
+export type ParameterInterval = {
+  lower: number | null;
+  upper: number | null;
+};
+
+export type FitUncertainty = {
+  confidence: number;
+  parameterNames: string[];
+  bootstrap: {
+    iterations: number;
+    successful: number;
+    seed: number;
+    standardErrors: Record<string, number | null>;
+    intervals: Record<string, ParameterInterval>;
+    correlation: number[][] | null;
+  };
+  /** Likelihood-ratio intervals; a null bound means the profile never crossed the threshold. */
+  profile: {
+    intervals: Record<string, ParameterInterval>;
+  };
+  /** Correlation matrix from the asymptotic covariance (JᵀJ)⁻¹. */
+  correlation: number[][] | null;
+};
+
+export type DatasetFitRecord = {
+  id: string;
+  /** Absent for single-series rate-law fits, which older project files hold. */
+  kind?: "global" | "mechanism";
+  /** The group id for global fits. */
+  experimentId: string;
+  /** Empty for fits over several series. */
+  seriesId: string;
+  /** Rate law, or the formatted mechanism for mechanism fits. */
+  modelId: string;
+  /** Names fits over several series, e.g. the group name. */
+  label?: string;
+  parameters: Record<string, number>;
+  standardErrors: Record<string, number | null>;
+  rSquared: number;
+  sse: number;
+  pointCount: number;
+  computedAt: string;
+  uncertainty?: FitUncertainty;
+};
+
+export type RateConstantPoint = {
+  experimentId: string;
+  experimentName: string;
+  temperatureK: number;
+  k: number;
+};
+
+export type EstimatedQuantity = {
+  value: number;
+  standardError: number | null;
+  lower: number | null;
+  upper: number | null;
+};
+
+export type ArrheniusResult = {
+  points: RateConstantPoint[];
+  confidence: number;
+  /** Activation energy in J/mol. */
+  activationEnergy: EstimatedQuantity;
+  /** Pre-exponential factor in the unit of k. */
+  preExponentialFactor: EstimatedQuantity;
+  rSquared: number;
+  degreesOfFreedom: number;
+};
+
+export type EyringResult = {
+  points: RateConstantPoint[];
+  confidence: number;
+  /** ΔH‡ in J/mol. */
+  enthalpyOfActivation: EstimatedQuantity;
+  /** ΔS‡ in J/(mol·K). */
+  entropyOfActivation: EstimatedQuantity;
+  rSquared: number;
+  degreesOfFreedom: number;
+};
+
+/** Temperature analysis over the k of one rate law, as stored with the dataset. */
+export type DatasetArrheniusRecord = {
+  modelId: string;
+  temperatureKey: string;
+  arrhenius: ArrheniusResult;
+  /** Only for first-order k, the one rate law whose k is in s⁻¹. */
+  eyring: EyringResult | null;
+  /** Experiments without a usable fit of the rate law or without a temperature. */
+  leftOut: string[];
+  computedAt: string;
+};
@@ -0,0 +1,6 @@
+export type ExperimentGroup = {
+  id: string;
+  name: string;
+  color: string;
+  experimentIds: string[];
+};